@@ -1,19 +1,42 @@
 import { useState, useEffect, useCallback } from 'react';
-import { getParties } from './api/client';
-import type { Party } from './api/types';
+import {
+  getParties,
+  getPartyByJoinCode,
+  archiveParty,
+  getUserBankroll,
+  rebuy,
+  getGuests,
+  joinParty,
+  claimGuestName,
+  startHostSession,
+  endHostSession,
+  getHostRole,
+  getSetupState
+} from './api/client';
+import type { Party, Guest, UserBankroll, SetupState, HostRole } from './api/types';
 import { BetList } from './components/BetList';
 import { SettlementDisplay } from './components/SettlementDisplay';
 import { PinEntry } from './components/PinEntry';
 import { CreatePartyForm } from './components/CreatePartyForm';
 import { CreateBetForm } from './components/CreateBetForm';
+import { MergeGuestsForm } from './components/MergeGuestsForm';
+import { SetupWizard } from './components/SetupWizard';
+import { CoHostsForm } from './components/CoHostsForm';
+import { CoHostCodeEntry } from './components/CoHostCodeEntry';
+import { InviteScreen } from './components/InviteScreen';
 import { useSocket } from './hooks/useSocket';
+import { formatMoney } from './utils/currency';
 import styles from './App.module.css';
 
-type TabView = 'open' | 'closed' | 'settled' | 'summary';
+type TabView = 'open' | 'closed' | 'settled' | 'void' | 'summary';
 
 function App() {
-  const [, setParties] = useState<Party[]>([]);
-  const [activeParty, setActiveParty] = useState<Party | null>(null);
+  const [parties, setParties] = useState<Party[]>([]);
+  const [selectedPartyId, setSelectedPartyId] = useState<number | null>(() => {
+    // Several parties can run at once - remember which one this device was looking at
+    const stored = localStorage.getItem('selectedPartyId');
+    return stored ? Number(stored) : null;
+  });
   const [loading, setLoading] = useState(true);
   const [currentUser, setCurrentUser] = useState<string | null>(() => {
     // Load from localStorage if available
@@ -24,27 +47,37 @@ function App() {
     const stored = localStorage.getItem('recentUserNames');
     return stored ? JSON.parse(stored) : [];
   });
+  const [guestPin, setGuestPin] = useState<string | null>(() => {
+    // Kept for this tab only - the PIN unlocks a protected name for wagers and new bets
+    return sessionStorage.getItem('guestPin');
+  });
+  const [currentGuest, setCurrentGuest] = useState<Guest | null>(null);
+  const [guestPinPrompt, setGuestPinPrompt] = useState<{ name: string; mode: 'enter' | 'claim' } | null>(null);
+  const [userError, setUserError] = useState<string | null>(null);
+  const [bankroll, setBankroll] = useState<UserBankroll | null>(null);
   const [activeTab, setActiveTab] = useState<TabView>('open');
   const [showUserInput, setShowUserInput] = useState(false);
   const [userNameInput, setUserNameInput] = useState('');
 
   // Host mode state
-  const [isHostMode, setIsHostMode] = useState(false);
-  const [hostPin, setHostPin] = useState<string | null>(null);
+  const [hostRole, setHostRole] = useState<HostRole | null>(getHostRole);
+  const isHostMode = hostRole === 'host';
+  const isCoHost = hostRole === 'co_host';
   const [showPinEntry, setShowPinEntry] = useState(false);
   const [showCreateParty, setShowCreateParty] = useState(false);
   const [showCreateBet, setShowCreateBet] = useState(false);
+  const [showMergeGuests, setShowMergeGuests] = useState(false);
+  const [showCoHosts, setShowCoHosts] = useState(false);
+  const [showCoHostEntry, setShowCoHostEntry] = useState(false);
+  const [showInvite, setShowInvite] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [setupState, setSetupState] = useState<SetupState | null>(null);
 
   // Fetch parties
   const fetchParties = useCallback(async () => {
     try {
       setLoading(true);
-      const data = await getParties();
-      setParties(data);
-
-      // Set active party
-      const active = data.find(p => p.status === 'active');
-      setActiveParty(active || null);
+      setParties(await getParties());
     } catch (error) {
       console.error('Error fetching parties:', error);
     } finally {
@@ -56,17 +89,101 @@ function App() {
     fetchParties();
   }, [fetchParties]);
 
+  // The party being shown - the one picked on this device, or the newest active one
+  const activeParties = parties.filter(p => p.status === 'active');
+  const currentParty = activeParties.find(p => p.id === selectedPartyId) ?? activeParties[0] ?? null;
+
+  const selectParty = (partyId: number) => {
+    setSelectedPartyId(partyId);
+    localStorage.setItem('selectedPartyId', String(partyId));
+  };
+
+  // Invite links and QR codes open /join/:code - switch to that party, then tidy the URL
+  useEffect(() => {
+    const match = window.location.pathname.match(/^\/join\/([^/]+)\/?$/);
+    if (!match) return;
+
+    window.history.replaceState(null, '', '/');
+    getPartyByJoinCode(decodeURIComponent(match[1]))
+      .then(party => selectParty(party.id))
+      .catch(error => setJoinError(error instanceof Error ? error.message : 'Failed to join party'));
+  }, []);
+
+  // First run - no host PIN yet, so the setup wizard takes over
+  useEffect(() => {
+    getSetupState()
+      .then(setSetupState)
+      .catch(error => console.error('Error fetching setup state:', error));
+  }, []);
+
+  // Fetch the current user's remaining bankroll (only shown when the party has one)
+  const fetchBankroll = useCallback(async () => {
+    if (!currentUser || !currentParty) {
+      setBankroll(null);
+      return;
+    }
+
+    try {
+      setBankroll(await getUserBankroll(currentParty.id, currentUser));
+    } catch (error) {
+      console.error('Error fetching bankroll:', error);
+    }
+  }, [currentUser, currentParty]);
+
+  useEffect(() => {
+    fetchBankroll();
+  }, [fetchBankroll]);
+
+  // Look up the current user on the party's roster (to know whether their name has a PIN)
+  const fetchCurrentGuest = useCallback(async () => {
+    if (!currentUser || !currentParty) {
+      setCurrentGuest(null);
+      return;
+    }
+
+    try {
+      const roster = await getGuests(currentParty.id);
+      const key = currentUser.trim().toLowerCase();
+      setCurrentGuest(roster.find(g => g.name.toLowerCase() === key) ?? null);
+    } catch (error) {
+      console.error('Error fetching guests:', error);
+    }
+  }, [currentUser, currentParty]);
+
+  useEffect(() => {
+    fetchCurrentGuest();
+  }, [fetchCurrentGuest]);
+
   // WebSocket connection for party updates
   useSocket({
-    partyId: activeParty?.id,
+    partyId: currentParty?.id,
     handlers: {
       onPartyCreated: () => {
         console.log('[App] New party created');
         fetchParties();
-      }
+      },
+      // Wagers, voids, settlements and undone settlements all move the bankroll
+      onWagerPlaced: () => fetchBankroll(),
+      onWagerCancelled: () => fetchBankroll(),
+      onBetUpdated: () => fetchBankroll(),
+      onSettlementComplete: () => fetchBankroll(),
+      onRebuy: () => fetchBankroll(),
+      onGuestUpdated: () => fetchCurrentGuest()
     }
   });
 
+  // Take a fresh chip stack after busting (chips parties that allow rebuys)
+  const handleRebuy = async () => {
+    if (!currentUser || !currentParty) return;
+
+    try {
+      setBankroll(await rebuy(currentParty.id, currentUser));
+    } catch (error) {
+      console.error('Error rebuying:', error);
+      fetchBankroll();
+    }
+  };
+
   const handleUserWagerPlaced = (userName: string) => {
     // Add to recent names if not already there
     if (!recentUserNames.includes(userName)) {
@@ -76,47 +193,130 @@ function App() {
     }
   };
 
-  const handleSetCurrentUser = () => {
-    const trimmed = userNameInput.trim();
-    if (trimmed) {
-      setCurrentUser(trimmed);
-      localStorage.setItem('currentUser', trimmed);
+  // Join the party's roster - the server hands back the name as first entered,
+  // so "alice " and "Alice" end up as the same guest
+  const joinAs = async (name: string, pin?: string) => {
+    if (!currentParty) return;
+
+    try {
+      const guest = await joinParty(currentParty.id, pin ? { name, pin } : { name });
+      setCurrentGuest(guest);
+      setCurrentUser(guest.name);
+      localStorage.setItem('currentUser', guest.name);
+      if (pin) {
+        setGuestPin(pin);
+        sessionStorage.setItem('guestPin', pin);
+      }
       setShowUserInput(false);
       setUserNameInput('');
+      setUserError(null);
+      setGuestPinPrompt(null);
 
       // Add to recent names
-      handleUserWagerPlaced(trimmed);
+      handleUserWagerPlaced(guest.name);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to join party';
+      if (!pin && message.includes('PIN-protected')) {
+        setGuestPinPrompt({ name, mode: 'enter' });
+      } else {
+        setGuestPinPrompt(null);
+        setUserError(message);
+      }
+    }
+  };
+
+  const handleSetCurrentUser = () => {
+    const trimmed = userNameInput.trim();
+    if (trimmed) {
+      joinAs(trimmed);
+    }
+  };
+
+  // Protect the current user's name so nobody else can bet as them
+  const handleClaimName = async (pin: string) => {
+    if (!currentParty || !currentGuest) return;
+
+    try {
+      setCurrentGuest(await claimGuestName(currentParty.id, currentGuest.id, pin));
+      setGuestPin(pin);
+      sessionStorage.setItem('guestPin', pin);
+    } catch (error) {
+      console.error('Error claiming name:', error);
+      fetchCurrentGuest();
+    } finally {
+      setGuestPinPrompt(null);
+    }
+  };
+
+  const handleGuestPinSuccess = (pin: string) => {
+    if (guestPinPrompt?.mode === 'claim') {
+      handleClaimName(pin);
+    } else if (guestPinPrompt) {
+      joinAs(guestPinPrompt.name, pin);
     }
   };
 
   const handleClearCurrentUser = () => {
     setCurrentUser(null);
+    setCurrentGuest(null);
+    setGuestPin(null);
     localStorage.removeItem('currentUser');
+    sessionStorage.removeItem('guestPin');
     setShowUserInput(true);
     setUserNameInput('');
   };
 
   // Host mode handlers
   const handleHostModeToggle = () => {
-    if (isHostMode) {
-      // Exit host mode
-      setIsHostMode(false);
-      setHostPin(null);
+    if (hostRole) {
+      // Exit host (or co-host) mode
+      setHostRole(null);
+      endHostSession().catch(err => console.error('Error ending host session:', err));
     } else {
       // Enter host mode - show PIN entry
       setShowPinEntry(true);
     }
   };
 
-  const handlePinSuccess = (pin: string) => {
-    setHostPin(pin);
-    setIsHostMode(true);
+  // A wrong PIN throws, and PinEntry shows the error
+  const handlePinSuccess = async (pin: string) => {
+    await startHostSession(pin);
+    setHostRole('host');
     setShowPinEntry(false);
   };
 
+  const handleCoHostSuccess = () => {
+    setHostRole('co_host');
+    setShowCoHostEntry(false);
+  };
+
   const handleCreatePartySuccess = (party: Party) => {
     setShowCreateParty(false);
-    setActiveParty(party);
+    selectParty(party.id);
+    fetchParties();
+  };
+
+  // End the party being shown - it drops out of the picker, and its bets and results stay readable
+  const handleArchiveParty = async () => {
+    if (!currentParty || !window.confirm(`Archive ${currentParty.name}? No new bets can be made there.`)) {
+      return;
+    }
+
+    try {
+      await archiveParty(currentParty.id);
+      fetchParties();
+    } catch (error) {
+      console.error('Error archiving party:', error);
+    }
+  };
+
+  const handleSetupComplete = (party: Party | null) => {
+    setSetupState(null);
+    setHostRole('host');
+
+    if (party) {
+      selectParty(party.id);
+    }
     fetchParties();
   };
 
@@ -136,27 +336,40 @@ function App() {
     );
   }
 
-  if (!activeParty) {
+  if (setupState && !setupState.pinConfigured) {
+    return (
+      <div className={styles.app}>
+        <div className={styles.header}>
+          <div className={styles.headerTop}>
+            <h1 className={styles.title}>🎲 Place-A-Bet</h1>
+          </div>
+        </div>
+        <SetupWizard setupState={setupState} onComplete={handleSetupComplete} />
+      </div>
+    );
+  }
+
+  if (!currentParty) {
     return (
       <div className={styles.app}>
         <div className={styles.header}>
           <div className={styles.headerTop}>
             <h1 className={styles.title}>🎲 Place-A-Bet</h1>
             <button
-              className={`${styles.hostButton} ${isHostMode ? styles.hostButtonActive : ''}`}
+              className={`${styles.hostButton} ${hostRole ? styles.hostButtonActive : ''}`}
               onClick={handleHostModeToggle}
             >
-              {isHostMode ? '👑 Host Mode' : '🔑 Host'}
+              {isHostMode ? '👑 Host Mode' : isCoHost ? '🤝 Co-Host' : '🔑 Host'}
             </button>
           </div>
         </div>
         <div className={styles.noParty}>
-          <p>No active party found.</p>
+          <p>No active parties found.</p>
           <p>Ask the host to create a party to get started!</p>
         </div>
 
         {/* Host Actions for creating first party */}
-        {isHostMode && hostPin && (
+        {isHostMode && (
           <div className={styles.hostActions}>
             <button
               className={`${styles.actionButton} ${styles.actionButtonPrimary}`}
@@ -176,9 +389,8 @@ function App() {
           />
         )}
 
-        {showCreateParty && hostPin && (
+        {showCreateParty && (
           <CreatePartyForm
-            hostPin={hostPin}
             onSuccess={handleCreatePartySuccess}
             onCancel={() => setShowCreateParty(false)}
           />
@@ -194,25 +406,59 @@ function App() {
         <div className={styles.headerTop}>
           <h1 className={styles.title}>🎲 Place-A-Bet</h1>
           <button
-            className={`${styles.hostButton} ${isHostMode ? styles.hostButtonActive : ''}`}
+            className={`${styles.hostButton} ${hostRole ? styles.hostButtonActive : ''}`}
             onClick={handleHostModeToggle}
           >
-            {isHostMode ? '👑 Host Mode' : '🔑 Host'}
+            {isHostMode ? '👑 Host Mode' : isCoHost ? '🤝 Co-Host' : '🔑 Host'}
           </button>
         </div>
         <div className={styles.partyInfo}>
-          <span className={styles.partyName}>{activeParty.name}</span>
+          {activeParties.length > 1 ? (
+            <select
+              className={styles.partyPicker}
+              value={currentParty.id}
+              onChange={e => selectParty(Number(e.target.value))}
+              aria-label="Party"
+            >
+              {activeParties.map(party => (
+                <option key={party.id} value={party.id}>{party.name}</option>
+              ))}
+            </select>
+          ) : (
+            <span className={styles.partyName}>{currentParty.name}</span>
+          )}
           <span className={styles.partyStats}>
-            {activeParty.betCount || 0} bets · ${activeParty.totalWagered?.toFixed(0) || 0} total
+            {currentParty.betCount || 0} bets · {formatMoney(currentParty.totalWagered || 0, currentParty.currency, 0)} total
+            {currentParty.joinCode && <> · Code {currentParty.joinCode}</>}
           </span>
         </div>
       </div>
 
+      {joinError && <div className={styles.userError}>{joinError}</div>}
+
       {/* User Identity */}
       <div className={styles.userSection}>
         {currentUser ? (
           <div className={styles.currentUser}>
-            <span>Playing as: <strong>{currentUser}</strong></span>
+            <span>
+              Playing as: <strong>{currentUser}</strong>
+              {bankroll && bankroll.remaining !== null && (
+                <> · {bankroll.currency === 'chips' ? 'Chips' : 'Bankroll'}: <strong>{formatMoney(bankroll.remaining, bankroll.currency)}</strong> left</>
+              )}
+            </span>
+            {currentGuest && !currentGuest.hasPin && (
+              <button
+                className={styles.changeUserButton}
+                onClick={() => setGuestPinPrompt({ name: currentGuest.name, mode: 'claim' })}
+              >
+                Set PIN
+              </button>
+            )}
+            {bankroll?.canRebuy && (
+              <button className={styles.changeUserButton} onClick={handleRebuy}>
+                Rebuy
+              </button>
+            )}
             <button className={styles.changeUserButton} onClick={handleClearCurrentUser}>
               Change
             </button>
@@ -239,12 +485,13 @@ function App() {
                 </button>
               </div>
             )}
+            {userError && <div className={styles.userError}>{userError}</div>}
           </div>
         )}
       </div>
 
       {/* Host Actions */}
-      {isHostMode && hostPin && (
+      {isHostMode && (
         <div className={styles.hostActions}>
           <button
             className={`${styles.actionButton} ${styles.actionButtonPrimary}`}
@@ -258,6 +505,42 @@ function App() {
           >
             + New Party
           </button>
+          <button
+            className={`${styles.actionButton} ${styles.actionButtonSecondary}`}
+            onClick={() => setShowMergeGuests(true)}
+          >
+            Merge Guests
+          </button>
+          <button
+            className={`${styles.actionButton} ${styles.actionButtonSecondary}`}
+            onClick={() => setShowCoHosts(true)}
+          >
+            Co-Hosts
+          </button>
+          <button
+            className={`${styles.actionButton} ${styles.actionButtonSecondary}`}
+            onClick={() => setShowInvite(true)}
+          >
+            Invite
+          </button>
+          <button
+            className={`${styles.actionButton} ${styles.actionButtonSecondary}`}
+            onClick={handleArchiveParty}
+          >
+            Archive Party
+          </button>
+        </div>
+      )}
+
+      {/* Co-hosts can bring in guests too */}
+      {isCoHost && (
+        <div className={styles.hostActions}>
+          <button
+            className={`${styles.actionButton} ${styles.actionButtonSecondary}`}
+            onClick={() => setShowInvite(true)}
+          >
+            Invite
+          </button>
         </div>
       )}
 
@@ -281,6 +564,12 @@ function App() {
         >
           Settled
         </button>
+        <button
+          className={`${styles.tab} ${activeTab === 'void' ? styles.tabActive : ''}`}
+          onClick={() => setActiveTab('void')}
+        >
+          Void
+        </button>
         <button
           className={`${styles.tab} ${activeTab === 'summary' ? styles.tabActive : ''}`}
           onClick={() => setActiveTab('summary')}
@@ -293,36 +582,63 @@ function App() {
       <div className={styles.content}>
         {activeTab === 'open' && (
           <BetList
-            partyId={activeParty.id}
+            partyId={currentParty.id}
             status="open"
             currentUser={currentUser}
+            guestPin={guestPin}
+            currency={currentParty.currency}
             onUserWagerPlaced={handleUserWagerPlaced}
-            showHostActions={isHostMode}
+            showHostActions={isHostMode || isCoHost}
+            isCoHost={isCoHost}
           />
         )}
 
         {activeTab === 'closed' && (
           <BetList
-            partyId={activeParty.id}
+            partyId={currentParty.id}
             status="closed"
             currentUser={currentUser}
+            guestPin={guestPin}
+            currency={currentParty.currency}
             onUserWagerPlaced={handleUserWagerPlaced}
-            showHostActions={isHostMode}
+            showHostActions={isHostMode || isCoHost}
+            isCoHost={isCoHost}
           />
         )}
 
         {activeTab === 'settled' && (
           <BetList
-            partyId={activeParty.id}
+            partyId={currentParty.id}
             status="settled"
             currentUser={currentUser}
+            guestPin={guestPin}
+            currency={currentParty.currency}
             onUserWagerPlaced={handleUserWagerPlaced}
-            showHostActions={isHostMode}
+            showHostActions={isHostMode || isCoHost}
+            isCoHost={isCoHost}
+          />
+        )}
+
+        {activeTab === 'void' && (
+          <BetList
+            partyId={currentParty.id}
+            status="void"
+            currentUser={currentUser}
+            guestPin={guestPin}
+            currency={currentParty.currency}
+            onUserWagerPlaced={handleUserWagerPlaced}
+            showHostActions={isHostMode || isCoHost}
+            isCoHost={isCoHost}
           />
         )}
 
         {activeTab === 'summary' && (
-          <SettlementDisplay partyId={activeParty.id} currentUser={currentUser} />
+          <SettlementDisplay
+            partyId={currentParty.id}
+            currentUser={currentUser}
+            guestPin={guestPin}
+            isHost={isHostMode}
+          />
         )}
       </div>
 
@@ -332,20 +648,67 @@ function App() {
           title="Enter Host PIN"
           onSuccess={handlePinSuccess}
           onCancel={() => setShowPinEntry(false)}
+        >
+          <button
+            className={styles.coHostLink}
+            onClick={() => { setShowPinEntry(false); setShowCoHostEntry(true); }}
+          >
+            Have a co-host code?
+          </button>
+        </PinEntry>
+      )}
+
+      {showCoHostEntry && (
+        <CoHostCodeEntry
+          onSuccess={handleCoHostSuccess}
+          onCancel={() => setShowCoHostEntry(false)}
         />
       )}
 
-      {showCreateParty && hostPin && (
+      {showCreateParty && (
         <CreatePartyForm
-          hostPin={hostPin}
           onSuccess={handleCreatePartySuccess}
           onCancel={() => setShowCreateParty(false)}
         />
       )}
 
+      {showInvite && (
+        <InviteScreen
+          partyId={currentParty.id}
+          partyName={currentParty.name}
+          onClose={() => setShowInvite(false)}
+        />
+      )}
+
+      {showCoHosts && (
+        <CoHostsForm
+          partyId={currentParty.id}
+          onCancel={() => setShowCoHosts(false)}
+        />
+      )}
+
+      {showMergeGuests && (
+        <MergeGuestsForm
+          partyId={currentParty.id}
+          currency={currentParty.currency}
+          onMerged={() => fetchCurrentGuest()}
+          onCancel={() => setShowMergeGuests(false)}
+        />
+      )}
+
+      {guestPinPrompt && (
+        <PinEntry
+          title={guestPinPrompt.mode === 'claim' ? 'Choose a PIN for your name' : `Enter PIN for ${guestPinPrompt.name}`}
+          onSuccess={handleGuestPinSuccess}
+          onCancel={() => setGuestPinPrompt(null)}
+        />
+      )}
+
       {showCreateBet && currentUser && (
         <CreateBetForm
+          partyId={currentParty.id}
           createdBy={currentUser}
+          guestPin={guestPin}
           onSuccess={handleCreateBetSuccess}
           onCancel={() => setShowCreateBet(false)}
         />
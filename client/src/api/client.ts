@@ -3,33 +3,61 @@
 
 import type {
   Party,
+  PartyInvite,
+  Guest,
+  JoinPartyRequest,
+  GuestMerge,
+  GuestMergeResult,
+  GuestMergeDryRun,
+  MergeGuestsRequest,
   BetWithDetails,
+  PoolHistory,
   SettlementSummary,
+  PartyTransfers,
   CreatePartyRequest,
   CreateBetRequest,
   CreateWagerRequest,
+  CancelWagerRequest,
   CloseBetRequest,
   SettleBetRequest,
-  Wager
+  UnsettleBetRequest,
+  VoidBetRequest,
+  Wager,
+  PlacedWager,
+  UserBankroll,
+  Payment,
+  RecordPaymentRequest,
+  UpdatePaymentRequest,
+  HostSession,
+  HostRole,
+  SetupState,
+  CoHost,
+  MintedCoHost,
+  CreateCoHostRequest
 } from './types';
 
 // Use relative URL in production (empty string) so requests go to same host as the page
 // In development, VITE_SERVER_URL can be set to 'http://localhost:3001' if needed
 const API_BASE = import.meta.env.VITE_SERVER_URL ?? '';
 
+// Host or co-host session token, kept for the browser tab so a reload stays in host mode
+let hostSessionToken: string | null = sessionStorage.getItem('hostSession');
+
 /**
  * Base fetch wrapper with error handling
+ * Sends the host session token, when there is one, with every request
  */
 async function apiFetch<T>(
   endpoint: string,
   options?: RequestInit
 ): Promise<T> {
   const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...(hostSessionToken && { Authorization: `Bearer ${hostSessionToken}` }),
       ...options?.headers
-    },
-    ...options
+    }
   });
 
   if (!response.ok) {
@@ -39,6 +67,10 @@ async function apiFetch<T>(
     throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
   }
 
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
   return response.json();
 }
 
@@ -61,6 +93,22 @@ export async function createParty(data: CreatePartyRequest): Promise<Party> {
   });
 }
 
+/**
+ * GET /api/parties/join/:code - Find an active party by its join code
+ */
+export async function getPartyByJoinCode(code: string): Promise<Party> {
+  return apiFetch<Party>(`/api/parties/join/${encodeURIComponent(code)}`);
+}
+
+/**
+ * GET /api/parties/:id/invite - Join code, LAN links and QR codes (host or co-host)
+ * Passes the port the app is open on, so the links lead back to this same server
+ */
+export async function getPartyInvite(partyId: number): Promise<PartyInvite> {
+  const port = window.location.port || (window.location.protocol === 'https:' ? '443' : '80');
+  return apiFetch<PartyInvite>(`/api/parties/${partyId}/invite?port=${port}`);
+}
+
 /**
  * GET /api/parties/:id - Get party details
  */
@@ -71,10 +119,9 @@ export async function getParty(id: number): Promise<Party> {
 /**
  * PATCH /api/parties/:id/archive - Archive party (requires host PIN)
  */
-export async function archiveParty(id: number, hostPin: string): Promise<Party> {
+export async function archiveParty(id: number): Promise<Party> {
   return apiFetch<Party>(`/api/parties/${id}/archive`, {
-    method: 'PATCH',
-    body: JSON.stringify({ hostPin })
+    method: 'PATCH'
   });
 }
 
@@ -85,14 +132,96 @@ export async function getSettlementSummary(partyId: number): Promise<SettlementS
   return apiFetch<SettlementSummary>(`/api/parties/${partyId}/settlement-summary`);
 }
 
+/**
+ * GET /api/parties/:id/transfers - Get minimized "who owes whom" transfers for party
+ */
+export async function getPartyTransfers(partyId: number): Promise<PartyTransfers> {
+  return apiFetch<PartyTransfers>(`/api/parties/${partyId}/transfers`);
+}
+
+// ===== Guest Endpoints =====
+
+/**
+ * GET /api/parties/:id/guests - List the party's guest roster
+ */
+export async function getGuests(partyId: number): Promise<Guest[]> {
+  return apiFetch<Guest[]>(`/api/parties/${partyId}/guests`);
+}
+
+/**
+ * POST /api/parties/:id/guests - Join the party under a name (PIN needed if the name is claimed)
+ */
+export async function joinParty(partyId: number, data: JoinPartyRequest): Promise<Guest> {
+  return apiFetch<Guest>(`/api/parties/${partyId}/guests`, {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+}
+
+/**
+ * POST /api/parties/:id/guests/:guestId/claim - Protect an unclaimed name with a PIN
+ */
+export async function claimGuestName(partyId: number, guestId: number, pin: string): Promise<Guest> {
+  return apiFetch<Guest>(`/api/parties/${partyId}/guests/${guestId}/claim`, {
+    method: 'POST',
+    body: JSON.stringify({ pin })
+  });
+}
+
+/**
+ * POST /api/parties/:id/guests/:guestId/verify - Check a guest's PIN
+ */
+export async function verifyGuestPin(partyId: number, guestId: number, pin: string): Promise<{ valid: boolean }> {
+  return apiFetch<{ valid: boolean }>(`/api/parties/${partyId}/guests/${guestId}/verify`, {
+    method: 'POST',
+    body: JSON.stringify({ pin })
+  });
+}
+
+/**
+ * GET /api/guest-merges - List guest merges, newest first
+ */
+export async function getGuestMerges(): Promise<GuestMerge[]> {
+  return apiFetch<GuestMerge[]>('/api/guest-merges');
+}
+
+/**
+ * POST /api/guest-merges (dryRun) - Preview how merging one guest into another changes balances (requires host PIN)
+ */
+export async function previewGuestMerge(data: MergeGuestsRequest): Promise<GuestMergeDryRun> {
+  return apiFetch<GuestMergeDryRun>('/api/guest-merges', {
+    method: 'POST',
+    body: JSON.stringify({ ...data, dryRun: true })
+  });
+}
+
+/**
+ * POST /api/guest-merges - Merge one guest name into another (requires host PIN)
+ */
+export async function mergeGuests(data: MergeGuestsRequest): Promise<GuestMergeResult> {
+  return apiFetch<GuestMergeResult>('/api/guest-merges', {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+}
+
+/**
+ * POST /api/guest-merges/:id/undo - Reverse a guest merge (requires host PIN)
+ */
+export async function undoGuestMerge(id: number): Promise<GuestMerge> {
+  return apiFetch<GuestMerge>(`/api/guest-merges/${id}/undo`, {
+    method: 'POST'
+  });
+}
+
 // ===== Bet Endpoints =====
 
 /**
- * GET /api/bets - List bets for active party (optionally filter by status)
+ * GET /api/bets?partyId= - List a party's bets (optionally filter by status)
  */
-export async function getBets(status?: 'open' | 'closed' | 'settled'): Promise<BetWithDetails[]> {
-  const query = status ? `?status=${status}` : '';
-  return apiFetch<BetWithDetails[]>(`/api/bets${query}`);
+export async function getBets(partyId: number, status?: 'open' | 'closed' | 'settled' | 'void'): Promise<BetWithDetails[]> {
+  const query = status ? `&status=${status}` : '';
+  return apiFetch<BetWithDetails[]>(`/api/bets?partyId=${partyId}${query}`);
 }
 
 /**
@@ -103,7 +232,14 @@ export async function getBet(id: number): Promise<BetWithDetails> {
 }
 
 /**
- * POST /api/bets - Create new bet
+ * GET /api/bets/:id/pool-history - Get the pool and implied payout multipliers after each wager
+ */
+export async function getPoolHistory(id: number): Promise<PoolHistory> {
+  return apiFetch<PoolHistory>(`/api/bets/${id}/pool-history`);
+}
+
+/**
+ * POST /api/bets - Create new bet at an active party
  */
 export async function createBet(data: CreateBetRequest): Promise<BetWithDetails> {
   return apiFetch<BetWithDetails>('/api/bets', {
@@ -132,18 +268,48 @@ export async function settleBet(id: number, data: SettleBetRequest): Promise<Bet
   });
 }
 
+/**
+ * POST /api/bets/:id/unsettle - Revert settled bet to closed so it can be re-settled (requires host PIN)
+ */
+export async function unsettleBet(id: number, data: UnsettleBetRequest): Promise<BetWithDetails> {
+  return apiFetch<BetWithDetails>(`/api/bets/${id}/unsettle`, {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+}
+
+/**
+ * POST /api/bets/:id/void - Cancel bet and refund all wagers (requires host PIN or creator match)
+ */
+export async function voidBet(id: number, data: VoidBetRequest): Promise<BetWithDetails> {
+  return apiFetch<BetWithDetails>(`/api/bets/${id}/void`, {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+}
+
 // ===== Wager Endpoints =====
 
 /**
  * POST /api/bets/:id/wagers - Place wager on bet
  */
-export async function createWager(betId: number, data: CreateWagerRequest): Promise<Wager> {
-  return apiFetch<Wager>(`/api/bets/${betId}/wagers`, {
+export async function createWager(betId: number, data: CreateWagerRequest): Promise<PlacedWager> {
+  return apiFetch<PlacedWager>(`/api/bets/${betId}/wagers`, {
     method: 'POST',
     body: JSON.stringify(data)
   });
 }
 
+/**
+ * DELETE /api/bets/:id/wagers/:wagerId - Cancel a wager (its owner within the grace window, or the host)
+ */
+export async function cancelWager(betId: number, wagerId: number, data: CancelWagerRequest): Promise<Wager> {
+  return apiFetch<Wager>(`/api/bets/${betId}/wagers/${wagerId}`, {
+    method: 'DELETE',
+    body: JSON.stringify(data)
+  });
+}
+
 /**
  * GET /api/bets/:id/wagers - Get all wagers for a bet
  */
@@ -152,10 +318,74 @@ export async function getWagers(betId: number): Promise<Wager[]> {
 }
 
 /**
- * GET /api/users/:userName/wagers - Get user's wagers for active party
+ * GET /api/users/:userName/wagers?partyId= - Get user's wagers at a party
+ */
+export async function getUserWagers(partyId: number, userName: string): Promise<Wager[]> {
+  return apiFetch<Wager[]>(`/api/users/${encodeURIComponent(userName)}/wagers?partyId=${partyId}`);
+}
+
+/**
+ * GET /api/users/:userName/bankroll?partyId= - Get user's remaining bankroll and the party's limits
+ */
+export async function getUserBankroll(partyId: number, userName: string): Promise<UserBankroll> {
+  return apiFetch<UserBankroll>(`/api/users/${encodeURIComponent(userName)}/bankroll?partyId=${partyId}`);
+}
+
+/**
+ * POST /api/users/:userName/rebuy - Take a fresh chip stack after busting (chips parties only)
  */
-export async function getUserWagers(userName: string): Promise<Wager[]> {
-  return apiFetch<Wager[]>(`/api/users/${encodeURIComponent(userName)}/wagers`);
+export async function rebuy(partyId: number, userName: string): Promise<UserBankroll> {
+  return apiFetch<UserBankroll>(`/api/users/${encodeURIComponent(userName)}/rebuy`, {
+    method: 'POST',
+    body: JSON.stringify({ partyId })
+  });
+}
+
+// ===== Payment Endpoints =====
+
+/**
+ * GET /api/parties/:id/payments - List payments recorded for party
+ */
+export async function getPayments(partyId: number): Promise<Payment[]> {
+  return apiFetch<Payment[]>(`/api/parties/${partyId}/payments`);
+}
+
+/**
+ * POST /api/parties/:id/payments - Record a payment (payer, payee or host)
+ */
+export async function recordPayment(partyId: number, data: RecordPaymentRequest): Promise<Payment> {
+  return apiFetch<Payment>(`/api/parties/${partyId}/payments`, {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+}
+
+/**
+ * POST /api/parties/:id/payments/:paymentId/confirm - Confirm a payment (payer, payee or host)
+ */
+export async function confirmPayment(
+  partyId: number,
+  paymentId: number,
+  data: UpdatePaymentRequest
+): Promise<Payment> {
+  return apiFetch<Payment>(`/api/parties/${partyId}/payments/${paymentId}/confirm`, {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+}
+
+/**
+ * POST /api/parties/:id/payments/:paymentId/reverse - Reverse a payment
+ */
+export async function reversePayment(
+  partyId: number,
+  paymentId: number,
+  data: UpdatePaymentRequest
+): Promise<Payment> {
+  return apiFetch<Payment>(`/api/parties/${partyId}/payments/${paymentId}/reverse`, {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
 }
 
 // ===== Host Endpoints =====
@@ -169,3 +399,105 @@ export async function verifyHostPin(pin: string): Promise<{ valid: boolean }> {
     body: JSON.stringify({ pin })
   });
 }
+
+/**
+ * Keep a new host session's token - it is sent with every request until the session ends
+ */
+function saveHostSession(session: HostSession): HostSession {
+  hostSessionToken = session.token;
+  sessionStorage.setItem('hostSession', session.token);
+  sessionStorage.setItem('hostRole', session.role);
+  return session;
+}
+
+/**
+ * GET /api/host/setup - Whether first-run setup still needs a host PIN or a first party
+ */
+export async function getSetupState(): Promise<SetupState> {
+  return apiFetch<SetupState>('/api/host/setup');
+}
+
+/**
+ * POST /api/host/setup - Choose the host PIN on first run (starts a host session)
+ */
+export async function setupHost(pin: string): Promise<HostSession> {
+  return saveHostSession(await apiFetch<HostSession>('/api/host/setup', {
+    method: 'POST',
+    body: JSON.stringify({ pin })
+  }));
+}
+
+/**
+ * POST /api/host/sessions - Trade the host PIN for a host session
+ */
+export async function startHostSession(pin: string): Promise<HostSession> {
+  return saveHostSession(await apiFetch<HostSession>('/api/host/sessions', {
+    method: 'POST',
+    body: JSON.stringify({ pin })
+  }));
+}
+
+/**
+ * DELETE /api/host/sessions/current - End the host session
+ */
+export async function endHostSession(): Promise<void> {
+  try {
+    await apiFetch<void>('/api/host/sessions/current', { method: 'DELETE' });
+  } finally {
+    hostSessionToken = null;
+    sessionStorage.removeItem('hostSession');
+    sessionStorage.removeItem('hostRole');
+  }
+}
+
+/**
+ * Whether this tab holds a host or co-host session (it may have expired on the server)
+ */
+export function hasHostSession(): boolean {
+  return hostSessionToken !== null;
+}
+
+/**
+ * The role of this tab's session - null when not in host mode
+ */
+export function getHostRole(): HostRole | null {
+  return hostSessionToken ? (sessionStorage.getItem('hostRole') as HostRole | null) ?? 'host' : null;
+}
+
+/**
+ * POST /api/host/co-host-sessions - Trade a co-host code for a co-host session
+ */
+export async function startCoHostSession(code: string): Promise<HostSession> {
+  return saveHostSession(await apiFetch<HostSession>('/api/host/co-host-sessions', {
+    method: 'POST',
+    body: JSON.stringify({ code })
+  }));
+}
+
+// ===== Co-host Endpoints =====
+
+/**
+ * GET /api/parties/:id/co-hosts - List a party's co-host codes (host only)
+ */
+export async function getCoHosts(partyId: number): Promise<CoHost[]> {
+  return apiFetch<CoHost[]>(`/api/parties/${partyId}/co-hosts`);
+}
+
+/**
+ * POST /api/parties/:id/co-hosts - Mint a co-host code (host only)
+ */
+export async function createCoHost(partyId: number, data: CreateCoHostRequest): Promise<MintedCoHost> {
+  return apiFetch<MintedCoHost>(`/api/parties/${partyId}/co-hosts`, {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+}
+
+/**
+ * DELETE /api/parties/:id/co-hosts/:coHostId - Revoke a co-host code (host only)
+ */
+export async function revokeCoHost(partyId: number, coHostId: number): Promise<CoHost> {
+  return apiFetch<CoHost>(`/api/parties/${partyId}/co-hosts/${coHostId}`, {
+    method: 'DELETE'
+  });
+}
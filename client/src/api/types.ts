@@ -1,26 +1,121 @@
 // API Types for Place-A-Bet Frontend
 // These types match the backend schema and API responses
 
+export type Currency = 'usd' | 'chips';
+
 export interface Party {
   id: number;
   name: string;
   date: string;
   description: string | null;
   status: 'active' | 'archived';
+  maxWager: number | null; // Most a guest can put on a single wager (null = no limit)
+  maxPerBet: number | null; // Most a guest can put on one bet (null = no limit)
+  bankroll: number | null; // Starting bankroll per guest (null = no limit); the chip stack in chips mode
+  currency: Currency;
+  allowRebuys: boolean; // Chips mode only - busted guests may take a fresh stack
+  joinCode: string | null; // Short code guests type or scan to find the party, e.g. "K7P2QX"
+  cancelGraceSeconds: number; // How long guests can cancel their own wagers (0 = only the host can)
   createdAt: string;
   updatedAt: string;
   betCount?: number;
   totalWagered?: number;
 }
 
+export interface Guest {
+  id: number;
+  partyId: number;
+  name: string; // Display name, as first entered
+  hasPin: boolean; // PIN-protected names need the guest's PIN to bet
+  createdAt: string;
+}
+
+// A link to the party at one of the server's LAN addresses
+export interface InviteLink {
+  interface: string; // e.g. "wlan0"
+  address: string; // e.g. "192.168.1.20"
+  url: string; // e.g. "http://192.168.1.20:3001/join/K7P2QX"
+  qrSvg: string; // QR code of the url, as SVG markup
+}
+
+// Everything the invite screen shows - links are best guess first
+export interface PartyInvite {
+  partyId: number;
+  joinCode: string;
+  links: InviteLink[];
+}
+
+// A friend the host lets close and settle bets at one party
+export interface CoHost {
+  id: number;
+  partyId: number;
+  label: string; // Who the code was given to
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+// A newly minted co-host - the only time the code is shown
+export interface MintedCoHost extends CoHost {
+  code: string;
+}
+
+// How a guest merge changes one party (balances are net win/loss on settled bets)
+export interface GuestMergePreview {
+  partyId: number;
+  partyName: string;
+  wagers: number;
+  bets: number;
+  settlements: number;
+  rebuys: number;
+  payments: number;
+  balances: Array<{ userName: string; before: number; after: number }>;
+}
+
+export interface GuestMerge {
+  id: number;
+  partyId: number | null; // null = merged across every party
+  fromName: string;
+  intoName: string;
+  partyIds: number[]; // Parties the merge touched
+  createdAt: string;
+  undoneAt: string | null;
+}
+
+export interface GuestMergeResult extends GuestMerge {
+  parties: GuestMergePreview[];
+}
+
+export interface GuestMergeDryRun {
+  dryRun: true;
+  from: string;
+  into: string;
+  partyId: number | null;
+  parties: GuestMergePreview[];
+}
+
+export type SplitMode = 'pooled' | 'dead_heat';
+
+export type BetType = 'yes_no' | 'multi_option' | 'fixed_odds' | 'over_under' | 'closest_guess';
+
+export type GuessRule = 'closest' | 'not_over';
+
 export interface Bet {
   id: number;
   partyId: number;
-  type: 'yes_no' | 'multi_option';
+  type: BetType;
   question: string;
   createdBy: string;
-  status: 'open' | 'closed' | 'settled';
+  creatorGuestId: number | null; // Null on bets created before the guest roster
+  status: 'open' | 'closed' | 'settled' | 'void';
   winningOptionId: number | null;
+  winningOptionIds: number[] | null;
+  splitMode: SplitMode | null;
+  maxExposure: number | null; // Fixed-odds only - most the creator (bank) can lose
+  line: number | null; // Over/under only, e.g. 47.5
+  result: number | null; // Over/under and closest-guess only - final numeric result once settled
+  guessRule: GuessRule | null; // Closest-guess only - closest overall, or closest without going over
+  closesAt: string | null; // Optional lock time - betting closes automatically once it passes
+  blind: boolean; // Who bet what stays hidden until betting closes
   createdAt: string;
   updatedAt: string;
 }
@@ -29,15 +124,19 @@ export interface BetOption {
   id: number;
   betId: number;
   label: string;
+  oddsNumerator: number | null; // Fixed-odds only, e.g. 3 for "3-to-1"
+  oddsDenominator: number | null;
   createdAt: string;
 }
 
 export interface Wager {
   id: number;
   betId: number;
-  optionId: number;
+  optionId: number | null; // Null on closest-guess bets, where the guess is the pick
   userName: string;
+  guestId: number | null; // Null on wagers placed before the guest roster
   amount: number;
+  guess: number | null; // Optional exact guess on over/under, the pick itself on closest-guess
   createdAt: string;
 }
 
@@ -53,53 +152,213 @@ export interface Settlement {
 
 // Extended types for API responses
 
+// How the pool is spread over one option, worked out by the server
+export interface OptionStats {
+  optionId: number;
+  pool: number;
+  wagerCount: number;
+  bettorCount: number; // Distinct guests with a wager on the option
+  payoutMultiplier: number | null; // Return per $1 staked if the option wins; null while nobody has backed it
+  poolShare: number; // Percentage of the total pool
+}
+
 export interface BetWithDetails extends Bet {
   options: BetOption[];
-  wagers: Wager[];
+  wagers: Wager[]; // Empty while a blind bet is open
+  totalPool: number;
+  participantCount: number; // Distinct guests with a wager on the bet
+  optionStats: OptionStats[]; // Empty on closest-guess bets, and while a blind bet is open
+}
+
+// The pool and implied payout multiplier per option just after one wager
+export interface PoolHistoryPoint {
+  wagerId: number;
+  at: string;
   totalPool: number;
+  options: Array<{
+    optionId: number;
+    pool: number;
+    payoutMultiplier: number | null;
+  }>;
+}
+
+export interface PoolHistory {
+  betId: number;
+  points: PoolHistoryPoint[]; // Oldest first
+}
+
+export interface Payment {
+  id: number;
+  partyId: number;
+  fromUser: string | null; // null = the house
+  toUser: string | null; // null = the house
+  amount: number;
+  status: 'pending' | 'confirmed' | 'reversed';
+  payerConfirmed: boolean;
+  payeeConfirmed: boolean;
+  recordedBy: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface SettlementSummary {
   partyId: number;
   partyName: string;
+  currency: Currency;
   users: Array<{
     userName: string;
     netAmount: number;
+    settledAmount: number;
+    outstandingAmount: number;
+    chips?: number; // Chips mode only - current chip count, rebuys included
+    rebuys?: number; // Chips mode only - number of rebuys taken
   }>;
   totalPot: number;
 }
 
+export interface Transfer {
+  from: string | null; // null = the house
+  to: string | null; // null = the house
+  amount: number;
+}
+
+export interface PartyTransfers {
+  partyId: number;
+  partyName: string;
+  transfers: Transfer[];
+}
+
 // API Request types
 
+export type HostRole = 'host' | 'co_host';
+
+export interface HostSession {
+  token: string;
+  expiresAt: string;
+  role: HostRole;
+  coHost?: CoHost; // Co-host sessions only
+}
+
+export interface CreateCoHostRequest {
+  label: string;
+}
+
+export interface SetupState {
+  pinConfigured: boolean;
+  hasParties: boolean;
+}
+
+export interface JoinPartyRequest {
+  name: string;
+  pin?: string; // Claims the name straight away
+}
+
 export interface CreatePartyRequest {
   name: string;
   date: string;
   description?: string;
-  hostPin: string;
+  hostPin?: string; // Not needed with a host session
+  maxWager?: number;
+  maxPerBet?: number;
+  bankroll?: number;
+  currency?: Currency;
+  allowRebuys?: boolean;
+  cancelGraceSeconds?: number; // Defaults to 60
 }
 
 export interface CreateBetRequest {
+  partyId: number;
   question: string;
-  type: 'yes_no' | 'multi_option';
+  type: BetType;
   createdBy: string;
-  options: string[];
+  guestPin?: string; // Needed when the creator's name is PIN-protected
+  options?: string[]; // Left out for over/under - the sides are always Over and Under
+  odds?: Array<{ numerator: number; denominator: number }>; // Fixed-odds only, one per option
+  maxExposure?: number; // Fixed-odds only
+  line?: number; // Over/under only
+  guessRule?: GuessRule; // Closest-guess only, defaults to "closest"
+  closesAt?: string; // ISO timestamp - optional lock time
+  blind?: boolean; // Hide the pool breakdown until betting closes
 }
 
 export interface CreateWagerRequest {
   userName: string;
-  optionId: number;
+  guestPin?: string; // Needed when the name is PIN-protected
+  optionId?: number; // Omitted on closest-guess bets
   amount: number;
+  guess?: number; // Optional on over/under, required on closest-guess
+}
+
+export interface PlacedWager extends Wager {
+  cancelableUntil: string | null; // When the guest can no longer cancel it themselves (null = never could)
+}
+
+export interface CancelWagerRequest {
+  userName?: string; // The wager's owner - not needed with a host session
+  guestPin?: string; // Needed when the owner's name is PIN-protected
 }
 
 export interface CloseBetRequest {
   hostPin?: string;
   createdBy?: string;
+  guestPin?: string; // The creator's PIN, when their name is PIN-protected
 }
 
 export interface SettleBetRequest {
-  winningOptionId: number;
+  winningOptionIds?: number[];
+  result?: number; // Over/under and closest-guess only - winners are resolved from it
+  splitMode?: SplitMode;
+  hostPin?: string;
+  createdBy?: string;
+  guestPin?: string; // The creator's PIN, when their name is PIN-protected
+}
+
+export interface UnsettleBetRequest {
+  hostPin?: string; // Not needed with a host session
+  reason?: string;
+}
+
+export interface VoidBetRequest {
   hostPin?: string;
   createdBy?: string;
+  guestPin?: string; // The creator's PIN, when their name is PIN-protected
+  reason?: string;
+}
+
+export interface MergeGuestsRequest {
+  from: string;
+  into: string;
+  partyId?: number; // Omitted = every party
+  hostPin?: string; // Not needed with a host session
+}
+
+export interface RecordPaymentRequest {
+  fromUser: string | null;
+  toUser: string | null;
+  amount: number;
+  recordedBy?: string;
+  guestPin?: string; // Needed when the recorder's name is PIN-protected
+  hostPin?: string;
+}
+
+export interface UpdatePaymentRequest {
+  userName?: string;
+  guestPin?: string; // Needed when the name is PIN-protected
+  hostPin?: string;
+}
+
+export interface UserBankroll {
+  userName: string;
+  partyId: number;
+  currency: Currency;
+  maxWager: number | null;
+  maxPerBet: number | null;
+  bankroll: number | null;
+  inPlay: number; // Staked on bets that are still open or closed
+  settledNet: number; // Net win/loss on settled bets
+  rebuys: number; // Chips bought back in after busting
+  remaining: number | null; // null when the party has no bankroll
+  canRebuy: boolean;
 }
 
 // Utility types
@@ -1,40 +1,46 @@
-import { useMemo } from 'react';
-import type { BetWithDetails, WagersByOption } from '../api/types';
+import { useState, useMemo } from 'react';
+import type { BetWithDetails, Currency, WagersByOption } from '../api/types';
+import { formatOdds, calculatePotentialWinnings } from '../utils/odds';
+import { findClosestGuesses, formatGuessRule } from '../utils/guess';
+import { useCountdown, formatCountdown } from '../hooks/useCountdown';
+import { formatMoney } from '../utils/currency';
+import { PoolHistoryChart } from './PoolHistoryChart';
 import styles from './BetCard.module.css';
 
 interface BetCardProps {
   bet: BetWithDetails;
   currentUser: string | null;
+  currency?: Currency;
   onPlaceWager?: (betId: number) => void;
   onCloseBet?: (betId: number) => void;
   onSettleBet?: (betId: number) => void;
+  onUnsettleBet?: (betId: number) => void;
+  onVoidBet?: (betId: number) => void;
   showHostActions?: boolean;
 }
 
 export function BetCard({
   bet,
   currentUser,
+  currency = 'usd',
   onPlaceWager,
   onCloseBet,
   onSettleBet,
+  onUnsettleBet,
+  onVoidBet,
   showHostActions = false
 }: BetCardProps) {
-  // Group wagers by option
+  // Group wagers by option, with the option totals the server worked out
   const wagersByOption = useMemo<WagersByOption[]>(() => {
-    const grouped = bet.options.map(option => {
-      const optionWagers = bet.wagers.filter(w => w.optionId === option.id);
-      const total = optionWagers.reduce((sum, w) => sum + w.amount, 0);
-
-      return {
-        optionId: option.id,
-        optionLabel: option.label,
-        wagers: optionWagers,
-        total
-      };
-    });
+    const grouped = bet.options.map(option => ({
+      optionId: option.id,
+      optionLabel: option.label,
+      wagers: bet.wagers.filter(w => w.optionId === option.id),
+      total: bet.optionStats.find(stats => stats.optionId === option.id)?.pool ?? 0
+    }));
 
     return grouped.sort((a, b) => b.total - a.total);
-  }, [bet.options, bet.wagers]);
+  }, [bet.options, bet.wagers, bet.optionStats]);
 
   // Get user's wagers for this bet
   const userWagers = useMemo(() => {
@@ -47,6 +53,21 @@ export function BetCard({
     return userWagers.reduce((sum, w) => sum + w.amount, 0);
   }, [userWagers]);
 
+  const isFixedOdds = bet.type === 'fixed_odds';
+
+  // Time left until the lock time; the server rejects wagers once it hits zero
+  const timeToLock = useCountdown(bet.status === 'open' ? bet.closesAt : null);
+  const isLocked = timeToLock === 0;
+
+  // What the user's wagers would win at the quoted odds (fixed odds only)
+  const userPotentialWinnings = useMemo(() => {
+    if (!isFixedOdds) return 0;
+    return userWagers.reduce((sum, w) => {
+      const option = bet.options.find(o => o.id === w.optionId);
+      return sum + (option ? calculatePotentialWinnings(w.amount, option) : 0);
+    }, 0);
+  }, [isFixedOdds, userWagers, bet.options]);
+
   const getStatusBadge = () => {
     switch (bet.status) {
       case 'open':
@@ -55,41 +76,123 @@ export function BetCard({
         return <span className={`${styles.badge} ${styles.badgeClosed}`}>Closed</span>;
       case 'settled':
         return <span className={`${styles.badge} ${styles.badgeSettled}`}>Settled</span>;
+      case 'void':
+        return <span className={`${styles.badge} ${styles.badgeVoid}`}>Void</span>;
       default:
         return null;
     }
   };
 
-  const getWinningOption = () => {
-    if (bet.status !== 'settled' || !bet.winningOptionId) return null;
-    return bet.options.find(opt => opt.id === bet.winningOptionId);
-  };
+  const winningOptionIds = useMemo(() => {
+    if (bet.status !== 'settled') return [];
+    return bet.winningOptionIds ?? (bet.winningOptionId ? [bet.winningOptionId] : []);
+  }, [bet.status, bet.winningOptionIds, bet.winningOptionId]);
+
+  const winningOptions = bet.options.filter(opt => winningOptionIds.includes(opt.id));
+
+  const isClosestGuess = bet.type === 'closest_guess';
+
+  // The server sends no wagers or per-option amounts while a blind bet is open
+  const isBlindOpen = bet.blind && bet.status === 'open';
 
-  const winningOption = getWinningOption();
+  // Pool-betting odds move as wagers come in; fixed odds and closest guesses have no multiplier to chart
+  const hasOddsMovement = !isFixedOdds && !isClosestGuess && bet.wagers.length > 0;
+  const [showOddsMovement, setShowOddsMovement] = useState(false);
+
+  // Closest-guess wagers sorted by guess, with the winning guesses once settled
+  const sortedGuesses = useMemo(() => {
+    if (!isClosestGuess) return [];
+    return [...bet.wagers].sort((a, b) => (a.guess ?? 0) - (b.guess ?? 0));
+  }, [isClosestGuess, bet.wagers]);
+
+  const closestGuesses = useMemo(() => {
+    if (!isClosestGuess || bet.status !== 'settled' || bet.result === null) return [];
+    return findClosestGuesses(bet.wagers, bet.result, bet.guessRule ?? 'closest');
+  }, [isClosestGuess, bet.status, bet.result, bet.guessRule, bet.wagers]);
 
   return (
-    <div className={styles.card}>
+    <div className={`${styles.card} ${bet.status === 'void' ? styles.cardVoid : ''}`}>
       <div className={styles.header}>
         <h3 className={styles.question}>{bet.question}</h3>
         {getStatusBadge()}
       </div>
 
       <div className={styles.meta}>
-        <span className={styles.creator}>Created by {bet.createdBy}</span>
-        <span className={styles.pool}>Pool: ${bet.totalPool.toFixed(0)}</span>
+        <span className={styles.creator}>
+          Created by {bet.createdBy}
+          {bet.participantCount > 0 && ` · ${bet.participantCount} bettor${bet.participantCount !== 1 ? 's' : ''}`}
+        </span>
+        {isFixedOdds ? (
+          <span className={styles.pool}>Fixed odds (max {formatMoney(bet.maxExposure ?? 0, currency, 0)} exposure)</span>
+        ) : isClosestGuess ? (
+          <span className={styles.pool}>{formatGuessRule(bet.guessRule)} - Pool: {formatMoney(bet.totalPool, currency, 0)}</span>
+        ) : bet.type === 'over_under' ? (
+          <span className={styles.pool}>Line: {bet.line} - Pool: {formatMoney(bet.totalPool, currency, 0)}</span>
+        ) : (
+          <span className={styles.pool}>Pool: {formatMoney(bet.totalPool, currency, 0)}</span>
+        )}
       </div>
 
+      {/* Lock time countdown (open bets only) */}
+      {timeToLock !== null && (
+        <div className={styles.countdown}>
+          {isLocked ? 'Betting locked' : `Betting locks in ${formatCountdown(timeToLock)}`}
+        </div>
+      )}
+
+      {/* Blind notice (open blind bets only) */}
+      {isBlindOpen && (
+        <div className={styles.countdown}>
+          Blind bet - who bet what is revealed when betting closes
+        </div>
+      )}
+
       {/* Winning Option (if settled) */}
-      {winningOption && (
+      {winningOptions.length > 0 && (
+        <div className={styles.winner}>
+          <strong>{winningOptions.length > 1 ? 'Winners:' : 'Winner:'}</strong>{' '}
+          {winningOptions.map(opt => opt.label).join(', ')}
+          {winningOptions.length > 1 && bet.splitMode === 'dead_heat' && ' (dead heat)'}
+          {bet.result !== null && ` - final result ${bet.result}`}
+        </div>
+      )}
+
+      {/* Closest guess (if settled) */}
+      {closestGuesses.length > 0 && (
         <div className={styles.winner}>
-          <strong>Winner:</strong> {winningOption.label}
+          <strong>{closestGuesses.length > 1 ? 'Closest guesses:' : 'Closest guess:'}</strong>{' '}
+          {closestGuesses.map(w => `${w.userName} (${w.guess})`).join(', ')}
+          {` - actual ${bet.result}`}
+        </div>
+      )}
+
+      {/* No eligible guess (every guess went over) */}
+      {isClosestGuess && bet.status === 'settled' && bet.wagers.length > 0 && closestGuesses.length === 0 && (
+        <div className={styles.voidNotice}>
+          <strong>Every guess went over {bet.result}.</strong> All wagers were refunded.
+        </div>
+      )}
+
+      {/* Push notice (over/under result landed on the line) */}
+      {bet.status === 'settled' && bet.type === 'over_under' && winningOptions.length === 0 && (
+        <div className={styles.voidNotice}>
+          <strong>Push at {bet.result}.</strong> All wagers were refunded.
+        </div>
+      )}
+
+      {/* Refund notice (if voided) */}
+      {bet.status === 'void' && (
+        <div className={styles.voidNotice}>
+          <strong>Bet voided.</strong> All wagers were refunded.
         </div>
       )}
 
       {/* Options and Wagers */}
       <div className={styles.options}>
         {wagersByOption.map(({ optionId, optionLabel, wagers, total }) => {
-          const isWinner = bet.status === 'settled' && optionId === bet.winningOptionId;
+          const isWinner = winningOptionIds.includes(optionId);
+          const option = bet.options.find(o => o.id === optionId);
+          const stats = bet.optionStats.find(o => o.optionId === optionId);
 
           return (
             <div
@@ -100,10 +203,22 @@ export function BetCard({
                 <span className={styles.optionLabel}>
                   {isWinner && '🏆 '}
                   {optionLabel}
+                  {isFixedOdds && option && (
+                    <span className={styles.optionOdds}> @ {formatOdds(option)}</span>
+                  )}
                 </span>
-                <span className={styles.optionTotal}>${total.toFixed(0)}</span>
+                {!isBlindOpen && <span className={styles.optionTotal}>{formatMoney(total, currency, 0)}</span>}
               </div>
 
+              {stats && stats.wagerCount > 0 && (
+                <div className={styles.optionStats}>
+                  {stats.bettorCount} bettor{stats.bettorCount !== 1 ? 's' : ''} · {stats.poolShare.toFixed(0)}% of pool
+                  {/* Fixed odds already show next to the label, and the multiplier means nothing once settled */}
+                  {!isFixedOdds && (bet.status === 'open' || bet.status === 'closed') && stats.payoutMultiplier !== null &&
+                    ` · pays ${stats.payoutMultiplier.toFixed(2)}x`}
+                </div>
+              )}
+
               {wagers.length > 0 && (
                 <div className={styles.wagerList}>
                   {wagers.map(wager => (
@@ -113,8 +228,11 @@ export function BetCard({
                         wager.userName === currentUser ? styles.wagerCurrentUser : ''
                       }`}
                     >
-                      <span className={styles.wagerUser}>{wager.userName}</span>
-                      <span className={styles.wagerAmount}>${wager.amount.toFixed(0)}</span>
+                      <span className={styles.wagerUser}>
+                        {wager.userName}
+                        {wager.guess !== null && ` (guessed ${wager.guess})`}
+                      </span>
+                      <span className={styles.wagerAmount}>{formatMoney(wager.amount, currency, 0)}</span>
                     </div>
                   ))}
                 </div>
@@ -124,17 +242,63 @@ export function BetCard({
         })}
       </div>
 
+      {/* Odds movement (pool bets only) */}
+      {hasOddsMovement && (
+        <button
+          type="button"
+          className={styles.historyToggle}
+          onClick={() => setShowOddsMovement(show => !show)}
+          aria-expanded={showOddsMovement}
+        >
+          {showOddsMovement ? '▼' : '▶'} Odds movement
+        </button>
+      )}
+      {hasOddsMovement && showOddsMovement && (
+        <PoolHistoryChart bet={bet} />
+      )}
+
+      {/* Guesses (closest guess only) */}
+      {isClosestGuess && sortedGuesses.length > 0 && (
+        <div className={styles.options}>
+          <div className={styles.option}>
+            <div className={styles.optionHeader}>
+              <span className={styles.optionLabel}>Guesses</span>
+              <span className={styles.optionTotal}>{formatMoney(bet.totalPool, currency, 0)}</span>
+            </div>
+            <div className={styles.wagerList}>
+              {sortedGuesses.map(wager => (
+                <div
+                  key={wager.id}
+                  className={`${styles.wager} ${
+                    wager.userName === currentUser ? styles.wagerCurrentUser : ''
+                  }`}
+                >
+                  <span className={styles.wagerUser}>
+                    {closestGuesses.includes(wager) && '🏆 '}
+                    {wager.userName}: {wager.guess}
+                  </span>
+                  <span className={styles.wagerAmount}>{formatMoney(wager.amount, currency, 0)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* User's Wagers Summary */}
       {userWagers.length > 0 && (
         <div className={styles.userSummary}>
-          <strong>Your total:</strong> ${userTotalWagered.toFixed(0)} across{' '}
+          <strong>Your total:</strong> {formatMoney(userTotalWagered, currency, 0)} across{' '}
           {userWagers.length} wager{userWagers.length !== 1 ? 's' : ''}
+          {isFixedOdds && (bet.status === 'open' || bet.status === 'closed') && (
+            <> - potential winnings {formatMoney(userPotentialWinnings, currency)}</>
+          )}
         </div>
       )}
 
       {/* Actions */}
       <div className={styles.actions}>
-        {bet.status === 'open' && onPlaceWager && (
+        {bet.status === 'open' && !isLocked && onPlaceWager && !(isFixedOdds && currentUser === bet.createdBy) && (
           <button
             className={`${styles.button} ${styles.buttonPrimary}`}
             onClick={() => onPlaceWager(bet.id)}
@@ -160,6 +324,24 @@ export function BetCard({
             Settle Bet
           </button>
         )}
+
+        {showHostActions && bet.status === 'settled' && onUnsettleBet && (
+          <button
+            className={`${styles.button} ${styles.buttonSecondary}`}
+            onClick={() => onUnsettleBet(bet.id)}
+          >
+            Undo Settlement
+          </button>
+        )}
+
+        {showHostActions && (bet.status === 'open' || bet.status === 'closed') && onVoidBet && (
+          <button
+            className={`${styles.button} ${styles.buttonDanger}`}
+            onClick={() => onVoidBet(bet.id)}
+          >
+            Void Bet
+          </button>
+        )}
       </div>
     </div>
   );
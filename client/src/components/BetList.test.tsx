@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { BetList } from './BetList';
+import { getBets, createWager } from '../api/client';
+import type { BetWithDetails, PlacedWager } from '../api/types';
+
+vi.mock('../api/client', () => ({
+  getBets: vi.fn(),
+  createWager: vi.fn(),
+  cancelWager: vi.fn()
+}));
+
+vi.mock('../hooks/useSocket', () => ({
+  useSocket: vi.fn()
+}));
+
+vi.mock('../utils/audio', () => ({
+  playCashRegisterSound: vi.fn()
+}));
+
+const bet: BetWithDetails = {
+  id: 1,
+  partyId: 1,
+  type: 'yes_no',
+  question: 'Will there be overtime?',
+  createdBy: 'Alice',
+  creatorGuestId: null,
+  status: 'open',
+  winningOptionId: null,
+  winningOptionIds: null,
+  splitMode: null,
+  maxExposure: null,
+  line: null,
+  result: null,
+  guessRule: null,
+  closesAt: null,
+  blind: false,
+  createdAt: '2026-02-08T20:00:00.000Z',
+  updatedAt: '2026-02-08T20:00:00.000Z',
+  options: [
+    { id: 1, betId: 1, label: 'Yes', oddsNumerator: null, oddsDenominator: null, createdAt: '2026-02-08T20:00:00.000Z' },
+    { id: 2, betId: 1, label: 'No', oddsNumerator: null, oddsDenominator: null, createdAt: '2026-02-08T20:00:00.000Z' }
+  ],
+  wagers: [],
+  totalPool: 0,
+  participantCount: 0,
+  optionStats: []
+};
+
+describe('BetList', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('offers to undo a wager once it is placed', async () => {
+    const placed: PlacedWager = {
+      id: 10,
+      betId: 1,
+      optionId: 1,
+      userName: 'Bob',
+      guestId: 3,
+      amount: 20,
+      guess: null,
+      createdAt: new Date().toISOString(),
+      cancelableUntil: new Date(Date.now() + 60000).toISOString()
+    };
+    vi.mocked(getBets).mockResolvedValue([bet]);
+    vi.mocked(createWager).mockResolvedValue(placed);
+
+    render(<BetList partyId={1} currentUser="Bob" />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Place Wager' }));
+    fireEvent.click(screen.getByLabelText(/Yes/));
+    const amountInput = screen.getByLabelText(/Wager Amount/);
+    fireEvent.change(amountInput, { target: { value: '20' } });
+    fireEvent.submit(amountInput.closest('form') as HTMLFormElement);
+
+    // The list refreshes behind the form without unmounting it
+    expect(await screen.findByRole('button', { name: 'Undo' })).toBeInTheDocument();
+    await waitFor(() => expect(getBets).toHaveBeenCalledTimes(2));
+    expect(screen.getByRole('button', { name: 'Undo' })).toBeInTheDocument();
+    expect(screen.getByText(/Undo available for/)).toBeInTheDocument();
+  });
+});
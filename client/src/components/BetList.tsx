@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
-import { getBets, createWager } from '../api/client';
-import type { BetWithDetails } from '../api/types';
+import { getBets, createWager, cancelWager } from '../api/client';
+import type { BetWithDetails, CreateWagerRequest, Currency, PlacedWager } from '../api/types';
 import { BetCard } from './BetCard';
 import { WagerForm } from './WagerForm';
 import { SettleBetModal } from './SettleBetModal';
@@ -9,9 +9,12 @@ import styles from './BetList.module.css';
 
 interface BetListProps {
   partyId: number | null;
-  status?: 'open' | 'closed' | 'settled';
+  status?: 'open' | 'closed' | 'settled' | 'void';
   currentUser: string | null;
+  guestPin?: string | null; // The current user's PIN, when their name is PIN-protected
+  currency?: Currency;
   showHostActions?: boolean;
+  isCoHost?: boolean; // Co-hosts can close and settle bets, but not undo or void them
   onUserWagerPlaced?: (userName: string) => void;
 }
 
@@ -19,7 +22,10 @@ export function BetList({
   partyId,
   status,
   currentUser,
+  guestPin = null,
+  currency = 'usd',
   showHostActions = false,
+  isCoHost = false,
   onUserWagerPlaced
 }: BetListProps) {
   const [bets, setBets] = useState<BetWithDetails[]>([]);
@@ -28,10 +34,10 @@ export function BetList({
   const [selectedBet, setSelectedBet] = useState<BetWithDetails | null>(null);
   const [showWagerForm, setShowWagerForm] = useState(false);
   const [showSettleModal, setShowSettleModal] = useState(false);
-  const [settleAction, setSettleAction] = useState<'close' | 'settle'>('close');
+  const [settleAction, setSettleAction] = useState<'close' | 'settle' | 'unsettle' | 'void'>('close');
 
-  // Fetch bets
-  const fetchBets = useCallback(async () => {
+  // Fetch bets - a background refresh keeps the list (and any open form) on screen
+  const fetchBets = useCallback(async (background = false) => {
     if (!partyId) {
       setBets([]);
       setLoading(false);
@@ -39,9 +45,11 @@ export function BetList({
     }
 
     try {
-      setLoading(true);
+      if (!background) {
+        setLoading(true);
+      }
       setError(null);
-      const data = await getBets(status);
+      const data = await getBets(partyId, status);
       setBets(data);
     } catch (err) {
       console.error('Error fetching bets:', err);
@@ -62,19 +70,63 @@ export function BetList({
     handlers: {
       onBetCreated: (event) => {
         console.log('[BetList] New bet created:', event);
-        fetchBets();
+        fetchBets(true);
       },
       onBetUpdated: (event) => {
         console.log('[BetList] Bet updated:', event);
-        fetchBets();
+        fetchBets(true);
       },
       onWagerPlaced: (event) => {
         console.log('[BetList] Wager placed:', event);
-        fetchBets();
+        // The event carries the new wager and the bet's pool breakdown, so patch the bet in place
+        setBets(prev => prev.map(bet => {
+          if (bet.id !== event.betId || bet.wagers.some(w => w.id === event.id)) {
+            return bet;
+          }
+          // A blind bet only gives away its totals until betting closes
+          if (event.blind) {
+            return { ...bet, totalPool: event.totalPool, participantCount: event.participantCount };
+          }
+          return {
+            ...bet,
+            wagers: [...bet.wagers, {
+              id: event.id,
+              betId: event.betId,
+              optionId: event.betOptionId,
+              userName: event.userName,
+              guestId: event.guestId,
+              amount: event.amount,
+              guess: event.guess,
+              createdAt: event.createdAt
+            }],
+            totalPool: event.totalPool,
+            participantCount: event.participantCount,
+            optionStats: event.optionStats
+          };
+        }));
+      },
+      onWagerCancelled: (event) => {
+        console.log('[BetList] Wager cancelled:', event);
+        // Drop the wager and take the bet's new pool breakdown
+        setBets(prev => prev.map(bet => {
+          if (bet.id !== event.betId) {
+            return bet;
+          }
+          if (event.blind) {
+            return { ...bet, totalPool: event.totalPool, participantCount: event.participantCount };
+          }
+          return {
+            ...bet,
+            wagers: bet.wagers.filter(w => w.id !== event.id),
+            totalPool: event.totalPool,
+            participantCount: event.participantCount,
+            optionStats: event.optionStats
+          };
+        }));
       },
       onSettlementComplete: (event) => {
         console.log('[BetList] Settlement complete:', event);
-        fetchBets();
+        fetchBets(true);
       }
     }
   });
@@ -87,38 +139,41 @@ export function BetList({
     }
   };
 
-  const handleWagerSubmit = async (data: {
-    userName: string;
-    optionId: number;
-    amount: number;
-  }) => {
-    if (!selectedBet) return;
+  const handleWagerSubmit = async (data: CreateWagerRequest): Promise<PlacedWager> => {
+    if (!selectedBet) throw new Error('No bet selected');
 
     try {
-      await createWager(selectedBet.id, data);
+      const wager = await createWager(selectedBet.id, guestPin ? { ...data, guestPin } : data);
 
       // Update recent user names
       if (onUserWagerPlaced) {
         onUserWagerPlaced(data.userName);
       }
 
-      // Close form and refresh bets
-      setShowWagerForm(false);
-      setSelectedBet(null);
-      fetchBets();
+      // Refresh bets in the background - the form stays open to offer an undo
+      fetchBets(true);
 
       // Success feedback
       console.log('Wager placed successfully!');
+      return wager;
     } catch (err) {
       // Error is handled in WagerForm component
       throw err;
     }
   };
 
-  const handleCloseForm = () => {
+  const handleUndoWager = async (wager: PlacedWager) => {
+    await cancelWager(wager.betId, wager.id, {
+      userName: wager.userName,
+      ...(guestPin && { guestPin })
+    });
+    fetchBets(true);
+  };
+
+  const handleCloseForm = useCallback(() => {
     setShowWagerForm(false);
     setSelectedBet(null);
-  };
+  }, []);
 
   const handleCloseBet = (betId: number) => {
     const bet = bets.find(b => b.id === betId);
@@ -138,6 +193,24 @@ export function BetList({
     }
   };
 
+  const handleUnsettleBet = (betId: number) => {
+    const bet = bets.find(b => b.id === betId);
+    if (bet) {
+      setSelectedBet(bet);
+      setSettleAction('unsettle');
+      setShowSettleModal(true);
+    }
+  };
+
+  const handleVoidBet = (betId: number) => {
+    const bet = bets.find(b => b.id === betId);
+    if (bet) {
+      setSelectedBet(bet);
+      setSettleAction('void');
+      setShowSettleModal(true);
+    }
+  };
+
   const handleSettleSuccess = () => {
     setShowSettleModal(false);
     setSelectedBet(null);
@@ -152,6 +225,8 @@ export function BetList({
         return 'No closed bets waiting to be settled.';
       case 'settled':
         return 'No settled bets yet.';
+      case 'void':
+        return 'No voided bets.';
       default:
         return 'No bets found.';
     }
@@ -173,7 +248,7 @@ export function BetList({
       <div className={styles.container}>
         <div className={styles.error}>
           <p>{error}</p>
-          <button className={styles.retryButton} onClick={fetchBets}>
+          <button className={styles.retryButton} onClick={() => fetchBets()}>
             Try Again
           </button>
         </div>
@@ -199,9 +274,12 @@ export function BetList({
             key={bet.id}
             bet={bet}
             currentUser={currentUser}
+            currency={currency}
             onPlaceWager={handlePlaceWager}
             onCloseBet={handleCloseBet}
             onSettleBet={handleSettleBet}
+            onUnsettleBet={isCoHost ? undefined : handleUnsettleBet}
+            onVoidBet={isCoHost ? undefined : handleVoidBet}
             showHostActions={showHostActions}
           />
         ))}
@@ -211,7 +289,9 @@ export function BetList({
         <WagerForm
           bet={selectedBet}
           currentUser={currentUser}
+          currency={currency}
           onSubmit={handleWagerSubmit}
+          onUndo={handleUndoWager}
           onCancel={handleCloseForm}
         />
       )}
@@ -0,0 +1,80 @@
+import { useState, FormEvent } from 'react';
+import { startCoHostSession } from '../api/client';
+import type { HostSession } from '../api/types';
+import styles from './CoHostCodeEntry.module.css';
+
+interface CoHostCodeEntryProps {
+  onSuccess: (session: HostSession) => void;
+  onCancel: () => void;
+}
+
+export function CoHostCodeEntry({ onSuccess, onCancel }: CoHostCodeEntryProps) {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      setError('Enter the code the host gave you');
+      return;
+    }
+
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      onSuccess(await startCoHostSession(code.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid co-host code');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className={styles.overlay}>
+      <form className={styles.modal} onSubmit={handleSubmit}>
+        <h2 className={styles.title}>Enter Co-Host Code</h2>
+
+        <input
+          type="text"
+          value={code}
+          onChange={e => { setCode(e.target.value); setError(null); }}
+          className={styles.codeInput}
+          placeholder="ABCD-EFGH"
+          maxLength={20}
+          autoFocus
+          disabled={isVerifying}
+        />
+
+        {error && (
+          <div className={styles.error}>{error}</div>
+        )}
+
+        <div className={styles.actions}>
+          <button
+            type="button"
+            className={`${styles.button} ${styles.buttonSecondary}`}
+            onClick={onCancel}
+            disabled={isVerifying}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className={`${styles.button} ${styles.buttonPrimary}`}
+            disabled={isVerifying || !code.trim()}
+          >
+            {isVerifying ? 'Verifying...' : 'Submit'}
+          </button>
+        </div>
+
+        <p className={styles.hint}>
+          Co-hosts can close and settle bets at this party
+        </p>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { getCoHosts, createCoHost, revokeCoHost } from '../api/client';
+import type { CoHost, MintedCoHost } from '../api/types';
+import styles from './CoHostsForm.module.css';
+
+interface CoHostsFormProps {
+  partyId: number;
+  onCancel: () => void;
+}
+
+export function CoHostsForm({ partyId, onCancel }: CoHostsFormProps) {
+  const [label, setLabel] = useState('');
+  const [coHosts, setCoHosts] = useState<CoHost[]>([]);
+  const [minted, setMinted] = useState<MintedCoHost | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchCoHosts = useCallback(async () => {
+    try {
+      setCoHosts(await getCoHosts(partyId));
+    } catch (err) {
+      console.error('Error fetching co-hosts:', err);
+    }
+  }, [partyId]);
+
+  useEffect(() => {
+    fetchCoHosts();
+  }, [fetchCoHosts]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!label.trim()) {
+      setError('Enter who the code is for');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      setMinted(await createCoHost(partyId, { label: label.trim() }));
+      setLabel('');
+      fetchCoHosts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create co-host code');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (coHost: CoHost) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await revokeCoHost(partyId, coHost.id);
+      if (minted?.id === coHost.id) {
+        setMinted(null);
+      }
+      fetchCoHosts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke co-host code');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.modal}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Co-Hosts</h2>
+          <button className={styles.closeButton} onClick={onCancel}>
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleCreate} className={styles.form}>
+          <div className={styles.field}>
+            <label htmlFor="coHostLabel" className={styles.label}>Give a code to</label>
+            <input
+              type="text"
+              id="coHostLabel"
+              value={label}
+              onChange={e => { setLabel(e.target.value); setError(null); }}
+              className={styles.input}
+              placeholder="e.g., Sam"
+              maxLength={50}
+              autoFocus
+            />
+          </div>
+
+          {minted && (
+            <div className={styles.minted}>
+              Code for {minted.label}:
+              <div className={styles.code}>{minted.code}</div>
+              Write it down - it won't be shown again.
+            </div>
+          )}
+
+          {error && <div className={styles.submitError}>{error}</div>}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              onClick={onCancel}
+              className={`${styles.button} ${styles.buttonSecondary}`}
+              disabled={isSubmitting}
+            >
+              Close
+            </button>
+            <button
+              type="submit"
+              className={`${styles.button} ${styles.buttonPrimary}`}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? 'Creating...' : 'Create Code'}
+            </button>
+          </div>
+        </form>
+
+        {coHosts.length > 0 && (
+          <div className={styles.history}>
+            <label className={styles.label}>Codes</label>
+            {coHosts.map(coHost => (
+              <div key={coHost.id} className={styles.historyItem}>
+                <span className={coHost.revokedAt ? styles.revoked : ''}>
+                  {coHost.label}
+                </span>
+                {!coHost.revokedAt && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(coHost)}
+                    className={styles.button}
+                    disabled={isSubmitting}
+                  >
+                    Revoke
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className={styles.note}>
+          Note: Co-hosts can close and settle bets at this party. They can't void or undo bets, archive parties or change settings.
+        </p>
+      </div>
+    </div>
+  );
+}
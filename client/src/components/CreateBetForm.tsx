@@ -1,18 +1,26 @@
 import { useState, FormEvent } from 'react';
 import { createBet } from '../api/client';
-import type { BetWithDetails } from '../api/types';
+import type { BetType, BetWithDetails, GuessRule } from '../api/types';
 import styles from './CreateBetForm.module.css';
 
 interface CreateBetFormProps {
+  partyId: number;
   createdBy: string;
+  guestPin?: string | null; // The creator's PIN, when their name is PIN-protected
   onSuccess: (bet: BetWithDetails) => void;
   onCancel: () => void;
 }
 
-export function CreateBetForm({ createdBy, onSuccess, onCancel }: CreateBetFormProps) {
+export function CreateBetForm({ partyId, createdBy, guestPin = null, onSuccess, onCancel }: CreateBetFormProps) {
   const [question, setQuestion] = useState('');
-  const [type, setType] = useState<'yes_no' | 'multi_option'>('multi_option');
+  const [type, setType] = useState<BetType>('multi_option');
   const [options, setOptions] = useState(['', '']);
+  const [odds, setOdds] = useState([{ numerator: '1', denominator: '1' }, { numerator: '1', denominator: '1' }]);
+  const [maxExposure, setMaxExposure] = useState('');
+  const [line, setLine] = useState('');
+  const [guessRule, setGuessRule] = useState<GuessRule>('closest');
+  const [closesAt, setClosesAt] = useState('');
+  const [blind, setBlind] = useState(false);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -26,7 +34,7 @@ export function CreateBetForm({ createdBy, onSuccess, onCancel }: CreateBetFormP
     }
 
     const filledOptions = options.filter(opt => opt.trim());
-    if (filledOptions.length < 2) {
+    if (type !== 'closest_guess' && filledOptions.length < 2) {
       newErrors.options = 'At least 2 options are required';
     }
 
@@ -34,6 +42,29 @@ export function CreateBetForm({ createdBy, onSuccess, onCancel }: CreateBetFormP
       newErrors.options = 'Each option must be 100 characters or less';
     }
 
+    if (type === 'over_under' && (line.trim() === '' || !Number.isFinite(Number(line)))) {
+      newErrors.line = 'Line must be a number, e.g. 47.5';
+    }
+
+    // Lock time is optional, but has to be in the future (datetime-local is the guest's local time)
+    if (closesAt && !(new Date(closesAt).getTime() > Date.now())) {
+      newErrors.closesAt = 'Lock time must be in the future';
+    }
+
+    if (type === 'fixed_odds') {
+      const isValidOdds = (value: string) => /^\d+$/.test(value) && parseInt(value) >= 1 && parseInt(value) <= 1000;
+      if (odds.some((o, i) => options[i].trim() && (!isValidOdds(o.numerator) || !isValidOdds(o.denominator)))) {
+        newErrors.odds = 'Odds must be whole numbers between 1 and 1000';
+      }
+
+      const exposure = parseInt(maxExposure);
+      if (!/^\d+$/.test(maxExposure) || exposure < 1) {
+        newErrors.maxExposure = 'Maximum exposure must be a whole dollar amount';
+      } else if (exposure > 100000) {
+        newErrors.maxExposure = 'Maximum exposure cannot exceed $100,000';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -46,13 +77,27 @@ export function CreateBetForm({ createdBy, onSuccess, onCancel }: CreateBetFormP
     setIsSubmitting(true);
 
     try {
-      const filledOptions = options.filter(opt => opt.trim()).map(opt => opt.trim());
+      const filledIndexes = options.map((_, i) => i).filter(i => options[i].trim());
+      const filledOptions = filledIndexes.map(i => options[i].trim());
 
       const bet = await createBet({
+        partyId,
         question: question.trim(),
         type,
         createdBy,
-        options: filledOptions
+        ...(guestPin && { guestPin }),
+        ...(type !== 'over_under' && { options: type === 'closest_guess' ? [] : filledOptions }),
+        ...(type === 'fixed_odds' && {
+          odds: filledIndexes.map(i => ({
+            numerator: parseInt(odds[i].numerator),
+            denominator: parseInt(odds[i].denominator)
+          })),
+          maxExposure: parseInt(maxExposure)
+        }),
+        ...(type === 'over_under' && { line: Number(line) }),
+        ...(type === 'closest_guess' && { guessRule }),
+        ...(closesAt && { closesAt: new Date(closesAt).toISOString() }),
+        ...(blind && { blind })
       });
 
       onSuccess(bet);
@@ -68,12 +113,14 @@ export function CreateBetForm({ createdBy, onSuccess, onCancel }: CreateBetFormP
   const handleAddOption = () => {
     if (options.length < 6) {
       setOptions([...options, '']);
+      setOdds([...odds, { numerator: '1', denominator: '1' }]);
     }
   };
 
   const handleRemoveOption = (index: number) => {
     if (options.length > 2) {
       setOptions(options.filter((_, i) => i !== index));
+      setOdds(odds.filter((_, i) => i !== index));
     }
   };
 
@@ -83,11 +130,21 @@ export function CreateBetForm({ createdBy, onSuccess, onCancel }: CreateBetFormP
     setOptions(newOptions);
   };
 
-  const handleTypeChange = (newType: 'yes_no' | 'multi_option') => {
+  const handleOddsChange = (index: number, part: 'numerator' | 'denominator', value: string) => {
+    const newOdds = [...odds];
+    newOdds[index] = { ...newOdds[index], [part]: value };
+    setOdds(newOdds);
+  };
+
+  const handleTypeChange = (newType: BetType) => {
     setType(newType);
     if (newType === 'yes_no') {
       setOptions(['Yes', 'No']);
-    } else if (options.length === 2 && options[0] === 'Yes' && options[1] === 'No') {
+      setOdds(odds.slice(0, 2));
+    } else if (newType === 'over_under') {
+      setOptions(['Over', 'Under']);
+      setOdds(odds.slice(0, 2));
+    } else if (options.length === 2 && ['Yes,No', 'Over,Under'].includes(options.join(','))) {
       setOptions(['', '']);
     }
   };
@@ -138,48 +195,195 @@ export function CreateBetForm({ createdBy, onSuccess, onCancel }: CreateBetFormP
               >
                 Multiple Options
               </button>
-            </div>
-          </div>
-
-          {/* Options */}
-          <div className={styles.field}>
-            <label className={styles.label}>
-              Options * ({options.filter(o => o.trim()).length} filled)
-            </label>
-            <div className={styles.options}>
-              {options.map((option, index) => (
-                <div key={index} className={styles.optionRow}>
-                  <input
-                    type="text"
-                    value={option}
-                    onChange={e => handleOptionChange(index, e.target.value)}
-                    className={styles.optionInput}
-                    placeholder={`Option ${index + 1}`}
-                    disabled={type === 'yes_no'}
-                  />
-                  {type === 'multi_option' && options.length > 2 && (
-                    <button
-                      type="button"
-                      onClick={() => handleRemoveOption(index)}
-                      className={styles.removeButton}
-                      title="Remove option"
-                    >
-                      ×
-                    </button>
-                  )}
-                </div>
-              ))}
-            </div>
-            {type === 'multi_option' && options.length < 6 && (
               <button
                 type="button"
-                onClick={handleAddOption}
-                className={styles.addButton}
+                className={`${styles.typeButton} ${type === 'fixed_odds' ? styles.typeButtonActive : ''}`}
+                onClick={() => handleTypeChange('fixed_odds')}
+              >
+                Fixed Odds
+              </button>
+              <button
+                type="button"
+                className={`${styles.typeButton} ${type === 'over_under' ? styles.typeButtonActive : ''}`}
+                onClick={() => handleTypeChange('over_under')}
+              >
+                Over/Under
+              </button>
+              <button
+                type="button"
+                className={`${styles.typeButton} ${type === 'closest_guess' ? styles.typeButtonActive : ''}`}
+                onClick={() => handleTypeChange('closest_guess')}
               >
-                + Add Option
+                Closest Guess
               </button>
+            </div>
+            {type === 'fixed_odds' && (
+              <span className={styles.hint}>
+                You are the bank: set the odds on each option and pay out winners yourself.
+              </span>
             )}
-            {errors.options && <span className={styles.error}>{errors.options}</span>}
+          </div>
+
+          {/* Options (closest-guess bets have none - guests submit a number) */}
+          {type !== 'closest_guess' && (
+            <div className={styles.field}>
+              <label className={styles.label}>
+                Options * ({options.filter(o => o.trim()).length} filled)
+              </label>
+              <div className={styles.options}>
+                {options.map((option, index) => (
+                  <div key={index} className={styles.optionRow}>
+                    <input
+                      type="text"
+                      value={option}
+                      onChange={e => handleOptionChange(index, e.target.value)}
+                      className={styles.optionInput}
+                      placeholder={`Option ${index + 1}`}
+                      disabled={type === 'yes_no' || type === 'over_under'}
+                    />
+                    {type === 'fixed_odds' && (
+                      <>
+                        <input
+                          type="number"
+                          min="1"
+                          value={odds[index].numerator}
+                          onChange={e => handleOddsChange(index, 'numerator', e.target.value)}
+                          className={styles.oddsInput}
+                          aria-label={`Option ${index + 1} odds`}
+                        />
+                        <span className={styles.oddsSeparator}>to</span>
+                        <input
+                          type="number"
+                          min="1"
+                          value={odds[index].denominator}
+                          onChange={e => handleOddsChange(index, 'denominator', e.target.value)}
+                          className={styles.oddsInput}
+                          aria-label={`Option ${index + 1} odds against`}
+                        />
+                      </>
+                    )}
+                    {(type === 'multi_option' || type === 'fixed_odds') && options.length > 2 && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveOption(index)}
+                        className={styles.removeButton}
+                        title="Remove option"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {(type === 'multi_option' || type === 'fixed_odds') && options.length < 6 && (
+                <button
+                  type="button"
+                  onClick={handleAddOption}
+                  className={styles.addButton}
+                >
+                  + Add Option
+                </button>
+              )}
+              {errors.options && <span className={styles.error}>{errors.options}</span>}
+              {errors.odds && <span className={styles.error}>{errors.odds}</span>}
+            </div>
+          )}
+
+          {/* Guess Rule (closest guess only) */}
+          {type === 'closest_guess' && (
+            <div className={styles.field}>
+              <label className={styles.label}>Winning Guess *</label>
+              <div className={styles.typeButtons}>
+                <button
+                  type="button"
+                  className={`${styles.typeButton} ${guessRule === 'closest' ? styles.typeButtonActive : ''}`}
+                  onClick={() => setGuessRule('closest')}
+                >
+                  Closest Overall
+                </button>
+                <button
+                  type="button"
+                  className={`${styles.typeButton} ${guessRule === 'not_over' ? styles.typeButtonActive : ''}`}
+                  onClick={() => setGuessRule('not_over')}
+                >
+                  Without Going Over
+                </button>
+              </div>
+              <span className={styles.hint}>
+                Guests each guess a number; the closest guess takes the pool and ties split it.
+              </span>
+            </div>
+          )}
+
+          {/* Line (over/under only) */}
+          {type === 'over_under' && (
+            <div className={styles.field}>
+              <label htmlFor="line" className={styles.label}>
+                Line *
+              </label>
+              <input
+                type="number"
+                id="line"
+                step="0.5"
+                value={line}
+                onChange={e => setLine(e.target.value)}
+                className={styles.input}
+                placeholder="e.g., 47.5 (a whole number allows a push)"
+              />
+              {errors.line && <span className={styles.error}>{errors.line}</span>}
+            </div>
+          )}
+
+          {/* Maximum Exposure (fixed odds only) */}
+          {type === 'fixed_odds' && (
+            <div className={styles.field}>
+              <label htmlFor="maxExposure" className={styles.label}>
+                Maximum Exposure ($) *
+              </label>
+              <input
+                type="number"
+                id="maxExposure"
+                min="1"
+                value={maxExposure}
+                onChange={e => setMaxExposure(e.target.value)}
+                className={styles.input}
+                placeholder="Most you are willing to lose, e.g. 50"
+              />
+              {errors.maxExposure && <span className={styles.error}>{errors.maxExposure}</span>}
+            </div>
+          )}
+
+          {/* Lock Time */}
+          <div className={styles.field}>
+            <label htmlFor="closesAt" className={styles.label}>
+              Lock Time (Optional)
+            </label>
+            <input
+              type="datetime-local"
+              id="closesAt"
+              value={closesAt}
+              onChange={e => setClosesAt(e.target.value)}
+              className={styles.input}
+            />
+            <span className={styles.hint}>
+              Betting closes automatically at this time, e.g. kickoff.
+            </span>
+            {errors.closesAt && <span className={styles.error}>{errors.closesAt}</span>}
+          </div>
+
+          {/* Blind Betting */}
+          <div className={styles.field}>
+            <label className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={blind}
+                onChange={e => setBlind(e.target.checked)}
+              />
+              Blind betting
+            </label>
+            <span className={styles.hint}>
+              Guests only see the total pool until betting closes, so nobody can pile onto the underdog late.
+            </span>
           </div>
 
           {/* Submit Error */}
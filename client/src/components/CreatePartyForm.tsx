@@ -1,15 +1,14 @@
 import { useState, FormEvent } from 'react';
 import { createParty } from '../api/client';
-import type { Party } from '../api/types';
+import type { Currency, Party } from '../api/types';
 import styles from './CreatePartyForm.module.css';
 
 interface CreatePartyFormProps {
-  hostPin: string;
   onSuccess: (party: Party) => void;
   onCancel: () => void;
 }
 
-export function CreatePartyForm({ hostPin, onSuccess, onCancel }: CreatePartyFormProps) {
+export function CreatePartyForm({ onSuccess, onCancel }: CreatePartyFormProps) {
   const [name, setName] = useState('');
   const [date, setDate] = useState(() => {
     // Default to today at 6 PM
@@ -18,6 +17,12 @@ export function CreatePartyForm({ hostPin, onSuccess, onCancel }: CreatePartyFor
     return now.toISOString().slice(0, 16); // Format for datetime-local input
   });
   const [description, setDescription] = useState('');
+  const [maxWager, setMaxWager] = useState('');
+  const [maxPerBet, setMaxPerBet] = useState('');
+  const [bankroll, setBankroll] = useState('');
+  const [currency, setCurrency] = useState<Currency>('usd');
+  const [allowRebuys, setAllowRebuys] = useState(false);
+  const [cancelGraceSeconds, setCancelGraceSeconds] = useState('60');
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -38,6 +43,26 @@ export function CreatePartyForm({ hostPin, onSuccess, onCancel }: CreatePartyFor
       newErrors.description = 'Description must be 500 characters or less';
     }
 
+    // Betting limits are optional whole-dollar amounts, each no bigger than the next
+    // (chips parties need the bankroll, it is everyone's starting stack)
+    const limits = [maxWager, maxPerBet, bankroll];
+    if (limits.some(limit => limit && (!/^\d+$/.test(limit) || parseInt(limit) < 1 || parseInt(limit) > 100000))) {
+      newErrors.limits = currency === 'chips'
+        ? 'Limits must be whole chip amounts up to 100,000'
+        : 'Limits must be whole dollar amounts up to $100,000';
+    } else if (currency === 'chips' && !bankroll) {
+      newErrors.limits = 'Chips parties need a starting chip stack';
+    } else if (maxWager && maxPerBet && parseInt(maxWager) > parseInt(maxPerBet)) {
+      newErrors.limits = 'Max per wager cannot be more than max per bet';
+    } else if (maxPerBet && bankroll && parseInt(maxPerBet) > parseInt(bankroll)) {
+      newErrors.limits = 'Max per bet cannot be more than the bankroll';
+    }
+
+    // Guests can undo a wager for up to 10 minutes (0 leaves it to the host)
+    if (!/^\d+$/.test(cancelGraceSeconds) || parseInt(cancelGraceSeconds) > 600) {
+      newErrors.cancelGraceSeconds = 'Undo window must be 0 to 600 seconds';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -57,7 +82,12 @@ export function CreatePartyForm({ hostPin, onSuccess, onCancel }: CreatePartyFor
         name: name.trim(),
         date: isoDate,
         description: description.trim() || undefined,
-        hostPin
+        ...(maxWager && { maxWager: parseInt(maxWager) }),
+        ...(maxPerBet && { maxPerBet: parseInt(maxPerBet) }),
+        ...(bankroll && { bankroll: parseInt(bankroll) }),
+        currency,
+        ...(currency === 'chips' && { allowRebuys }),
+        cancelGraceSeconds: parseInt(cancelGraceSeconds)
       });
 
       onSuccess(party);
@@ -129,6 +159,93 @@ export function CreatePartyForm({ hostPin, onSuccess, onCancel }: CreatePartyFor
             {errors.description && <span className={styles.error}>{errors.description}</span>}
           </div>
 
+          {/* Currency */}
+          <div className={styles.field}>
+            <label className={styles.label}>Play For</label>
+            <div className={styles.currencyButtons}>
+              <button
+                type="button"
+                className={`${styles.currencyButton} ${currency === 'usd' ? styles.currencyButtonActive : ''}`}
+                onClick={() => setCurrency('usd')}
+              >
+                Real Money ($)
+              </button>
+              <button
+                type="button"
+                className={`${styles.currencyButton} ${currency === 'chips' ? styles.currencyButtonActive : ''}`}
+                onClick={() => setCurrency('chips')}
+              >
+                Play Chips
+              </button>
+            </div>
+            {currency === 'chips' && (
+              <label className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={allowRebuys}
+                  onChange={e => setAllowRebuys(e.target.checked)}
+                />
+                Allow busted guests to rebuy a fresh stack
+              </label>
+            )}
+          </div>
+
+          {/* Betting Limits */}
+          <div className={styles.field}>
+            <label className={styles.label}>
+              {currency === 'chips'
+                ? 'Betting Limits per Guest (Chips, Starting Stack Required)'
+                : 'Betting Limits per Guest (Optional, $)'}
+            </label>
+            <div className={styles.limits}>
+              <input
+                type="number"
+                min="1"
+                value={maxWager}
+                onChange={e => setMaxWager(e.target.value)}
+                className={styles.input}
+                placeholder="Per wager"
+                aria-label="Max per wager"
+              />
+              <input
+                type="number"
+                min="1"
+                value={maxPerBet}
+                onChange={e => setMaxPerBet(e.target.value)}
+                className={styles.input}
+                placeholder="Per bet"
+                aria-label="Max per bet"
+              />
+              <input
+                type="number"
+                min="1"
+                value={bankroll}
+                onChange={e => setBankroll(e.target.value)}
+                className={styles.input}
+                placeholder={currency === 'chips' ? 'Starting stack' : 'Bankroll'}
+                aria-label="Starting bankroll"
+              />
+            </div>
+            {errors.limits && <span className={styles.error}>{errors.limits}</span>}
+          </div>
+
+          {/* Undo Window */}
+          <div className={styles.field}>
+            <label htmlFor="cancelGraceSeconds" className={styles.label}>
+              Wager Undo Window (Seconds, 0 = Host Only)
+            </label>
+            <input
+              type="number"
+              id="cancelGraceSeconds"
+              min="0"
+              max="600"
+              value={cancelGraceSeconds}
+              onChange={e => setCancelGraceSeconds(e.target.value)}
+              className={styles.input}
+            />
+            {errors.cancelGraceSeconds && <span className={styles.error}>{errors.cancelGraceSeconds}</span>}
+          </div>
+
           {/* Submit Error */}
           {errors.submit && (
             <div className={styles.submitError}>{errors.submit}</div>
@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react';
+import { getPartyInvite } from '../api/client';
+import type { PartyInvite } from '../api/types';
+import styles from './InviteScreen.module.css';
+
+interface InviteScreenProps {
+  partyId: number;
+  partyName: string;
+  onClose: () => void;
+}
+
+export function InviteScreen({ partyId, partyName, onClose }: InviteScreenProps) {
+  const [invite, setInvite] = useState<PartyInvite | null>(null);
+  const [linkIndex, setLinkIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPartyInvite(partyId)
+      .then(setInvite)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load invite'));
+  }, [partyId]);
+
+  const link = invite?.links[linkIndex];
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.modal}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Invite Guests</h2>
+          <button className={styles.closeButton} onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <div className={styles.body}>
+          {error && <div className={styles.error}>{error}</div>}
+
+          {!invite && !error && <p className={styles.loading}>Loading...</p>}
+
+          {invite && (
+            <>
+              <p className={styles.partyName}>{partyName}</p>
+
+              {link ? (
+                <>
+                  {/* The server renders the QR code, so this works without internet access */}
+                  <img
+                    className={styles.qr}
+                    src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(link.qrSvg)}`}
+                    alt={`QR code for ${link.url}`}
+                  />
+                  <div className={styles.url}>{link.url}</div>
+
+                  {invite.links.length > 1 && (
+                    <div className={styles.field}>
+                      <label htmlFor="inviteNetwork" className={styles.label}>
+                        Guests can't open it? Try another network:
+                      </label>
+                      <select
+                        id="inviteNetwork"
+                        className={styles.select}
+                        value={linkIndex}
+                        onChange={e => setLinkIndex(Number(e.target.value))}
+                      >
+                        {invite.links.map((l, index) => (
+                          <option key={l.url} value={index}>
+                            {l.address} ({l.interface})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className={styles.error}>
+                  The server isn't on a network guests can reach. Connect it to the party's Wi-Fi.
+                </div>
+              )}
+
+              <p className={styles.label}>Join code (the link ends with it):</p>
+              <div className={styles.code}>{invite.joinCode}</div>
+            </>
+          )}
+
+          <div className={styles.actions}>
+            <button className={styles.button} onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { getGuestMerges, previewGuestMerge, mergeGuests, undoGuestMerge } from '../api/client';
+import type { Currency, GuestMerge, GuestMergePreview } from '../api/types';
+import { formatMoney } from '../utils/currency';
+import styles from './MergeGuestsForm.module.css';
+
+interface MergeGuestsFormProps {
+  partyId: number;
+  currency?: Currency;
+  onMerged?: () => void;
+  onCancel: () => void;
+}
+
+export function MergeGuestsForm({ partyId, currency = 'usd', onMerged, onCancel }: MergeGuestsFormProps) {
+  const [from, setFrom] = useState('');
+  const [into, setInto] = useState('');
+  const [allParties, setAllParties] = useState(false);
+  const [preview, setPreview] = useState<GuestMergePreview[] | null>(null);
+  const [merges, setMerges] = useState<GuestMerge[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchMerges = useCallback(async () => {
+    try {
+      setMerges(await getGuestMerges());
+    } catch (err) {
+      console.error('Error fetching guest merges:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMerges();
+  }, [fetchMerges]);
+
+  const signed = (amount: number) => `${amount < 0 ? '-' : ''}${formatMoney(Math.abs(amount), currency)}`;
+
+  const request = () => ({
+    from: from.trim(),
+    into: into.trim(),
+    ...(!allParties && { partyId })
+  });
+
+  // Any edit invalidates the preview, so a merge always runs on what was previewed
+  const resetPreview = () => {
+    setPreview(null);
+    setError(null);
+  };
+
+  const handlePreview = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!from.trim() || !into.trim()) {
+      setError('Enter both names');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      setPreview((await previewGuestMerge(request())).parties);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview merge');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await mergeGuests(request());
+      setFrom('');
+      setInto('');
+      setPreview(null);
+      fetchMerges();
+      onMerged?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge guests');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUndo = async (merge: GuestMerge) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await undoGuestMerge(merge.id);
+      fetchMerges();
+      onMerged?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo merge');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.modal}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Merge Guests</h2>
+          <button className={styles.closeButton} onClick={onCancel}>
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handlePreview} className={styles.form}>
+          <div className={styles.field}>
+            <div className={styles.names}>
+              <div>
+                <label htmlFor="mergeFrom" className={styles.label}>Merge</label>
+                <input
+                  type="text"
+                  id="mergeFrom"
+                  value={from}
+                  onChange={e => { setFrom(e.target.value); resetPreview(); }}
+                  className={styles.input}
+                  placeholder="e.g., Jon"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label htmlFor="mergeInto" className={styles.label}>Into</label>
+                <input
+                  type="text"
+                  id="mergeInto"
+                  value={into}
+                  onChange={e => { setInto(e.target.value); resetPreview(); }}
+                  className={styles.input}
+                  placeholder="e.g., Jonathan"
+                />
+              </div>
+            </div>
+            <label className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={allParties}
+                onChange={e => { setAllParties(e.target.checked); resetPreview(); }}
+              />
+              Merge at every party, not just this one
+            </label>
+          </div>
+
+          {preview && (
+            <div className={styles.preview}>
+              {preview.map(party => (
+                <div key={party.partyId} className={styles.previewParty}>
+                  <strong>{party.partyName}</strong>
+                  <div className={styles.previewCounts}>
+                    {party.wagers} wagers · {party.bets} bets created · {party.settlements} settlements · {party.payments} payments
+                  </div>
+                  <table className={styles.balanceTable}>
+                    <thead>
+                      <tr>
+                        <th>Guest</th>
+                        <th>Before</th>
+                        <th>After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {party.balances.map(balance => (
+                        <tr key={balance.userName}>
+                          <td>{balance.userName}</td>
+                          <td>{signed(balance.before)}</td>
+                          <td>{signed(balance.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && <div className={styles.submitError}>{error}</div>}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              onClick={onCancel}
+              className={`${styles.button} ${styles.buttonSecondary}`}
+              disabled={isSubmitting}
+            >
+              Close
+            </button>
+            {preview ? (
+              <button
+                type="button"
+                onClick={handleMerge}
+                className={`${styles.button} ${styles.buttonPrimary}`}
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? 'Merging...' : 'Merge'}
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className={`${styles.button} ${styles.buttonPrimary}`}
+                disabled={isSubmitting}
+              >
+                Preview
+              </button>
+            )}
+          </div>
+        </form>
+
+        {merges.length > 0 && (
+          <div className={styles.history}>
+            <label className={styles.label}>Past Merges</label>
+            {merges.map(merge => (
+              <div key={merge.id} className={styles.historyItem}>
+                <span className={merge.undoneAt ? styles.undone : ''}>
+                  {merge.fromName} → {merge.intoName}
+                  {merge.partyId === null && ' (every party)'}
+                </span>
+                {!merge.undoneAt && (
+                  <button
+                    type="button"
+                    onClick={() => handleUndo(merge)}
+                    className={styles.button}
+                    disabled={isSubmitting}
+                  >
+                    Undo
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className={styles.note}>
+          Note: Merging moves every wager, settlement and payment to the second name. It can be undone until a merged bet is re-settled.
+        </p>
+      </div>
+    </div>
+  );
+}
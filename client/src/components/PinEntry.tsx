@@ -1,18 +1,22 @@
-import { useState, useRef, KeyboardEvent } from 'react';
+import { useState, useRef, KeyboardEvent, ReactNode } from 'react';
 import styles from './PinEntry.module.css';
 
 interface PinEntryProps {
-  onSuccess: (pin: string) => void;
+  onSuccess: (pin: string) => void | Promise<void>; // Throw to show the error and ask again
   onCancel?: () => void;
   title?: string;
   showCancel?: boolean;
+  hint?: string;
+  children?: ReactNode; // Shown under the hint, e.g. another way in
 }
 
 export function PinEntry({
   onSuccess,
   onCancel,
   title = 'Enter Host PIN',
-  showCancel = true
+  showCancel = true,
+  hint = 'The 4-digit PIN chosen when Place-A-Bet was set up',
+  children
 }: PinEntryProps) {
   const [pin, setPin] = useState(['', '', '', '']);
   const [error, setError] = useState<string | null>(null);
@@ -70,10 +74,10 @@ export function PinEntry({
     setError(null);
 
     try {
-      // Just pass the PIN to parent - they'll verify it
-      onSuccess(pinToVerify);
+      // Pass the PIN to parent - they verify it and throw if it's wrong
+      await onSuccess(pinToVerify);
     } catch (err) {
-      setError('Invalid PIN. Please try again.');
+      setError(err instanceof Error ? err.message : 'Invalid PIN. Please try again.');
       setPin(['', '', '', '']);
       inputRefs[0].current?.focus();
     } finally {
@@ -138,8 +142,10 @@ export function PinEntry({
         </div>
 
         <p className={styles.hint}>
-          The 4-digit PIN is set in the server configuration
+          {hint}
         </p>
+
+        {children}
       </div>
     </div>
   );
@@ -0,0 +1,167 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { getPoolHistory } from '../api/client';
+import type { BetWithDetails, PoolHistoryPoint } from '../api/types';
+import styles from './PoolHistoryChart.module.css';
+
+interface PoolHistoryChartProps {
+  bet: BetWithDetails; // Kept live by BetList's socket, so the chart follows its wagers
+}
+
+// One line colour per option, in option order
+const LINE_COLORS = ['#000080', '#800000', '#008000', '#808000', '#800080', '#008080'];
+
+const WIDTH = 240;
+const HEIGHT = 60;
+const PADDING = 4;
+
+/**
+ * Drop a cancelled wager's point and take its stake out of every later point
+ * (the chart only shows pari-mutuel bets, so multipliers are total pool / option pool)
+ */
+function withoutWager(points: PoolHistoryPoint[], wagerId: number): PoolHistoryPoint[] {
+  const index = points.findIndex(p => p.wagerId === wagerId);
+  if (index === -1) return points;
+
+  const removed = points[index];
+  const previous = index > 0 ? points[index - 1] : null;
+  const stakeOn = (optionId: number) => (removed.options.find(o => o.optionId === optionId)?.pool ?? 0) -
+    (previous?.options.find(o => o.optionId === optionId)?.pool ?? 0);
+  const stake = removed.totalPool - (previous?.totalPool ?? 0);
+
+  return [
+    ...points.slice(0, index),
+    ...points.slice(index + 1).map(point => {
+      const totalPool = point.totalPool - stake;
+      return {
+        ...point,
+        totalPool,
+        options: point.options.map(option => {
+          const pool = option.pool - stakeOn(option.optionId);
+          return {
+            optionId: option.optionId,
+            pool,
+            payoutMultiplier: pool > 0 ? Math.round((totalPool / pool) * 100) / 100 : null
+          };
+        })
+      };
+    })
+  ];
+}
+
+export function PoolHistoryChart({ bet }: PoolHistoryChartProps) {
+  const { id: betId, options, wagers, totalPool, optionStats } = bet;
+  const [points, setPoints] = useState<PoolHistoryPoint[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const reloadedFor = useRef<string | null>(null);
+
+  const loadHistory = (id: number) => {
+    getPoolHistory(id)
+      .then(history => setPoints(history.points))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load pool history'));
+  };
+
+  useEffect(() => {
+    loadHistory(betId);
+  }, [betId]);
+
+  // Follow the bet's wagers: drop cancelled ones, and append a new one with the bet's current breakdown
+  useEffect(() => {
+    if (!points) return;
+
+    const wagerIds = new Set(wagers.map(w => w.id));
+    const kept = points
+      .filter(point => !wagerIds.has(point.wagerId))
+      .reduce((remaining, point) => withoutWager(remaining, point.wagerId), points);
+
+    const known = new Set(kept.map(point => point.wagerId));
+    const added = wagers.filter(w => !known.has(w.id));
+
+    if (added.length === 1) {
+      setPoints([...kept, {
+        wagerId: added[0].id,
+        at: added[0].createdAt,
+        totalPool,
+        options: optionStats.map(({ optionId, pool, payoutMultiplier }) => ({ optionId, pool, payoutMultiplier }))
+      }]);
+    } else if (added.length > 1) {
+      // Several wagers at once (a background refresh) - the in-between points need the server's history
+      const key = added.map(w => w.id).join(',');
+      if (reloadedFor.current !== key) {
+        reloadedFor.current = key;
+        loadHistory(betId);
+      }
+    } else if (kept !== points) {
+      setPoints(kept);
+    }
+  }, [betId, wagers, totalPool, optionStats, points]);
+
+  // SVG polyline points per option, scaled to fit the chart
+  const lines = useMemo(() => {
+    if (!points || points.length === 0) return [];
+
+    const times = points.map(p => new Date(p.at).getTime());
+    const firstTime = times[0];
+    const timeSpan = times[times.length - 1] - firstTime;
+
+    const multipliers = points.flatMap(p => p.options.map(o => o.payoutMultiplier))
+      .filter((m): m is number => m !== null);
+    const min = Math.min(...multipliers);
+    const span = Math.max(...multipliers) - min;
+
+    // Spread points evenly when every wager landed at the same moment
+    const x = (index: number) => PADDING + (WIDTH - 2 * PADDING) *
+      (timeSpan > 0 ? (times[index] - firstTime) / timeSpan : points.length > 1 ? index / (points.length - 1) : 0.5);
+    const y = (multiplier: number) => HEIGHT - PADDING - (HEIGHT - 2 * PADDING) *
+      (span > 0 ? (multiplier - min) / span : 0.5);
+
+    return options.map((option, index) => ({
+      option,
+      color: LINE_COLORS[index % LINE_COLORS.length],
+      path: points
+        .map((point, i) => {
+          const multiplier = point.options.find(o => o.optionId === option.id)?.payoutMultiplier ?? null;
+          return multiplier === null ? null : `${x(i).toFixed(1)},${y(multiplier).toFixed(1)}`;
+        })
+        .filter((p): p is string => p !== null)
+        .join(' '),
+      current: points[points.length - 1].options.find(o => o.optionId === option.id)?.payoutMultiplier ?? null
+    }));
+  }, [points, options]);
+
+  if (error) {
+    return <div className={styles.error}>{error}</div>;
+  }
+
+  if (!points) {
+    return <div className={styles.empty}>Loading...</div>;
+  }
+
+  if (points.length === 0) {
+    return <div className={styles.empty}>No wagers yet - the odds move as money comes in</div>;
+  }
+
+  return (
+    <div className={styles.chart}>
+      <svg
+        className={styles.sparkline}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Payout multiplier per option over time"
+      >
+        {lines.map(line => line.path && (
+          <polyline key={line.option.id} points={line.path} fill="none" stroke={line.color} strokeWidth={1.5} />
+        ))}
+      </svg>
+
+      <div className={styles.legend}>
+        {lines.map(line => (
+          <span key={line.option.id} className={styles.legendItem}>
+            <span className={styles.swatch} style={{ backgroundColor: line.color }} />
+            {line.option.label}: {line.current === null ? '-' : `${line.current.toFixed(2)}x`}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,38 +1,76 @@
 import { useState } from 'react';
-import { settleBet, closeBet } from '../api/client';
+import { settleBet, closeBet, unsettleBet, voidBet, hasHostSession } from '../api/client';
 import type { BetWithDetails } from '../api/types';
+import { findClosestGuesses } from '../utils/guess';
 import { PinEntry } from './PinEntry';
 import styles from './SettleBetModal.module.css';
 
 interface SettleBetModalProps {
   bet: BetWithDetails;
-  action: 'close' | 'settle';
+  action: 'close' | 'settle' | 'unsettle' | 'void';
   onSuccess: () => void;
   onCancel: () => void;
 }
 
 export function SettleBetModal({ bet, action, onSuccess, onCancel }: SettleBetModalProps) {
-  const [selectedOptionId, setSelectedOptionId] = useState<number | null>(null);
+  const [selectedOptionIds, setSelectedOptionIds] = useState<number[]>([]);
+  const [isDeadHeat, setIsDeadHeat] = useState(false);
+  const [finalResult, setFinalResult] = useState('');
   const [showPinEntry, setShowPinEntry] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handlePinSuccess = async (pin: string) => {
+  // Over/under and closest-guess bets are settled by entering the final result
+  const isResultBet = bet.type === 'over_under' || bet.type === 'closest_guess';
+
+  // Preview the closest guesses as the actual value is typed in
+  const previewClosestGuess = (actual: number) => {
+    const closest = findClosestGuesses(bet.wagers, actual, bet.guessRule ?? 'closest');
+    return closest.length === 0
+      ? 'No guess qualifies - every wager is refunded'
+      : `Closest: ${closest.map(w => `${w.userName} (${w.guess})`).join(', ')}`;
+  };
+
+  // Preview which side wins (or a push) as the final result is typed in
+  const resultNum = Number(finalResult);
+  const outcomePreview = finalResult.trim() === '' || !Number.isFinite(resultNum)
+    ? null
+    : bet.type === 'closest_guess'
+    ? previewClosestGuess(resultNum)
+    : bet.line === null
+    ? null
+    : resultNum > bet.line
+    ? 'Over wins'
+    : resultNum < bet.line
+    ? 'Under wins'
+    : 'Push - every wager is refunded';
+
+  // With a host session the request is authorized by its token; otherwise by the PIN just entered
+  const handleAction = async (pin?: string) => {
+    const auth = pin ? { hostPin: pin } : {};
+
     setIsProcessing(true);
     setError(null);
 
     try {
       if (action === 'close') {
-        await closeBet(bet.id, { hostPin: pin });
+        await closeBet(bet.id, auth);
+      } else if (action === 'unsettle') {
+        await unsettleBet(bet.id, auth);
+      } else if (action === 'void') {
+        await voidBet(bet.id, auth);
+      } else if (isResultBet) {
+        await settleBet(bet.id, { result: Number(finalResult), ...auth });
       } else {
-        if (!selectedOptionId) {
+        if (selectedOptionIds.length === 0) {
           setError('Please select a winning option');
           setIsProcessing(false);
           return;
         }
         await settleBet(bet.id, {
-          winningOptionId: selectedOptionId,
-          hostPin: pin
+          winningOptionIds: selectedOptionIds,
+          splitMode: isDeadHeat && selectedOptionIds.length > 1 ? 'dead_heat' : 'pooled',
+          ...auth
         });
       }
       onSuccess();
@@ -44,19 +82,43 @@ export function SettleBetModal({ bet, action, onSuccess, onCancel }: SettleBetMo
     }
   };
 
+  const toggleOption = (optionId: number) => {
+    setSelectedOptionIds(prev =>
+      prev.includes(optionId) ? prev.filter(id => id !== optionId) : [...prev, optionId]
+    );
+  };
+
   const handleSubmit = () => {
-    if (action === 'settle' && !selectedOptionId) {
+    if (action === 'settle' && isResultBet) {
+      if (finalResult.trim() === '' || !Number.isFinite(Number(finalResult))) {
+        setError('Please enter the final result');
+        return;
+      }
+    } else if (action === 'settle' && selectedOptionIds.length === 0) {
       setError('Please select a winning option');
       return;
     }
-    setShowPinEntry(true);
+
+    if (hasHostSession()) {
+      handleAction();
+    } else {
+      setShowPinEntry(true);
+    }
   };
 
   if (showPinEntry) {
     return (
       <PinEntry
-        title={action === 'close' ? 'Enter PIN to Close Bet' : 'Enter PIN to Settle Bet'}
-        onSuccess={handlePinSuccess}
+        title={
+          action === 'close'
+            ? 'Enter PIN to Close Bet'
+            : action === 'unsettle'
+            ? 'Enter PIN to Undo Settlement'
+            : action === 'void'
+            ? 'Enter PIN to Void Bet'
+            : 'Enter PIN to Settle Bet'
+        }
+        onSuccess={handleAction}
         onCancel={() => setShowPinEntry(false)}
       />
     );
@@ -67,7 +129,13 @@ export function SettleBetModal({ bet, action, onSuccess, onCancel }: SettleBetMo
       <div className={styles.modal}>
         <div className={styles.header}>
           <h2 className={styles.title}>
-            {action === 'close' ? 'Close Betting' : 'Settle Bet'}
+            {action === 'close'
+              ? 'Close Betting'
+              : action === 'unsettle'
+              ? 'Undo Settlement'
+              : action === 'void'
+              ? 'Void Bet'
+              : 'Settle Bet'}
           </h2>
           <button className={styles.closeButton} onClick={onCancel}>
             ×
@@ -86,9 +154,37 @@ export function SettleBetModal({ bet, action, onSuccess, onCancel }: SettleBetMo
                 Are you sure you want to close betting? No more wagers can be placed after this.
               </p>
             </div>
+          ) : action === 'unsettle' ? (
+            <div className={styles.confirmSection}>
+              <p className={styles.confirmText}>
+                Undo the settlement for this bet? Payouts will be archived and the bet will go
+                back to closed so you can pick the correct winner.
+              </p>
+            </div>
+          ) : action === 'void' ? (
+            <div className={styles.confirmSection}>
+              <p className={styles.confirmText}>
+                Void this bet? Nobody wins or loses - every wager will be refunded in full.
+              </p>
+            </div>
+          ) : isResultBet ? (
+            <div className={styles.optionsSection}>
+              <label htmlFor="finalResult" className={styles.label}>
+                {bet.type === 'closest_guess' ? 'Actual Value:' : `Final Result (line: ${bet.line}):`}
+              </label>
+              <input
+                type="number"
+                id="finalResult"
+                value={finalResult}
+                onChange={e => setFinalResult(e.target.value)}
+                className={styles.resultInput}
+                autoFocus
+              />
+              {outcomePreview && <p className={styles.splitToggle}>{outcomePreview}</p>}
+            </div>
           ) : (
             <div className={styles.optionsSection}>
-              <label className={styles.label}>Select Winning Option:</label>
+              <label className={styles.label}>Select Winning Option(s):</label>
               <div className={styles.options}>
                 {bet.options.map(option => {
                   const optionWagers = bet.wagers.filter(w => w.optionId === option.id);
@@ -98,15 +194,15 @@ export function SettleBetModal({ bet, action, onSuccess, onCancel }: SettleBetMo
                     <label
                       key={option.id}
                       className={`${styles.optionLabel} ${
-                        selectedOptionId === option.id ? styles.optionLabelSelected : ''
+                        selectedOptionIds.includes(option.id) ? styles.optionLabelSelected : ''
                       }`}
                     >
                       <input
-                        type="radio"
+                        type="checkbox"
                         name="winner"
                         value={option.id}
-                        checked={selectedOptionId === option.id}
-                        onChange={() => setSelectedOptionId(option.id)}
+                        checked={selectedOptionIds.includes(option.id)}
+                        onChange={() => toggleOption(option.id)}
                         className={styles.radio}
                       />
                       <div className={styles.optionContent}>
@@ -119,6 +215,27 @@ export function SettleBetModal({ bet, action, onSuccess, onCancel }: SettleBetMo
                   );
                 })}
               </div>
+
+              {selectedOptionIds.length > 1 && bet.type === 'fixed_odds' && (
+                <p className={styles.splitToggle}>
+                  Fixed-odds dead heat - each winning wager is paid on its stake divided by the number of winners
+                </p>
+              )}
+
+              {selectedOptionIds.length > 1 && bet.type !== 'fixed_odds' && (
+                <label className={styles.splitToggle}>
+                  <input
+                    type="checkbox"
+                    checked={isDeadHeat}
+                    onChange={e => setIsDeadHeat(e.target.checked)}
+                    className={styles.radio}
+                  />
+                  <span>
+                    Dead heat - split the pool equally between winners
+                    (otherwise it is shared by amount wagered)
+                  </span>
+                </label>
+              )}
             </div>
           )}
 
@@ -137,9 +254,20 @@ export function SettleBetModal({ bet, action, onSuccess, onCancel }: SettleBetMo
             <button
               className={`${styles.button} ${styles.buttonPrimary}`}
               onClick={handleSubmit}
-              disabled={isProcessing || (action === 'settle' && !selectedOptionId)}
+              disabled={
+                isProcessing ||
+                (action === 'settle' && (isResultBet ? finalResult.trim() === '' : selectedOptionIds.length === 0))
+              }
             >
-              {isProcessing ? 'Processing...' : action === 'close' ? 'Close Betting' : 'Settle Bet'}
+              {isProcessing
+                ? 'Processing...'
+                : action === 'close'
+                ? 'Close Betting'
+                : action === 'unsettle'
+                ? 'Undo Settlement'
+                : action === 'void'
+                ? 'Void Bet'
+                : 'Settle Bet'}
             </button>
           </div>
         </div>
@@ -1,43 +1,105 @@
-import { useState, useEffect } from 'react';
-import { getSettlementSummary, getBets } from '../api/client';
-import type { SettlementSummary, BetWithDetails } from '../api/types';
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getSettlementSummary,
+  getPartyTransfers,
+  getPayments,
+  recordPayment,
+  confirmPayment,
+  reversePayment,
+  getBets
+} from '../api/client';
+import type { SettlementSummary, Transfer, Payment, BetWithDetails } from '../api/types';
 import { showWinnerConfetti } from '../utils/confetti';
+import { findClosestGuesses } from '../utils/guess';
+import { formatMoney } from '../utils/currency';
+import { useSocket } from '../hooks/useSocket';
 import styles from './SettlementDisplay.module.css';
 
 interface SettlementDisplayProps {
   partyId: number;
   currentUser: string | null;
+  guestPin?: string | null; // The current user's PIN, when their name is PIN-protected
+  isHost?: boolean; // Host session - can record, confirm and reverse any payment
 }
 
-export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayProps) {
+export function SettlementDisplay({ partyId, currentUser, guestPin = null, isHost = false }: SettlementDisplayProps) {
   const [summary, setSummary] = useState<SettlementSummary | null>(null);
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [paymentError, setPaymentError] = useState<string | null>(null);
   const [settledBets, setSettledBets] = useState<BetWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [confettiShown, setConfettiShown] = useState(false);
   const [expandedBets, setExpandedBets] = useState<Set<number>>(new Set());
 
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        const [summaryData, betsData] = await Promise.all([
-          getSettlementSummary(partyId),
-          getBets('settled')
-        ]);
-        setSummary(summaryData);
-        setSettledBets(betsData);
-      } catch (err) {
-        console.error('Error fetching settlement data:', err);
-        setError(err instanceof Error ? err.message : 'Failed to load settlement data');
-      } finally {
-        setLoading(false);
-      }
-    };
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [summaryData, transfersData, paymentsData, betsData] = await Promise.all([
+        getSettlementSummary(partyId),
+        getPartyTransfers(partyId),
+        getPayments(partyId),
+        getBets(partyId, 'settled')
+      ]);
+      setSummary(summaryData);
+      setTransfers(transfersData.transfers);
+      setPayments(paymentsData);
+      setSettledBets(betsData);
+    } catch (err) {
+      console.error('Error fetching settlement data:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load settlement data');
+    } finally {
+      setLoading(false);
+    }
+  }, [partyId]);
 
+  useEffect(() => {
     fetchData();
-  }, [partyId]);
+  }, [fetchData]);
+
+  // WebSocket real-time updates
+  useSocket({
+    partyId,
+    handlers: {
+      onSettlementComplete: () => fetchData(),
+      onPaymentRecorded: () => fetchData(),
+      onPaymentUpdated: () => fetchData()
+    }
+  });
+
+  // Run a payment action and refresh balances afterwards
+  const handlePaymentAction = async (action: () => Promise<Payment>) => {
+    try {
+      setPaymentError(null);
+      await action();
+      await fetchData();
+    } catch (err) {
+      setPaymentError(err instanceof Error ? err.message : 'Failed to update payment');
+    }
+  };
+
+  const handleMarkPaid = (transfer: Transfer) =>
+    handlePaymentAction(() =>
+      recordPayment(partyId, {
+        fromUser: transfer.from,
+        toUser: transfer.to,
+        amount: transfer.amount,
+        recordedBy: currentUser ?? undefined,
+        ...(guestPin && { guestPin })
+      })
+    );
+
+  const handleConfirmPayment = (payment: Payment) =>
+    handlePaymentAction(() =>
+      confirmPayment(partyId, payment.id, { userName: currentUser ?? undefined, ...(guestPin && { guestPin }) })
+    );
+
+  const handleReversePayment = (payment: Payment) =>
+    handlePaymentAction(() =>
+      reversePayment(partyId, payment.id, { userName: currentUser ?? undefined, ...(guestPin && { guestPin }) })
+    );
 
   // Show confetti if current user is a winner
   useEffect(() => {
@@ -92,12 +154,47 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
     );
   }
 
+  // Play-money parties rank by chip count and have nothing to pay out
+  const isChips = summary.currency === 'chips';
+  const money = (amount: number, decimals = 2) => formatMoney(amount, summary.currency, decimals);
+
   const winners = summary.users.filter(u => u.netAmount > 0);
   const losers = summary.users.filter(u => u.netAmount < 0);
   const breakEven = summary.users.filter(u => u.netAmount === 0);
 
   const currentUserSummary = summary.users.find(u => u.userName === currentUser);
 
+  // Transfers the current user needs to make or collect
+  const currentUserPays = transfers.filter(t => t.from === currentUser);
+  const currentUserCollects = transfers.filter(t => t.to === currentUser);
+
+  const formatParty = (name: string | null) => name ?? 'the house';
+
+  const pendingPayments = payments.filter(p => p.status === 'pending');
+
+  const isPendingTransfer = (transfer: Transfer) =>
+    pendingPayments.some(p => p.fromUser === transfer.from && p.toUser === transfer.to);
+
+  const canMarkPaid = (transfer: Transfer) =>
+    isHost || (!!currentUser && (transfer.from === currentUser || transfer.to === currentUser));
+
+  // The current user can confirm their own side; the host can confirm anything
+  const canConfirm = (payment: Payment) =>
+    isHost ||
+    (payment.fromUser === currentUser && !payment.payerConfirmed) ||
+    (payment.toUser === currentUser && !payment.payeeConfirmed);
+
+  const renderOutstanding = (user: SettlementSummary['users'][number]) => {
+    if (isChips || user.settledAmount === 0) return null;
+    return (
+      <span className={styles.outstanding}>
+        {user.outstandingAmount === 0
+          ? 'Paid up'
+          : `${money(Math.abs(user.outstandingAmount))} outstanding`}
+      </span>
+    );
+  };
+
   // Helper function to toggle bet expansion
   const toggleBetExpansion = (betId: number) => {
     setExpandedBets(prev => {
@@ -114,18 +211,57 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
   // Calculate bet breakdown for a specific bet
   const calculateBetBreakdown = (bet: BetWithDetails) => {
     const totalPool = bet.totalPool;
-    const winningOption = bet.options.find(opt => opt.id === bet.winningOptionId);
+    const winningIds = bet.winningOptionIds ?? (bet.winningOptionId ? [bet.winningOptionId] : []);
+    const winningOptions = bet.options.filter(opt => winningIds.includes(opt.id));
+
+    // Closest-guess bets have no options - the closest guesses share one winning pool
+    const isClosestGuess = bet.type === 'closest_guess';
+    const closestGuesses = isClosestGuess && bet.result !== null
+      ? findClosestGuesses(bet.wagers, bet.result, bet.guessRule ?? 'closest')
+      : [];
 
-    if (!winningOption) return null;
+    if (winningOptions.length === 0 && closestGuesses.length === 0) return null;
+
+    // Key of the winning pool a wager belongs to, or null if it lost
+    const winningKey = (wager: typeof bet.wagers[number]): number | null => {
+      if (isClosestGuess) return closestGuesses.includes(wager) ? 0 : null;
+      return wager.optionId !== null && winningIds.includes(wager.optionId) ? wager.optionId : null;
+    };
 
-    // Calculate winning pool
-    const winningWagers = bet.wagers.filter(w => w.optionId === bet.winningOptionId);
-    const winningPool = winningWagers.reduce((sum, w) => sum + w.amount, 0);
+    const isDeadHeat = bet.splitMode === 'dead_heat' && winningOptions.length > 1;
+    const isFixedOdds = bet.type === 'fixed_odds';
+
+    // Calculate pool of each winning option and the combined winning pool
+    const optionPools = new Map<number, number>();
+    bet.wagers.forEach(w => {
+      const key = winningKey(w);
+      if (key !== null) optionPools.set(key, (optionPools.get(key) || 0) + w.amount);
+    });
+    const winningPool = Array.from(optionPools.values()).reduce((sum, pool) => sum + pool, 0);
+
+    // Share of the total pool paid to each winning option (mirrors the server's payout calculator)
+    const optionShare = (optionId: number) => {
+      const pool = optionPools.get(optionId) || 0;
+      if (pool === 0) return 0;
+      return isDeadHeat ? totalPool / optionPools.size : (pool / winningPool) * totalPool;
+    };
+
+    // Fixed odds: stake plus winnings at the quoted odds, with the stake split between
+    // dead-heat winners (mirrors the server's fixed-odds calculator, rounded down to the cent)
+    const fixedOddsReturn = (wager: typeof bet.wagers[number]) => {
+      const option = winningOptions.find(opt => opt.id === wager.optionId)!;
+      const numerator = option.oddsNumerator ?? 0;
+      const denominator = option.oddsDenominator ?? 1;
+      return Math.floor(
+        (wager.amount * 100 * (numerator + denominator)) / (denominator * winningOptions.length)
+      ) / 100;
+    };
 
     // Group wagers by user
     const userMap = new Map<string, {
       totalWagered: number;
       onWinning: number;
+      payout: number;
       wagers: typeof bet.wagers;
     }>();
 
@@ -134,20 +270,36 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
         userMap.set(wager.userName, {
           totalWagered: 0,
           onWinning: 0,
+          payout: 0,
           wagers: []
         });
       }
       const user = userMap.get(wager.userName)!;
       user.totalWagered += wager.amount;
       user.wagers.push(wager);
-      if (wager.optionId === bet.winningOptionId) {
+      const key = winningKey(wager);
+      if (key !== null) {
         user.onWinning += wager.amount;
+        user.payout += isFixedOdds
+          ? fixedOddsReturn(wager)
+          : (wager.amount / optionPools.get(key)!) * optionShare(key);
       }
     });
 
+    // The creator is the bank on fixed-odds bets: collects every stake, pays every winner
+    if (isFixedOdds && bet.wagers.length > 0) {
+      const totalPaidOut = Array.from(userMap.values()).reduce((sum, user) => sum + user.payout, 0);
+      if (!userMap.has(bet.createdBy)) {
+        userMap.set(bet.createdBy, { totalWagered: 0, onWinning: 0, payout: 0, wagers: [] });
+      }
+      const bank = userMap.get(bet.createdBy)!;
+      bank.totalWagered += totalPaidOut;
+      bank.payout += totalPool;
+    }
+
     // Calculate payouts
     const userPayouts = Array.from(userMap.entries()).map(([userName, data]) => {
-      const payout = winningPool > 0 ? (data.onWinning / winningPool) * totalPool : 0;
+      const payout = data.payout;
       const netWinLoss = payout - data.totalWagered;
 
       return {
@@ -166,7 +318,11 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
     return {
       totalPool,
       winningPool,
-      winningOption,
+      winningLabel: isClosestGuess
+        ? `Closest to ${bet.result} (${closestGuesses.map(w => w.guess).join(', ')})`
+        : winningOptions.map(opt => opt.label).join(', '),
+      isDeadHeat,
+      isFixedOdds,
       userPayouts
     };
   };
@@ -176,7 +332,7 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
       <div className={styles.header}>
         <h2 className={styles.title}>Settlement Summary</h2>
         <p className={styles.partyName}>{summary.partyName}</p>
-        <p className={styles.totalPot}>Total Pot: ${summary.totalPot.toFixed(0)}</p>
+        <p className={styles.totalPot}>Total Pot: {money(summary.totalPot, 0)}</p>
       </div>
 
       {/* Current User Summary */}
@@ -193,13 +349,23 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
           <p className={styles.currentUserLabel}>Your Result:</p>
           <p className={styles.currentUserAmount}>
             {currentUserSummary.netAmount > 0 && '+'}
-            ${currentUserSummary.netAmount.toFixed(2)}
+            {money(currentUserSummary.netAmount)}
           </p>
-          {currentUserSummary.netAmount > 0 && (
-            <p className={styles.currentUserMessage}>The house owes you!</p>
-          )}
-          {currentUserSummary.netAmount < 0 && (
-            <p className={styles.currentUserMessage}>You owe the house</p>
+          {currentUserCollects.map(t => (
+            <p key={`collect-${t.from}`} className={styles.currentUserMessage}>
+              Collect {money(t.amount)} from {formatParty(t.from)}
+            </p>
+          ))}
+          {currentUserPays.map(t => (
+            <p key={`pay-${t.to}`} className={styles.currentUserMessage}>
+              Pay {money(t.amount)} to {formatParty(t.to)}
+            </p>
+          ))}
+          {isChips && currentUserSummary.chips !== undefined && (
+            <p className={styles.currentUserMessage}>
+              You have {money(currentUserSummary.chips, 0)}
+              {!!currentUserSummary.rebuys && ` (${currentUserSummary.rebuys} rebuy${currentUserSummary.rebuys !== 1 ? 's' : ''})`}
+            </p>
           )}
           {currentUserSummary.netAmount === 0 && (
             <p className={styles.currentUserMessage}>You broke even</p>
@@ -207,8 +373,47 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
         </div>
       )}
 
+      {/* Chip Leaderboard (chips mode) */}
+      {isChips && (
+        <div className={styles.section}>
+          <h3 className={styles.sectionTitle}>
+            <span className={styles.iconWinner}>🪙</span> Chip Leaderboard
+          </h3>
+          <div className={styles.userList}>
+            {summary.users.map((user, index) => (
+              <div
+                key={user.userName}
+                className={`${styles.userRow} ${
+                  user.netAmount > 0
+                    ? styles.userRowWinner
+                    : user.netAmount < 0
+                    ? styles.userRowLoser
+                    : styles.userRowBreakEven
+                } ${user.userName === currentUser ? styles.userRowCurrent : ''}`}
+              >
+                <div className={styles.userInfo}>
+                  <span className={styles.rank}>#{index + 1}</span>
+                  <span className={styles.userName}>
+                    {user.userName}
+                    {user.userName === currentUser && ' (You)'}
+                  </span>
+                </div>
+                <div className={styles.amountColumn}>
+                  <span className={styles.amount}>{money(user.chips ?? 0, 0)}</span>
+                  {!!user.rebuys && (
+                    <span className={styles.outstanding}>
+                      {user.rebuys} rebuy{user.rebuys !== 1 ? 's' : ''}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Winners Section */}
-      {winners.length > 0 && (
+      {!isChips && winners.length > 0 && (
         <div className={styles.section}>
           <h3 className={styles.sectionTitle}>
             <span className={styles.iconWinner}>🏆</span> Winners
@@ -228,7 +433,10 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
                     {user.userName === currentUser && ' (You)'}
                   </span>
                 </div>
-                <span className={styles.amount}>+${user.netAmount.toFixed(2)}</span>
+                <div className={styles.amountColumn}>
+                  <span className={styles.amount}>+{money(user.netAmount)}</span>
+                  {renderOutstanding(user)}
+                </div>
               </div>
             ))}
           </div>
@@ -236,7 +444,7 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
       )}
 
       {/* Break Even Section */}
-      {breakEven.length > 0 && (
+      {!isChips && breakEven.length > 0 && (
         <div className={styles.section}>
           <h3 className={styles.sectionTitle}>
             <span className={styles.iconBreakEven}>➖</span> Break Even
@@ -255,7 +463,7 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
                     {user.userName === currentUser && ' (You)'}
                   </span>
                 </div>
-                <span className={styles.amount}>$0.00</span>
+                <span className={styles.amount}>{money(0)}</span>
               </div>
             ))}
           </div>
@@ -263,7 +471,7 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
       )}
 
       {/* Losers Section */}
-      {losers.length > 0 && (
+      {!isChips && losers.length > 0 && (
         <div className={styles.section}>
           <h3 className={styles.sectionTitle}>
             <span className={styles.iconLoser}>❌</span> Losers
@@ -283,13 +491,112 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
                     {user.userName === currentUser && ' (You)'}
                   </span>
                 </div>
-                <span className={styles.amount}>${user.netAmount.toFixed(2)}</span>
+                <div className={styles.amountColumn}>
+                  <span className={styles.amount}>{money(user.netAmount)}</span>
+                  {renderOutstanding(user)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Who Owes Whom */}
+      {transfers.length > 0 && (
+        <div className={styles.section}>
+          <h3 className={styles.sectionTitle}>
+            <span className={styles.iconTransfers}>💸</span> Who Owes Whom
+          </h3>
+          <div className={styles.userList}>
+            {transfers.map(transfer => (
+              <div
+                key={`${transfer.from}-${transfer.to}`}
+                className={`${styles.userRow} ${styles.transferRow} ${
+                  transfer.from === currentUser || transfer.to === currentUser
+                    ? styles.userRowCurrent
+                    : ''
+                }`}
+              >
+                <div className={styles.userInfo}>
+                  <span className={styles.userName}>
+                    {formatParty(transfer.from)}
+                    {transfer.from === currentUser && ' (You)'}
+                  </span>
+                  <span className={styles.transferArrow}>→</span>
+                  <span className={styles.userName}>
+                    {formatParty(transfer.to)}
+                    {transfer.to === currentUser && ' (You)'}
+                  </span>
+                </div>
+                <div className={styles.amountColumn}>
+                  <span className={styles.amount}>{money(transfer.amount)}</span>
+                  {isPendingTransfer(transfer) ? (
+                    <span className={styles.outstanding}>Awaiting confirmation</span>
+                  ) : (
+                    canMarkPaid(transfer) && (
+                      <button
+                        className={styles.paymentButton}
+                        onClick={() => handleMarkPaid(transfer)}
+                      >
+                        Mark Paid
+                      </button>
+                    )
+                  )}
+                </div>
               </div>
             ))}
           </div>
         </div>
       )}
 
+      {/* Pending Payments */}
+      {pendingPayments.length > 0 && (
+        <div className={styles.section}>
+          <h3 className={styles.sectionTitle}>
+            <span className={styles.iconTransfers}>⏳</span> Pending Payments
+          </h3>
+          <div className={styles.userList}>
+            {pendingPayments.map(payment => {
+              const isParticipant =
+                payment.fromUser === currentUser || payment.toUser === currentUser;
+
+              return (
+                <div key={payment.id} className={`${styles.userRow} ${styles.transferRow}`}>
+                  <div className={styles.userInfo}>
+                    <span className={styles.userName}>{formatParty(payment.fromUser)}</span>
+                    <span className={styles.transferArrow}>→</span>
+                    <span className={styles.userName}>{formatParty(payment.toUser)}</span>
+                    <span className={styles.amount}>{money(payment.amount)}</span>
+                  </div>
+                  <div className={styles.paymentActions}>
+                    {canConfirm(payment) && (
+                      <button
+                        className={styles.paymentButton}
+                        onClick={() => handleConfirmPayment(payment)}
+                      >
+                        Confirm
+                      </button>
+                    )}
+                    {(isParticipant || isHost) && (
+                      <button
+                        className={styles.paymentButton}
+                        onClick={() => handleReversePayment(payment)}
+                      >
+                        Undo
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {paymentError && (
+        <div className={styles.paymentError}>{paymentError}</div>
+      )}
+
       {/* Bet-by-Bet Breakdown */}
       {settledBets.length > 0 && (
         <div className={styles.section}>
@@ -314,7 +621,7 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
                   >
                     <div className={styles.betBreakdownTitle}>
                       <span className={styles.betQuestion}>{bet.question}</span>
-                      <span className={styles.betPool}>Pool: ${bet.totalPool.toFixed(0)}</span>
+                      <span className={styles.betPool}>Pool: {money(bet.totalPool, 0)}</span>
                     </div>
                     <span className={styles.expandIcon}>
                       {isExpanded ? '▼' : '▶'}
@@ -326,21 +633,23 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
                       {/* Summary */}
                       <div className={styles.breakdownSummary}>
                         <div className={styles.summaryItem}>
-                          <span className={styles.summaryLabel}>Winner:</span>
+                          <span className={styles.summaryLabel}>
+                            {breakdown.isDeadHeat ? 'Dead Heat:' : 'Winner:'}
+                          </span>
                           <span className={styles.summaryValue}>
-                            🏆 {breakdown.winningOption.label}
+                            🏆 {breakdown.winningLabel}
                           </span>
                         </div>
                         <div className={styles.summaryItem}>
                           <span className={styles.summaryLabel}>Total Pool:</span>
                           <span className={styles.summaryValue}>
-                            ${breakdown.totalPool.toFixed(2)}
+                            {money(breakdown.totalPool)}
                           </span>
                         </div>
                         <div className={styles.summaryItem}>
                           <span className={styles.summaryLabel}>Winning Pool:</span>
                           <span className={styles.summaryValue}>
-                            ${breakdown.winningPool.toFixed(2)}
+                            {money(breakdown.winningPool)}
                           </span>
                         </div>
                       </div>
@@ -348,9 +657,19 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
                       {/* Formula Explanation */}
                       <div className={styles.formulaBox}>
                         <p className={styles.formulaTitle}>Payout Formula:</p>
-                        <p className={styles.formula}>
-                          Payout = (Wager on Winner ÷ Winning Pool) × Total Pool
-                        </p>
+                        {breakdown.isFixedOdds ? (
+                          <p className={styles.formula}>
+                            Payout = Wager on Winner{breakdown.isDeadHeat && ' ÷ Winners'} × (1 + Odds); {bet.createdBy} (the bank) pays winners and keeps the rest
+                          </p>
+                        ) : breakdown.isDeadHeat ? (
+                          <p className={styles.formula}>
+                            Payout = (Wager on Winner ÷ Its Option Pool) × (Total Pool ÷ Winners)
+                          </p>
+                        ) : (
+                          <p className={styles.formula}>
+                            Payout = (Wager on Winner ÷ Winning Pool) × Total Pool
+                          </p>
+                        )}
                         <p className={styles.formula}>
                           Net Result = Payout - Total Wagered
                         </p>
@@ -381,29 +700,29 @@ export function SettlementDisplay({ partyId, currentUser }: SettlementDisplayPro
                                 }`}
                               >
                                 {userPayout.netWinLoss > 0 && '+'}
-                                ${userPayout.netWinLoss.toFixed(2)}
+                                {money(userPayout.netWinLoss)}
                               </span>
                             </div>
                             <div className={styles.userPayoutDetails}>
                               <div className={styles.payoutLine}>
                                 <span>Total Wagered:</span>
-                                <span>${userPayout.totalWagered.toFixed(2)}</span>
+                                <span>{money(userPayout.totalWagered)}</span>
                               </div>
                               <div className={styles.payoutLine}>
-                                <span>On Winner ({breakdown.winningOption.label}):</span>
-                                <span>${userPayout.onWinning.toFixed(2)}</span>
+                                <span>On Winner ({breakdown.winningLabel}):</span>
+                                <span>{money(userPayout.onWinning)}</span>
                               </div>
-                              {userPayout.onWinning > 0 && (
+                              {userPayout.onWinning > 0 && !breakdown.isFixedOdds && (
                                 <div className={styles.payoutLine}>
                                   <span>Share of Pool:</span>
                                   <span>
-                                    {((userPayout.onWinning / breakdown.winningPool) * 100).toFixed(1)}%
+                                    {((userPayout.payout / breakdown.totalPool) * 100).toFixed(1)}%
                                   </span>
                                 </div>
                               )}
                               <div className={`${styles.payoutLine} ${styles.payoutLineTotal}`}>
                                 <span>Payout:</span>
-                                <span>${userPayout.payout.toFixed(2)}</span>
+                                <span>{money(userPayout.payout)}</span>
                               </div>
                             </div>
                           </div>
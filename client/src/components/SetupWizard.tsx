@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { setupHost } from '../api/client';
+import type { Party, SetupState } from '../api/types';
+import { PinEntry } from './PinEntry';
+import { CreatePartyForm } from './CreatePartyForm';
+
+interface SetupWizardProps {
+  setupState: SetupState;
+  onComplete: (party: Party | null) => void; // null when no party was created
+}
+
+type SetupStep = 'choosePin' | 'confirmPin' | 'createParty';
+
+/**
+ * First-run setup: choose the host PIN (entered twice), then create the first party
+ * Setting the PIN starts a host session, so the host lands in host mode
+ */
+export function SetupWizard({ setupState, onComplete }: SetupWizardProps) {
+  const [step, setStep] = useState<SetupStep>('choosePin');
+  const [chosenPin, setChosenPin] = useState<string | null>(null);
+
+  const handleChoosePin = (pin: string) => {
+    setChosenPin(pin);
+    setStep('confirmPin');
+  };
+
+  // A mismatch throws, so PinEntry shows the error and asks again
+  const handleConfirmPin = async (pin: string) => {
+    if (pin !== chosenPin) {
+      throw new Error("PINs don't match. Please try again.");
+    }
+
+    await setupHost(pin);
+
+    // After a PIN reset the parties are still there - nothing left to set up
+    if (setupState.hasParties) {
+      onComplete(null);
+    } else {
+      setStep('createParty');
+    }
+  };
+
+  if (step === 'choosePin') {
+    return (
+      <PinEntry
+        key="choose"
+        title="Welcome! Choose a Host PIN"
+        hint="You'll need this 4-digit PIN to run parties and settle bets"
+        showCancel={false}
+        onSuccess={handleChoosePin}
+      />
+    );
+  }
+
+  if (step === 'confirmPin') {
+    return (
+      <PinEntry
+        key="confirm"
+        title="Confirm your Host PIN"
+        hint="Enter the same 4 digits again"
+        onSuccess={handleConfirmPin}
+        onCancel={() => setStep('choosePin')}
+      />
+    );
+  }
+
+  return (
+    <CreatePartyForm
+      onSuccess={onComplete}
+      onCancel={() => onComplete(null)}
+    />
+  );
+}
@@ -1,26 +1,59 @@
-import { useState, FormEvent } from 'react';
-import type { BetWithDetails } from '../api/types';
+import { useState, useEffect, FormEvent } from 'react';
+import type { BetWithDetails, CreateWagerRequest, Currency, PlacedWager } from '../api/types';
 import { playCashRegisterSound } from '../utils/audio';
+import { formatOdds, calculatePotentialWinnings } from '../utils/odds';
+import { formatGuessRule } from '../utils/guess';
+import { formatMoney } from '../utils/currency';
+import { useCountdown, formatCountdown } from '../hooks/useCountdown';
 import styles from './WagerForm.module.css';
 
 interface WagerFormProps {
   bet: BetWithDetails;
   currentUser: string;
-  onSubmit: (data: { userName: string; optionId: number; amount: number }) => Promise<void>;
+  currency?: Currency;
+  onSubmit: (data: CreateWagerRequest) => Promise<PlacedWager>;
+  onUndo: (wager: PlacedWager) => Promise<void>;
   onCancel: () => void;
 }
 
-export function WagerForm({ bet, currentUser, onSubmit, onCancel }: WagerFormProps) {
+export function WagerForm({ bet, currentUser, currency = 'usd', onSubmit, onUndo, onCancel }: WagerFormProps) {
   const [selectedOptionId, setSelectedOptionId] = useState<number | null>(null);
   const [amount, setAmount] = useState('');
+  const [guess, setGuess] = useState('');
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [placedWager, setPlacedWager] = useState<PlacedWager | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [undoError, setUndoError] = useState<string | null>(null);
+  const undoTimeLeft = useCountdown(placedWager?.cancelableUntil ?? null);
+
+  // Close once the wager can no longer be undone (straight away if the party has no undo window)
+  useEffect(() => {
+    if (placedWager && !isUndoing && (undoTimeLeft === null || undoTimeLeft <= 0)) {
+      onCancel();
+    }
+  }, [placedWager, isUndoing, undoTimeLeft, onCancel]);
+
+  const isFixedOdds = bet.type === 'fixed_odds';
+  const isClosestGuess = bet.type === 'closest_guess';
+  const isChips = currency === 'chips';
+  const selectedOption = bet.options.find(o => o.id === selectedOptionId);
+  const stake = parseInt(amount, 10);
+  const potentialWinnings = isFixedOdds && selectedOption && stake > 0
+    ? calculatePotentialWinnings(stake, selectedOption)
+    : null;
 
   const validate = (): boolean => {
     const newErrors: { [key: string]: string } = {};
 
-    // Validate option selection
-    if (selectedOptionId === null) {
+    // Validate option selection (closest-guess bets take a guess instead)
+    if (isClosestGuess) {
+      if (guess.trim() === '') {
+        newErrors.guess = 'Please enter your guess';
+      } else if (!Number.isFinite(Number(guess))) {
+        newErrors.guess = 'Guess must be a number';
+      }
+    } else if (selectedOptionId === null) {
       newErrors.option = 'Please select an option';
     }
 
@@ -31,11 +64,22 @@ export function WagerForm({ bet, currentUser, onSubmit, onCancel }: WagerFormPro
     } else if (isNaN(amountNum)) {
       newErrors.amount = 'Amount must be a number';
     } else if (!Number.isInteger(amountNum)) {
-      newErrors.amount = 'Amount must be whole dollars (no cents)';
+      newErrors.amount = isChips ? 'Amount must be whole chips' : 'Amount must be whole dollars (no cents)';
     } else if (amountNum <= 0) {
       newErrors.amount = 'Amount must be greater than 0';
     } else if (amountNum > 10000) {
-      newErrors.amount = 'Amount cannot exceed $10,000';
+      newErrors.amount = `Amount cannot exceed ${formatMoney(10000, currency, 0)}`;
+    }
+
+    // Validate optional exact guess (over/under only) - it has to agree with the side picked
+    if (guess.trim() !== '' && bet.line !== null && selectedOption) {
+      const guessNum = Number(guess);
+      const side = selectedOption.label.toLowerCase();
+      if (!Number.isFinite(guessNum)) {
+        newErrors.guess = 'Guess must be a number';
+      } else if ((side === 'over' && guessNum <= bet.line) || (side === 'under' && guessNum >= bet.line)) {
+        newErrors.guess = `Your guess must be ${side} the line of ${bet.line}`;
+      }
     }
 
     setErrors(newErrors);
@@ -46,15 +90,15 @@ export function WagerForm({ bet, currentUser, onSubmit, onCancel }: WagerFormPro
     e.preventDefault();
 
     if (!validate()) return;
-    if (selectedOptionId === null) return;
 
     setIsSubmitting(true);
 
     try {
-      await onSubmit({
+      const wager = await onSubmit({
         userName: currentUser,
-        optionId: selectedOptionId,
-        amount: parseInt(amount, 10)
+        ...(selectedOptionId !== null && { optionId: selectedOptionId }),
+        amount: parseInt(amount, 10),
+        ...(guess.trim() !== '' && { guess: Number(guess) })
       });
 
       // Play success sound
@@ -63,7 +107,9 @@ export function WagerForm({ bet, currentUser, onSubmit, onCancel }: WagerFormPro
       // Reset form on success
       setSelectedOptionId(null);
       setAmount('');
+      setGuess('');
       setErrors({});
+      setPlacedWager(wager);
     } catch (error) {
       setErrors({
         submit: error instanceof Error ? error.message : 'Failed to place wager'
@@ -73,6 +119,21 @@ export function WagerForm({ bet, currentUser, onSubmit, onCancel }: WagerFormPro
     }
   };
 
+  const handleUndo = async () => {
+    if (!placedWager) return;
+
+    setIsUndoing(true);
+    setUndoError(null);
+
+    try {
+      await onUndo(placedWager);
+      onCancel();
+    } catch (error) {
+      setUndoError(error instanceof Error ? error.message : 'Failed to undo wager');
+      setIsUndoing(false);
+    }
+  };
+
   const handleAmountChange = (value: string) => {
     // Only allow integers (no decimal points)
     const cleaned = value.replace(/[^\d]/g, '');
@@ -91,52 +152,115 @@ export function WagerForm({ bet, currentUser, onSubmit, onCancel }: WagerFormPro
 
         <div className={styles.betInfo}>
           <p className={styles.question}>{bet.question}</p>
-          <p className={styles.pool}>Current Pool: ${bet.totalPool.toFixed(0)}</p>
+          {isFixedOdds ? (
+            <p className={styles.pool}>Fixed odds - {bet.createdBy} is the bank</p>
+          ) : isClosestGuess ? (
+            <p className={styles.pool}>{formatGuessRule(bet.guessRule)} - Current Pool: {formatMoney(bet.totalPool, currency, 0)}</p>
+          ) : bet.type === 'over_under' ? (
+            <p className={styles.pool}>Line: {bet.line} - Current Pool: {formatMoney(bet.totalPool, currency, 0)}</p>
+          ) : (
+            <p className={styles.pool}>Current Pool: {formatMoney(bet.totalPool, currency, 0)}</p>
+          )}
           <p className={styles.userInfo}>Placing wager as: <strong>{currentUser}</strong></p>
         </div>
 
-        <form onSubmit={handleSubmit} className={styles.form}>
-          {/* Option Selection */}
-          <div className={styles.field}>
-            <label className={styles.label}>Select Your Prediction</label>
-            <div className={styles.options}>
-              {bet.options.map(option => {
-                const optionWagers = bet.wagers.filter(w => w.optionId === option.id);
-                const optionTotal = optionWagers.reduce((sum, w) => sum + w.amount, 0);
-
-                return (
-                  <label
-                    key={option.id}
-                    className={`${styles.optionLabel} ${
-                      selectedOptionId === option.id ? styles.optionLabelSelected : ''
-                    }`}
-                  >
-                    <input
-                      type="radio"
-                      name="option"
-                      value={option.id}
-                      checked={selectedOptionId === option.id}
-                      onChange={() => setSelectedOptionId(option.id)}
-                      className={styles.radio}
-                    />
-                    <div className={styles.optionContent}>
-                      <span className={styles.optionText}>{option.label}</span>
-                      <span className={styles.optionTotal}>${optionTotal.toFixed(0)}</span>
-                    </div>
-                  </label>
-                );
-              })}
+        {placedWager ? (
+          <div className={styles.form}>
+            {/* Undo toast - shown while the guest can still cancel the wager */}
+            <div className={styles.undoToast} role="status">
+              <span>
+                Wager placed: <strong>{formatMoney(placedWager.amount, currency, 0)}</strong>
+              </span>
+              <span className={styles.undoCountdown}>
+                {undoTimeLeft !== null && undoTimeLeft > 0 && `Undo available for ${formatCountdown(undoTimeLeft)}`}
+              </span>
+            </div>
+
+            {undoError && <div className={styles.submitError}>{undoError}</div>}
+
+            <div className={styles.actions}>
+              <button
+                type="button"
+                onClick={handleUndo}
+                className={`${styles.button} ${styles.buttonSecondary}`}
+                disabled={isUndoing}
+              >
+                {isUndoing ? 'Undoing...' : 'Undo'}
+              </button>
+              <button
+                type="button"
+                onClick={onCancel}
+                className={`${styles.button} ${styles.buttonPrimary}`}
+                disabled={isUndoing}
+              >
+                Done
+              </button>
             </div>
-            {errors.option && <span className={styles.error}>{errors.option}</span>}
           </div>
+        ) : (
+        <form onSubmit={handleSubmit} className={styles.form}>
+          {/* Guess (closest guess only) or Option Selection */}
+          {isClosestGuess ? (
+            <div className={styles.field}>
+              <label htmlFor="guess" className={styles.label}>
+                Your Guess
+              </label>
+              <input
+                type="number"
+                id="guess"
+                value={guess}
+                onChange={e => setGuess(e.target.value)}
+                className={styles.input}
+                placeholder={bet.guessRule === 'not_over' ? 'Closest without going over wins' : 'Closest guess wins'}
+                autoFocus
+              />
+              {errors.guess && <span className={styles.error}>{errors.guess}</span>}
+            </div>
+          ) : (
+            <div className={styles.field}>
+              <label className={styles.label}>Select Your Prediction</label>
+              <div className={styles.options}>
+                {bet.options.map(option => {
+                  const optionWagers = bet.wagers.filter(w => w.optionId === option.id);
+                  const optionTotal = optionWagers.reduce((sum, w) => sum + w.amount, 0);
+
+                  return (
+                    <label
+                      key={option.id}
+                      className={`${styles.optionLabel} ${
+                        selectedOptionId === option.id ? styles.optionLabelSelected : ''
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="option"
+                        value={option.id}
+                        checked={selectedOptionId === option.id}
+                        onChange={() => setSelectedOptionId(option.id)}
+                        className={styles.radio}
+                      />
+                      <div className={styles.optionContent}>
+                        <span className={styles.optionText}>{option.label}</span>
+                        <span className={styles.optionTotal}>
+                          {/* Blind bets keep the per-option amounts secret until betting closes */}
+                          {isFixedOdds ? formatOdds(option) : bet.blind ? '?' : formatMoney(optionTotal, currency, 0)}
+                        </span>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+              {errors.option && <span className={styles.error}>{errors.option}</span>}
+            </div>
+          )}
 
           {/* Amount Input */}
           <div className={styles.field}>
             <label htmlFor="amount" className={styles.label}>
-              Wager Amount (Whole Dollars)
+              Wager Amount ({isChips ? 'Whole Chips' : 'Whole Dollars'})
             </label>
             <div className={styles.amountWrapper}>
-              <span className={styles.dollarSign}>$</span>
+              {!isChips && <span className={styles.dollarSign}>$</span>}
               <input
                 type="text"
                 id="amount"
@@ -150,6 +274,32 @@ export function WagerForm({ bet, currentUser, onSubmit, onCancel }: WagerFormPro
             {errors.amount && <span className={styles.error}>{errors.amount}</span>}
           </div>
 
+          {/* Exact Guess (over/under only) */}
+          {bet.type === 'over_under' && (
+            <div className={styles.field}>
+              <label htmlFor="guess" className={styles.label}>
+                Exact Guess (Optional)
+              </label>
+              <input
+                type="number"
+                id="guess"
+                value={guess}
+                onChange={e => setGuess(e.target.value)}
+                className={styles.input}
+                placeholder={`Final result, e.g. ${bet.line}`}
+              />
+              {errors.guess && <span className={styles.error}>{errors.guess}</span>}
+            </div>
+          )}
+
+          {/* Potential winnings (fixed odds only) */}
+          {potentialWinnings !== null && (
+            <div className={styles.potentialWinnings}>
+              Potential winnings: <strong>{formatMoney(potentialWinnings, currency)}</strong>
+              {' '}(returns {formatMoney(stake + potentialWinnings, currency)} including your stake)
+            </div>
+          )}
+
           {/* Submit Error */}
           {errors.submit && (
             <div className={styles.submitError}>{errors.submit}</div>
@@ -174,6 +324,7 @@ export function WagerForm({ bet, currentUser, onSubmit, onCancel }: WagerFormPro
             </button>
           </div>
         </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Milliseconds left until a target time, updated every second
+ * Returns null when there is no target; stops ticking once the target has passed
+ */
+export function useCountdown(target: string | null): number | null {
+  const targetTime = target ? new Date(target).getTime() : null;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (targetTime === null || targetTime <= Date.now()) return;
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= targetTime) {
+        clearInterval(interval);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [targetTime]);
+
+  return targetTime === null ? null : Math.max(0, targetTime - now);
+}
+
+/**
+ * Format a countdown for display, e.g. "1h 05m", "12m 03s" or "45s"
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  if (minutes > 0) return `${minutes}m ${pad(seconds)}s`;
+  return `${seconds}s`;
+}
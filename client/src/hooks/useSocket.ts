@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
+import type { OptionStats } from '../api/types';
 
 // Event types matching server definitions
 export interface PartyCreatedEvent {
@@ -27,28 +28,101 @@ export interface WagerPlacedEvent {
   id: number;
   betId: number;
   partyId: number;
+  blind: false;
   userName: string;
+  guestId: number | null;
   amount: number;
-  betOptionId: number;
+  betOptionId: number | null; // null on closest-guess bets
+  guess: number | null;
+  createdAt: string;
+  // The bet's pool breakdown after this wager
+  totalPool: number;
+  participantCount: number;
+  optionStats: OptionStats[];
+}
+
+// Sent instead while a blind bet is open - no amounts, options or names
+export interface BlindWagerPlacedEvent {
+  id: number;
+  betId: number;
+  partyId: number;
+  blind: true;
+  totalPool: number;
+  participantCount: number;
+}
+
+export interface WagerCancelledEvent {
+  id: number;
+  betId: number;
+  partyId: number;
+  blind: false;
+  // The bet's pool breakdown without the cancelled wager
+  totalPool: number;
+  participantCount: number;
+  optionStats: OptionStats[];
+}
+
+// Sent instead while a blind bet is open - only the totals
+export interface BlindWagerCancelledEvent {
+  id: number;
+  betId: number;
+  partyId: number;
+  blind: true;
+  totalPool: number;
+  participantCount: number;
 }
 
 export interface SettlementCompleteEvent {
   betId: number;
   partyId: number;
-  winningOptionId: number;
+  winningOptionId: number | null; // null when an over/under bet pushes
+  winningOptionIds: number[];
   settlements: Array<{
     userName: string;
     amount: number;
   }>;
 }
 
+export interface PaymentRecordedEvent {
+  id: number;
+  partyId: number;
+  fromUser: string | null;
+  toUser: string | null;
+  amount: number;
+  status: string;
+}
+
+export interface PaymentUpdatedEvent {
+  id: number;
+  partyId: number;
+  status: string;
+}
+
+export interface RebuyEvent {
+  partyId: number;
+  userName: string;
+  amount: number;
+}
+
+export interface GuestUpdatedEvent {
+  id: number;
+  partyId: number;
+  name: string;
+  hasPin: boolean;
+}
+
 // Event handler types
 export interface SocketEventHandlers {
   onPartyCreated?: (event: PartyCreatedEvent) => void;
   onBetCreated?: (event: BetCreatedEvent) => void;
   onBetUpdated?: (event: BetUpdatedEvent) => void;
-  onWagerPlaced?: (event: WagerPlacedEvent) => void;
+  onWagerPlaced?: (event: WagerPlacedEvent | BlindWagerPlacedEvent) => void;
+  onWagerCancelled?: (event: WagerCancelledEvent | BlindWagerCancelledEvent) => void;
   onSettlementComplete?: (event: SettlementCompleteEvent) => void;
+  onPaymentRecorded?: (event: PaymentRecordedEvent) => void;
+  onPaymentUpdated?: (event: PaymentUpdatedEvent) => void;
+  onRebuy?: (event: RebuyEvent) => void;
+  onGuestUpdated?: (event: GuestUpdatedEvent) => void;
 }
 
 interface UseSocketOptions {
@@ -61,7 +135,8 @@ interface UseSocketOptions {
  * Hook to manage Socket.IO connection and events
  *
  * @param options - Configuration options
- * @param options.partyId - Optional party ID to auto-join party room
+ * @param options.partyId - Optional party ID to auto-join party room - changing it moves the
+ *   socket to the new party's room without reconnecting
  * @param options.handlers - Event handler callbacks
  * @param options.autoConnect - Whether to connect automatically (default: true)
  *
@@ -109,11 +184,6 @@ export function useSocket(options: UseSocketOptions = {}) {
       console.log('[WebSocket] Connected:', socket.id);
       setConnected(true);
       setError(null);
-
-      // Auto-join party room if partyId is provided
-      if (partyId) {
-        socket.emit('join:party', partyId);
-      }
     });
 
     socket.on('disconnect', () => {
@@ -143,17 +213,32 @@ export function useSocket(options: UseSocketOptions = {}) {
       socket.on('wager:placed', handlers.onWagerPlaced);
     }
 
+    if (handlers?.onWagerCancelled) {
+      socket.on('wager:cancelled', handlers.onWagerCancelled);
+    }
+
     if (handlers?.onSettlementComplete) {
       socket.on('settlement:complete', handlers.onSettlementComplete);
     }
 
+    if (handlers?.onPaymentRecorded) {
+      socket.on('payment:recorded', handlers.onPaymentRecorded);
+    }
+
+    if (handlers?.onPaymentUpdated) {
+      socket.on('payment:updated', handlers.onPaymentUpdated);
+    }
+
+    if (handlers?.onRebuy) {
+      socket.on('party:rebuy', handlers.onRebuy);
+    }
+
+    if (handlers?.onGuestUpdated) {
+      socket.on('guest:updated', handlers.onGuestUpdated);
+    }
+
     // Cleanup on unmount
     return () => {
-      // Leave party room if joined
-      if (partyId) {
-        socket.emit('leave:party', partyId);
-      }
-
       // Remove all listeners
       socket.off('connect');
       socket.off('disconnect');
@@ -162,12 +247,34 @@ export function useSocket(options: UseSocketOptions = {}) {
       socket.off('bet:created');
       socket.off('bet:updated');
       socket.off('wager:placed');
+      socket.off('wager:cancelled');
       socket.off('settlement:complete');
+      socket.off('payment:recorded');
+      socket.off('payment:updated');
+      socket.off('party:rebuy');
+      socket.off('guest:updated');
 
       // Disconnect
       socket.disconnect();
+      socketRef.current = null;
+      setConnected(false);
+    };
+  }, [autoConnect]); // Note: handlers intentionally omitted to avoid re-connecting
+
+  // Join the party's room, and move rooms when the party changes. Rooms don't survive a
+  // reconnect, so this runs again each time the socket comes back.
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket || !connected || !partyId) return;
+
+    socket.emit('join:party', partyId);
+
+    return () => {
+      if (socket.connected) {
+        socket.emit('leave:party', partyId);
+      }
     };
-  }, [partyId, autoConnect]); // Note: handlers intentionally omitted to avoid re-connecting
+  }, [partyId, connected]);
 
   // Update event handlers when they change
   useEffect(() => {
@@ -179,7 +286,12 @@ export function useSocket(options: UseSocketOptions = {}) {
     socket.off('bet:created');
     socket.off('bet:updated');
     socket.off('wager:placed');
+    socket.off('wager:cancelled');
     socket.off('settlement:complete');
+    socket.off('payment:recorded');
+    socket.off('payment:updated');
+    socket.off('party:rebuy');
+    socket.off('guest:updated');
 
     // Register new handlers
     if (handlers?.onPartyCreated) {
@@ -198,9 +310,29 @@ export function useSocket(options: UseSocketOptions = {}) {
       socket.on('wager:placed', handlers.onWagerPlaced);
     }
 
+    if (handlers?.onWagerCancelled) {
+      socket.on('wager:cancelled', handlers.onWagerCancelled);
+    }
+
     if (handlers?.onSettlementComplete) {
       socket.on('settlement:complete', handlers.onSettlementComplete);
     }
+
+    if (handlers?.onPaymentRecorded) {
+      socket.on('payment:recorded', handlers.onPaymentRecorded);
+    }
+
+    if (handlers?.onPaymentUpdated) {
+      socket.on('payment:updated', handlers.onPaymentUpdated);
+    }
+
+    if (handlers?.onRebuy) {
+      socket.on('party:rebuy', handlers.onRebuy);
+    }
+
+    if (handlers?.onGuestUpdated) {
+      socket.on('guest:updated', handlers.onGuestUpdated);
+    }
   }, [handlers]);
 
   /**
@@ -0,0 +1,17 @@
+/**
+ * Currency formatting for real-money (USD) and play-money (chips) parties
+ */
+
+import type { Currency } from '../api/types';
+
+/**
+ * Format an amount for display, e.g. "$12.50" or "12.5 chips"
+ * Chip counts drop trailing zeros, since most of them are whole numbers
+ */
+export function formatMoney(amount: number, currency: Currency = 'usd', decimals = 2): string {
+  if (currency === 'chips') {
+    return `${parseFloat(amount.toFixed(decimals))} chips`;
+  }
+
+  return `$${amount.toFixed(decimals)}`;
+}
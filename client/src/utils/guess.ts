@@ -0,0 +1,34 @@
+/**
+ * Guess utility for closest-guess bets
+ */
+
+import type { GuessRule } from '../api/types';
+
+/**
+ * Find the guesses closest to the actual value, mirroring the server's payout calculator
+ * Returns every tied guess; with the "not_over" rule, guesses above the actual value never win
+ */
+export function findClosestGuesses<T extends { guess: number | null }>(
+  items: T[],
+  actual: number,
+  rule: GuessRule
+): T[] {
+  const eligible = items.filter(
+    item => item.guess !== null && (rule === 'closest' || item.guess <= actual)
+  );
+  if (eligible.length === 0) {
+    return [];
+  }
+
+  const distance = (item: T) => Math.abs(item.guess! - actual);
+  const best = Math.min(...eligible.map(distance));
+
+  return eligible.filter(item => distance(item) - best < 1e-9);
+}
+
+/**
+ * Describe a guess rule for display
+ */
+export function formatGuessRule(rule: GuessRule | null): string {
+  return rule === 'not_over' ? 'Closest without going over' : 'Closest guess wins';
+}
@@ -0,0 +1,24 @@
+/**
+ * Odds utility for fixed-odds bets
+ */
+
+import type { BetOption } from '../api/types';
+
+/**
+ * Format an option's odds for display, e.g. "3-1"
+ */
+export function formatOdds(option: BetOption): string {
+  return `${option.oddsNumerator}-${option.oddsDenominator}`;
+}
+
+/**
+ * Calculate what a stake (in dollars) wins at an option's odds, excluding the returned stake
+ * Rounds down to the cent, matching the server's payout
+ */
+export function calculatePotentialWinnings(stake: number, option: BetOption): number {
+  if (!option.oddsNumerator || !option.oddsDenominator) {
+    return 0;
+  }
+
+  return Math.floor((stake * 100 * option.oddsNumerator) / option.oddsDenominator) / 100;
+}
@@ -0,0 +1,14 @@
+CREATE TABLE `payments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`party_id` integer NOT NULL,
+	`from_user` text,
+	`to_user` text,
+	`amount` real NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`payer_confirmed` integer DEFAULT false NOT NULL,
+	`payee_confirmed` integer DEFAULT false NOT NULL,
+	`recorded_by` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`party_id`) REFERENCES `parties`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,3 @@
+-- Remove duplicate settlements written by concurrent settle requests before enforcing uniqueness
+DELETE FROM `settlements` WHERE `id` NOT IN (SELECT MIN(`id`) FROM `settlements` GROUP BY `bet_id`, `user_name`);--> statement-breakpoint
+CREATE UNIQUE INDEX `settlements_bet_id_user_name_unique` ON `settlements` (`bet_id`,`user_name`);
@@ -0,0 +1,26 @@
+CREATE TABLE `archived_settlements` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`settlement_id` integer NOT NULL,
+	`bet_id` integer NOT NULL,
+	`audit_log_id` integer NOT NULL,
+	`user_name` text NOT NULL,
+	`total_wagered` real NOT NULL,
+	`payout` real NOT NULL,
+	`net_win_loss` real NOT NULL,
+	`created_at` text NOT NULL,
+	`archived_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`bet_id`) REFERENCES `bets`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`audit_log_id`) REFERENCES `audit_log`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `audit_log` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`party_id` integer NOT NULL,
+	`bet_id` integer,
+	`action` text NOT NULL,
+	`actor` text NOT NULL,
+	`details` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`party_id`) REFERENCES `parties`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`bet_id`) REFERENCES `bets`(`id`) ON UPDATE no action ON DELETE no action
+);
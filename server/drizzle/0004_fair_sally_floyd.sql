@@ -0,0 +1,4 @@
+ALTER TABLE `bets` ADD `winning_option_ids` text;--> statement-breakpoint
+ALTER TABLE `bets` ADD `split_mode` text;--> statement-breakpoint
+-- Backfill bets settled before multiple winners were supported
+UPDATE `bets` SET `winning_option_ids` = json_array(`winning_option_id`), `split_mode` = 'pooled' WHERE `winning_option_id` IS NOT NULL;
@@ -0,0 +1,68 @@
+-- Convert dollar amounts (real) to integer cents
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_archived_settlements` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`settlement_id` integer NOT NULL,
+	`bet_id` integer NOT NULL,
+	`audit_log_id` integer NOT NULL,
+	`user_name` text NOT NULL,
+	`total_wagered` integer NOT NULL,
+	`payout` integer NOT NULL,
+	`net_win_loss` integer NOT NULL,
+	`created_at` text NOT NULL,
+	`archived_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`bet_id`) REFERENCES `bets`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`audit_log_id`) REFERENCES `audit_log`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_archived_settlements`("id", "settlement_id", "bet_id", "audit_log_id", "user_name", "total_wagered", "payout", "net_win_loss", "created_at", "archived_at") SELECT "id", "settlement_id", "bet_id", "audit_log_id", "user_name", CAST(ROUND("total_wagered" * 100) AS INTEGER), CAST(ROUND("payout" * 100) AS INTEGER), CAST(ROUND("net_win_loss" * 100) AS INTEGER), "created_at", "archived_at" FROM `archived_settlements`;--> statement-breakpoint
+DROP TABLE `archived_settlements`;--> statement-breakpoint
+ALTER TABLE `__new_archived_settlements` RENAME TO `archived_settlements`;--> statement-breakpoint
+CREATE TABLE `__new_payments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`party_id` integer NOT NULL,
+	`from_user` text,
+	`to_user` text,
+	`amount` integer NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`payer_confirmed` integer DEFAULT false NOT NULL,
+	`payee_confirmed` integer DEFAULT false NOT NULL,
+	`recorded_by` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`party_id`) REFERENCES `parties`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_payments`("id", "party_id", "from_user", "to_user", "amount", "status", "payer_confirmed", "payee_confirmed", "recorded_by", "created_at", "updated_at") SELECT "id", "party_id", "from_user", "to_user", CAST(ROUND("amount" * 100) AS INTEGER), "status", "payer_confirmed", "payee_confirmed", "recorded_by", "created_at", "updated_at" FROM `payments`;--> statement-breakpoint
+DROP TABLE `payments`;--> statement-breakpoint
+ALTER TABLE `__new_payments` RENAME TO `payments`;--> statement-breakpoint
+CREATE TABLE `__new_settlements` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`bet_id` integer NOT NULL,
+	`user_name` text NOT NULL,
+	`total_wagered` integer NOT NULL,
+	`payout` integer NOT NULL,
+	`net_win_loss` integer NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`bet_id`) REFERENCES `bets`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_settlements`("id", "bet_id", "user_name", "total_wagered", "payout", "net_win_loss", "created_at") SELECT "id", "bet_id", "user_name", CAST(ROUND("total_wagered" * 100) AS INTEGER), CAST(ROUND("payout" * 100) AS INTEGER), CAST(ROUND("net_win_loss" * 100) AS INTEGER), "created_at" FROM `settlements`;--> statement-breakpoint
+DROP TABLE `settlements`;--> statement-breakpoint
+ALTER TABLE `__new_settlements` RENAME TO `settlements`;--> statement-breakpoint
+CREATE UNIQUE INDEX `settlements_bet_id_user_name_unique` ON `settlements` (`bet_id`,`user_name`);--> statement-breakpoint
+CREATE TABLE `__new_wagers` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`bet_id` integer NOT NULL,
+	`option_id` integer NOT NULL,
+	`user_name` text NOT NULL,
+	`amount` integer NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`bet_id`) REFERENCES `bets`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`option_id`) REFERENCES `bet_options`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_wagers`("id", "bet_id", "option_id", "user_name", "amount", "created_at") SELECT "id", "bet_id", "option_id", "user_name", CAST(ROUND("amount" * 100) AS INTEGER), "created_at" FROM `wagers`;--> statement-breakpoint
+DROP TABLE `wagers`;--> statement-breakpoint
+ALTER TABLE `__new_wagers` RENAME TO `wagers`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
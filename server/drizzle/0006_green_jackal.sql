@@ -0,0 +1,3 @@
+ALTER TABLE `bet_options` ADD `odds_numerator` integer;--> statement-breakpoint
+ALTER TABLE `bet_options` ADD `odds_denominator` integer;--> statement-breakpoint
+ALTER TABLE `bets` ADD `max_exposure` integer;
\ No newline at end of file
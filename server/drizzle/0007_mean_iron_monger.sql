@@ -0,0 +1,3 @@
+ALTER TABLE `bets` ADD `line` real;--> statement-breakpoint
+ALTER TABLE `bets` ADD `result` real;--> statement-breakpoint
+ALTER TABLE `wagers` ADD `guess` real;
\ No newline at end of file
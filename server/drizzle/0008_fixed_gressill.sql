@@ -0,0 +1,18 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_wagers` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`bet_id` integer NOT NULL,
+	`option_id` integer,
+	`user_name` text NOT NULL,
+	`amount` integer NOT NULL,
+	`guess` real,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`bet_id`) REFERENCES `bets`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`option_id`) REFERENCES `bet_options`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_wagers`("id", "bet_id", "option_id", "user_name", "amount", "guess", "created_at") SELECT "id", "bet_id", "option_id", "user_name", "amount", "guess", "created_at" FROM `wagers`;--> statement-breakpoint
+DROP TABLE `wagers`;--> statement-breakpoint
+ALTER TABLE `__new_wagers` RENAME TO `wagers`;--> statement-breakpoint
+ALTER TABLE `bets` ADD `guess_rule` text;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
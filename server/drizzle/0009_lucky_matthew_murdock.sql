@@ -0,0 +1 @@
+ALTER TABLE `bets` ADD `closes_at` text;
\ No newline at end of file
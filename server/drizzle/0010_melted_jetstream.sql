@@ -0,0 +1,3 @@
+ALTER TABLE `parties` ADD `max_wager` integer;--> statement-breakpoint
+ALTER TABLE `parties` ADD `max_per_bet` integer;--> statement-breakpoint
+ALTER TABLE `parties` ADD `bankroll` integer;
\ No newline at end of file
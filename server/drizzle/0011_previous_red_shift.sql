@@ -0,0 +1,11 @@
+CREATE TABLE `rebuys` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`party_id` integer NOT NULL,
+	`user_name` text NOT NULL,
+	`amount` integer NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`party_id`) REFERENCES `parties`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `parties` ADD `currency` text DEFAULT 'usd' NOT NULL;--> statement-breakpoint
+ALTER TABLE `parties` ADD `allow_rebuys` integer DEFAULT false NOT NULL;
\ No newline at end of file
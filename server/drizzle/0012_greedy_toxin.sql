@@ -0,0 +1,20 @@
+CREATE TABLE `guests` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`party_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`normalized_name` text NOT NULL,
+	`pin_hash` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`party_id`) REFERENCES `parties`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `guests_party_id_normalized_name_unique` ON `guests` (`party_id`,`normalized_name`);--> statement-breakpoint
+ALTER TABLE `bets` ADD `creator_guest_id` integer REFERENCES guests(id);--> statement-breakpoint
+ALTER TABLE `rebuys` ADD `guest_id` integer REFERENCES guests(id);--> statement-breakpoint
+ALTER TABLE `settlements` ADD `guest_id` integer REFERENCES guests(id);--> statement-breakpoint
+ALTER TABLE `wagers` ADD `guest_id` integer REFERENCES guests(id);--> statement-breakpoint
+INSERT INTO `guests`("party_id", "name", "normalized_name") SELECT "party_id", MIN(TRIM("name")), LOWER(TRIM("name")) FROM (SELECT `bets`.`party_id` AS "party_id", `wagers`.`user_name` AS "name" FROM `wagers` INNER JOIN `bets` ON `bets`.`id` = `wagers`.`bet_id` UNION ALL SELECT `party_id`, `created_by` FROM `bets`) GROUP BY "party_id", LOWER(TRIM("name"));--> statement-breakpoint
+UPDATE `wagers` SET `guest_id` = (SELECT `guests`.`id` FROM `guests` INNER JOIN `bets` ON `bets`.`party_id` = `guests`.`party_id` WHERE `bets`.`id` = `wagers`.`bet_id` AND `guests`.`normalized_name` = LOWER(TRIM(`wagers`.`user_name`)));--> statement-breakpoint
+UPDATE `bets` SET `creator_guest_id` = (SELECT `guests`.`id` FROM `guests` WHERE `guests`.`party_id` = `bets`.`party_id` AND `guests`.`normalized_name` = LOWER(TRIM(`bets`.`created_by`)));--> statement-breakpoint
+UPDATE `settlements` SET `guest_id` = (SELECT `guests`.`id` FROM `guests` INNER JOIN `bets` ON `bets`.`party_id` = `guests`.`party_id` WHERE `bets`.`id` = `settlements`.`bet_id` AND `guests`.`normalized_name` = LOWER(TRIM(`settlements`.`user_name`)));--> statement-breakpoint
+UPDATE `rebuys` SET `guest_id` = (SELECT `guests`.`id` FROM `guests` WHERE `guests`.`party_id` = `rebuys`.`party_id` AND `guests`.`normalized_name` = LOWER(TRIM(`rebuys`.`user_name`)));
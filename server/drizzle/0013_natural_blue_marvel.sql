@@ -0,0 +1,12 @@
+CREATE TABLE `guest_merges` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`party_id` integer,
+	`from_name` text NOT NULL,
+	`into_name` text NOT NULL,
+	`changes` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`undone_at` text,
+	FOREIGN KEY (`party_id`) REFERENCES `parties`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `guests` ADD `merged_into_guest_id` integer REFERENCES guests(id);
\ No newline at end of file
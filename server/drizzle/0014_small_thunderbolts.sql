@@ -0,0 +1,16 @@
+CREATE TABLE `host_sessions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`token_hash` text NOT NULL,
+	`expires_at` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `host_sessions_token_hash_unique` ON `host_sessions` (`token_hash`);--> statement-breakpoint
+CREATE TABLE `host_settings` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`pin_hash` text NOT NULL,
+	`failed_attempts` integer DEFAULT 0 NOT NULL,
+	`locked_until` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
@@ -0,0 +1,13 @@
+CREATE TABLE `co_hosts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`party_id` integer NOT NULL,
+	`label` text NOT NULL,
+	`code_hash` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`revoked_at` text,
+	FOREIGN KEY (`party_id`) REFERENCES `parties`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `co_hosts_code_hash_unique` ON `co_hosts` (`code_hash`);--> statement-breakpoint
+ALTER TABLE `host_sessions` ADD `role` text DEFAULT 'host' NOT NULL;--> statement-breakpoint
+ALTER TABLE `host_sessions` ADD `co_host_id` integer REFERENCES co_hosts(id);
\ No newline at end of file
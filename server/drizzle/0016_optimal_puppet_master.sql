@@ -0,0 +1,4 @@
+ALTER TABLE `parties` ADD `join_code` text;--> statement-breakpoint
+-- Give existing parties a join code from the same alphabet new parties use
+UPDATE `parties` SET `join_code` = substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', (abs(random()) % 32) + 1, 1) || substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', (abs(random()) % 32) + 1, 1) || substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', (abs(random()) % 32) + 1, 1) || substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', (abs(random()) % 32) + 1, 1) || substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', (abs(random()) % 32) + 1, 1) || substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', (abs(random()) % 32) + 1, 1);--> statement-breakpoint
+CREATE UNIQUE INDEX `parties_join_code_unique` ON `parties` (`join_code`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+CREATE INDEX `bet_options_bet_id_idx` ON `bet_options` (`bet_id`);--> statement-breakpoint
+CREATE INDEX `bets_party_id_idx` ON `bets` (`party_id`);--> statement-breakpoint
+CREATE INDEX `wagers_bet_id_idx` ON `wagers` (`bet_id`);
\ No newline at end of file
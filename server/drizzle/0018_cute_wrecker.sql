@@ -0,0 +1 @@
+ALTER TABLE `bets` ADD `blind` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `parties` ADD `cancel_grace_seconds` integer DEFAULT 60 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE `pin_attempts` (
+	`key` text PRIMARY KEY NOT NULL,
+	`failed_attempts` integer DEFAULT 0 NOT NULL,
+	`locked_until` text,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
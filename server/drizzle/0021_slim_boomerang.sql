@@ -0,0 +1,2 @@
+ALTER TABLE `archived_settlements` ADD `guest_id` integer REFERENCES guests(id);--> statement-breakpoint
+UPDATE `archived_settlements` SET `guest_id` = (SELECT `guests`.`id` FROM `guests` INNER JOIN `bets` ON `bets`.`party_id` = `guests`.`party_id` WHERE `bets`.`id` = `archived_settlements`.`bet_id` AND `guests`.`normalized_name` = LOWER(TRIM(`archived_settlements`.`user_name`)));
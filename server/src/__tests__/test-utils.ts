@@ -9,52 +9,203 @@ CREATE TABLE IF NOT EXISTS parties (
   date TEXT NOT NULL,
   description TEXT,
   status TEXT DEFAULT 'active' NOT NULL,
+  max_wager INTEGER,
+  max_per_bet INTEGER,
+  bankroll INTEGER,
+  currency TEXT DEFAULT 'usd' NOT NULL,
+  allow_rebuys INTEGER DEFAULT false NOT NULL,
+  cancel_grace_seconds INTEGER DEFAULT 60 NOT NULL,
+  join_code TEXT,
   created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
   updated_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
 );
 
+CREATE UNIQUE INDEX IF NOT EXISTS parties_join_code_unique ON parties (join_code);
+
+CREATE TABLE IF NOT EXISTS guests (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  party_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  normalized_name TEXT NOT NULL,
+  pin_hash TEXT,
+  merged_into_guest_id INTEGER,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  FOREIGN KEY (party_id) REFERENCES parties(id) ON UPDATE NO ACTION ON DELETE NO ACTION,
+  FOREIGN KEY (merged_into_guest_id) REFERENCES guests(id) ON UPDATE NO ACTION ON DELETE NO ACTION
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS guests_party_id_normalized_name_unique ON guests (party_id, normalized_name);
+
 CREATE TABLE IF NOT EXISTS bets (
   id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
   party_id INTEGER NOT NULL,
   type TEXT NOT NULL,
   question TEXT NOT NULL,
   created_by TEXT NOT NULL,
+  creator_guest_id INTEGER,
   status TEXT DEFAULT 'open' NOT NULL,
   winning_option_id INTEGER,
+  winning_option_ids TEXT,
+  split_mode TEXT,
+  max_exposure INTEGER,
+  line REAL,
+  result REAL,
+  guess_rule TEXT,
+  closes_at TEXT,
+  blind INTEGER DEFAULT false NOT NULL,
   created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
   updated_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
-  FOREIGN KEY (party_id) REFERENCES parties(id) ON UPDATE NO ACTION ON DELETE NO ACTION
+  FOREIGN KEY (party_id) REFERENCES parties(id) ON UPDATE NO ACTION ON DELETE NO ACTION,
+  FOREIGN KEY (creator_guest_id) REFERENCES guests(id) ON UPDATE NO ACTION ON DELETE NO ACTION
 );
+CREATE INDEX IF NOT EXISTS bets_party_id_idx ON bets (party_id);
 
 CREATE TABLE IF NOT EXISTS bet_options (
   id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
   bet_id INTEGER NOT NULL,
   label TEXT NOT NULL,
+  odds_numerator INTEGER,
+  odds_denominator INTEGER,
   created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
   FOREIGN KEY (bet_id) REFERENCES bets(id) ON UPDATE NO ACTION ON DELETE NO ACTION
 );
+CREATE INDEX IF NOT EXISTS bet_options_bet_id_idx ON bet_options (bet_id);
 
 CREATE TABLE IF NOT EXISTS wagers (
   id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
   bet_id INTEGER NOT NULL,
-  option_id INTEGER NOT NULL,
+  option_id INTEGER,
   user_name TEXT NOT NULL,
-  amount REAL NOT NULL,
+  guest_id INTEGER,
+  amount INTEGER NOT NULL,
+  guess REAL,
   created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
   FOREIGN KEY (bet_id) REFERENCES bets(id) ON UPDATE NO ACTION ON DELETE NO ACTION,
-  FOREIGN KEY (option_id) REFERENCES bet_options(id) ON UPDATE NO ACTION ON DELETE NO ACTION
+  FOREIGN KEY (option_id) REFERENCES bet_options(id) ON UPDATE NO ACTION ON DELETE NO ACTION,
+  FOREIGN KEY (guest_id) REFERENCES guests(id) ON UPDATE NO ACTION ON DELETE NO ACTION
 );
+CREATE INDEX IF NOT EXISTS wagers_bet_id_idx ON wagers (bet_id);
 
 CREATE TABLE IF NOT EXISTS settlements (
   id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
   bet_id INTEGER NOT NULL,
   user_name TEXT NOT NULL,
-  total_wagered REAL NOT NULL,
-  payout REAL NOT NULL,
-  net_win_loss REAL NOT NULL,
+  guest_id INTEGER,
+  total_wagered INTEGER NOT NULL,
+  payout INTEGER NOT NULL,
+  net_win_loss INTEGER NOT NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  FOREIGN KEY (bet_id) REFERENCES bets(id) ON UPDATE NO ACTION ON DELETE NO ACTION,
+  FOREIGN KEY (guest_id) REFERENCES guests(id) ON UPDATE NO ACTION ON DELETE NO ACTION
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS settlements_bet_id_user_name_unique ON settlements (bet_id, user_name);
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  party_id INTEGER NOT NULL,
+  bet_id INTEGER,
+  action TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  details TEXT,
   created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  FOREIGN KEY (party_id) REFERENCES parties(id) ON UPDATE NO ACTION ON DELETE NO ACTION,
   FOREIGN KEY (bet_id) REFERENCES bets(id) ON UPDATE NO ACTION ON DELETE NO ACTION
 );
+
+CREATE TABLE IF NOT EXISTS archived_settlements (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  settlement_id INTEGER NOT NULL,
+  bet_id INTEGER NOT NULL,
+  audit_log_id INTEGER NOT NULL,
+  user_name TEXT NOT NULL,
+  guest_id INTEGER,
+  total_wagered INTEGER NOT NULL,
+  payout INTEGER NOT NULL,
+  net_win_loss INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  archived_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  FOREIGN KEY (bet_id) REFERENCES bets(id) ON UPDATE NO ACTION ON DELETE NO ACTION,
+  FOREIGN KEY (audit_log_id) REFERENCES audit_log(id) ON UPDATE NO ACTION ON DELETE NO ACTION,
+  FOREIGN KEY (guest_id) REFERENCES guests(id) ON UPDATE NO ACTION ON DELETE NO ACTION
+);
+
+CREATE TABLE IF NOT EXISTS payments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  party_id INTEGER NOT NULL,
+  from_user TEXT,
+  to_user TEXT,
+  amount INTEGER NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL,
+  payer_confirmed INTEGER DEFAULT false NOT NULL,
+  payee_confirmed INTEGER DEFAULT false NOT NULL,
+  recorded_by TEXT NOT NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  FOREIGN KEY (party_id) REFERENCES parties(id) ON UPDATE NO ACTION ON DELETE NO ACTION
+);
+
+CREATE TABLE IF NOT EXISTS guest_merges (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  party_id INTEGER,
+  from_name TEXT NOT NULL,
+  into_name TEXT NOT NULL,
+  changes TEXT NOT NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  undone_at TEXT,
+  FOREIGN KEY (party_id) REFERENCES parties(id) ON UPDATE NO ACTION ON DELETE NO ACTION
+);
+
+CREATE TABLE IF NOT EXISTS rebuys (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  party_id INTEGER NOT NULL,
+  user_name TEXT NOT NULL,
+  guest_id INTEGER,
+  amount INTEGER NOT NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  FOREIGN KEY (party_id) REFERENCES parties(id) ON UPDATE NO ACTION ON DELETE NO ACTION,
+  FOREIGN KEY (guest_id) REFERENCES guests(id) ON UPDATE NO ACTION ON DELETE NO ACTION
+);
+
+CREATE TABLE IF NOT EXISTS host_settings (
+  id INTEGER PRIMARY KEY NOT NULL,
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER DEFAULT 0 NOT NULL,
+  locked_until TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS co_hosts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  party_id INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  revoked_at TEXT,
+  FOREIGN KEY (party_id) REFERENCES parties(id) ON UPDATE NO ACTION ON DELETE NO ACTION
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS co_hosts_code_hash_unique ON co_hosts (code_hash);
+
+CREATE TABLE IF NOT EXISTS host_sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+  token_hash TEXT NOT NULL,
+  role TEXT DEFAULT 'host' NOT NULL,
+  co_host_id INTEGER,
+  expires_at TEXT NOT NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  FOREIGN KEY (co_host_id) REFERENCES co_hosts(id) ON UPDATE NO ACTION ON DELETE NO ACTION
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS host_sessions_token_hash_unique ON host_sessions (token_hash);
+
+CREATE TABLE IF NOT EXISTS pin_attempts (
+  key TEXT PRIMARY KEY NOT NULL,
+  failed_attempts INTEGER DEFAULT 0 NOT NULL,
+  locked_until TEXT,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
 `;
 
 // Initialize test database tables
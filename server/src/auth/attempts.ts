@@ -0,0 +1,72 @@
+/**
+ * PIN attempt limiting for Place-A-Bet
+ *
+ * Every PIN here - the host's and each guest's - is 4 digits, so only 10,000 possibilities.
+ * Too many wrong guesses in a row lock that PIN for a while. The host login keeps its count
+ * on the host settings row; every other PIN check counts per key in `pin_attempts`, so a
+ * stranger guessing one PIN can't lock anyone else out.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { pinAttempts } from '../db/schema.js';
+
+export const MAX_PIN_ATTEMPTS = 5;
+export const LOCKOUT_MINUTES = 15;
+
+export interface AttemptState {
+  failedAttempts: number;
+  lockedUntil: string | null;
+}
+
+/**
+ * Whether a lockout is still running
+ */
+export function isLockedOut(state: AttemptState | undefined, now = new Date()): boolean {
+  return !!state?.lockedUntil && new Date(state.lockedUntil) > now;
+}
+
+/**
+ * The attempt state after one more wrong PIN
+ * Reaching the limit starts a lockout and the count over again.
+ */
+export function afterFailedAttempt(state: AttemptState | undefined, now = new Date()): AttemptState & { locked: boolean } {
+  const failedAttempts = (state?.failedAttempts ?? 0) + 1;
+  const locked = failedAttempts >= MAX_PIN_ATTEMPTS;
+
+  return {
+    failedAttempts: locked ? 0 : failedAttempts,
+    lockedUntil: locked ? new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000).toISOString() : null,
+    locked
+  };
+}
+
+/**
+ * Whether PINs for a key are refused right now
+ */
+export function isKeyLockedOut(key: string): boolean {
+  return isLockedOut(db.select().from(pinAttempts).where(eq(pinAttempts.key, key)).get());
+}
+
+/**
+ * Count a wrong PIN against a key, returning true if that locked it
+ */
+export function recordFailedAttempt(key: string): boolean {
+  const now = new Date();
+  const next = afterFailedAttempt(db.select().from(pinAttempts).where(eq(pinAttempts.key, key)).get(), now);
+  const values = { failedAttempts: next.failedAttempts, lockedUntil: next.lockedUntil, updatedAt: now.toISOString() };
+
+  db.insert(pinAttempts)
+    .values({ key, ...values })
+    .onConflictDoUpdate({ target: pinAttempts.key, set: values })
+    .run();
+
+  return next.locked;
+}
+
+/**
+ * Forget a key's wrong PINs after a right one
+ */
+export function clearFailedAttempts(key: string): void {
+  db.delete(pinAttempts).where(eq(pinAttempts.key, key)).run();
+}
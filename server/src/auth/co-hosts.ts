@@ -0,0 +1,82 @@
+/**
+ * Co-hosts for Place-A-Bet
+ *
+ * The host can mint a code for a friend helping run a party. Trading the code for a session
+ * lets them close and settle that party's bets, without the host PIN - they can't archive
+ * parties, change settings or mint codes of their own. Revoking a code ends its sessions.
+ *
+ * Codes are 8 characters (see `utils/codes.ts`), shown as "ABCD-EFGH". Only their hash is stored.
+ */
+
+import { eq, and, isNull } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { coHosts, hostSessions, type CoHost } from '../db/schema.js';
+import { randomCode, normalizeCode } from '../utils/codes.js';
+import { hashToken } from './host.js';
+
+const CODE_LENGTH = 8;
+
+/**
+ * A co-host as sent to clients - the code hash never leaves the server
+ */
+export function toPublicCoHost(coHost: CoHost) {
+  return {
+    id: coHost.id,
+    partyId: coHost.partyId,
+    label: coHost.label,
+    createdAt: coHost.createdAt,
+    revokedAt: coHost.revokedAt
+  };
+}
+
+/**
+ * Mint a co-host code for a party
+ * Returns the code itself, which can't be recovered later
+ */
+export function mintCoHost(partyId: number, label: string): { coHost: CoHost; code: string } {
+  const chars = randomCode(CODE_LENGTH);
+  const code = `${chars.slice(0, 4)}-${chars.slice(4)}`;
+
+  const coHost = db
+    .insert(coHosts)
+    .values({
+      partyId,
+      label,
+      codeHash: hashToken(normalizeCode(code)),
+      createdAt: new Date().toISOString()
+    })
+    .returning()
+    .get();
+
+  return { coHost, code };
+}
+
+/**
+ * Find the co-host a code was minted for, unless it has been revoked
+ */
+export function findCoHostByCode(code: string): CoHost | undefined {
+  return db
+    .select()
+    .from(coHosts)
+    .where(and(
+      eq(coHosts.codeHash, hashToken(normalizeCode(code))),
+      isNull(coHosts.revokedAt)
+    ))
+    .get();
+}
+
+/**
+ * Revoke a co-host code and end every session started with it
+ */
+export function revokeCoHost(coHostId: number): CoHost {
+  return db.transaction((tx) => {
+    tx.delete(hostSessions).where(eq(hostSessions.coHostId, coHostId)).run();
+
+    return tx
+      .update(coHosts)
+      .set({ revokedAt: new Date().toISOString() })
+      .where(eq(coHosts.id, coHostId))
+      .returning()
+      .get();
+  });
+}
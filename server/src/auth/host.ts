@@ -0,0 +1,247 @@
+/**
+ * Host authentication for Place-A-Bet
+ *
+ * The host PIN lives in the database as a salted hash, set once through first-run setup.
+ * Entering it hands out a session token, so the client doesn't have to keep the PIN around.
+ * Too many wrong PINs in a row lock PIN logins for a while - a 4-digit PIN only has 10,000
+ * possibilities, so without a lockout it could be guessed in minutes. A PIN sent along with
+ * some other request counts against the client that sent it instead (see `checkRequestHostPin`),
+ * so guests can't lock the host out.
+ *
+ * Deployments that still set HOST_PIN get it imported into the database the first time the
+ * host settings are read.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { eq, lt } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { hostSettings, hostSessions, coHosts, type HostSettings, type HostSession, type CoHost } from '../db/schema.js';
+import { hashPin, verifyPin } from '../utils/pin.js';
+import {
+  LOCKOUT_MINUTES,
+  afterFailedAttempt,
+  clearFailedAttempts,
+  isKeyLockedOut,
+  isLockedOut,
+  recordFailedAttempt
+} from './attempts.js';
+
+export { MAX_PIN_ATTEMPTS, LOCKOUT_MINUTES } from './attempts.js';
+export const SESSION_MINUTES = 120;
+
+const SETTINGS_ID = 1;
+
+export type HostPinCheck =
+  | { ok: true }
+  | { ok: false; error: string; status: 401 | 429 | 503 };
+
+export interface HostSessionToken {
+  token: string;
+  expiresAt: string;
+  role: HostSession['role'];
+}
+
+/**
+ * Hash a session token or co-host code for storage - both are random enough that a plain
+ * SHA-256 is all they need
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Read the host settings row, importing a legacy HOST_PIN if no PIN has been set up yet
+ */
+export function getHostSettings(): HostSettings | undefined {
+  const settings = db.select().from(hostSettings).where(eq(hostSettings.id, SETTINGS_ID)).get();
+  if (settings) {
+    return settings;
+  }
+
+  const legacyPin = process.env.HOST_PIN;
+  if (!legacyPin || !/^\d{4}$/.test(legacyPin)) {
+    return undefined;
+  }
+
+  return db
+    .insert(hostSettings)
+    .values({ id: SETTINGS_ID, pinHash: hashPin(legacyPin) })
+    .onConflictDoNothing()
+    .returning()
+    .get() ?? db.select().from(hostSettings).where(eq(hostSettings.id, SETTINGS_ID)).get();
+}
+
+/**
+ * Whether a host PIN has been set up
+ */
+export function isHostConfigured(): boolean {
+  return getHostSettings() !== undefined;
+}
+
+/**
+ * Set the host PIN during first-run setup
+ * Returns false if a PIN is already set - changing it goes through the reset script
+ * (`npm run db:reset-pin`)
+ */
+export function setupHostPin(pin: string): boolean {
+  if (isHostConfigured()) {
+    return false;
+  }
+
+  const created = db
+    .insert(hostSettings)
+    .values({ id: SETTINGS_ID, pinHash: hashPin(pin) })
+    .onConflictDoNothing()
+    .returning()
+    .get();
+
+  return created !== undefined;
+}
+
+/**
+ * Replace the host PIN, or clear it so first-run setup runs again
+ * Also lifts any lockout and ends every host session. For the reset script only - it
+ * needs access to the server itself, so it checks no PIN.
+ */
+export function resetHostPin(pin: string | null): void {
+  db.transaction((tx) => {
+    tx.delete(hostSessions).run();
+    tx.delete(hostSettings).run();
+
+    if (pin !== null) {
+      tx.insert(hostSettings).values({ id: SETTINGS_ID, pinHash: hashPin(pin) }).run();
+    }
+  });
+}
+
+/**
+ * Check a PIN against the host PIN, counting wrong guesses toward the lockout
+ */
+export function checkHostPin(pin: string): HostPinCheck {
+  const settings = getHostSettings();
+  if (!settings) {
+    return { ok: false, error: 'Host PIN not set up yet', status: 503 };
+  }
+
+  const now = new Date();
+
+  if (isLockedOut(settings, now)) {
+    return {
+      ok: false,
+      error: 'Too many wrong PINs. Try again later.',
+      status: 429
+    };
+  }
+
+  if (verifyPin(pin, settings.pinHash)) {
+    if (settings.failedAttempts > 0 || settings.lockedUntil) {
+      db.update(hostSettings)
+        .set({ failedAttempts: 0, lockedUntil: null, updatedAt: now.toISOString() })
+        .where(eq(hostSettings.id, SETTINGS_ID))
+        .run();
+    }
+    return { ok: true };
+  }
+
+  const { locked, ...attempts } = afterFailedAttempt(settings, now);
+
+  db.update(hostSettings)
+    .set({ ...attempts, updatedAt: now.toISOString() })
+    .where(eq(hostSettings.id, SETTINGS_ID))
+    .run();
+
+  if (locked) {
+    return {
+      ok: false,
+      error: `Too many wrong PINs. Host login is locked for ${LOCKOUT_MINUTES} minutes.`,
+      status: 429
+    };
+  }
+
+  return { ok: false, error: 'Invalid host PIN', status: 401 };
+}
+
+/**
+ * Check a host PIN sent along with some other request, from the client `clientKey`
+ * Wrong guesses count against that client rather than toward the host login lockout, which
+ * still applies.
+ */
+export function checkRequestHostPin(pin: string, clientKey: string): HostPinCheck {
+  const settings = getHostSettings();
+  if (!settings) {
+    return { ok: false, error: 'Host PIN not set up yet', status: 503 };
+  }
+
+  const key = `host-pin:${clientKey}`;
+
+  if (isLockedOut(settings) || isKeyLockedOut(key)) {
+    return {
+      ok: false,
+      error: 'Too many wrong PINs. Try again later.',
+      status: 429
+    };
+  }
+
+  if (verifyPin(pin, settings.pinHash)) {
+    clearFailedAttempts(key);
+    return { ok: true };
+  }
+
+  if (recordFailedAttempt(key)) {
+    return {
+      ok: false,
+      error: `Too many wrong PINs. Host PINs from this device are refused for ${LOCKOUT_MINUTES} minutes.`,
+      status: 429
+    };
+  }
+
+  return { ok: false, error: 'Invalid host PIN', status: 401 };
+}
+
+/**
+ * Start a host session - or a co-host session when given the co-host - returning the token
+ * to hand to the client
+ * Only the token's hash is stored; expired sessions are cleared out along the way
+ */
+export function createHostSession(coHost?: CoHost): HostSessionToken {
+  const now = new Date();
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = new Date(now.getTime() + SESSION_MINUTES * 60 * 1000).toISOString();
+  const role = coHost ? 'co_host' : 'host';
+
+  db.delete(hostSessions).where(lt(hostSessions.expiresAt, now.toISOString())).run();
+  db.insert(hostSessions).values({
+    tokenHash: hashToken(token),
+    role,
+    coHostId: coHost?.id ?? null,
+    expiresAt
+  }).run();
+
+  return { token, expiresAt, role };
+}
+
+/**
+ * Find the live session a token belongs to, with its co-host for co-host sessions
+ * Sessions of revoked co-hosts are deleted on revoke, so they never turn up here
+ */
+export function findHostSession(token: string): { session: HostSession; coHost: CoHost | null } | undefined {
+  const row = db
+    .select({ session: hostSessions, coHost: coHosts })
+    .from(hostSessions)
+    .leftJoin(coHosts, eq(hostSessions.coHostId, coHosts.id))
+    .where(eq(hostSessions.tokenHash, hashToken(token)))
+    .get();
+
+  if (!row || new Date(row.session.expiresAt) <= new Date()) {
+    return undefined;
+  }
+
+  return row;
+}
+
+/**
+ * End a host session (logging out)
+ */
+export function endHostSession(token: string): void {
+  db.delete(hostSessions).where(eq(hostSessions.tokenHash, hashToken(token))).run();
+}
@@ -0,0 +1,106 @@
+/**
+ * Host authentication middleware
+ *
+ * A request is from the host when it carries a live host session token
+ * (`Authorization: Bearer <token>`) or the host PIN in its JSON body. The PIN is never read
+ * from the query string, so it doesn't end up in URLs or access logs.
+ *
+ * A co-host session token marks the request as from a co-host of one party instead. Co-hosts
+ * can moderate that party's bets (see `canModerate`) but never pass `requireHost`.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import type { CoHost } from '../db/schema.js';
+import { checkRequestHostPin, findHostSession, type HostPinCheck } from './host.js';
+
+type HostAuth =
+  | Extract<HostPinCheck, { ok: false }>
+  | { ok: true; coHost: CoHost | null };
+
+/**
+ * Pull the session token out of an `Authorization: Bearer` header
+ */
+export function getSessionToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) {
+    return undefined;
+  }
+
+  return header.slice('Bearer '.length).trim() || undefined;
+}
+
+/**
+ * Work out whether the request is from the host or a co-host
+ */
+function authenticateHost(req: Request): HostAuth | null {
+  const token = getSessionToken(req);
+  const found = token ? findHostSession(token) : undefined;
+
+  // A host PIN in the body still makes a co-host's request the host's
+  const hostPin = req.body?.hostPin;
+  if (found?.session.role !== 'host' && typeof hostPin === 'string' && hostPin !== '') {
+    const check = checkRequestHostPin(hostPin, req.ip ?? 'unknown');
+    return check.ok ? { ok: true, coHost: null } : check;
+  }
+
+  if (found) {
+    return { ok: true, coHost: found.coHost };
+  }
+
+  return null;
+}
+
+/**
+ * Mark who the request is from, for routes the host and others can both use
+ * Sets `res.locals.isHost` and `res.locals.coHost`; a wrong PIN just means the request
+ * isn't from the host. Wrong PINs count against the client, never toward the host login lockout.
+ */
+export function identifyHost(req: Request, res: Response, next: NextFunction) {
+  const auth = authenticateHost(req);
+
+  res.locals.isHost = auth?.ok === true && auth.coHost === null;
+  res.locals.coHost = auth?.ok === true ? auth.coHost : null;
+  next();
+}
+
+/**
+ * Only let the host through
+ */
+export function requireHost(req: Request, res: Response, next: NextFunction) {
+  const auth = authenticateHost(req);
+
+  if (!auth) {
+    return res.status(401).json({
+      error: getSessionToken(req) ? 'Host session expired. Enter the host PIN again.' : 'Host authentication required'
+    });
+  }
+
+  if (!auth.ok) {
+    return res.status(auth.status).json({ error: auth.error });
+  }
+
+  if (auth.coHost) {
+    return res.status(403).json({ error: 'Only the host can do this' });
+  }
+
+  res.locals.isHost = true;
+  res.locals.coHost = null;
+  next();
+}
+
+/**
+ * Whether a request that went through `identifyHost` may moderate a party's bets -
+ * the host anywhere, a co-host only at the party their code was minted for
+ */
+export function canModerate(res: Response, partyId: number): boolean {
+  const coHost: CoHost | null = res.locals.coHost;
+  return res.locals.isHost === true || coHost?.partyId === partyId;
+}
+
+/**
+ * Who moderated, for the audit log
+ */
+export function moderatorActor(res: Response): string {
+  const coHost: CoHost | null = res.locals.coHost;
+  return coHost ? `co-host ${coHost.label}` : 'host';
+}
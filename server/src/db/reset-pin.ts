@@ -0,0 +1,35 @@
+import { sqlite } from './index.js';
+import { resetHostPin } from '../auth/host.js';
+
+// Reset the host PIN from the machine the server runs on
+//
+//   npm run db:reset-pin -- 5678   Set a new host PIN
+//   npm run db:reset-pin           Clear the PIN, so the app asks for one again on next open
+//
+// Either way every host session ends and any lockout is lifted.
+
+const pin = process.argv[2] ?? null;
+
+if (pin !== null && !/^\d{4}$/.test(pin)) {
+  console.error('❌ The host PIN must be exactly 4 digits');
+  process.exit(1);
+}
+
+try {
+  resetHostPin(pin);
+
+  if (pin !== null) {
+    console.log('✅ Host PIN changed. Every host session has been signed out.');
+  } else {
+    console.log('✅ Host PIN cleared. The app will ask for a new one the next time it is opened.');
+
+    if (process.env.HOST_PIN) {
+      console.warn('⚠️  HOST_PIN is set in .env and will be imported again - remove it to use first-run setup.');
+    }
+  }
+} catch (error) {
+  console.error('❌ Failed to reset host PIN:', error);
+  process.exit(1);
+} finally {
+  sqlite.close();
+}
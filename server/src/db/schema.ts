@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, index, uniqueIndex, type AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
 
 // Parties table
@@ -8,50 +8,217 @@ export const parties = sqliteTable('parties', {
   date: text('date').notNull(), // ISO date string
   description: text('description'),
   status: text('status', { enum: ['active', 'archived'] }).notNull().default('active'),
+  maxWager: integer('max_wager'), // Cents - most a guest can put on a single wager (null = no limit)
+  maxPerBet: integer('max_per_bet'), // Cents - most a guest can put on one bet across wagers (null = no limit)
+  bankroll: integer('bankroll'), // Cents - starting bankroll per guest; stakes in play can't exceed it plus settled winnings (null = no limit)
+  currency: text('currency', { enum: ['usd', 'chips'] }).notNull().default('usd'), // Real money, or play chips (bankroll is the chip stack)
+  allowRebuys: integer('allow_rebuys', { mode: 'boolean' }).notNull().default(false), // Chips only - busted guests can buy a fresh stack
+  cancelGraceSeconds: integer('cancel_grace_seconds').notNull().default(60), // How long a guest can cancel their own wager (0 = never); the host can always cancel
+  joinCode: text('join_code').unique(), // Short code guests type or scan to find the party, e.g. "K7P2QX" (set on every party)
   createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`)
 });
 
+// Host settings table - a single row (id 1) holding the host's PIN
+// The PIN is set through first-run setup; a PIN from the old HOST_PIN env var is imported once
+export const hostSettings = sqliteTable('host_settings', {
+  id: integer('id').primaryKey(),
+  pinHash: text('pin_hash').notNull(), // Salted scrypt hash of the 4-digit host PIN
+  failedAttempts: integer('failed_attempts').notNull().default(0), // Wrong PINs in a row
+  lockedUntil: text('locked_until'), // ISO timestamp - PIN logins are refused until then
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`)
+});
+
+// Co-hosts table - codes the host hands to friends so they can close and settle bets at one party
+// Only a hash of each code is stored; the code itself is shown once, when minted
+export const coHosts = sqliteTable('co_hosts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  partyId: integer('party_id').notNull().references(() => parties.id),
+  label: text('label').notNull(), // Who the code was given to
+  codeHash: text('code_hash').notNull().unique(), // SHA-256 of the co-host code
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  revokedAt: text('revoked_at') // Set when the host revokes the code
+});
+
+// Host sessions table - short-lived tokens handed out after the host PIN or a co-host code is verified
+// Only a hash of each token is stored
+export const hostSessions = sqliteTable('host_sessions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  tokenHash: text('token_hash').notNull().unique(), // SHA-256 of the session token
+  role: text('role', { enum: ['host', 'co_host'] }).notNull().default('host'),
+  coHostId: integer('co_host_id').references(() => coHosts.id), // Co-host sessions only
+  expiresAt: text('expires_at').notNull(), // ISO timestamp
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`)
+});
+
+// PIN attempts table - wrong PINs in a row per key, for PIN checks other than the host login
+// Keys name what is being guessed at and by whom: "host-pin:<client IP>" or "guest:<guest ID>"
+export const pinAttempts = sqliteTable('pin_attempts', {
+  key: text('key').primaryKey(),
+  failedAttempts: integer('failed_attempts').notNull().default(0), // Wrong PINs in a row
+  lockedUntil: text('locked_until'), // ISO timestamp - PINs for this key are refused until then
+  updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`)
+});
+
+// Guests table - the roster of people betting at a party
+// Names are unique per party ignoring case and extra spaces; a guest can protect their name with a PIN
+export const guests = sqliteTable('guests', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  partyId: integer('party_id').notNull().references(() => parties.id),
+  name: text('name').notNull(), // Display name, as first entered (trimmed)
+  normalizedName: text('normalized_name').notNull(), // Lowercased, whitespace collapsed - what names are matched on
+  pinHash: text('pin_hash'), // Salted scrypt hash of the guest's 4-digit PIN (null = unclaimed, anyone can use the name)
+  mergedIntoGuestId: integer('merged_into_guest_id').references((): AnySQLiteColumn => guests.id), // Set when the host merged this guest into another - the name now resolves to that guest
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  partyNameUnique: uniqueIndex('guests_party_id_normalized_name_unique').on(table.partyId, table.normalizedName)
+}));
+
 // Bets table
 export const bets = sqliteTable('bets', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   partyId: integer('party_id').notNull().references(() => parties.id),
-  type: text('type', { enum: ['yes_no', 'multi_option'] }).notNull(),
+  type: text('type', { enum: ['yes_no', 'multi_option', 'fixed_odds', 'over_under', 'closest_guess'] }).notNull(),
   question: text('question').notNull(),
   createdBy: text('created_by').notNull(), // Guest name
-  status: text('status', { enum: ['open', 'closed', 'settled'] }).notNull().default('open'),
-  winningOptionId: integer('winning_option_id'), // Set when settled
+  creatorGuestId: integer('creator_guest_id').references(() => guests.id), // Null on bets created before the guest roster
+  status: text('status', { enum: ['open', 'closed', 'settled', 'void'] }).notNull().default('open'),
+  winningOptionId: integer('winning_option_id'), // Set when settled (first winner when several win)
+  winningOptionIds: text('winning_option_ids', { mode: 'json' }).$type<number[]>(), // All winning options, set when settled
+  splitMode: text('split_mode', { enum: ['pooled', 'dead_heat'] }), // How the pool was split between winners
+  maxExposure: integer('max_exposure'), // Cents - most the creator (bank) can lose, fixed_odds only
+  line: real('line'), // Over/under only, e.g. 47.5 for "Total points over 47.5?"
+  result: real('result'), // Over/under and closest-guess only - final numeric result, set when settled
+  guessRule: text('guess_rule', { enum: ['closest', 'not_over'] }), // Closest-guess only - how the winning guess is picked
+  closesAt: text('closes_at'), // ISO timestamp - optional lock time, the bet is closed automatically once it passes
+  blind: integer('blind', { mode: 'boolean' }).notNull().default(false), // Who bet what stays hidden until betting closes
   createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`)
-});
+}, (table) => ({
+  partyIdx: index('bets_party_id_idx').on(table.partyId)
+}));
 
 // Bet options table (outcomes)
 export const betOptions = sqliteTable('bet_options', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   betId: integer('bet_id').notNull().references(() => bets.id),
   label: text('label').notNull(), // e.g., "Chiefs", "Yes", "No"
+  oddsNumerator: integer('odds_numerator'), // Fixed-odds only, e.g. 3 for "3-to-1"
+  oddsDenominator: integer('odds_denominator'), // Fixed-odds only, e.g. 1 for "3-to-1"
   createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`)
-});
+}, (table) => ({
+  betIdx: index('bet_options_bet_id_idx').on(table.betId)
+}));
 
 // Wagers table
 export const wagers = sqliteTable('wagers', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   betId: integer('bet_id').notNull().references(() => bets.id),
-  optionId: integer('option_id').notNull().references(() => betOptions.id),
+  optionId: integer('option_id').references(() => betOptions.id), // Null on closest-guess bets, where the guess is the pick
   userName: text('user_name').notNull(), // Guest name
-  amount: real('amount').notNull(), // USD (whole dollars only)
+  guestId: integer('guest_id').references(() => guests.id), // Null on wagers placed before the guest roster
+  amount: integer('amount').notNull(), // Cents (whole dollars only)
+  guess: real('guess'), // Exact guess at the final result - optional on over/under, required on closest-guess
   createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`)
-});
+}, (table) => ({
+  betIdx: index('wagers_bet_id_idx').on(table.betId)
+}));
 
 // Settlements table - stores calculated payouts when bet is settled
 // This avoids recalculating payouts and provides an audit trail
+// One row per user per bet, so a double settle can never write payouts twice
+// The unique index leads with bet_id, so it also serves lookups by bet - no separate bet_id index
 export const settlements = sqliteTable('settlements', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   betId: integer('bet_id').notNull().references(() => bets.id),
   userName: text('user_name').notNull(), // Guest name
-  totalWagered: real('total_wagered').notNull(), // Total amount user wagered across all options in this bet
-  payout: real('payout').notNull(), // Amount user won (0 if they lost)
-  netWinLoss: real('net_win_loss').notNull(), // payout - totalWagered (negative if lost)
+  guestId: integer('guest_id').references(() => guests.id), // Null for names that never made it onto the roster
+  totalWagered: integer('total_wagered').notNull(), // Cents - total amount user wagered across all options in this bet
+  payout: integer('payout').notNull(), // Cents - amount user won (0 if they lost)
+  netWinLoss: integer('net_win_loss').notNull(), // Cents - payout - totalWagered (negative if lost)
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  betUserUnique: uniqueIndex('settlements_bet_id_user_name_unique').on(table.betId, table.userName)
+}));
+
+// Audit log table - records host/creator actions that change bet outcomes
+// details holds a JSON string with action-specific context (e.g. previous winner)
+export const auditLog = sqliteTable('audit_log', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  partyId: integer('party_id').notNull().references(() => parties.id),
+  betId: integer('bet_id').references(() => bets.id),
+  action: text('action', { enum: ['close', 'settle', 'unsettle', 'void', 'merge_guests', 'unmerge_guests', 'cancel_wager'] }).notNull(),
+  actor: text('actor').notNull(), // Guest name, "host" or "co-host <label>"
+  details: text('details'), // JSON
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`)
+});
+
+// Archived settlements table - settlement rows moved aside when a bet is un-settled
+// Kept so a wrong settlement can always be reconstructed from the audit trail
+export const archivedSettlements = sqliteTable('archived_settlements', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  settlementId: integer('settlement_id').notNull(), // Original settlements.id
+  betId: integer('bet_id').notNull().references(() => bets.id),
+  auditLogId: integer('audit_log_id').notNull().references(() => auditLog.id),
+  userName: text('user_name').notNull(),
+  guestId: integer('guest_id').references(() => guests.id), // The settlement's guest, if it had one
+  totalWagered: integer('total_wagered').notNull(), // Cents
+  payout: integer('payout').notNull(), // Cents
+  netWinLoss: integer('net_win_loss').notNull(), // Cents
+  createdAt: text('created_at').notNull(), // When the original settlement was written
+  archivedAt: text('archived_at').notNull().default(sql`CURRENT_TIMESTAMP`)
+});
+
+// Payments table - records IOUs being paid off between guests after a party
+// A payment is confirmed once both sides (or the host) confirm it
+export const payments = sqliteTable('payments', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  partyId: integer('party_id').notNull().references(() => parties.id),
+  fromUser: text('from_user'), // Payer guest name (null = the house)
+  toUser: text('to_user'), // Payee guest name (null = the house)
+  amount: integer('amount').notNull(), // Cents
+  status: text('status', { enum: ['pending', 'confirmed', 'reversed'] }).notNull().default('pending'),
+  payerConfirmed: integer('payer_confirmed', { mode: 'boolean' }).notNull().default(false),
+  payeeConfirmed: integer('payee_confirmed', { mode: 'boolean' }).notNull().default(false),
+  recordedBy: text('recorded_by').notNull(), // Guest name or "host"
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`)
+});
+
+// What a guest merge changed at one party - the previous values of every re-attributed row
+export interface GuestMergePartyChanges {
+  partyId: number;
+  fromGuestId: number | null; // Null when the name was never on the roster
+  intoGuestId: number;
+  createdIntoGuest: boolean; // The target name wasn't on this party's roster until the merge
+  wagers: Array<{ id: number; userName: string; guestId: number | null }>;
+  bets: Array<{ id: number; createdBy: string; creatorGuestId: number | null }>;
+  settlements: Array<{ id: number; userName: string; guestId: number | null }>;
+  combinedSettlements: Array<{ settlement: Settlement; intoSettlementId: number }>; // Folded into the target's row on the same bet
+  rebuys: Array<{ id: number; userName: string; guestId: number | null }>;
+  payments: Array<{ id: number; fromUser: string | null; toUser: string | null; recordedBy: string }>;
+}
+
+// Guest merges table - the host folding one guest name into another (e.g. "Jon" into "Jonathan")
+// changes holds a JSON record of every row that was re-attributed, so the merge can be undone
+export const guestMerges = sqliteTable('guest_merges', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  partyId: integer('party_id').references(() => parties.id), // Null = merged across every party
+  fromName: text('from_name').notNull(),
+  intoName: text('into_name').notNull(),
+  changes: text('changes', { mode: 'json' }).$type<GuestMergePartyChanges[]>().notNull(),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  undoneAt: text('undone_at') // Set once the merge has been reversed
+});
+
+// Rebuys table - fresh chip stacks handed to busted guests in play-money parties
+export const rebuys = sqliteTable('rebuys', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  partyId: integer('party_id').notNull().references(() => parties.id),
+  userName: text('user_name').notNull(), // Guest name
+  guestId: integer('guest_id').references(() => guests.id),
+  amount: integer('amount').notNull(), // Cents - the party's starting stack at the time of the rebuy
   createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`)
 });
 
@@ -59,6 +226,21 @@ export const settlements = sqliteTable('settlements', {
 export type Party = typeof parties.$inferSelect;
 export type NewParty = typeof parties.$inferInsert;
 
+export type HostSettings = typeof hostSettings.$inferSelect;
+export type NewHostSettings = typeof hostSettings.$inferInsert;
+
+export type CoHost = typeof coHosts.$inferSelect;
+export type NewCoHost = typeof coHosts.$inferInsert;
+
+export type HostSession = typeof hostSessions.$inferSelect;
+export type NewHostSession = typeof hostSessions.$inferInsert;
+
+export type PinAttempt = typeof pinAttempts.$inferSelect;
+export type NewPinAttempt = typeof pinAttempts.$inferInsert;
+
+export type Guest = typeof guests.$inferSelect;
+export type NewGuest = typeof guests.$inferInsert;
+
 export type Bet = typeof bets.$inferSelect;
 export type NewBet = typeof bets.$inferInsert;
 
@@ -70,3 +252,18 @@ export type NewWager = typeof wagers.$inferInsert;
 
 export type Settlement = typeof settlements.$inferSelect;
 export type NewSettlement = typeof settlements.$inferInsert;
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type NewAuditLogEntry = typeof auditLog.$inferInsert;
+
+export type ArchivedSettlement = typeof archivedSettlements.$inferSelect;
+export type NewArchivedSettlement = typeof archivedSettlements.$inferInsert;
+
+export type Payment = typeof payments.$inferSelect;
+export type NewPayment = typeof payments.$inferInsert;
+
+export type GuestMerge = typeof guestMerges.$inferSelect;
+export type NewGuestMerge = typeof guestMerges.$inferInsert;
+
+export type Rebuy = typeof rebuys.$inferSelect;
+export type NewRebuy = typeof rebuys.$inferInsert;
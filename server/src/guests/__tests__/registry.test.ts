@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../../db/index';
+import { parties, guests } from '../../db/schema';
+import { initTestDb } from '../../__tests__/test-utils';
+import { hashPin } from '../../utils/pin';
+import { findGuest, findOrCreateGuest, resolveGuest, resolveWagerGuests } from '../registry';
+
+process.env.NODE_ENV = 'test';
+
+describe('Guest registry', () => {
+  // Initialize test database tables
+  initTestDb();
+
+  let partyId: number;
+
+  beforeEach(async () => {
+    await db.delete(guests);
+    await db.delete(parties);
+
+    const [party] = await db.insert(parties).values({
+      name: 'Super Bowl Party',
+      date: '2026-02-08T00:00:00Z',
+      status: 'active',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }).returning();
+    partyId = party.id;
+  });
+
+  describe('findOrCreateGuest', () => {
+    it('should add a name once, however it is typed', () => {
+      const alice = findOrCreateGuest(db, partyId, 'Alice');
+      expect(findOrCreateGuest(db, partyId, ' alice ').id).toBe(alice.id);
+      expect(findOrCreateGuest(db, partyId, 'ALICE').name).toBe('Alice');
+    });
+
+    it('should keep rosters separate per party', async () => {
+      const [other] = await db.insert(parties).values({
+        name: 'Game Night',
+        date: '2026-03-01T00:00:00Z',
+        status: 'archived',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+
+      const alice = findOrCreateGuest(db, partyId, 'Alice');
+      expect(findOrCreateGuest(db, other.id, 'Alice').id).not.toBe(alice.id);
+    });
+  });
+
+  describe('resolveGuest', () => {
+    it('should let anyone use an unclaimed name', () => {
+      expect(resolveGuest(db, partyId, 'Bob')).toHaveProperty('guest');
+    });
+
+    it('should need the PIN for a claimed name', async () => {
+      await db.insert(guests).values({
+        partyId,
+        name: 'Bob',
+        normalizedName: 'bob',
+        pinHash: hashPin('1111'),
+        createdAt: new Date().toISOString()
+      });
+
+      expect(resolveGuest(db, partyId, 'bob')).toHaveProperty('error');
+      expect(resolveGuest(db, partyId, 'bob', '2222')).toHaveProperty('error');
+      expect(resolveGuest(db, partyId, 'bob', '1111')).toHaveProperty('guest');
+    });
+  });
+
+  describe('resolveWagerGuests', () => {
+    it('should group wagers under the guest whatever name they were placed with', () => {
+      const alice = findOrCreateGuest(db, partyId, 'Alice');
+
+      const resolved = resolveWagerGuests(db, partyId, [
+        { userName: 'Alice', guestId: alice.id },
+        { userName: 'alice ', guestId: null }, // Placed before the roster
+        { userName: 'Carol', guestId: null },
+        { userName: 'carol', guestId: null } // Not on the roster at all
+      ]);
+
+      expect(resolved.map(w => [w.userName, w.guestId])).toEqual([
+        ['Alice', alice.id],
+        ['Alice', alice.id],
+        ['Carol', null],
+        ['Carol', null]
+      ]);
+      expect(findGuest(db, partyId, 'carol')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * Guest merges for Place-A-Bet
+ *
+ * Folds one guest name into another after the fact ("Jon" into "Jonathan"), at one party or
+ * across every party. Wagers, created bets, settlements, rebuys and payments all move to the
+ * target guest, and the old name resolves to the target from then on.
+ *
+ * A merge is planned first, so the host can preview how balances change without touching
+ * anything. Running it records the previous value of every row it re-attributed, which is
+ * what makes it reversible.
+ */
+
+import { eq, and, or, inArray, isNull, gt, sql } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import {
+  guests,
+  bets,
+  wagers,
+  settlements,
+  rebuys,
+  payments,
+  auditLog,
+  guestMerges,
+  type Party,
+  type Guest,
+  type Bet,
+  type Wager,
+  type Settlement,
+  type Rebuy,
+  type Payment,
+  type GuestMerge,
+  type GuestMergePartyChanges
+} from '../db/schema.js';
+import { cleanGuestName, normalizeGuestName } from '../utils/guest-names.js';
+import { toDollars } from '../utils/money.js';
+import { findGuest, belongsToGuest } from './registry.js';
+
+type Conn = Pick<typeof db, 'select' | 'insert' | 'update' | 'delete'>;
+
+/**
+ * How a merge changes one party - counts of the rows that move, and each name's net
+ * win/loss on settled bets (in dollars) before and after
+ */
+export interface GuestMergePreview {
+  partyId: number;
+  partyName: string;
+  wagers: number;
+  bets: number;
+  settlements: number;
+  rebuys: number;
+  payments: number;
+  balances: Array<{ userName: string; before: number; after: number }>;
+}
+
+export interface GuestMergePlan {
+  party: Party;
+  fromGuest: Guest | undefined; // Undefined when the name never made it onto the roster
+  intoGuest: Guest | undefined; // Undefined when the target isn't at this party yet
+  fromName: string;
+  intoName: string;
+  wagers: Wager[];
+  bets: Bet[];
+  settlements: Settlement[];
+  intoSettlements: Settlement[];
+  rebuys: Rebuy[];
+  payments: Payment[];
+  preview: GuestMergePreview;
+}
+
+/**
+ * Work out what merging one name into another would change at a party
+ * Returns null when there is nothing of the name's at the party (or both names are already the
+ * same guest)
+ */
+export function planGuestMerge(conn: Pick<typeof db, 'select'>, party: Party, from: string, into: string): GuestMergePlan | null {
+  const fromGuest = findGuest(conn, party.id, from);
+  const intoGuest = findGuest(conn, party.id, into);
+
+  if (fromGuest && intoGuest && fromGuest.id === intoGuest.id) {
+    return null;
+  }
+
+  const fromOwner = fromGuest ?? from;
+  const intoOwner = intoGuest ?? into;
+  const fromKey = fromGuest?.normalizedName ?? normalizeGuestName(from);
+
+  const betIds = conn
+    .select({ id: bets.id })
+    .from(bets)
+    .where(eq(bets.partyId, party.id))
+    .all()
+    .map(b => b.id);
+
+  const inPartyBets = (column: typeof wagers.betId | typeof settlements.betId) =>
+    betIds.length === 0 ? sql`0` : inArray(column, betIds);
+
+  const fromWagers = conn
+    .select()
+    .from(wagers)
+    .where(and(inPartyBets(wagers.betId), belongsToGuest(wagers.guestId, wagers.userName, fromOwner)))
+    .all();
+
+  const fromBets = conn
+    .select()
+    .from(bets)
+    .where(and(eq(bets.partyId, party.id), belongsToGuest(bets.creatorGuestId, bets.createdBy, fromOwner)))
+    .all();
+
+  const fromSettlements = conn
+    .select()
+    .from(settlements)
+    .where(and(inPartyBets(settlements.betId), belongsToGuest(settlements.guestId, settlements.userName, fromOwner)))
+    .all();
+
+  const intoSettlements = conn
+    .select()
+    .from(settlements)
+    .where(and(inPartyBets(settlements.betId), belongsToGuest(settlements.guestId, settlements.userName, intoOwner)))
+    .all();
+
+  const fromRebuys = conn
+    .select()
+    .from(rebuys)
+    .where(and(eq(rebuys.partyId, party.id), belongsToGuest(rebuys.guestId, rebuys.userName, fromOwner)))
+    .all();
+
+  // Payments only carry names
+  const fromPayments = conn
+    .select()
+    .from(payments)
+    .where(and(
+      eq(payments.partyId, party.id),
+      or(
+        sql`lower(trim(${payments.fromUser})) = ${fromKey}`,
+        sql`lower(trim(${payments.toUser})) = ${fromKey}`,
+        sql`lower(trim(${payments.recordedBy})) = ${fromKey}`
+      )
+    ))
+    .all();
+
+  if (!fromGuest && fromWagers.length + fromBets.length + fromSettlements.length + fromRebuys.length + fromPayments.length === 0) {
+    return null;
+  }
+
+  const fromName = fromGuest?.name ?? cleanGuestName(from);
+  const intoName = intoGuest?.name ?? cleanGuestName(into);
+  const fromNet = fromSettlements.reduce((sum, s) => sum + s.netWinLoss, 0);
+  const intoNet = intoSettlements.reduce((sum, s) => sum + s.netWinLoss, 0);
+
+  return {
+    party,
+    fromGuest,
+    intoGuest,
+    fromName,
+    intoName,
+    wagers: fromWagers,
+    bets: fromBets,
+    settlements: fromSettlements,
+    intoSettlements,
+    rebuys: fromRebuys,
+    payments: fromPayments,
+    preview: {
+      partyId: party.id,
+      partyName: party.name,
+      wagers: fromWagers.length,
+      bets: fromBets.length,
+      settlements: fromSettlements.length,
+      rebuys: fromRebuys.length,
+      payments: fromPayments.length,
+      balances: [
+        { userName: fromName, before: toDollars(fromNet), after: 0 },
+        { userName: intoName, before: toDollars(intoNet), after: toDollars(fromNet + intoNet) }
+      ]
+    }
+  };
+}
+
+/**
+ * Re-attribute everything in a plan to the target guest, returning the previous values
+ */
+function applyPartyMerge(tx: Conn, plan: GuestMergePlan): GuestMergePartyChanges {
+  const partyId = plan.party.id;
+  const fromKey = plan.fromGuest?.normalizedName ?? normalizeGuestName(plan.fromName);
+
+  // The target joins this party's roster if they weren't on it yet
+  const intoGuest = plan.intoGuest ?? tx
+    .insert(guests)
+    .values({
+      partyId,
+      name: plan.intoName,
+      normalizedName: normalizeGuestName(plan.intoName),
+      createdAt: new Date().toISOString()
+    })
+    .returning()
+    .get();
+
+  const attribution = { userName: intoGuest.name, guestId: intoGuest.id };
+
+  if (plan.wagers.length > 0) {
+    tx.update(wagers).set(attribution).where(inArray(wagers.id, plan.wagers.map(w => w.id))).run();
+  }
+
+  if (plan.bets.length > 0) {
+    tx.update(bets)
+      .set({ createdBy: intoGuest.name, creatorGuestId: intoGuest.id, updatedAt: new Date().toISOString() })
+      .where(inArray(bets.id, plan.bets.map(b => b.id)))
+      .run();
+  }
+
+  // One settlement per bet: a settlement on a bet the target already has one on is folded into
+  // the target's row (old spellings of the name can also leave several on one bet)
+  const targetByBet = new Map(plan.intoSettlements.map(s => [s.betId, s.id]));
+  const moved: Settlement[] = [];
+  const combined: GuestMergePartyChanges['combinedSettlements'] = [];
+
+  for (const settlement of plan.settlements) {
+    const intoSettlementId = targetByBet.get(settlement.betId);
+
+    if (intoSettlementId === undefined) {
+      tx.update(settlements).set(attribution).where(eq(settlements.id, settlement.id)).run();
+      targetByBet.set(settlement.betId, settlement.id);
+      moved.push(settlement);
+      continue;
+    }
+
+    tx.update(settlements)
+      .set({
+        totalWagered: sql`${settlements.totalWagered} + ${settlement.totalWagered}`,
+        payout: sql`${settlements.payout} + ${settlement.payout}`,
+        netWinLoss: sql`${settlements.netWinLoss} + ${settlement.netWinLoss}`
+      })
+      .where(eq(settlements.id, intoSettlementId))
+      .run();
+    tx.delete(settlements).where(eq(settlements.id, settlement.id)).run();
+    combined.push({ settlement, intoSettlementId });
+  }
+
+  if (plan.rebuys.length > 0) {
+    tx.update(rebuys).set(attribution).where(inArray(rebuys.id, plan.rebuys.map(r => r.id))).run();
+  }
+
+  const rename = (name: string | null) =>
+    name !== null && normalizeGuestName(name) === fromKey ? intoGuest.name : name;
+
+  for (const payment of plan.payments) {
+    tx.update(payments)
+      .set({
+        fromUser: rename(payment.fromUser),
+        toUser: rename(payment.toUser),
+        recordedBy: rename(payment.recordedBy)!,
+        updatedAt: new Date().toISOString()
+      })
+      .where(eq(payments.id, payment.id))
+      .run();
+  }
+
+  // From now on the old name resolves to the target
+  if (plan.fromGuest) {
+    tx.update(guests).set({ mergedIntoGuestId: intoGuest.id }).where(eq(guests.id, plan.fromGuest.id)).run();
+  }
+
+  return {
+    partyId,
+    fromGuestId: plan.fromGuest?.id ?? null,
+    intoGuestId: intoGuest.id,
+    createdIntoGuest: !plan.intoGuest,
+    wagers: plan.wagers.map(({ id, userName, guestId }) => ({ id, userName, guestId })),
+    bets: plan.bets.map(({ id, createdBy, creatorGuestId }) => ({ id, createdBy, creatorGuestId })),
+    settlements: moved.map(({ id, userName, guestId }) => ({ id, userName, guestId })),
+    combinedSettlements: combined,
+    rebuys: plan.rebuys.map(({ id, userName, guestId }) => ({ id, userName, guestId })),
+    payments: plan.payments.map(({ id, fromUser, toUser, recordedBy }) => ({ id, fromUser, toUser, recordedBy }))
+  };
+}
+
+/**
+ * Run planned merges, recording the merge and an audit entry at every party it touched
+ */
+export function mergeGuests(
+  tx: Conn,
+  plans: GuestMergePlan[],
+  scope: { partyId: number | null; fromName: string; intoName: string }
+): GuestMerge {
+  const changes = plans.map(plan => applyPartyMerge(tx, plan));
+
+  const merge = tx.insert(guestMerges).values({
+    partyId: scope.partyId,
+    fromName: scope.fromName,
+    intoName: scope.intoName,
+    changes,
+    createdAt: new Date().toISOString()
+  }).returning().get();
+
+  for (const plan of plans) {
+    const { wagers: wagerCount, bets: betCount, settlements: settlementCount, balances } = plan.preview;
+
+    tx.insert(auditLog).values({
+      partyId: plan.party.id,
+      action: 'merge_guests',
+      actor: 'host',
+      details: JSON.stringify({
+        mergeId: merge.id,
+        from: scope.fromName,
+        into: scope.intoName,
+        wagers: wagerCount,
+        bets: betCount,
+        settlements: settlementCount,
+        balances
+      }),
+      createdAt: new Date().toISOString()
+    }).run();
+  }
+
+  return merge;
+}
+
+/**
+ * Whether anything still points at a guest
+ */
+function isGuestReferenced(tx: Conn, guestId: number): boolean {
+  return [
+    tx.select({ id: wagers.id }).from(wagers).where(eq(wagers.guestId, guestId)).get(),
+    tx.select({ id: bets.id }).from(bets).where(eq(bets.creatorGuestId, guestId)).get(),
+    tx.select({ id: settlements.id }).from(settlements).where(eq(settlements.guestId, guestId)).get(),
+    tx.select({ id: rebuys.id }).from(rebuys).where(eq(rebuys.guestId, guestId)).get(),
+    tx.select({ id: guests.id }).from(guests).where(eq(guests.mergedIntoGuestId, guestId)).get()
+  ].some(row => row !== undefined);
+}
+
+/**
+ * Put every row a merge touched back the way it was
+ * Merges are undone newest first, and not once a touched bet has been re-settled (its
+ * settlement rows were rewritten, so the recorded values no longer apply)
+ */
+export function undoGuestMerge(tx: Conn, merge: GuestMerge): { merge: GuestMerge } | { error: string; status: number } {
+  if (merge.undoneAt) {
+    return { error: 'This merge has already been undone', status: 400 };
+  }
+
+  const partyIds = merge.changes.map(c => c.partyId);
+  const laterMerge = tx
+    .select()
+    .from(guestMerges)
+    .where(and(
+      gt(guestMerges.id, merge.id),
+      isNull(guestMerges.undoneAt),
+      partyIds.length === 0 || merge.partyId === null
+        ? undefined
+        : or(isNull(guestMerges.partyId), inArray(guestMerges.partyId, partyIds))
+    ))
+    .get();
+
+  if (laterMerge) {
+    return { error: `Undo the later merge of ${laterMerge.fromName} into ${laterMerge.intoName} first`, status: 409 };
+  }
+
+  for (const changes of merge.changes) {
+    const keptIds = [
+      ...changes.settlements.map(s => s.id),
+      ...changes.combinedSettlements.map(s => s.intoSettlementId)
+    ];
+    const foldedIds = changes.combinedSettlements.map(s => s.settlement.id);
+
+    const kept = keptIds.length === 0 ? [] : tx.select({ id: settlements.id }).from(settlements).where(inArray(settlements.id, keptIds)).all();
+    const refolded = foldedIds.length === 0 ? [] : tx.select({ id: settlements.id }).from(settlements).where(inArray(settlements.id, foldedIds)).all();
+
+    if (kept.length !== new Set(keptIds).size || refolded.length > 0) {
+      return { error: 'Bets touched by this merge have been re-settled since, so it can no longer be undone', status: 409 };
+    }
+  }
+
+  for (const changes of merge.changes) {
+    for (const { id, userName, guestId } of changes.wagers) {
+      tx.update(wagers).set({ userName, guestId }).where(eq(wagers.id, id)).run();
+    }
+
+    for (const { id, createdBy, creatorGuestId } of changes.bets) {
+      tx.update(bets).set({ createdBy, creatorGuestId, updatedAt: new Date().toISOString() }).where(eq(bets.id, id)).run();
+    }
+
+    for (const { id, userName, guestId } of changes.settlements) {
+      tx.update(settlements).set({ userName, guestId }).where(eq(settlements.id, id)).run();
+    }
+
+    // Take folded settlements back out of the target's row
+    for (const { settlement, intoSettlementId } of changes.combinedSettlements) {
+      tx.update(settlements)
+        .set({
+          totalWagered: sql`${settlements.totalWagered} - ${settlement.totalWagered}`,
+          payout: sql`${settlements.payout} - ${settlement.payout}`,
+          netWinLoss: sql`${settlements.netWinLoss} - ${settlement.netWinLoss}`
+        })
+        .where(eq(settlements.id, intoSettlementId))
+        .run();
+      tx.insert(settlements).values(settlement).run();
+    }
+
+    for (const { id, userName, guestId } of changes.rebuys) {
+      tx.update(rebuys).set({ userName, guestId }).where(eq(rebuys.id, id)).run();
+    }
+
+    for (const { id, fromUser, toUser, recordedBy } of changes.payments) {
+      tx.update(payments).set({ fromUser, toUser, recordedBy, updatedAt: new Date().toISOString() }).where(eq(payments.id, id)).run();
+    }
+
+    if (changes.fromGuestId !== null) {
+      tx.update(guests).set({ mergedIntoGuestId: null }).where(eq(guests.id, changes.fromGuestId)).run();
+    }
+
+    // Take the target back off a roster they were only added to by the merge
+    if (changes.createdIntoGuest && !isGuestReferenced(tx, changes.intoGuestId)) {
+      tx.delete(guests).where(eq(guests.id, changes.intoGuestId)).run();
+    }
+
+    tx.insert(auditLog).values({
+      partyId: changes.partyId,
+      action: 'unmerge_guests',
+      actor: 'host',
+      details: JSON.stringify({ mergeId: merge.id, from: merge.fromName, into: merge.intoName }),
+      createdAt: new Date().toISOString()
+    }).run();
+  }
+
+  const undone = tx
+    .update(guestMerges)
+    .set({ undoneAt: new Date().toISOString() })
+    .where(eq(guestMerges.id, merge.id))
+    .returning()
+    .get();
+
+  return { merge: undone };
+}
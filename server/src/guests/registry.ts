@@ -0,0 +1,190 @@
+/**
+ * Guest registry for Place-A-Bet
+ *
+ * Every party keeps a roster of guests. Wagers, bets and settlements point at a guest, so
+ * "alice" and "Alice " are the same person no matter how they type their name. Guests who
+ * claimed their name with a PIN have to give it before anyone can bet under that name, and too
+ * many wrong PINs lock that guest's PIN for a while, the same as the host PIN.
+ *
+ * The helpers take the database or a transaction, so routes can resolve guests inside their
+ * own transactions.
+ */
+
+import { eq, and, or, isNull, inArray, sql, type SQL } from 'drizzle-orm';
+import type { AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
+import { db } from '../db/index.js';
+import { guests, type Guest } from '../db/schema.js';
+import { cleanGuestName, normalizeGuestName } from '../utils/guest-names.js';
+import { verifyPin } from '../utils/pin.js';
+import { LOCKOUT_MINUTES, clearFailedAttempts, isKeyLockedOut, recordFailedAttempt } from '../auth/attempts.js';
+
+type Conn = Pick<typeof db, 'select' | 'insert'>;
+
+export type GuestResolution =
+  | { guest: Guest }
+  | { error: string };
+
+export type GuestPinCheck =
+  | { ok: true }
+  | { ok: false; error: string; locked: boolean };
+
+/**
+ * A guest as sent to clients - the PIN hash never leaves the server
+ */
+export function toPublicGuest(guest: Guest) {
+  return {
+    id: guest.id,
+    partyId: guest.partyId,
+    name: guest.name,
+    hasPin: guest.pinHash !== null,
+    createdAt: guest.createdAt
+  };
+}
+
+/**
+ * Check a PIN against a guest's, counting wrong guesses toward a lockout on that guest
+ * Guests without a PIN pass with any PIN.
+ */
+export function checkGuestPin(guest: Guest, pin: string): GuestPinCheck {
+  if (!guest.pinHash) {
+    return { ok: true };
+  }
+
+  const key = `guest:${guest.id}`;
+
+  if (isKeyLockedOut(key)) {
+    return { ok: false, error: `Too many wrong PINs for ${guest.name}. Try again later.`, locked: true };
+  }
+
+  if (verifyPin(pin, guest.pinHash)) {
+    clearFailedAttempts(key);
+    return { ok: true };
+  }
+
+  if (recordFailedAttempt(key)) {
+    return {
+      ok: false,
+      error: `Too many wrong PINs for ${guest.name}. Their PIN is locked for ${LOCKOUT_MINUTES} minutes.`,
+      locked: true
+    };
+  }
+
+  return { ok: false, error: `Incorrect PIN for ${guest.name}`, locked: false };
+}
+
+/**
+ * Find a guest on a party's roster by name (ignoring case and spacing)
+ * A name the host merged into another guest resolves to the guest it was merged into
+ */
+export function findGuest(conn: Pick<typeof db, 'select'>, partyId: number, name: string): Guest | undefined {
+  let guest = conn
+    .select()
+    .from(guests)
+    .where(and(
+      eq(guests.partyId, partyId),
+      eq(guests.normalizedName, normalizeGuestName(name))
+    ))
+    .get();
+
+  // Follow merges to the guest the name ended up under (merges never form a cycle)
+  while (guest?.mergedIntoGuestId) {
+    guest = conn.select().from(guests).where(eq(guests.id, guest.mergedIntoGuestId)).get();
+  }
+
+  return guest;
+}
+
+/**
+ * Find a guest by name, adding them to the roster if this is the first time the name is used
+ */
+export function findOrCreateGuest(conn: Conn, partyId: number, name: string): Guest {
+  const existing = findGuest(conn, partyId, name);
+  if (existing) {
+    return existing;
+  }
+
+  // Another request may have added the same name in the meantime - the unique index keeps one
+  const created = conn
+    .insert(guests)
+    .values({
+      partyId,
+      name: cleanGuestName(name),
+      normalizedName: normalizeGuestName(name),
+      createdAt: new Date().toISOString()
+    })
+    .onConflictDoNothing()
+    .returning()
+    .get();
+
+  return created ?? findGuest(conn, partyId, name)!;
+}
+
+/**
+ * Resolve the guest someone is acting as, checking the guest's PIN if they claimed their name
+ */
+export function resolveGuest(conn: Conn, partyId: number, name: string, pin?: string): GuestResolution {
+  const guest = findOrCreateGuest(conn, partyId, name);
+
+  if (guest.pinHash) {
+    if (!pin) {
+      return { error: `${guest.name} is PIN-protected. Enter ${guest.name}'s PIN to continue.` };
+    }
+    const check = checkGuestPin(guest, pin);
+    if (!check.ok) {
+      return { error: check.error };
+    }
+  }
+
+  return { guest };
+}
+
+/**
+ * Put each wager under the guest who placed it, so a guest's wagers are grouped together
+ * Wagers placed before the roster existed carry no guest ID and are matched by name; names that
+ * aren't on the roster at all are still grouped ignoring case and spacing
+ */
+export function resolveWagerGuests<T extends { userName: string; guestId: number | null }>(
+  conn: Pick<typeof db, 'select'>,
+  partyId: number,
+  betWagers: T[]
+): T[] {
+  const guestIds = [...new Set(betWagers.map(w => w.guestId).filter((id): id is number => id !== null))];
+  const byId = new Map(
+    (guestIds.length === 0 ? [] : conn.select().from(guests).where(inArray(guests.id, guestIds)).all())
+      .map(guest => [guest.id, guest])
+  );
+
+  // First spelling of each unknown name wins
+  const unknownNames = new Map<string, string>();
+
+  return betWagers.map(wager => {
+    const guest = wager.guestId !== null
+      ? byId.get(wager.guestId)
+      : findGuest(conn, partyId, wager.userName);
+
+    if (guest) {
+      return { ...wager, userName: guest.name, guestId: guest.id };
+    }
+
+    const key = normalizeGuestName(wager.userName);
+    if (!unknownNames.has(key)) {
+      unknownNames.set(key, cleanGuestName(wager.userName));
+    }
+    return { ...wager, userName: unknownNames.get(key)!, guestId: null };
+  });
+}
+
+/**
+ * Condition matching the rows that belong to a guest: rows linked to the guest, plus rows
+ * from before the roster (no guest ID) whose name matches
+ * Pass a plain name for someone who isn't on the roster yet
+ */
+export function belongsToGuest(guestIdColumn: AnySQLiteColumn, userNameColumn: AnySQLiteColumn, guest: Guest | string): SQL {
+  const nameMatches = sql`lower(trim(${userNameColumn})) = ${typeof guest === 'string' ? normalizeGuestName(guest) : guest.normalizedName}`;
+
+  if (typeof guest === 'string') {
+    return nameMatches;
+  }
+
+  return or(eq(guestIdColumn, guest.id), and(isNull(guestIdColumn), nameMatches))!;
+}
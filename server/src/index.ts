@@ -4,6 +4,7 @@ import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import { createServer } from 'http';
 import { initializeSocketIO } from './websocket/events.js';
+import { startAutoCloseScheduler } from './scheduler/auto-close.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -47,8 +48,18 @@ app.get('/health', (_req, res) => {
 import partiesRouter from './routes/parties.js';
 import betsRouter from './routes/bets.js';
 import wagersRouter from './routes/wagers.js';
+import paymentsRouter from './routes/payments.js';
+import guestsRouter from './routes/guests.js';
+import mergesRouter from './routes/merges.js';
+import hostRouter from './routes/host.js';
+import coHostsRouter from './routes/co-hosts.js';
 
 app.use('/api/parties', partiesRouter);
+app.use('/api/parties', paymentsRouter); // Mounts /api/parties/:id/payments
+app.use('/api/parties', guestsRouter); // Mounts /api/parties/:id/guests
+app.use('/api/parties', coHostsRouter); // Mounts /api/parties/:id/co-hosts
+app.use('/api/guest-merges', mergesRouter);
+app.use('/api/host', hostRouter);
 app.use('/api/bets', betsRouter);
 app.use('/api/bets', wagersRouter); // Mounts /api/bets/:id/wagers
 app.use('/api', wagersRouter); // Mounts /api/users/:userName/wagers
@@ -86,6 +97,7 @@ if (process.env.NODE_ENV !== 'test') {
   httpServer.listen(PORT, () => {
     console.log(`🎲 Place-A-Bet server running on http://localhost:${PORT}`);
     console.log(`🔌 WebSocket server ready`);
+    startAutoCloseScheduler(io);
   });
 }
 
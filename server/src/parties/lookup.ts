@@ -0,0 +1,27 @@
+/**
+ * Party lookup for Place-A-Bet
+ *
+ * Several parties can be active at once, so the bets and wagers API always names the party
+ * it means - by ID, or by the join code guests type or scan.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { parties, type Party } from '../db/schema.js';
+
+// A party as named in a request - exactly one of the two is set (the schemas check that)
+export interface PartyRef {
+  partyId?: number;
+  joinCode?: string; // Already normalized by the schema
+}
+
+/**
+ * Find the party a request names by ID or join code
+ */
+export function findParty(conn: Pick<typeof db, 'select'>, ref: PartyRef): Party | undefined {
+  return conn
+    .select()
+    .from(parties)
+    .where(ref.partyId !== undefined ? eq(parties.id, ref.partyId) : eq(parties.joinCode, ref.joinCode ?? ''))
+    .get();
+}
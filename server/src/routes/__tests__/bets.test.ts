@@ -2,9 +2,10 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import request from 'supertest';
 import { app } from '../../index';
 import { db } from '../../db/index';
-import { parties, bets, betOptions, wagers, settlements } from '../../db/schema';
+import { parties, bets, betOptions, wagers, settlements, auditLog, archivedSettlements, guests } from '../../db/schema';
 import { eq } from 'drizzle-orm';
 import { initTestDb } from '../../__tests__/test-utils';
+import { hashPin } from '../../utils/pin';
 
 // Set test environment variables
 process.env.HOST_PIN = '1234';
@@ -18,10 +19,13 @@ describe('Bets API', () => {
 
   beforeEach(async () => {
     // Clean up tables in correct order (child tables first)
+    await db.delete(archivedSettlements);
+    await db.delete(auditLog);
     await db.delete(settlements);
     await db.delete(wagers);
     await db.delete(betOptions);
     await db.delete(bets);
+    await db.delete(guests);
     await db.delete(parties);
 
     // Create active party for tests
@@ -37,6 +41,7 @@ describe('Bets API', () => {
   describe('POST /api/bets', () => {
     it('should create a yes/no bet with valid data', async () => {
       const newBet = {
+        partyId: activeParty.id,
         type: 'yes_no',
         question: 'Will there be overtime?',
         createdBy: 'Alice',
@@ -55,10 +60,50 @@ describe('Bets API', () => {
       expect(response.body.status).toBe('open');
       expect(response.body.options).toHaveLength(2);
       expect(response.body.totalPool).toBe(0);
+      expect(response.body.participantCount).toBe(0);
+      expect(response.body.optionStats.map((o: { poolShare: number }) => o.poolShare)).toEqual([0, 0]);
+    });
+
+    it('should put the bet under the creator on the roster', async () => {
+      const [alice] = await db.insert(guests).values({
+        partyId: activeParty.id,
+        name: 'Alice',
+        normalizedName: 'alice',
+        createdAt: new Date().toISOString()
+      }).returning();
+
+      const response = await request(app)
+        .post('/api/bets')
+        .send({ partyId: activeParty.id, type: 'yes_no', question: 'Overtime?', createdBy: ' alice', options: ['Yes', 'No'] })
+        .expect(201);
+
+      expect(response.body.createdBy).toBe('Alice');
+      expect(response.body.creatorGuestId).toBe(alice.id);
+    });
+
+    it('should need the PIN to create a bet under a claimed name', async () => {
+      await db.insert(guests).values({
+        partyId: activeParty.id,
+        name: 'Alice',
+        normalizedName: 'alice',
+        pinHash: hashPin('1111'),
+        createdAt: new Date().toISOString()
+      });
+
+      await request(app)
+        .post('/api/bets')
+        .send({ partyId: activeParty.id, type: 'yes_no', question: 'Overtime?', createdBy: 'Alice', options: ['Yes', 'No'] })
+        .expect(401);
+
+      await request(app)
+        .post('/api/bets')
+        .send({ partyId: activeParty.id, type: 'yes_no', question: 'Overtime?', createdBy: 'Alice', guestPin: '1111', options: ['Yes', 'No'] })
+        .expect(201);
     });
 
     it('should create a multi-option bet', async () => {
       const newBet = {
+        partyId: activeParty.id,
         type: 'multi_option',
         question: 'Which team wins?',
         createdBy: 'Bob',
@@ -74,13 +119,13 @@ describe('Bets API', () => {
       expect(response.body.options).toHaveLength(3);
     });
 
-    it('should reject bet without active party', async () => {
-      // Archive the active party
+    it('should reject a bet at an archived party', async () => {
       await db.update(parties)
         .set({ status: 'archived', updatedAt: new Date().toISOString() })
         .where(eq(parties.id, activeParty.id));
 
       const newBet = {
+        partyId: activeParty.id,
         type: 'yes_no',
         question: 'Test?',
         createdBy: 'Alice',
@@ -92,11 +137,145 @@ describe('Bets API', () => {
         .send(newBet)
         .expect(400);
 
-      expect(response.body.error).toContain('No active party');
+      expect(response.body.error).toBe('Bets can only be created at an active party');
+    });
+
+    it('should require a party ID or join code', async () => {
+      const response = await request(app)
+        .post('/api/bets')
+        .send({ type: 'yes_no', question: 'Test?', createdBy: 'Alice', options: ['Yes', 'No'] })
+        .expect(400);
+
+      expect(response.body.details).toContain('partyId: Party ID is required (or a join code instead)');
+    });
+
+    it('should create a bet at the party a join code names', async () => {
+      await db.update(parties).set({ joinCode: 'K7P2QX' }).where(eq(parties.id, activeParty.id));
+
+      const response = await request(app)
+        .post('/api/bets')
+        .send({ joinCode: 'k7p-2qx', type: 'yes_no', question: 'Test?', createdBy: 'Alice', options: ['Yes', 'No'] })
+        .expect(201);
+
+      expect(response.body.partyId).toBe(activeParty.id);
+    });
+
+    it('should return 404 for an unknown party', async () => {
+      await request(app)
+        .post('/api/bets')
+        .send({ partyId: activeParty.id + 1, type: 'yes_no', question: 'Test?', createdBy: 'Alice', options: ['Yes', 'No'] })
+        .expect(404);
+    });
+
+    it('should create the bet at the party it names when several are active', async () => {
+      const [officePool] = await db.insert(parties).values({
+        name: 'Office Pool',
+        date: '2026-01-01T00:00:00Z',
+        status: 'active'
+      }).returning();
+
+      const response = await request(app)
+        .post('/api/bets')
+        .send({ partyId: officePool.id, type: 'yes_no', question: 'Test?', createdBy: 'Alice', options: ['Yes', 'No'] })
+        .expect(201);
+
+      expect(response.body.partyId).toBe(officePool.id);
+    });
+
+    it('should create a fixed-odds bet with odds and maximum exposure', async () => {
+      const response = await request(app)
+        .post('/api/bets')
+        .send({
+          partyId: activeParty.id,
+          type: 'fixed_odds',
+          question: 'Who wins?',
+          createdBy: 'Alice',
+          options: ['Chiefs', 'Eagles'],
+          odds: [{ numerator: 3, denominator: 1 }, { numerator: 1, denominator: 2 }],
+          maxExposure: 100
+        })
+        .expect(201);
+
+      expect(response.body.type).toBe('fixed_odds');
+      expect(response.body.maxExposure).toBe(100);
+      expect(response.body.options[0]).toMatchObject({ label: 'Chiefs', oddsNumerator: 3, oddsDenominator: 1 });
+      expect(response.body.options[1]).toMatchObject({ label: 'Eagles', oddsNumerator: 1, oddsDenominator: 2 });
+
+      // Stored in cents
+      const [stored] = await db.select().from(bets).where(eq(bets.id, response.body.id));
+      expect(stored.maxExposure).toBe(10000);
+    });
+
+    it('should create an over/under bet with Over and Under options', async () => {
+      const response = await request(app)
+        .post('/api/bets')
+        .send({
+          partyId: activeParty.id,
+          type: 'over_under',
+          question: 'Total points?',
+          createdBy: 'Alice',
+          options: ['More', 'Less'],
+          line: 47.5
+        })
+        .expect(201);
+
+      expect(response.body.type).toBe('over_under');
+      expect(response.body.line).toBe(47.5);
+      expect(response.body.options.map((o: any) => o.label)).toEqual(['Over', 'Under']);
+    });
+
+    it('should create an over/under bet without options', async () => {
+      const response = await request(app)
+        .post('/api/bets')
+        .send({
+          partyId: activeParty.id,
+          type: 'over_under',
+          question: 'Total points?',
+          createdBy: 'Alice',
+          line: 47.5
+        })
+        .expect(201);
+
+      expect(response.body.options.map((o: { label: string }) => o.label)).toEqual(['Over', 'Under']);
+    });
+
+    it('should store the lock time on a bet', async () => {
+      const closesAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+      const response = await request(app)
+        .post('/api/bets')
+        .send({
+          partyId: activeParty.id,
+          type: 'yes_no',
+          question: 'Will the coin toss be heads?',
+          createdBy: 'Alice',
+          options: ['Yes', 'No'],
+          closesAt
+        })
+        .expect(201);
+
+      expect(response.body.closesAt).toBe(closesAt);
+    });
+
+    it('should create a closest-guess bet without options', async () => {
+      const response = await request(app)
+        .post('/api/bets')
+        .send({
+          partyId: activeParty.id,
+          type: 'closest_guess',
+          question: 'How long will the anthem be (seconds)?',
+          createdBy: 'Alice'
+        })
+        .expect(201);
+
+      expect(response.body.type).toBe('closest_guess');
+      expect(response.body.guessRule).toBe('closest');
+      expect(response.body.options).toEqual([]);
     });
 
     it('should reject invalid bet type', async () => {
       const invalidBet = {
+        partyId: activeParty.id,
         type: 'invalid_type',
         question: 'Test?',
         createdBy: 'Alice',
@@ -111,6 +290,7 @@ describe('Bets API', () => {
 
     it('should reject bet with less than 2 options', async () => {
       const invalidBet = {
+        partyId: activeParty.id,
         type: 'yes_no',
         question: 'Test?',
         createdBy: 'Alice',
@@ -125,6 +305,7 @@ describe('Bets API', () => {
 
     it('should reject bet with empty question', async () => {
       const invalidBet = {
+        partyId: activeParty.id,
         type: 'yes_no',
         question: '',
         createdBy: 'Alice',
@@ -139,15 +320,75 @@ describe('Bets API', () => {
   });
 
   describe('GET /api/bets', () => {
+    it('should list the bets of the party a join code names', async () => {
+      await db.update(parties).set({ joinCode: 'K7P2QX' }).where(eq(parties.id, activeParty.id));
+      await db.insert(bets).values({
+        partyId: activeParty.id,
+        type: 'yes_no',
+        question: 'Will it rain?',
+        createdBy: 'Alice',
+        status: 'open',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      });
+
+      const response = await request(app)
+        .get('/api/bets?joinCode=k7p2qx')
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].question).toBe('Will it rain?');
+
+      await request(app)
+        .get('/api/bets?joinCode=ZZZZZZ')
+        .expect(404);
+    });
+
     it('should return empty array when no bets exist', async () => {
       const response = await request(app)
-        .get('/api/bets')
+        .get(`/api/bets?partyId=${activeParty.id}`)
         .expect(200);
 
       expect(response.body).toEqual([]);
     });
 
-    it('should return all bets for active party', async () => {
+    it('should require a party ID or join code', async () => {
+      await request(app)
+        .get('/api/bets')
+        .expect(400);
+    });
+
+    it('should return 404 for an unknown party', async () => {
+      await request(app)
+        .get(`/api/bets?partyId=${activeParty.id + 1}`)
+        .expect(404);
+    });
+
+    it('should only return the requested party\'s bets', async () => {
+      const [officePool] = await db.insert(parties).values({
+        name: 'Office Pool',
+        date: '2026-01-01T00:00:00Z',
+        status: 'active'
+      }).returning();
+
+      for (const party of [activeParty, officePool]) {
+        await db.insert(bets).values({
+          partyId: party.id,
+          type: 'yes_no',
+          question: `${party.name}?`,
+          createdBy: 'Alice',
+          status: 'open'
+        });
+      }
+
+      const response = await request(app)
+        .get(`/api/bets?partyId=${officePool.id}`)
+        .expect(200);
+
+      expect(response.body.map((b: { question: string }) => b.question)).toEqual(['Office Pool?']);
+    });
+
+    it('should return all bets for the party', async () => {
       // Create bets
       const [bet1] = await db.insert(bets).values({
         partyId: activeParty.id,
@@ -165,12 +406,14 @@ describe('Bets API', () => {
       ]);
 
       const response = await request(app)
-        .get('/api/bets')
+        .get(`/api/bets?partyId=${activeParty.id}`)
         .expect(200);
 
       expect(response.body).toHaveLength(1);
       expect(response.body[0].question).toBe('Bet 1?');
       expect(response.body[0].options).toHaveLength(2);
+      expect(response.body[0].participantCount).toBe(0);
+      expect(response.body[0].optionStats).toHaveLength(2);
     });
 
     it('should filter bets by status', async () => {
@@ -208,7 +451,7 @@ describe('Bets API', () => {
 
       // Get only open bets
       const openResponse = await request(app)
-        .get('/api/bets?status=open')
+        .get(`/api/bets?partyId=${activeParty.id}&status=open`)
         .expect(200);
 
       expect(openResponse.body).toHaveLength(1);
@@ -216,7 +459,7 @@ describe('Bets API', () => {
 
       // Get only closed bets
       const closedResponse = await request(app)
-        .get('/api/bets?status=closed')
+        .get(`/api/bets?partyId=${activeParty.id}&status=closed`)
         .expect(200);
 
       expect(closedResponse.body).toHaveLength(1);
@@ -246,7 +489,7 @@ describe('Bets API', () => {
           betId: bet.id,
           optionId: option1.id,
           userName: 'Bob',
-          amount: 10,
+          amount: 1000,
           createdAt: new Date().toISOString()
         }
       ]);
@@ -259,6 +502,11 @@ describe('Bets API', () => {
       expect(response.body.options).toHaveLength(2);
       expect(response.body.wagers).toHaveLength(1);
       expect(response.body.totalPool).toBe(10);
+      expect(response.body.participantCount).toBe(1);
+      expect(response.body.optionStats).toEqual([
+        { optionId: option1.id, pool: 10, wagerCount: 1, bettorCount: 1, payoutMultiplier: 1, poolShare: 100 },
+        { optionId: option2.id, pool: 0, wagerCount: 0, bettorCount: 0, payoutMultiplier: null, poolShare: 0 }
+      ]);
     });
 
     it('should return 404 for non-existent bet', async () => {
@@ -295,6 +543,27 @@ describe('Bets API', () => {
       ]).returning();
     });
 
+    it('should need the PIN when the creator claimed their name', async () => {
+      const [alice] = await db.insert(guests).values({
+        partyId: activeParty.id,
+        name: 'Alice',
+        normalizedName: 'alice',
+        pinHash: hashPin('1111'),
+        createdAt: new Date().toISOString()
+      }).returning();
+      await db.update(bets).set({ creatorGuestId: alice.id }).where(eq(bets.id, testBet.id));
+
+      await request(app)
+        .post(`/api/bets/${testBet.id}/close`)
+        .send({ createdBy: 'alice' })
+        .expect(403);
+
+      await request(app)
+        .post(`/api/bets/${testBet.id}/close`)
+        .send({ createdBy: 'alice', guestPin: '1111' })
+        .expect(200);
+    });
+
     it('should close bet with valid host PIN', async () => {
       const response = await request(app)
         .post(`/api/bets/${testBet.id}/close`)
@@ -382,14 +651,14 @@ describe('Bets API', () => {
           betId: testBet.id,
           optionId: testOptions[0].id,
           userName: 'Bob',
-          amount: 10,
+          amount: 1000,
           createdAt: new Date().toISOString()
         },
         {
           betId: testBet.id,
           optionId: testOptions[1].id,
           userName: 'Carol',
-          amount: 20,
+          amount: 2000,
           createdAt: new Date().toISOString()
         }
       ]);
@@ -412,6 +681,26 @@ describe('Bets API', () => {
       expect(response.body.settlements[0]).toHaveProperty('netWinLoss');
     });
 
+    it('should group wagers placed under different spellings of a name', async () => {
+      await db.insert(wagers).values({
+        betId: testBet.id,
+        optionId: testOptions[0].id,
+        userName: 'bob ',
+        amount: 1000,
+        createdAt: new Date().toISOString()
+      });
+
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/settle`)
+        .send({ winningOptionId: testOptions[0].id, hostPin: '1234' })
+        .expect(200);
+
+      const bob = response.body.settlements.find((s: { userName: string }) => s.userName === 'Bob');
+      expect(response.body.settlements).toHaveLength(2);
+      expect(bob.totalWagered).toBe(20);
+      expect(bob.payout).toBe(40);
+    });
+
     it('should settle bet when user is creator', async () => {
       const response = await request(app)
         .post(`/api/bets/${testBet.id}/settle`)
@@ -479,6 +768,22 @@ describe('Bets API', () => {
       expect(response.body.error).toContain('must be closed');
     });
 
+    it('should not settle a voided bet', async () => {
+      await db.update(bets)
+        .set({ status: 'void', updatedAt: new Date().toISOString() })
+        .where(eq(bets.id, testBet.id));
+
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/settle`)
+        .send({
+          winningOptionId: testOptions[0].id,
+          hostPin: '1234'
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Cannot settle bet. Current status: void');
+    });
+
     it('should reject invalid winning option ID', async () => {
       const response = await request(app)
         .post(`/api/bets/${testBet.id}/settle`)
@@ -515,6 +820,159 @@ describe('Bets API', () => {
       expect(carolSettlement.netWinLoss).toBe(-20);
     });
 
+    it('should settle with several winning options split as a dead heat', async () => {
+      await db.insert(wagers).values({
+        betId: testBet.id,
+        optionId: testOptions[1].id,
+        userName: 'Dave',
+        amount: 1000,
+        createdAt: new Date().toISOString()
+      });
+
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/settle`)
+        .send({
+          winningOptionIds: [testOptions[0].id, testOptions[1].id],
+          splitMode: 'dead_heat',
+          hostPin: '1234'
+        })
+        .expect(200);
+
+      expect(response.body.winningOptionId).toBe(testOptions[0].id);
+      expect(response.body.winningOptionIds).toEqual([testOptions[0].id, testOptions[1].id]);
+      expect(response.body.splitMode).toBe('dead_heat');
+
+      // Pool of $40 split $20 per option: Bob alone on Yes, Carol and Dave share No 2:1
+      const payouts = Object.fromEntries(
+        response.body.settlements.map((s: any) => [s.userName, s.payout])
+      );
+      expect(payouts).toEqual({ Bob: 20, Carol: 13.33, Dave: 6.67 });
+    });
+
+    it('should store payouts as integer cents that add up to the pool', async () => {
+      await db.insert(wagers).values({
+        betId: testBet.id,
+        optionId: testOptions[0].id,
+        userName: 'Dave',
+        amount: 1000,
+        createdAt: new Date().toISOString()
+      });
+      await db.insert(wagers).values({
+        betId: testBet.id,
+        optionId: testOptions[0].id,
+        userName: 'Erin',
+        amount: 1000,
+        createdAt: new Date().toISOString()
+      });
+
+      // $50 pool split three ways between Bob, Dave and Erin
+      await request(app)
+        .post(`/api/bets/${testBet.id}/settle`)
+        .send({ winningOptionId: testOptions[0].id, hostPin: '1234' })
+        .expect(200);
+
+      const stored = await db.select().from(settlements).where(eq(settlements.betId, testBet.id));
+      const payouts = stored.map(s => s.payout).sort((a, b) => b - a);
+
+      expect(payouts).toEqual([1667, 1667, 1666, 0]);
+      expect(payouts.reduce((sum, p) => sum + p, 0)).toBe(5000);
+    });
+
+    it('should pay fixed-odds bets at the quoted odds with the creator as the bank', async () => {
+      await db.update(bets).set({ type: 'fixed_odds', maxExposure: 10000 }).where(eq(bets.id, testBet.id));
+      await db.update(betOptions).set({ oddsNumerator: 3, oddsDenominator: 1 }).where(eq(betOptions.id, testOptions[0].id));
+      await db.update(betOptions).set({ oddsNumerator: 1, oddsDenominator: 2 }).where(eq(betOptions.id, testOptions[1].id));
+
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/settle`)
+        .send({ winningOptionId: testOptions[0].id, hostPin: '1234' })
+        .expect(200);
+
+      // Bob's $10 at 3-to-1 returns $40; Alice (the bank) collected $30
+      expect(response.body.settlements).toEqual([
+        { userName: 'Bob', totalWagered: 10, payout: 40, netWinLoss: 30 },
+        { userName: 'Alice', totalWagered: 40, payout: 30, netWinLoss: -10 },
+        { userName: 'Carol', totalWagered: 20, payout: 0, netWinLoss: -20 }
+      ]);
+    });
+
+    describe('over/under bets', () => {
+      beforeEach(async () => {
+        // Bob took Over and Carol took Under on a line of 47
+        await db.update(bets).set({ type: 'over_under', line: 47 }).where(eq(bets.id, testBet.id));
+        await db.update(betOptions).set({ label: 'Over' }).where(eq(betOptions.id, testOptions[0].id));
+        await db.update(betOptions).set({ label: 'Under' }).where(eq(betOptions.id, testOptions[1].id));
+      });
+
+      it('should resolve the winning side from the final result', async () => {
+        const response = await request(app)
+          .post(`/api/bets/${testBet.id}/settle`)
+          .send({ result: 51, hostPin: '1234' })
+          .expect(200);
+
+        expect(response.body.result).toBe(51);
+        expect(response.body.winningOptionIds).toEqual([testOptions[0].id]);
+        expect(response.body.settlements.find((s: any) => s.userName === 'Bob').payout).toBe(30);
+      });
+
+      it('should refund everyone when the result lands on the line', async () => {
+        const response = await request(app)
+          .post(`/api/bets/${testBet.id}/settle`)
+          .send({ result: 47, hostPin: '1234' })
+          .expect(200);
+
+        expect(response.body.status).toBe('settled');
+        expect(response.body.winningOptionId).toBeNull();
+        expect(response.body.winningOptionIds).toEqual([]);
+        expect(response.body.settlements).toEqual([
+          { userName: 'Carol', totalWagered: 20, payout: 20, netWinLoss: 0 },
+          { userName: 'Bob', totalWagered: 10, payout: 10, netWinLoss: 0 }
+        ]);
+      });
+
+      it('should require a final result', async () => {
+        const response = await request(app)
+          .post(`/api/bets/${testBet.id}/settle`)
+          .send({ winningOptionId: testOptions[0].id, hostPin: '1234' })
+          .expect(400);
+
+        expect(response.body.error).toContain('final result');
+      });
+    });
+
+    it('should pay the closest guess on a closest-guess bet', async () => {
+      await db.delete(wagers).where(eq(wagers.betId, testBet.id));
+      await db.update(bets).set({ type: 'closest_guess', guessRule: 'not_over' }).where(eq(bets.id, testBet.id));
+      await db.insert(wagers).values([
+        { betId: testBet.id, userName: 'Bob', amount: 1000, guess: 118, createdAt: new Date().toISOString() },
+        { betId: testBet.id, userName: 'Carol', amount: 2000, guess: 121, createdAt: new Date().toISOString() }
+      ]);
+
+      // Carol is closer but went over
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/settle`)
+        .send({ result: 120, hostPin: '1234' })
+        .expect(200);
+
+      expect(response.body.result).toBe(120);
+      expect(response.body.settlements).toEqual([
+        { userName: 'Bob', totalWagered: 10, payout: 30, netWinLoss: 20 },
+        { userName: 'Carol', totalWagered: 20, payout: 0, netWinLoss: -20 }
+      ]);
+    });
+
+    it('should reject winning options that belong to another bet', async () => {
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/settle`)
+        .send({
+          winningOptionIds: [testOptions[0].id, 9999],
+          hostPin: '1234'
+        })
+        .expect(400);
+
+      expect(response.body.error).toContain('Invalid winning option');
+    });
+
     it('should return 404 for non-existent bet', async () => {
       await request(app)
         .post('/api/bets/9999/settle')
@@ -525,4 +983,384 @@ describe('Bets API', () => {
         .expect(404);
     });
   });
+
+  describe('POST /api/bets/:id/unsettle', () => {
+    let testBet: any;
+    let testOptions: any[];
+
+    beforeEach(async () => {
+      [testBet] = await db.insert(bets).values({
+        partyId: activeParty.id,
+        type: 'yes_no',
+        question: 'Test Bet?',
+        createdBy: 'Alice',
+        status: 'closed',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+
+      testOptions = await db.insert(betOptions).values([
+        { betId: testBet.id, label: 'Yes', createdAt: new Date().toISOString() },
+        { betId: testBet.id, label: 'No', createdAt: new Date().toISOString() }
+      ]).returning();
+
+      await db.insert(wagers).values([
+        { betId: testBet.id, optionId: testOptions[0].id, userName: 'Bob', amount: 1000, createdAt: new Date().toISOString() },
+        { betId: testBet.id, optionId: testOptions[1].id, userName: 'Carol', amount: 2000, createdAt: new Date().toISOString() }
+      ]);
+
+      // Settle with the wrong winner
+      await request(app)
+        .post(`/api/bets/${testBet.id}/settle`)
+        .send({ winningOptionId: testOptions[0].id, hostPin: '1234' })
+        .expect(200);
+    });
+
+    it('should revert bet to closed and archive settlements', async () => {
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/unsettle`)
+        .send({ hostPin: '1234', reason: 'Wrong winner picked' })
+        .expect(200);
+
+      expect(response.body.status).toBe('closed');
+      expect(response.body.winningOptionId).toBeNull();
+
+      const remaining = await db.select().from(settlements).where(eq(settlements.betId, testBet.id));
+      expect(remaining).toHaveLength(0);
+
+      const archived = await db.select().from(archivedSettlements).where(eq(archivedSettlements.betId, testBet.id));
+      expect(archived).toHaveLength(2);
+      expect(archived.find(a => a.userName === 'Bob')?.payout).toBe(3000); // Stored in cents
+    });
+
+    it('should keep each archived settlement\'s guest', async () => {
+      const [bob] = await db.insert(guests).values({
+        partyId: activeParty.id,
+        name: 'Bob',
+        normalizedName: 'bob',
+        createdAt: new Date().toISOString()
+      }).returning();
+      await db.update(settlements).set({ guestId: bob.id }).where(eq(settlements.userName, 'Bob'));
+
+      await request(app)
+        .post(`/api/bets/${testBet.id}/unsettle`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      const archived = await db.select().from(archivedSettlements).where(eq(archivedSettlements.betId, testBet.id));
+      expect(archived.find(a => a.userName === 'Bob')?.guestId).toBe(bob.id);
+      expect(archived.find(a => a.userName === 'Carol')?.guestId).toBeNull();
+    });
+
+    it('should allow re-settling with a different winner', async () => {
+      await request(app)
+        .post(`/api/bets/${testBet.id}/unsettle`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/settle`)
+        .send({ winningOptionId: testOptions[1].id, hostPin: '1234' })
+        .expect(200);
+
+      expect(response.body.winningOptionId).toBe(testOptions[1].id);
+
+      const carol = response.body.settlements.find((s: any) => s.userName === 'Carol');
+      expect(carol.payout).toBe(30);
+    });
+
+    it('should record every action in the bet history', async () => {
+      await request(app)
+        .post(`/api/bets/${testBet.id}/unsettle`)
+        .send({ hostPin: '1234', reason: 'Wrong winner picked' });
+
+      const response = await request(app)
+        .get(`/api/bets/${testBet.id}/history`)
+        .expect(200);
+
+      expect(response.body.entries.map((e: any) => e.action)).toEqual(['settle', 'unsettle']);
+
+      const unsettleEntry = response.body.entries[1];
+      expect(unsettleEntry.actor).toBe('host');
+      expect(unsettleEntry.details).toEqual({
+        previousWinningOptionIds: [testOptions[0].id],
+        archivedSettlements: 2,
+        reason: 'Wrong winner picked'
+      });
+      expect(unsettleEntry.archivedSettlements).toHaveLength(2);
+    });
+
+    it('should reject unsettle with incorrect PIN', async () => {
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/unsettle`)
+        .send({ hostPin: '9999' })
+        .expect(401);
+
+      expect(response.body.error).toBe('Invalid host PIN');
+    });
+
+    it('should reject unsettle without PIN', async () => {
+      await request(app)
+        .post(`/api/bets/${testBet.id}/unsettle`)
+        .send({})
+        .expect(401);
+    });
+
+    it('should not unsettle a bet that is not settled', async () => {
+      await request(app)
+        .post(`/api/bets/${testBet.id}/unsettle`)
+        .send({ hostPin: '1234' });
+
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/unsettle`)
+        .send({ hostPin: '1234' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Cannot unsettle bet');
+    });
+
+    it('should return 404 for non-existent bet', async () => {
+      await request(app)
+        .post('/api/bets/9999/unsettle')
+        .send({ hostPin: '1234' })
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/bets/:id/void', () => {
+    let testBet: any;
+    let testOptions: any[];
+
+    beforeEach(async () => {
+      [testBet] = await db.insert(bets).values({
+        partyId: activeParty.id,
+        type: 'yes_no',
+        question: 'Test Bet?',
+        createdBy: 'Alice',
+        status: 'open',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+
+      testOptions = await db.insert(betOptions).values([
+        { betId: testBet.id, label: 'Yes', createdAt: new Date().toISOString() },
+        { betId: testBet.id, label: 'No', createdAt: new Date().toISOString() }
+      ]).returning();
+
+      await db.insert(wagers).values([
+        { betId: testBet.id, optionId: testOptions[0].id, userName: 'Bob', amount: 1000, createdAt: new Date().toISOString() },
+        { betId: testBet.id, optionId: testOptions[1].id, userName: 'Carol', amount: 2000, createdAt: new Date().toISOString() },
+        { betId: testBet.id, optionId: testOptions[0].id, userName: 'Bob', amount: 500, createdAt: new Date().toISOString() }
+      ]);
+    });
+
+    it('should void bet and refund every wager with host PIN', async () => {
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/void`)
+        .send({ hostPin: '1234', reason: 'Game was cancelled' })
+        .expect(200);
+
+      expect(response.body.status).toBe('void');
+      expect(response.body.refunds).toEqual([
+        { userName: 'Carol', totalWagered: 20, payout: 20, netWinLoss: 0 },
+        { userName: 'Bob', totalWagered: 15, payout: 15, netWinLoss: 0 }
+      ]);
+
+      const refunds = await db.select().from(settlements).where(eq(settlements.betId, testBet.id));
+      expect(refunds).toHaveLength(2);
+      refunds.forEach(r => {
+        expect(r.payout).toBe(r.totalWagered);
+        expect(r.netWinLoss).toBe(0);
+      });
+    });
+
+    it('should void a closed bet when user is creator', async () => {
+      await db.update(bets).set({ status: 'closed' }).where(eq(bets.id, testBet.id));
+
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/void`)
+        .send({ createdBy: 'Alice' })
+        .expect(200);
+
+      expect(response.body.status).toBe('void');
+
+      const history = await request(app)
+        .get(`/api/bets/${testBet.id}/history`)
+        .expect(200);
+
+      expect(history.body.entries).toHaveLength(1);
+      expect(history.body.entries[0]).toMatchObject({
+        action: 'void',
+        actor: 'Alice',
+        details: { previousStatus: 'closed', refunds: 2, reason: null }
+      });
+    });
+
+    it('should reject void without PIN or creator', async () => {
+      await request(app)
+        .post(`/api/bets/${testBet.id}/void`)
+        .send({ createdBy: 'Bob' })
+        .expect(403);
+    });
+
+    it('should validate the creator name', async () => {
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/void`)
+        .send({ createdBy: 42 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation failed');
+    });
+
+    it('should not void a settled bet', async () => {
+      await db.update(bets).set({ status: 'settled' }).where(eq(bets.id, testBet.id));
+
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/void`)
+        .send({ hostPin: '1234' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Current status: settled');
+    });
+
+    it('should list voided bets under the void status filter', async () => {
+      await request(app)
+        .post(`/api/bets/${testBet.id}/void`)
+        .send({ hostPin: '1234' });
+
+      const response = await request(app)
+        .get(`/api/bets?partyId=${activeParty.id}&status=void`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].id).toBe(testBet.id);
+    });
+
+    it('should return 404 for non-existent bet', async () => {
+      await request(app)
+        .post('/api/bets/9999/void')
+        .send({ hostPin: '1234' })
+        .expect(404);
+    });
+  });
+
+  describe('blind bets', () => {
+    it('should only show the totals until betting closes', async () => {
+      const created = await request(app)
+        .post('/api/bets')
+        .send({
+          partyId: activeParty.id,
+          type: 'yes_no',
+          question: 'Will the underdog win?',
+          createdBy: 'Alice',
+          options: ['Yes', 'No'],
+          blind: true
+        })
+        .expect(201);
+
+      expect(created.body.blind).toBe(true);
+      expect(created.body.optionStats).toEqual([]);
+
+      const [yes, no] = created.body.options;
+      await db.insert(wagers).values([
+        { betId: created.body.id, optionId: yes.id, userName: 'Bob', amount: 1000, createdAt: new Date().toISOString() },
+        { betId: created.body.id, optionId: no.id, userName: 'Carol', amount: 3000, createdAt: new Date().toISOString() }
+      ]);
+
+      const list = await request(app)
+        .get(`/api/bets?partyId=${activeParty.id}`)
+        .expect(200);
+
+      expect(list.body[0]).toMatchObject({ wagers: [], optionStats: [], totalPool: 40, participantCount: 2 });
+      expect(list.body[0].options).toHaveLength(2);
+
+      const history = await request(app)
+        .get(`/api/bets/${created.body.id}/pool-history`)
+        .expect(200);
+
+      expect(history.body.points).toEqual([]);
+
+      await request(app)
+        .post(`/api/bets/${created.body.id}/close`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      const revealed = await request(app)
+        .get(`/api/bets/${created.body.id}`)
+        .expect(200);
+
+      expect(revealed.body.wagers.map((w: { userName: string }) => w.userName)).toEqual(['Bob', 'Carol']);
+      expect(revealed.body.optionStats.map((o: { pool: number }) => o.pool)).toEqual([10, 30]);
+    });
+
+    it('should create open bets that are not blind by default', async () => {
+      const response = await request(app)
+        .post('/api/bets')
+        .send({
+          partyId: activeParty.id,
+          type: 'yes_no',
+          question: 'Will it rain?',
+          createdBy: 'Alice',
+          options: ['Yes', 'No']
+        })
+        .expect(201);
+
+      expect(response.body.blind).toBe(false);
+      expect(response.body.optionStats).toHaveLength(2);
+    });
+  });
+
+  describe('GET /api/bets/:id/pool-history', () => {
+    it('should return the pool and multipliers after each wager, oldest first', async () => {
+      const [bet] = await db.insert(bets).values({
+        partyId: activeParty.id,
+        type: 'yes_no',
+        question: 'Will it rain?',
+        createdBy: 'Alice',
+        status: 'open',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+
+      const [yes, no] = await db.insert(betOptions).values([
+        { betId: bet.id, label: 'Yes', createdAt: new Date().toISOString() },
+        { betId: bet.id, label: 'No', createdAt: new Date().toISOString() }
+      ]).returning();
+
+      // Inserted out of order to check the history follows placement time
+      await db.insert(wagers).values([
+        { betId: bet.id, optionId: no.id, userName: 'Carol', amount: 3000, createdAt: '2026-01-01T20:10:00.000Z' },
+        { betId: bet.id, optionId: yes.id, userName: 'Bob', amount: 1000, createdAt: '2026-01-01T20:00:00.000Z' }
+      ]);
+
+      const response = await request(app)
+        .get(`/api/bets/${bet.id}/pool-history`)
+        .expect(200);
+
+      expect(response.body.betId).toBe(bet.id);
+      expect(response.body.points).toHaveLength(2);
+      expect(response.body.points[0]).toMatchObject({
+        at: '2026-01-01T20:00:00.000Z',
+        totalPool: 10,
+        options: [
+          { optionId: yes.id, pool: 10, payoutMultiplier: 1 },
+          { optionId: no.id, pool: 0, payoutMultiplier: null }
+        ]
+      });
+      expect(response.body.points[1]).toMatchObject({
+        at: '2026-01-01T20:10:00.000Z',
+        totalPool: 40,
+        options: [
+          { optionId: yes.id, pool: 10, payoutMultiplier: 4 },
+          { optionId: no.id, pool: 30, payoutMultiplier: 1.33 }
+        ]
+      });
+    });
+
+    it('should return 404 for non-existent bet', async () => {
+      await request(app)
+        .get('/api/bets/9999/pool-history')
+        .expect(404);
+    });
+  });
 });
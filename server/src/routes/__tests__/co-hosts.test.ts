@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from '../../index';
+import { db } from '../../db/index';
+import {
+  parties,
+  bets,
+  betOptions,
+  wagers,
+  settlements,
+  auditLog,
+  guests,
+  coHosts,
+  hostSessions,
+  type Party
+} from '../../db/schema';
+import { eq } from 'drizzle-orm';
+import { initTestDb } from '../../__tests__/test-utils';
+
+// Set test environment variables
+process.env.HOST_PIN = '1234';
+process.env.NODE_ENV = 'test';
+
+describe('Co-hosts API', () => {
+  // Initialize test database tables
+  initTestDb();
+
+  let party: Party;
+
+  beforeEach(async () => {
+    // Clean up tables in correct order (child tables first due to foreign keys)
+    await db.delete(auditLog);
+    await db.delete(settlements);
+    await db.delete(wagers);
+    await db.delete(betOptions);
+    await db.delete(bets);
+    await db.delete(guests);
+    await db.delete(hostSessions);
+    await db.delete(coHosts);
+    await db.delete(parties);
+
+    [party] = await db.insert(parties).values({
+      name: 'Game Night',
+      date: '2026-03-01T19:00:00Z',
+      status: 'active'
+    }).returning();
+  });
+
+  const mintCode = async (partyId = party.id, label = 'Sam') => {
+    const response = await request(app)
+      .post(`/api/parties/${partyId}/co-hosts`)
+      .send({ label, hostPin: '1234' })
+      .expect(201);
+
+    return response.body as { id: number; code: string };
+  };
+
+  const coHostSession = async (code: string) => {
+    const response = await request(app)
+      .post('/api/host/co-host-sessions')
+      .send({ code })
+      .expect(201);
+
+    return response.body.token as string;
+  };
+
+  // A yes/no bet with one wager on each side
+  const createBet = async (partyId = party.id) => {
+    const created = await request(app)
+      .post('/api/bets')
+      .send({ partyId, type: 'yes_no', question: 'Overtime?', createdBy: 'Alice', options: ['Yes', 'No'] })
+      .expect(201);
+
+    for (const [userName, option] of [['Bob', 0], ['Carol', 1]] as const) {
+      await request(app)
+        .post(`/api/bets/${created.body.id}/wagers`)
+        .send({ userName, optionId: created.body.options[option].id, amount: 10 })
+        .expect(201);
+    }
+
+    return created.body as { id: number; options: Array<{ id: number }> };
+  };
+
+  describe('POST /api/parties/:id/co-hosts', () => {
+    it('should mint a code shown only once', async () => {
+      const minted = await mintCode();
+
+      expect(minted.code).toMatch(/^[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+
+      const list = await request(app)
+        .get(`/api/parties/${party.id}/co-hosts`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      expect(list.body).toHaveLength(1);
+      expect(list.body[0]).toMatchObject({ id: minted.id, label: 'Sam', revokedAt: null });
+      expect(list.body[0].code).toBeUndefined();
+      expect(list.body[0].codeHash).toBeUndefined();
+    });
+
+    it('should require the host', async () => {
+      await request(app)
+        .post(`/api/parties/${party.id}/co-hosts`)
+        .send({ label: 'Sam' })
+        .expect(401);
+    });
+
+    it('should not let a co-host mint codes', async () => {
+      const token = await coHostSession((await mintCode()).code);
+
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/co-hosts`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ label: 'Dana' })
+        .expect(403);
+
+      expect(response.body.error).toBe('Only the host can do this');
+    });
+
+    it('should reject an archived party', async () => {
+      await db.update(parties).set({ status: 'archived' }).where(eq(parties.id, party.id));
+
+      await request(app)
+        .post(`/api/parties/${party.id}/co-hosts`)
+        .send({ label: 'Sam', hostPin: '1234' })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/host/co-host-sessions', () => {
+    it('should accept the code in any case, with or without the dash', async () => {
+      const { code } = await mintCode();
+
+      const response = await request(app)
+        .post('/api/host/co-host-sessions')
+        .send({ code: code.replace('-', '').toLowerCase() })
+        .expect(201);
+
+      expect(response.body.role).toBe('co_host');
+      expect(response.body.coHost).toMatchObject({ partyId: party.id, label: 'Sam' });
+    });
+
+    it('should reject an unknown code', async () => {
+      await request(app)
+        .post('/api/host/co-host-sessions')
+        .send({ code: 'AAAA-BBBB' })
+        .expect(401);
+    });
+  });
+
+  describe('co-host permissions', () => {
+    it('should let a co-host close and settle bets', async () => {
+      const token = await coHostSession((await mintCode()).code);
+      const bet = await createBet();
+
+      await request(app)
+        .post(`/api/bets/${bet.id}/close`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({})
+        .expect(200);
+
+      await request(app)
+        .post(`/api/bets/${bet.id}/settle`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ winningOptionIds: [bet.options[0].id] })
+        .expect(200);
+
+      const entries = await db.select().from(auditLog).where(eq(auditLog.betId, bet.id));
+      expect(entries.map(e => e.actor)).toEqual(['co-host Sam', 'co-host Sam']);
+    });
+
+    it('should not let a co-host void or unsettle bets', async () => {
+      const token = await coHostSession((await mintCode()).code);
+      const bet = await createBet();
+
+      await request(app)
+        .post(`/api/bets/${bet.id}/void`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({})
+        .expect(403);
+
+      await request(app).post(`/api/bets/${bet.id}/close`).send({ hostPin: '1234' }).expect(200);
+      await request(app)
+        .post(`/api/bets/${bet.id}/settle`)
+        .send({ winningOptionIds: [bet.options[0].id], hostPin: '1234' })
+        .expect(200);
+
+      await request(app)
+        .post(`/api/bets/${bet.id}/unsettle`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({})
+        .expect(403);
+    });
+
+    it('should not let a co-host archive or create parties', async () => {
+      const token = await coHostSession((await mintCode()).code);
+
+      await request(app)
+        .patch(`/api/parties/${party.id}/archive`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({})
+        .expect(403);
+
+      await request(app)
+        .post('/api/parties')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Takeover', date: '2026-03-02T19:00:00Z' })
+        .expect(403);
+    });
+
+    it('should only cover the party the code was minted for', async () => {
+      const { code } = await mintCode();
+      const token = await coHostSession(code);
+
+      const other = await request(app)
+        .post('/api/parties')
+        .send({ name: 'Office Pool', date: '2026-03-08T19:00:00Z', hostPin: '1234' })
+        .expect(201);
+
+      const bet = await createBet(other.body.id);
+
+      await request(app)
+        .post(`/api/bets/${bet.id}/close`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({})
+        .expect(403);
+    });
+  });
+
+  describe('DELETE /api/parties/:id/co-hosts/:coHostId', () => {
+    it('should revoke the code and end its sessions', async () => {
+      const { id, code } = await mintCode();
+      const token = await coHostSession(code);
+      const bet = await createBet();
+
+      const response = await request(app)
+        .delete(`/api/parties/${party.id}/co-hosts/${id}`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      expect(response.body.revokedAt).not.toBeNull();
+
+      await request(app)
+        .post(`/api/bets/${bet.id}/close`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({})
+        .expect(403);
+
+      await request(app)
+        .post('/api/host/co-host-sessions')
+        .send({ code })
+        .expect(401);
+    });
+
+    it('should reject revoking twice', async () => {
+      const { id } = await mintCode();
+
+      await request(app).delete(`/api/parties/${party.id}/co-hosts/${id}`).send({ hostPin: '1234' }).expect(200);
+      await request(app).delete(`/api/parties/${party.id}/co-hosts/${id}`).send({ hostPin: '1234' }).expect(400);
+    });
+
+    it('should return 404 for another party\'s co-host', async () => {
+      const { id } = await mintCode();
+
+      await request(app)
+        .delete(`/api/parties/${party.id + 1}/co-hosts/${id}`)
+        .send({ hostPin: '1234' })
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { app } from '../../index';
+import { db } from '../../db/index';
+import { parties, bets, betOptions, wagers, settlements, auditLog, archivedSettlements, guests } from '../../db/schema';
+import { eq } from 'drizzle-orm';
+import { initTestDb } from '../../__tests__/test-utils';
+
+// Set test environment variables
+process.env.HOST_PIN = '1234';
+process.env.NODE_ENV = 'test';
+
+const CONCURRENT_REQUESTS = 10;
+
+describe('Concurrent bet transitions', () => {
+  // Initialize test database tables
+  initTestDb();
+
+  let testBet: any;
+  let testOptions: any[];
+
+  beforeEach(async () => {
+    // Clean up tables in correct order (child tables first)
+    await db.delete(archivedSettlements);
+    await db.delete(auditLog);
+    await db.delete(settlements);
+    await db.delete(wagers);
+    await db.delete(betOptions);
+    await db.delete(bets);
+    await db.delete(guests);
+    await db.delete(parties);
+
+    const [party] = await db.insert(parties).values({
+      name: 'Test Party',
+      date: '2026-01-01T00:00:00Z',
+      status: 'active',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }).returning();
+
+    [testBet] = await db.insert(bets).values({
+      partyId: party.id,
+      type: 'yes_no',
+      question: 'Will it rain?',
+      createdBy: 'Alice',
+      status: 'open',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }).returning();
+
+    testOptions = await db.insert(betOptions).values([
+      { betId: testBet.id, label: 'Yes', createdAt: new Date().toISOString() },
+      { betId: testBet.id, label: 'No', createdAt: new Date().toISOString() }
+    ]).returning();
+
+    await db.insert(wagers).values([
+      { betId: testBet.id, optionId: testOptions[0].id, userName: 'Alice', amount: 1000, createdAt: new Date().toISOString() },
+      { betId: testBet.id, optionId: testOptions[1].id, userName: 'Bob', amount: 2000, createdAt: new Date().toISOString() },
+      { betId: testBet.id, optionId: testOptions[0].id, userName: 'Carol', amount: 3000, createdAt: new Date().toISOString() }
+    ]);
+  });
+
+  it('should settle exactly once when settle is hammered concurrently', async () => {
+    await db.update(bets).set({ status: 'closed' }).where(eq(bets.id, testBet.id));
+
+    const responses = await Promise.all(
+      Array.from({ length: CONCURRENT_REQUESTS }, () =>
+        request(app)
+          .post(`/api/bets/${testBet.id}/settle`)
+          .send({ winningOptionId: testOptions[0].id, hostPin: '1234' })
+      )
+    );
+
+    const succeeded = responses.filter(r => r.status === 200);
+    const rejected = responses.filter(r => r.status === 400 || r.status === 409);
+
+    expect(succeeded).toHaveLength(1);
+    expect(rejected).toHaveLength(CONCURRENT_REQUESTS - 1);
+
+    // One settlement row per user, never duplicated
+    const betSettlements = await db
+      .select()
+      .from(settlements)
+      .where(eq(settlements.betId, testBet.id));
+
+    expect(betSettlements).toHaveLength(3);
+  });
+
+  it('should close exactly once when close is hammered concurrently', async () => {
+    const responses = await Promise.all(
+      Array.from({ length: CONCURRENT_REQUESTS }, () =>
+        request(app)
+          .post(`/api/bets/${testBet.id}/close`)
+          .send({ hostPin: '1234' })
+      )
+    );
+
+    const succeeded = responses.filter(r => r.status === 200);
+
+    expect(succeeded).toHaveLength(1);
+    expect(responses.every(r => [200, 400, 409].includes(r.status))).toBe(true);
+  });
+
+  it('should never accept a wager after the bet closes', async () => {
+    const wagerRequests = Array.from({ length: CONCURRENT_REQUESTS }, (_, i) =>
+      request(app)
+        .post(`/api/bets/${testBet.id}/wagers`)
+        .send({ userName: `Guest${i}`, optionId: testOptions[i % 2].id, amount: 5 })
+    );
+    const closeRequest = request(app)
+      .post(`/api/bets/${testBet.id}/close`)
+      .send({ hostPin: '1234' });
+
+    const [closeResponse, ...wagerResponses] = await Promise.all([closeRequest, ...wagerRequests]);
+
+    expect(closeResponse.status).toBe(200);
+
+    // Every accepted wager is stored, every rejected one is not
+    const accepted = wagerResponses.filter(r => r.status === 201);
+    expect(wagerResponses.every(r => [201, 400, 409].includes(r.status))).toBe(true);
+
+    const storedWagers = await db
+      .select()
+      .from(wagers)
+      .where(eq(wagers.betId, testBet.id));
+
+    expect(storedWagers).toHaveLength(3 + accepted.length);
+
+    // Accepted wagers were all written before the bet was closed
+    const [closedBet] = await db.select().from(bets).where(eq(bets.id, testBet.id));
+    accepted.forEach(r => {
+      expect(r.body.createdAt <= closedBet.updatedAt).toBe(true);
+    });
+  });
+
+  it('should not cancel a wager once the bet is settled under it', async () => {
+    await db.update(bets).set({ status: 'closed' }).where(eq(bets.id, testBet.id));
+    const [carol] = await db.select().from(wagers).where(eq(wagers.userName, 'Carol'));
+
+    // The bet gets settled after the cancel route has checked it, just before the cancel commits
+    const transaction = db.transaction.bind(db);
+    const spy = vi.spyOn(db, 'transaction').mockImplementationOnce(((run: Parameters<typeof db.transaction>[0]) => {
+      db.update(bets).set({ status: 'settled' }).where(eq(bets.id, testBet.id)).run();
+      return transaction(run);
+    }) as typeof db.transaction);
+
+    const response = await request(app)
+      .delete(`/api/bets/${testBet.id}/wagers/${carol.id}`)
+      .send({ hostPin: '1234' })
+      .expect(409);
+    spy.mockRestore();
+
+    expect(response.body.error).toContain('another request');
+    const storedWagers = await db.select().from(wagers).where(eq(wagers.betId, testBet.id));
+    expect(storedWagers).toHaveLength(3);
+  });
+
+  it('should keep settlements matching the pool when a cancel races the settle', async () => {
+    await db.update(bets).set({ status: 'closed' }).where(eq(bets.id, testBet.id));
+    const [carol] = await db.select().from(wagers).where(eq(wagers.userName, 'Carol'));
+
+    await Promise.all([
+      request(app)
+        .post(`/api/bets/${testBet.id}/settle`)
+        .send({ winningOptionId: testOptions[0].id, hostPin: '1234' }),
+      request(app)
+        .delete(`/api/bets/${testBet.id}/wagers/${carol.id}`)
+        .send({ hostPin: '1234' })
+    ]);
+
+    const storedWagers = await db.select().from(wagers).where(eq(wagers.betId, testBet.id));
+    const betSettlements = await db.select().from(settlements).where(eq(settlements.betId, testBet.id));
+
+    expect(betSettlements.reduce((sum, s) => sum + s.totalWagered, 0))
+      .toBe(storedWagers.reduce((sum, w) => sum + w.amount, 0));
+  });
+
+  it('should reject duplicate settlement rows for the same user and bet', async () => {
+    await db.insert(settlements).values({
+      betId: testBet.id,
+      userName: 'Alice',
+      totalWagered: 1000,
+      payout: 0,
+      netWinLoss: -1000,
+      createdAt: new Date().toISOString()
+    });
+
+    await expect(
+      db.insert(settlements).values({
+        betId: testBet.id,
+        userName: 'Alice',
+        totalWagered: 1000,
+        payout: 0,
+        netWinLoss: -1000,
+        createdAt: new Date().toISOString()
+      })
+    ).rejects.toThrow(/UNIQUE/);
+  });
+});
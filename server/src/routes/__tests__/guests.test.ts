@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from '../../index';
+import { db } from '../../db/index';
+import { parties, guests, pinAttempts, type Party } from '../../db/schema';
+import { eq } from 'drizzle-orm';
+import { initTestDb } from '../../__tests__/test-utils';
+import { MAX_PIN_ATTEMPTS } from '../../auth/attempts';
+
+// Set test environment variables
+process.env.HOST_PIN = '1234';
+process.env.NODE_ENV = 'test';
+
+describe('Guests API', () => {
+  // Initialize test database tables
+  initTestDb();
+
+  let party: Party;
+
+  beforeEach(async () => {
+    // Clean up tables in correct order (child tables first due to foreign keys)
+    await db.delete(pinAttempts);
+    await db.delete(guests);
+    await db.delete(parties);
+
+    [party] = await db.insert(parties).values({
+      name: 'Test Party',
+      date: '2026-01-01T00:00:00Z',
+      status: 'active',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }).returning();
+  });
+
+  describe('POST /api/parties/:id/guests', () => {
+    it('should add a new guest to the roster', async () => {
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: '  Mary   Jane ' })
+        .expect(201);
+
+      expect(response.body.name).toBe('Mary Jane');
+      expect(response.body.hasPin).toBe(false);
+      expect(response.body).not.toHaveProperty('pinHash');
+    });
+
+    it('should return the existing guest for the same name in any case or spacing', async () => {
+      const first = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Alice' })
+        .expect(201);
+
+      const again = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'alice ' })
+        .expect(200);
+
+      expect(again.body.id).toBe(first.body.id);
+      expect(again.body.name).toBe('Alice');
+
+      const roster = await db.select().from(guests).where(eq(guests.partyId, party.id));
+      expect(roster).toHaveLength(1);
+    });
+
+    it('should claim the name with a PIN without storing the PIN', async () => {
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Alice', pin: '4321' })
+        .expect(201);
+
+      expect(response.body.hasPin).toBe(true);
+
+      const [guest] = await db.select().from(guests).where(eq(guests.id, response.body.id));
+      expect(guest.pinHash).not.toBeNull();
+      expect(guest.pinHash).not.toContain('4321');
+    });
+
+    it('should require the PIN to join under a claimed name', async () => {
+      await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Alice', pin: '4321' })
+        .expect(201);
+
+      const noPin = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'ALICE' })
+        .expect(401);
+      expect(noPin.body.error).toContain('PIN-protected');
+
+      const wrongPin = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Alice', pin: '0000' })
+        .expect(401);
+      expect(wrongPin.body.error).toContain('Incorrect PIN');
+
+      await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'alice', pin: '4321' })
+        .expect(200);
+    });
+
+    it('should lock a claimed name after too many wrong PINs', async () => {
+      await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Alice', pin: '4321' })
+        .expect(201);
+
+      for (let i = 0; i < MAX_PIN_ATTEMPTS - 1; i++) {
+        await request(app)
+          .post(`/api/parties/${party.id}/guests`)
+          .send({ name: 'Alice', pin: '0000' })
+          .expect(401);
+      }
+
+      const locking = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Alice', pin: '0000' })
+        .expect(401);
+      expect(locking.body.error).toContain('locked');
+
+      // Even the right PIN is refused while locked
+      const locked = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Alice', pin: '4321' })
+        .expect(401);
+      expect(locked.body.error).toContain('Too many wrong PINs for Alice');
+    });
+
+    it('should reject a blank name', async () => {
+      await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: '   ' })
+        .expect(400);
+    });
+
+    it('should reject joining an archived party', async () => {
+      await db.update(parties).set({ status: 'archived' }).where(eq(parties.id, party.id));
+
+      await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Alice' })
+        .expect(400);
+    });
+
+    it('should return 404 for a missing party', async () => {
+      await request(app)
+        .post('/api/parties/99999/guests')
+        .send({ name: 'Alice' })
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/parties/:id/guests', () => {
+    it('should list the roster in joining order without PIN hashes', async () => {
+      await request(app).post(`/api/parties/${party.id}/guests`).send({ name: 'Alice', pin: '4321' });
+      await request(app).post(`/api/parties/${party.id}/guests`).send({ name: 'Bob' });
+
+      const response = await request(app)
+        .get(`/api/parties/${party.id}/guests`)
+        .expect(200);
+
+      expect(response.body.map((g: { name: string; hasPin: boolean }) => [g.name, g.hasPin])).toEqual([
+        ['Alice', true],
+        ['Bob', false]
+      ]);
+      expect(response.body[0]).not.toHaveProperty('pinHash');
+    });
+  });
+
+  describe('POST /api/parties/:id/guests/:guestId/claim', () => {
+    it('should claim an unclaimed name', async () => {
+      const joined = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Bob' });
+
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/guests/${joined.body.id}/claim`)
+        .send({ pin: '1111' })
+        .expect(200);
+
+      expect(response.body.hasPin).toBe(true);
+    });
+
+    it('should not let anyone reclaim a claimed name', async () => {
+      const joined = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Bob', pin: '1111' });
+
+      await request(app)
+        .post(`/api/parties/${party.id}/guests/${joined.body.id}/claim`)
+        .send({ pin: '2222' })
+        .expect(409);
+    });
+
+    it('should reject a PIN that is not 4 digits', async () => {
+      const joined = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Bob' });
+
+      await request(app)
+        .post(`/api/parties/${party.id}/guests/${joined.body.id}/claim`)
+        .send({ pin: '12ab' })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/parties/:id/guests/:guestId/verify', () => {
+    it('should check the PIN', async () => {
+      const joined = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Bob', pin: '1111' });
+
+      const right = await request(app)
+        .post(`/api/parties/${party.id}/guests/${joined.body.id}/verify`)
+        .send({ pin: '1111' })
+        .expect(200);
+      expect(right.body.valid).toBe(true);
+
+      const wrong = await request(app)
+        .post(`/api/parties/${party.id}/guests/${joined.body.id}/verify`)
+        .send({ pin: '2222' })
+        .expect(200);
+      expect(wrong.body.valid).toBe(false);
+    });
+
+    it('should count wrong PINs toward the guest\'s lockout', async () => {
+      const joined = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Bob', pin: '1111' });
+
+      for (let i = 0; i < MAX_PIN_ATTEMPTS; i++) {
+        await request(app)
+          .post(`/api/parties/${party.id}/guests/${joined.body.id}/verify`)
+          .send({ pin: '2222' });
+      }
+
+      await request(app)
+        .post(`/api/parties/${party.id}/guests/${joined.body.id}/verify`)
+        .send({ pin: '1111' })
+        .expect(429);
+    });
+
+    it('should return 404 for a guest from another party', async () => {
+      const joined = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Bob' });
+
+      await request(app)
+        .post(`/api/parties/99999/guests/${joined.body.id}/verify`)
+        .send({ pin: '1111' })
+        .expect(404);
+    });
+  });
+});
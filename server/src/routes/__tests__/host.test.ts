@@ -0,0 +1,341 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from '../../index';
+import { db } from '../../db/index';
+import { parties, hostSettings, hostSessions, pinAttempts } from '../../db/schema';
+import { initTestDb } from '../../__tests__/test-utils';
+import { MAX_PIN_ATTEMPTS, resetHostPin } from '../../auth/host';
+
+// No HOST_PIN here - these tests start from a fresh install
+process.env.NODE_ENV = 'test';
+
+describe('Host API', () => {
+  // Initialize test database tables
+  initTestDb();
+
+  beforeEach(async () => {
+    delete process.env.HOST_PIN;
+
+    await db.delete(hostSessions);
+    await db.delete(hostSettings);
+    await db.delete(pinAttempts);
+    await db.delete(parties);
+  });
+
+  const newParty = { name: 'Game Night', date: '2026-03-01T19:00:00Z' };
+
+  const startSession = async (pin = '4321') => {
+    const response = await request(app)
+      .post('/api/host/sessions')
+      .send({ pin })
+      .expect(201);
+
+    return response.body.token as string;
+  };
+
+  const wrongPins = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      await request(app).post('/api/host/sessions').send({ pin: '0000' });
+    }
+  };
+
+  describe('GET /api/host/setup', () => {
+    it('should report a fresh install', async () => {
+      const response = await request(app)
+        .get('/api/host/setup')
+        .expect(200);
+
+      expect(response.body).toEqual({ pinConfigured: false, hasParties: false });
+    });
+
+    it('should report each setup step once done', async () => {
+      const { body } = await request(app).post('/api/host/setup').send({ pin: '4321' }).expect(201);
+
+      let response = await request(app).get('/api/host/setup').expect(200);
+      expect(response.body).toEqual({ pinConfigured: true, hasParties: false });
+
+      await request(app)
+        .post('/api/parties')
+        .set('Authorization', `Bearer ${body.token}`)
+        .send(newParty)
+        .expect(201);
+
+      response = await request(app).get('/api/host/setup').expect(200);
+      expect(response.body).toEqual({ pinConfigured: true, hasParties: true });
+    });
+  });
+
+  describe('POST /api/host/setup', () => {
+    it('should set the host PIN and start a session', async () => {
+      const response = await request(app)
+        .post('/api/host/setup')
+        .send({ pin: '4321' })
+        .expect(201);
+
+      expect(response.body.token).toMatch(/^[0-9a-f]{64}$/);
+      expect(new Date(response.body.expiresAt).getTime()).toBeGreaterThan(Date.now());
+
+      // Stored as a salted hash, never the PIN itself
+      const [settings] = await db.select().from(hostSettings);
+      expect(settings.pinHash).not.toContain('4321');
+      expect(settings.pinHash).toContain(':');
+    });
+
+    it('should refuse to run twice', async () => {
+      await request(app).post('/api/host/setup').send({ pin: '4321' }).expect(201);
+
+      const response = await request(app)
+        .post('/api/host/setup')
+        .send({ pin: '1111' })
+        .expect(409);
+
+      expect(response.body.error).toBe('Host PIN is already set up');
+    });
+
+    it('should reject a malformed PIN', async () => {
+      await request(app)
+        .post('/api/host/setup')
+        .send({ pin: '12a4' })
+        .expect(400);
+    });
+
+    it('should import a PIN from the HOST_PIN environment variable', async () => {
+      process.env.HOST_PIN = '4321';
+
+      await request(app).post('/api/host/setup').send({ pin: '1111' }).expect(409);
+      await startSession('4321');
+    });
+  });
+
+  describe('POST /api/host/sessions', () => {
+    beforeEach(async () => {
+      await request(app).post('/api/host/setup').send({ pin: '4321' }).expect(201);
+    });
+
+    it('should reject a wrong PIN', async () => {
+      const response = await request(app)
+        .post('/api/host/sessions')
+        .send({ pin: '0000' })
+        .expect(401);
+
+      expect(response.body.error).toBe('Invalid host PIN');
+    });
+
+    it('should lock PIN logins after too many wrong PINs', async () => {
+      await wrongPins(MAX_PIN_ATTEMPTS - 1);
+
+      const response = await request(app)
+        .post('/api/host/sessions')
+        .send({ pin: '0000' })
+        .expect(429);
+
+      expect(response.body.error).toContain('locked');
+
+      // Even the right PIN is refused while locked
+      await request(app)
+        .post('/api/host/sessions')
+        .send({ pin: '4321' })
+        .expect(429);
+    });
+
+    it('should let PIN logins in again once the lockout runs out', async () => {
+      await wrongPins(MAX_PIN_ATTEMPTS);
+
+      await db.update(hostSettings).set({ lockedUntil: new Date(Date.now() - 1000).toISOString() });
+
+      await startSession();
+    });
+
+    it('should reset the count after a correct PIN', async () => {
+      await wrongPins(MAX_PIN_ATTEMPTS - 1);
+      await startSession();
+
+      await request(app)
+        .post('/api/host/sessions')
+        .send({ pin: '0000' })
+        .expect(401);
+    });
+
+    it('should end a session', async () => {
+      const token = await startSession();
+
+      await request(app)
+        .delete('/api/host/sessions/current')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(204);
+
+      const response = await request(app)
+        .post('/api/parties')
+        .set('Authorization', `Bearer ${token}`)
+        .send(newParty)
+        .expect(401);
+
+      expect(response.body.error).toContain('session expired');
+    });
+  });
+
+  describe('resetHostPin', () => {
+    beforeEach(async () => {
+      await request(app).post('/api/host/setup').send({ pin: '4321' }).expect(201);
+    });
+
+    it('should change the PIN, lift a lockout and end every session', async () => {
+      const token = await startSession();
+      await wrongPins(MAX_PIN_ATTEMPTS);
+
+      resetHostPin('5678');
+
+      await request(app).post('/api/host/sessions').send({ pin: '4321' }).expect(401);
+      await startSession('5678');
+      await request(app)
+        .post('/api/parties')
+        .set('Authorization', `Bearer ${token}`)
+        .send(newParty)
+        .expect(401);
+    });
+
+    it('should clear the PIN so setup runs again', async () => {
+      resetHostPin(null);
+
+      const response = await request(app).get('/api/host/setup').expect(200);
+      expect(response.body.pinConfigured).toBe(false);
+
+      await request(app).post('/api/host/setup').send({ pin: '1111' }).expect(201);
+    });
+  });
+
+  it('should refuse host logins before setup', async () => {
+    const response = await request(app)
+      .post('/api/host/sessions')
+      .send({ pin: '4321' })
+      .expect(503);
+
+    expect(response.body.error).toBe('Host PIN not set up yet');
+  });
+
+  describe('POST /api/host/verify-pin', () => {
+    beforeEach(async () => {
+      await request(app).post('/api/host/setup').send({ pin: '4321' }).expect(201);
+    });
+
+    it('should report whether the PIN is right', async () => {
+      const right = await request(app).post('/api/host/verify-pin').send({ pin: '4321' }).expect(200);
+      const wrong = await request(app).post('/api/host/verify-pin').send({ pin: '0000' }).expect(200);
+
+      expect(right.body.valid).toBe(true);
+      expect(wrong.body.valid).toBe(false);
+    });
+
+    it('should count wrong PINs toward the lockout', async () => {
+      for (let i = 0; i < MAX_PIN_ATTEMPTS; i++) {
+        await request(app).post('/api/host/verify-pin').send({ pin: '0000' });
+      }
+
+      await request(app)
+        .post('/api/host/verify-pin')
+        .send({ pin: '4321' })
+        .expect(429);
+    });
+  });
+
+  describe('host-only routes', () => {
+    beforeEach(async () => {
+      await request(app).post('/api/host/setup').send({ pin: '4321' }).expect(201);
+    });
+
+    it('should accept a session token', async () => {
+      const token = await startSession();
+
+      const response = await request(app)
+        .post('/api/parties')
+        .set('Authorization', `Bearer ${token}`)
+        .send(newParty)
+        .expect(201);
+
+      expect(response.body.name).toBe('Game Night');
+    });
+
+    it('should accept the host PIN in the body', async () => {
+      await request(app)
+        .post('/api/parties')
+        .send({ ...newParty, hostPin: '4321' })
+        .expect(201);
+    });
+
+    it('should reject requests without a PIN or session', async () => {
+      const response = await request(app)
+        .post('/api/parties')
+        .send(newParty)
+        .expect(401);
+
+      expect(response.body.error).toBe('Host authentication required');
+    });
+
+    it('should reject an expired session', async () => {
+      const token = await startSession();
+      await db.update(hostSessions).set({ expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+      await request(app)
+        .post('/api/parties')
+        .set('Authorization', `Bearer ${token}`)
+        .send(newParty)
+        .expect(401);
+    });
+
+    it('should ignore a PIN in the query string', async () => {
+      const created = await request(app)
+        .post('/api/parties')
+        .send({ ...newParty, hostPin: '4321' })
+        .expect(201);
+
+      await request(app)
+        .patch(`/api/parties/${created.body.id}/archive?hostPin=4321`)
+        .send({})
+        .expect(401);
+    });
+
+    it('should not let wrong PINs sent with other requests lock host logins', async () => {
+      for (let i = 0; i < MAX_PIN_ATTEMPTS; i++) {
+        await request(app).post('/api/bets/999/close').send({ hostPin: '0000' });
+      }
+
+      await startSession();
+    });
+
+    it('should refuse host PINs from a client after too many wrong ones', async () => {
+      for (let i = 0; i < MAX_PIN_ATTEMPTS - 1; i++) {
+        await request(app).post('/api/parties').send({ ...newParty, hostPin: '0000' }).expect(401);
+      }
+
+      const response = await request(app)
+        .post('/api/parties')
+        .send({ ...newParty, hostPin: '0000' })
+        .expect(429);
+
+      expect(response.body.error).toContain('refused');
+
+      // Even the right PIN, though the host can still log in
+      await request(app)
+        .post('/api/parties')
+        .send({ ...newParty, hostPin: '4321' })
+        .expect(429);
+      await startSession();
+    });
+
+    it('should keep existing sessions working during a lockout', async () => {
+      const token = await startSession();
+      await wrongPins(MAX_PIN_ATTEMPTS);
+
+      await request(app)
+        .post('/api/parties')
+        .send({ ...newParty, hostPin: '4321' })
+        .expect(429);
+
+      await request(app)
+        .post('/api/parties')
+        .set('Authorization', `Bearer ${token}`)
+        .send(newParty)
+        .expect(201);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { app } from '../../index';
+import { db, sqlite } from '../../db/index';
+import { parties, bets, betOptions, wagers, settlements, auditLog, archivedSettlements, rebuys, guests } from '../../db/schema';
+import { initTestDb } from '../../__tests__/test-utils';
+
+// Set test environment variables
+process.env.HOST_PIN = '1234';
+process.env.NODE_ENV = 'test';
+
+const PARTY_COUNT = 3;
+const BETS_PER_PARTY = 100;
+const WAGERS_PER_BET = 5;
+
+// Generous enough for a Raspberry Pi under load - a per-bet query loop blows well past it
+const MAX_LISTING_MS = 1000;
+
+/**
+ * Count the SQL statements prepared while a request runs
+ */
+async function countQueries(run: () => Promise<unknown>): Promise<number> {
+  const prepare = vi.spyOn(sqlite, 'prepare');
+  await run();
+  const count = prepare.mock.calls.length;
+  prepare.mockRestore();
+  return count;
+}
+
+describe('Listing performance', () => {
+  // Initialize test database tables
+  initTestDb();
+
+  let partyIds: number[];
+  let smallPartyId: number;
+
+  beforeAll(async () => {
+    // Clean up tables in correct order (child tables first due to foreign keys)
+    await db.delete(archivedSettlements);
+    await db.delete(auditLog);
+    await db.delete(settlements);
+    await db.delete(wagers);
+    await db.delete(betOptions);
+    await db.delete(bets);
+    await db.delete(rebuys);
+    await db.delete(guests);
+    await db.delete(parties);
+
+    const now = new Date().toISOString();
+    partyIds = [];
+
+    for (let p = 0; p < PARTY_COUNT; p++) {
+      const [party] = await db.insert(parties).values({
+        name: `Party ${p + 1}`,
+        date: '2026-01-01T00:00:00Z',
+        status: 'active',
+        createdAt: now,
+        updatedAt: now
+      }).returning();
+      partyIds.push(party.id);
+
+      const partyBets = await db.insert(bets).values(
+        Array.from({ length: BETS_PER_PARTY }, (_, i) => ({
+          partyId: party.id,
+          type: 'yes_no' as const,
+          question: `Question ${i + 1}?`,
+          createdBy: 'Alice',
+          status: i % 2 === 0 ? 'open' as const : 'closed' as const,
+          createdAt: now,
+          updatedAt: now
+        }))
+      ).returning();
+
+      const options = await db.insert(betOptions).values(
+        partyBets.flatMap(bet => [
+          { betId: bet.id, label: 'Yes', createdAt: now },
+          { betId: bet.id, label: 'No', createdAt: now }
+        ])
+      ).returning();
+
+      await db.insert(wagers).values(
+        partyBets.flatMap((bet, b) =>
+          Array.from({ length: WAGERS_PER_BET }, (_, w) => ({
+            betId: bet.id,
+            optionId: options[b * 2 + (w % 2)].id,
+            userName: `Guest ${w + 1}`,
+            amount: 1000,
+            createdAt: now
+          }))
+        )
+      );
+    }
+
+    const [smallParty] = await db.insert(parties).values({
+      name: 'Small Party',
+      date: '2026-01-02T00:00:00Z',
+      status: 'active',
+      createdAt: now,
+      updatedAt: now
+    }).returning();
+    smallPartyId = smallParty.id;
+
+    const [smallBet] = await db.insert(bets).values({
+      partyId: smallParty.id,
+      type: 'yes_no',
+      question: 'Only question?',
+      createdBy: 'Alice',
+      status: 'open',
+      createdAt: now,
+      updatedAt: now
+    }).returning();
+
+    await db.insert(betOptions).values([
+      { betId: smallBet.id, label: 'Yes', createdAt: now },
+      { betId: smallBet.id, label: 'No', createdAt: now }
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /api/bets', () => {
+    it('should list a large party quickly with every option and wager attached', async () => {
+      const started = Date.now();
+      const response = await request(app)
+        .get(`/api/bets?partyId=${partyIds[0]}`)
+        .expect(200);
+      const elapsed = Date.now() - started;
+
+      expect(response.body).toHaveLength(BETS_PER_PARTY);
+      for (const bet of response.body) {
+        expect(bet.options).toHaveLength(2);
+        expect(bet.wagers).toHaveLength(WAGERS_PER_BET);
+        expect(bet.wagers.every((w: { betId: number }) => w.betId === bet.id)).toBe(true);
+        expect(bet.totalPool).toBe(WAGERS_PER_BET * 10);
+      }
+      expect(elapsed).toBeLessThan(MAX_LISTING_MS);
+    });
+
+    it('should filter by status in the query', async () => {
+      const response = await request(app)
+        .get(`/api/bets?partyId=${partyIds[1]}&status=closed`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(BETS_PER_PARTY / 2);
+      expect(response.body.every((bet: { status: string }) => bet.status === 'closed')).toBe(true);
+    });
+
+    it('should run the same number of queries however many bets a party has', async () => {
+      const small = await countQueries(() =>
+        request(app).get(`/api/bets?partyId=${smallPartyId}`).expect(200)
+      );
+      const large = await countQueries(() =>
+        request(app).get(`/api/bets?partyId=${partyIds[0]}`).expect(200)
+      );
+
+      expect(small).toBeGreaterThan(0);
+      expect(large).toBe(small);
+    });
+  });
+
+  describe('GET /api/parties', () => {
+    it('should list every party with its stats quickly', async () => {
+      const started = Date.now();
+      const response = await request(app)
+        .get('/api/parties')
+        .expect(200);
+      const elapsed = Date.now() - started;
+
+      expect(response.body).toHaveLength(PARTY_COUNT + 1);
+      for (const partyId of partyIds) {
+        const party = response.body.find((p: { id: number }) => p.id === partyId);
+        expect(party.betCount).toBe(BETS_PER_PARTY);
+        expect(party.totalWagered).toBe(BETS_PER_PARTY * WAGERS_PER_BET * 10);
+      }
+
+      const smallParty = response.body.find((p: { id: number }) => p.id === smallPartyId);
+      expect(smallParty.betCount).toBe(1);
+      expect(smallParty.totalWagered).toBe(0);
+      expect(elapsed).toBeLessThan(MAX_LISTING_MS);
+    });
+
+    it('should run a fixed number of queries however many parties there are', async () => {
+      const queries = await countQueries(() =>
+        request(app).get('/api/parties').expect(200)
+      );
+
+      expect(queries).toBeGreaterThan(0);
+      expect(queries).toBeLessThanOrEqual(2);
+    });
+  });
+
+  describe('Indexes', () => {
+    it.each([
+      ['SELECT * FROM bets WHERE party_id = 1', 'bets_party_id_idx'],
+      ['SELECT * FROM bet_options WHERE bet_id IN (1, 2)', 'bet_options_bet_id_idx'],
+      ['SELECT * FROM wagers WHERE bet_id IN (1, 2)', 'wagers_bet_id_idx'],
+      ['SELECT * FROM settlements WHERE bet_id IN (1, 2)', 'settlements_bet_id_user_name_unique']
+    ])('should look up %s by index', (query, indexName) => {
+      const plan = sqlite.prepare(`EXPLAIN QUERY PLAN ${query}`).all() as { detail: string }[];
+
+      expect(plan.map(step => step.detail).join('\n')).toContain(indexName);
+    });
+  });
+});
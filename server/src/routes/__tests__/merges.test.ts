@@ -0,0 +1,340 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from '../../index';
+import { db } from '../../db/index';
+import {
+  parties,
+  bets,
+  betOptions,
+  wagers,
+  settlements,
+  auditLog,
+  archivedSettlements,
+  payments,
+  guests,
+  guestMerges,
+  type Party
+} from '../../db/schema';
+import { eq } from 'drizzle-orm';
+import { initTestDb } from '../../__tests__/test-utils';
+
+// Set test environment variables
+process.env.HOST_PIN = '1234';
+process.env.NODE_ENV = 'test';
+
+describe('Guest Merges API', () => {
+  // Initialize test database tables
+  initTestDb();
+
+  let party: Party;
+
+  // Create a yes/no bet, place the given wagers, then close and settle it with "Yes" winning
+  const settledBet = async (stakes: Array<[string, number, 'Yes' | 'No']>, partyId = party.id) => {
+    const created = await request(app)
+      .post('/api/bets')
+      .send({ partyId, type: 'yes_no', question: 'Overtime?', createdBy: 'Host', options: ['Yes', 'No'] })
+      .expect(201);
+
+    const optionId = (label: string) => created.body.options.find((o: { label: string }) => o.label === label).id;
+
+    for (const [userName, amount, pick] of stakes) {
+      await request(app)
+        .post(`/api/bets/${created.body.id}/wagers`)
+        .send({ userName, optionId: optionId(pick), amount })
+        .expect(201);
+    }
+
+    await request(app)
+      .post(`/api/bets/${created.body.id}/close`)
+      .send({ hostPin: '1234' })
+      .expect(200);
+
+    await request(app)
+      .post(`/api/bets/${created.body.id}/settle`)
+      .send({ winningOptionIds: [optionId('Yes')], hostPin: '1234' })
+      .expect(200);
+
+    return created.body.id as number;
+  };
+
+  const summaryFor = async (partyId: number) => {
+    const response = await request(app)
+      .get(`/api/parties/${partyId}/settlement-summary`)
+      .expect(200);
+    return response.body.users as Array<{ userName: string; netAmount: number }>;
+  };
+
+  beforeEach(async () => {
+    // Clean up tables in correct order (child tables first due to foreign keys)
+    await db.delete(guestMerges);
+    await db.delete(payments);
+    await db.delete(archivedSettlements);
+    await db.delete(auditLog);
+    await db.delete(settlements);
+    await db.delete(wagers);
+    await db.delete(betOptions);
+    await db.delete(bets);
+    await db.delete(guests);
+    await db.delete(parties);
+
+    [party] = await db.insert(parties).values({
+      name: 'Test Party',
+      date: '2026-01-01T00:00:00Z',
+      status: 'active',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }).returning();
+  });
+
+  describe('POST /api/guest-merges', () => {
+    it('should preview the balance changes without merging on a dry run', async () => {
+      await settledBet([['Jon', 10, 'No'], ['Jonathan', 10, 'Yes'], ['Bob', 20, 'No']]);
+
+      const response = await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Jon', into: 'Jonathan', partyId: party.id, dryRun: true, hostPin: '1234' })
+        .expect(200);
+
+      expect(response.body.dryRun).toBe(true);
+      expect(response.body.parties).toHaveLength(1);
+      expect(response.body.parties[0]).toMatchObject({ partyId: party.id, wagers: 1, settlements: 1 });
+      expect(response.body.parties[0].balances).toEqual([
+        { userName: 'Jon', before: -10, after: 0 },
+        { userName: 'Jonathan', before: 30, after: 20 }
+      ]);
+
+      // Nothing changed
+      const jonWagers = await db.select().from(wagers).where(eq(wagers.userName, 'Jon'));
+      expect(jonWagers).toHaveLength(1);
+      expect(await db.select().from(guestMerges)).toHaveLength(0);
+    });
+
+    it('should move wagers and settlements to the target guest', async () => {
+      await settledBet([['Jon', 10, 'Yes'], ['Bob', 20, 'No']]);
+      await settledBet([['Jonathan', 5, 'No'], ['Bob', 5, 'Yes']]);
+
+      const response = await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'jon', into: 'Jonathan', partyId: party.id, hostPin: '1234' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ fromName: 'jon', intoName: 'Jonathan', partyIds: [party.id], undoneAt: null });
+
+      const users = await summaryFor(party.id);
+      expect(users.map(u => u.userName).sort()).toEqual(['Bob', 'Jonathan']);
+      expect(users.find(u => u.userName === 'Jonathan')!.netAmount).toBe(15);
+
+      const remaining = await db.select().from(wagers).where(eq(wagers.userName, 'Jon'));
+      expect(remaining).toHaveLength(0);
+    });
+
+    it('should fold settlements on the same bet into one row', async () => {
+      const betId = await settledBet([['Jon', 10, 'Yes'], ['Jonathan', 10, 'Yes'], ['Bob', 20, 'No']]);
+
+      await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Jon', into: 'Jonathan', partyId: party.id, hostPin: '1234' })
+        .expect(201);
+
+      const rows = await db.select().from(settlements).where(eq(settlements.betId, betId));
+      const jonathan = rows.find(s => s.userName === 'Jonathan')!;
+      expect(rows).toHaveLength(2);
+      expect(jonathan).toMatchObject({ totalWagered: 2000, payout: 4000, netWinLoss: 2000 });
+    });
+
+    it('should resolve the old name to the target from then on', async () => {
+      await settledBet([['Jon', 10, 'Yes'], ['Jonathan', 10, 'No']]);
+
+      await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Jon', into: 'Jonathan', partyId: party.id, hostPin: '1234' })
+        .expect(201);
+
+      const joined = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Jon' })
+        .expect(200);
+
+      expect(joined.body.name).toBe('Jonathan');
+
+      const roster = await request(app)
+        .get(`/api/parties/${party.id}/guests`)
+        .expect(200);
+
+      expect(roster.body.map((g: { name: string }) => g.name)).not.toContain('Jon');
+    });
+
+    it('should re-attribute payments by name', async () => {
+      await settledBet([['Jon', 10, 'No'], ['Alice', 10, 'Yes']]);
+      await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Jon', toUser: 'Alice', amount: 10, recordedBy: 'Jon' })
+        .expect(201);
+
+      await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Jon', into: 'Jonathan', partyId: party.id, hostPin: '1234' })
+        .expect(201);
+
+      const [payment] = await db.select().from(payments);
+      expect(payment).toMatchObject({ fromUser: 'Jonathan', toUser: 'Alice', recordedBy: 'Jonathan' });
+    });
+
+    it('should merge across every party when no party is given', async () => {
+      await settledBet([['Jon', 10, 'Yes'], ['Bob', 10, 'No']]);
+
+      const [second] = await db.insert(parties).values({
+        name: 'Second Party',
+        date: '2026-02-01T00:00:00Z',
+        status: 'active',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+      await settledBet([['Jon', 10, 'No'], ['Jonathan', 10, 'Yes']], second.id);
+
+      const response = await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Jon', into: 'Jonathan', hostPin: '1234' })
+        .expect(201);
+
+      expect(response.body.partyId).toBeNull();
+      expect(response.body.partyIds.sort()).toEqual([party.id, second.id].sort());
+
+      expect((await summaryFor(party.id)).map(u => u.userName).sort()).toEqual(['Bob', 'Jonathan']);
+      expect((await summaryFor(second.id)).map(u => u.userName)).toEqual(['Jonathan']);
+
+      // Jonathan joined the first party's roster through the merge
+      const [added] = await db.select().from(guests).where(eq(guests.normalizedName, 'jonathan')).limit(1);
+      expect(added).toBeDefined();
+    });
+
+    it('should write an audit entry for the merge', async () => {
+      await settledBet([['Jon', 10, 'Yes'], ['Jonathan', 10, 'No']]);
+
+      const response = await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Jon', into: 'Jonathan', partyId: party.id, hostPin: '1234' })
+        .expect(201);
+
+      const entries = await db.select().from(auditLog).where(eq(auditLog.action, 'merge_guests'));
+      expect(entries).toHaveLength(1);
+      expect(entries[0].actor).toBe('host');
+      expect(JSON.parse(entries[0].details!)).toMatchObject({ mergeId: response.body.id, from: 'Jon', into: 'Jonathan' });
+    });
+
+    it('should reject an incorrect host PIN', async () => {
+      await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Jon', into: 'Jonathan', hostPin: '9999' })
+        .expect(401);
+    });
+
+    it('should reject merging a name into itself', async () => {
+      const response = await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'jon ', into: 'Jon', hostPin: '1234' })
+        .expect(400);
+
+      expect(response.body.details[0]).toContain('into themselves');
+    });
+
+    it('should return 404 when the name has nothing to merge', async () => {
+      await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Nobody', into: 'Jonathan', partyId: party.id, hostPin: '1234' })
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/guest-merges/:id/undo', () => {
+    it('should put every row back the way it was', async () => {
+      const betId = await settledBet([['Jon', 10, 'Yes'], ['Jonathan', 10, 'Yes'], ['Bob', 20, 'No']]);
+      const before = await summaryFor(party.id);
+
+      const merged = await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Jon', into: 'Jonathan', partyId: party.id, hostPin: '1234' })
+        .expect(201);
+
+      const response = await request(app)
+        .post(`/api/guest-merges/${merged.body.id}/undo`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      expect(response.body.undoneAt).not.toBeNull();
+      expect(await summaryFor(party.id)).toEqual(before);
+
+      const rows = await db.select().from(settlements).where(eq(settlements.betId, betId));
+      expect(rows.find(s => s.userName === 'Jon')).toMatchObject({ totalWagered: 1000, payout: 2000 });
+      expect(rows.find(s => s.userName === 'Jonathan')).toMatchObject({ totalWagered: 1000, payout: 2000 });
+
+      const joined = await request(app)
+        .post(`/api/parties/${party.id}/guests`)
+        .send({ name: 'Jon' })
+        .expect(200);
+      expect(joined.body.name).toBe('Jon');
+
+      const entries = await db.select().from(auditLog).where(eq(auditLog.action, 'unmerge_guests'));
+      expect(entries).toHaveLength(1);
+    });
+
+    it('should reject undoing a merge twice', async () => {
+      await settledBet([['Jon', 10, 'Yes'], ['Jonathan', 10, 'No']]);
+      const merged = await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Jon', into: 'Jonathan', partyId: party.id, hostPin: '1234' });
+
+      await request(app)
+        .post(`/api/guest-merges/${merged.body.id}/undo`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      await request(app)
+        .post(`/api/guest-merges/${merged.body.id}/undo`)
+        .send({ hostPin: '1234' })
+        .expect(400);
+    });
+
+    it('should only undo the newest merge first', async () => {
+      await settledBet([['Jon', 10, 'Yes'], ['Jonathan', 10, 'No'], ['Johnny', 10, 'No']]);
+      const first = await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Jon', into: 'Jonathan', partyId: party.id, hostPin: '1234' });
+      await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Johnny', into: 'Jonathan', partyId: party.id, hostPin: '1234' })
+        .expect(201);
+
+      const response = await request(app)
+        .post(`/api/guest-merges/${first.body.id}/undo`)
+        .send({ hostPin: '1234' })
+        .expect(409);
+
+      expect(response.body.error).toContain('Johnny');
+    });
+
+    it('should refuse once a touched bet has been re-settled', async () => {
+      const betId = await settledBet([['Jon', 10, 'Yes'], ['Jonathan', 10, 'No']]);
+      const merged = await request(app)
+        .post('/api/guest-merges')
+        .send({ from: 'Jon', into: 'Jonathan', partyId: party.id, hostPin: '1234' });
+
+      await request(app)
+        .post(`/api/bets/${betId}/unsettle`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      await request(app)
+        .post(`/api/guest-merges/${merged.body.id}/undo`)
+        .send({ hostPin: '1234' })
+        .expect(409);
+    });
+
+    it('should reject an incorrect host PIN', async () => {
+      await request(app)
+        .post('/api/guest-merges/1/undo')
+        .send({ hostPin: '9999' })
+        .expect(401);
+    });
+  });
+});
@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import request from 'supertest';
 import { app } from '../../index';
 import { db } from '../../db/index';
-import { parties, bets, betOptions, wagers, settlements } from '../../db/schema';
+import { parties, bets, betOptions, wagers, settlements, auditLog, archivedSettlements, rebuys, guests } from '../../db/schema';
 import { eq } from 'drizzle-orm';
 import { initTestDb } from '../../__tests__/test-utils';
 
@@ -10,16 +10,28 @@ import { initTestDb } from '../../__tests__/test-utils';
 process.env.HOST_PIN = '1234';
 process.env.NODE_ENV = 'test';
 
+// Invite links use the server's LAN addresses - pin them down for the tests
+vi.mock('../../utils/network', () => ({
+  getLanAddresses: () => [
+    { interface: 'wlan0', address: '192.168.1.20' },
+    { interface: 'docker0', address: '172.17.0.1' }
+  ]
+}));
+
 describe('Parties API', () => {
   // Initialize test database tables
   initTestDb();
 
   beforeEach(async () => {
     // Clean up tables in correct order (child tables first due to foreign keys)
+    await db.delete(archivedSettlements);
+    await db.delete(auditLog);
     await db.delete(settlements);
     await db.delete(wagers);
     await db.delete(betOptions);
     await db.delete(bets);
+    await db.delete(rebuys);
+    await db.delete(guests);
     await db.delete(parties);
   });
 
@@ -81,6 +93,7 @@ describe('Parties API', () => {
       expect(response.body.date).toBe(newParty.date);
       expect(response.body.description).toBe(newParty.description);
       expect(response.body.status).toBe('active');
+      expect(response.body.joinCode).toMatch(/^[A-Z2-9]{6}$/);
     });
 
     it('should create party without description', async () => {
@@ -99,6 +112,69 @@ describe('Parties API', () => {
       expect(response.body.description).toBeNull();
     });
 
+    it('should create party with betting limits', async () => {
+      const response = await request(app)
+        .post('/api/parties')
+        .send({
+          name: 'Poker Night',
+          date: '2026-03-15T19:00:00Z',
+          hostPin: '1234',
+          maxWager: 25,
+          maxPerBet: 50,
+          bankroll: 200
+        })
+        .expect(201);
+
+      expect(response.body.maxWager).toBe(25);
+      expect(response.body.maxPerBet).toBe(50);
+      expect(response.body.bankroll).toBe(200);
+    });
+
+    it('should reject a max per wager above the max per bet', async () => {
+      const response = await request(app)
+        .post('/api/parties')
+        .send({
+          name: 'Poker Night',
+          date: '2026-03-15T19:00:00Z',
+          hostPin: '1234',
+          maxWager: 100,
+          maxPerBet: 50
+        })
+        .expect(400);
+
+      expect(response.body.details[0]).toContain('Max per wager cannot be more than max per bet');
+    });
+
+    it('should create a play-money party with rebuys', async () => {
+      const response = await request(app)
+        .post('/api/parties')
+        .send({
+          name: 'Family Game Night',
+          date: '2026-03-15T19:00:00Z',
+          hostPin: '1234',
+          currency: 'chips',
+          bankroll: 100,
+          allowRebuys: true
+        })
+        .expect(201);
+
+      expect(response.body.currency).toBe('chips');
+      expect(response.body.allowRebuys).toBe(true);
+      expect(response.body.bankroll).toBe(100);
+    });
+
+    it('should reject a chips party without a starting stack', async () => {
+      await request(app)
+        .post('/api/parties')
+        .send({
+          name: 'Family Game Night',
+          date: '2026-03-15T19:00:00Z',
+          hostPin: '1234',
+          currency: 'chips'
+        })
+        .expect(400);
+    });
+
     it('should reject request without host PIN', async () => {
       const newParty = {
         name: 'Party',
@@ -128,7 +204,7 @@ describe('Parties API', () => {
       expect(response.body.error).toBe('Invalid host PIN');
     });
 
-    it('should archive existing active party when creating new one', async () => {
+    it('should leave existing active parties active when creating a new one', async () => {
       // Create first party
       const [firstParty] = await db.insert(parties).values({
         name: 'First Party',
@@ -148,13 +224,13 @@ describe('Parties API', () => {
         })
         .expect(201);
 
-      // Check first party is now archived
-      const [archivedParty] = await db
+      // Both parties run side by side
+      const [stillActive] = await db
         .select()
         .from(parties)
         .where(eq(parties.id, firstParty.id));
 
-      expect(archivedParty.status).toBe('archived');
+      expect(stillActive.status).toBe('active');
     });
 
     it('should reject invalid party data', async () => {
@@ -241,6 +317,86 @@ describe('Parties API', () => {
     });
   });
 
+  describe('GET /api/parties/join/:code', () => {
+    it('should find an active party by join code in any case', async () => {
+      const [party] = await db.insert(parties).values({
+        name: 'Office Pool',
+        date: '2026-01-01T00:00:00Z',
+        joinCode: 'K7P2QX'
+      }).returning();
+
+      const response = await request(app)
+        .get('/api/parties/join/k7p-2qx')
+        .expect(200);
+
+      expect(response.body.id).toBe(party.id);
+    });
+
+    it('should not find an archived party', async () => {
+      await db.insert(parties).values({
+        name: 'Last Year',
+        date: '2025-01-01T00:00:00Z',
+        status: 'archived',
+        joinCode: 'K7P2QX'
+      });
+
+      const response = await request(app)
+        .get('/api/parties/join/K7P2QX')
+        .expect(404);
+
+      expect(response.body.error).toBe('No active party has that join code');
+    });
+  });
+
+  describe('GET /api/parties/:id/invite', () => {
+    it('should link to each LAN address with a QR code', async () => {
+      const [party] = await db.insert(parties).values({
+        name: 'Office Pool',
+        date: '2026-01-01T00:00:00Z',
+        joinCode: 'K7P2QX'
+      }).returning();
+
+      const response = await request(app)
+        .get(`/api/parties/${party.id}/invite?port=6767`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      expect(response.body.joinCode).toBe('K7P2QX');
+      expect(response.body.links.map((l: { url: string }) => l.url)).toEqual([
+        'http://192.168.1.20:6767/join/K7P2QX',
+        'http://172.17.0.1:6767/join/K7P2QX'
+      ]);
+      expect(response.body.links[0].qrSvg).toMatch(/^<svg/);
+    });
+
+    it('should leave port 80 out of the link', async () => {
+      const [party] = await db.insert(parties).values({
+        name: 'Office Pool',
+        date: '2026-01-01T00:00:00Z',
+        joinCode: 'K7P2QX'
+      }).returning();
+
+      const response = await request(app)
+        .get(`/api/parties/${party.id}/invite?port=80`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      expect(response.body.links[0].url).toBe('http://192.168.1.20/join/K7P2QX');
+    });
+
+    it('should require the host or a co-host', async () => {
+      const [party] = await db.insert(parties).values({
+        name: 'Office Pool',
+        date: '2026-01-01T00:00:00Z',
+        joinCode: 'K7P2QX'
+      }).returning();
+
+      await request(app)
+        .get(`/api/parties/${party.id}/invite`)
+        .expect(403);
+    });
+  });
+
   describe('PATCH /api/parties/:id/archive', () => {
     it('should archive party with valid PIN', async () => {
       const [party] = await db.insert(parties).values({
@@ -323,6 +479,106 @@ describe('Parties API', () => {
   });
 
   describe('GET /api/parties/:id/settlement-summary', () => {
+    it('should rank a chips party by chip count, including rebuys', async () => {
+      // 100-chip stacks
+      const [party] = await db.insert(parties).values({
+        name: 'Family Game Night',
+        date: '2026-02-08T00:00:00Z',
+        status: 'active',
+        currency: 'chips',
+        bankroll: 10000,
+        allowRebuys: true,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+
+      const [bet] = await db.insert(bets).values({
+        partyId: party.id,
+        type: 'yes_no',
+        question: 'Overtime?',
+        createdBy: 'Alice',
+        status: 'settled',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+
+      await db.insert(settlements).values([
+        { betId: bet.id, userName: 'Alice', totalWagered: 10000, payout: 0, netWinLoss: -10000, createdAt: new Date().toISOString() },
+        { betId: bet.id, userName: 'Bob', totalWagered: 5000, payout: 15000, netWinLoss: 10000, createdAt: new Date().toISOString() },
+        { betId: bet.id, userName: 'Carol', totalWagered: 5000, payout: 5000, netWinLoss: 0, createdAt: new Date().toISOString() }
+      ]);
+
+      // Alice busted and rebought
+      await db.insert(rebuys).values({ partyId: party.id, userName: 'Alice', amount: 10000, createdAt: new Date().toISOString() });
+
+      const response = await request(app)
+        .get(`/api/parties/${party.id}/settlement-summary`)
+        .expect(200);
+
+      expect(response.body.currency).toBe('chips');
+      expect(response.body.users.map((u: { userName: string; chips: number; rebuys: number }) => [u.userName, u.chips, u.rebuys])).toEqual([
+        ['Bob', 200, 0],
+        ['Alice', 100, 1],
+        ['Carol', 100, 0]
+      ]);
+
+      const transfers = await request(app)
+        .get(`/api/parties/${party.id}/transfers`)
+        .expect(200);
+
+      expect(transfers.body.transfers).toEqual([]);
+    });
+
+    it('should rank every guest of a chips party, settled bets or not', async () => {
+      const [party] = await db.insert(parties).values({
+        name: 'Family Game Night',
+        date: '2026-02-08T00:00:00Z',
+        status: 'active',
+        currency: 'chips',
+        bankroll: 10000,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+
+      const [dave, erin] = await db.insert(guests).values([
+        { partyId: party.id, name: 'Dave', normalizedName: 'dave', createdAt: new Date().toISOString() },
+        { partyId: party.id, name: 'Erin', normalizedName: 'erin', createdAt: new Date().toISOString() }
+      ]).returning();
+
+      // Nothing has been bet yet - everyone holds the starting stack
+      const empty = await request(app)
+        .get(`/api/parties/${party.id}/settlement-summary`)
+        .expect(200);
+
+      expect(empty.body.users.map((u: { userName: string; chips: number }) => [u.userName, u.chips])).toEqual([
+        ['Dave', 100],
+        ['Erin', 100]
+      ]);
+
+      // Erin's whole stack is on an open bet, and Dave busted on another and rebought
+      const [openBet, settledBet] = await db.insert(bets).values([
+        { partyId: party.id, type: 'yes_no', question: 'Overtime?', createdBy: 'Host', status: 'open', createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() },
+        { partyId: party.id, type: 'yes_no', question: 'Safety?', createdBy: 'Host', status: 'settled', createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() }
+      ]).returning();
+      const [option] = await db.insert(betOptions).values({ betId: openBet.id, label: 'Yes', createdAt: new Date().toISOString() }).returning();
+      await db.insert(wagers).values({
+        betId: openBet.id, optionId: option.id, userName: 'Erin', guestId: erin.id, amount: 10000, createdAt: new Date().toISOString()
+      });
+      await db.insert(settlements).values({
+        betId: settledBet.id, userName: 'Dave', guestId: dave.id, totalWagered: 10000, payout: 0, netWinLoss: -10000, createdAt: new Date().toISOString()
+      });
+      await db.insert(rebuys).values({ partyId: party.id, userName: 'Dave', guestId: dave.id, amount: 10000, createdAt: new Date().toISOString() });
+
+      const response = await request(app)
+        .get(`/api/parties/${party.id}/settlement-summary`)
+        .expect(200);
+
+      expect(response.body.users.map((u: { userName: string; chips: number; rebuys: number }) => [u.userName, u.chips, u.rebuys])).toEqual([
+        ['Dave', 100, 1],
+        ['Erin', 100, 0]
+      ]);
+    });
+
     it('should return settlement summary for party with multiple settled bets', async () => {
       // Create party
       const [party] = await db.insert(parties).values({
@@ -359,16 +615,16 @@ describe('Parties API', () => {
 
       // Create wagers for bet 1
       await db.insert(wagers).values([
-        { betId: bet1.id, optionId: bet1Option1.id, userName: 'Alice', amount: 50, createdAt: new Date().toISOString() },
-        { betId: bet1.id, optionId: bet1Option2.id, userName: 'Bob', amount: 30, createdAt: new Date().toISOString() },
-        { betId: bet1.id, optionId: bet1Option1.id, userName: 'Carol', amount: 20, createdAt: new Date().toISOString() }
+        { betId: bet1.id, optionId: bet1Option1.id, userName: 'Alice', amount: 5000, createdAt: new Date().toISOString() },
+        { betId: bet1.id, optionId: bet1Option2.id, userName: 'Bob', amount: 3000, createdAt: new Date().toISOString() },
+        { betId: bet1.id, optionId: bet1Option1.id, userName: 'Carol', amount: 2000, createdAt: new Date().toISOString() }
       ]);
 
       // Create settlements for bet 1
       await db.insert(settlements).values([
-        { betId: bet1.id, userName: 'Alice', totalWagered: 50, payout: 70, netWinLoss: 20, createdAt: new Date().toISOString() },
-        { betId: bet1.id, userName: 'Bob', totalWagered: 30, payout: 0, netWinLoss: -30, createdAt: new Date().toISOString() },
-        { betId: bet1.id, userName: 'Carol', totalWagered: 20, payout: 30, netWinLoss: 10, createdAt: new Date().toISOString() }
+        { betId: bet1.id, userName: 'Alice', totalWagered: 5000, payout: 7000, netWinLoss: 2000, createdAt: new Date().toISOString() },
+        { betId: bet1.id, userName: 'Bob', totalWagered: 3000, payout: 0, netWinLoss: -3000, createdAt: new Date().toISOString() },
+        { betId: bet1.id, userName: 'Carol', totalWagered: 2000, payout: 3000, netWinLoss: 1000, createdAt: new Date().toISOString() }
       ]);
 
       // Create second bet
@@ -397,14 +653,14 @@ describe('Parties API', () => {
 
       // Create wagers for bet 2
       await db.insert(wagers).values([
-        { betId: bet2.id, optionId: bet2Option1.id, userName: 'Alice', amount: 40, createdAt: new Date().toISOString() },
-        { betId: bet2.id, optionId: bet2Option2.id, userName: 'Bob', amount: 60, createdAt: new Date().toISOString() }
+        { betId: bet2.id, optionId: bet2Option1.id, userName: 'Alice', amount: 4000, createdAt: new Date().toISOString() },
+        { betId: bet2.id, optionId: bet2Option2.id, userName: 'Bob', amount: 6000, createdAt: new Date().toISOString() }
       ]);
 
       // Create settlements for bet 2
       await db.insert(settlements).values([
-        { betId: bet2.id, userName: 'Alice', totalWagered: 40, payout: 0, netWinLoss: -40, createdAt: new Date().toISOString() },
-        { betId: bet2.id, userName: 'Bob', totalWagered: 60, payout: 100, netWinLoss: 40, createdAt: new Date().toISOString() }
+        { betId: bet2.id, userName: 'Alice', totalWagered: 4000, payout: 0, netWinLoss: -4000, createdAt: new Date().toISOString() },
+        { betId: bet2.id, userName: 'Bob', totalWagered: 6000, payout: 10000, netWinLoss: 4000, createdAt: new Date().toISOString() }
       ]);
 
       const response = await request(app)
@@ -480,7 +736,7 @@ describe('Parties API', () => {
         betId: bet.id,
         optionId: option1.id,
         userName: 'Alice',
-        amount: 50,
+        amount: 5000,
         createdAt: new Date().toISOString()
       });
 
@@ -528,10 +784,10 @@ describe('Parties API', () => {
       }).returning();
 
       await db.insert(settlements).values([
-        { betId: bet.id, userName: 'Winner1', totalWagered: 50, payout: 100, netWinLoss: 50, createdAt: new Date().toISOString() },
-        { betId: bet.id, userName: 'Loser1', totalWagered: 30, payout: 0, netWinLoss: -30, createdAt: new Date().toISOString() },
-        { betId: bet.id, userName: 'Winner2', totalWagered: 20, payout: 50, netWinLoss: 30, createdAt: new Date().toISOString() },
-        { betId: bet.id, userName: 'Loser2', totalWagered: 40, payout: 0, netWinLoss: -40, createdAt: new Date().toISOString() }
+        { betId: bet.id, userName: 'Winner1', totalWagered: 5000, payout: 10000, netWinLoss: 5000, createdAt: new Date().toISOString() },
+        { betId: bet.id, userName: 'Loser1', totalWagered: 3000, payout: 0, netWinLoss: -3000, createdAt: new Date().toISOString() },
+        { betId: bet.id, userName: 'Winner2', totalWagered: 2000, payout: 5000, netWinLoss: 3000, createdAt: new Date().toISOString() },
+        { betId: bet.id, userName: 'Loser2', totalWagered: 4000, payout: 0, netWinLoss: -4000, createdAt: new Date().toISOString() }
       ]);
 
       const response = await request(app)
@@ -550,4 +806,88 @@ describe('Parties API', () => {
       expect(response.body.users[3].netAmount).toBe(-40);
     });
   });
+
+  describe('GET /api/parties/:id/transfers', () => {
+    it('should return minimized transfers across settled bets', async () => {
+      const [party] = await db.insert(parties).values({
+        name: 'Super Bowl Party',
+        date: '2026-02-08T00:00:00Z',
+        status: 'active',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+
+      const [bet1] = await db.insert(bets).values({
+        partyId: party.id,
+        type: 'yes_no',
+        question: 'Overtime?',
+        createdBy: 'Alice',
+        status: 'settled',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+
+      const [bet2] = await db.insert(bets).values({
+        partyId: party.id,
+        type: 'yes_no',
+        question: 'Safety?',
+        createdBy: 'Bob',
+        status: 'settled',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+
+      // Alice: +20 - 40 = -20, Bob: -30 + 40 = +10, Carol: +10
+      await db.insert(settlements).values([
+        { betId: bet1.id, userName: 'Alice', totalWagered: 5000, payout: 7000, netWinLoss: 2000, createdAt: new Date().toISOString() },
+        { betId: bet1.id, userName: 'Bob', totalWagered: 3000, payout: 0, netWinLoss: -3000, createdAt: new Date().toISOString() },
+        { betId: bet1.id, userName: 'Carol', totalWagered: 2000, payout: 3000, netWinLoss: 1000, createdAt: new Date().toISOString() },
+        { betId: bet2.id, userName: 'Alice', totalWagered: 4000, payout: 0, netWinLoss: -4000, createdAt: new Date().toISOString() },
+        { betId: bet2.id, userName: 'Bob', totalWagered: 6000, payout: 10000, netWinLoss: 4000, createdAt: new Date().toISOString() }
+      ]);
+
+      const response = await request(app)
+        .get(`/api/parties/${party.id}/transfers`)
+        .expect(200);
+
+      expect(response.body.partyId).toBe(party.id);
+      expect(response.body.partyName).toBe('Super Bowl Party');
+      expect(response.body.transfers).toEqual([
+        { from: 'Alice', to: 'Bob', amount: 10 },
+        { from: 'Alice', to: 'Carol', amount: 10 }
+      ]);
+    });
+
+    it('should return no transfers for party without settlements', async () => {
+      const [party] = await db.insert(parties).values({
+        name: 'New Party',
+        date: '2026-03-01T00:00:00Z',
+        status: 'active',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+
+      const response = await request(app)
+        .get(`/api/parties/${party.id}/transfers`)
+        .expect(200);
+
+      expect(response.body.transfers).toEqual([]);
+    });
+
+    it('should return 404 for non-existent party', async () => {
+      const response = await request(app)
+        .get('/api/parties/9999/transfers')
+        .expect(404);
+
+      expect(response.body.error).toBe('Party not found');
+    });
+
+    it('should return 400 for invalid party ID', async () => {
+      const response = await request(app)
+        .get('/api/parties/invalid/transfers')
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid party ID');
+    });
+  });
 });
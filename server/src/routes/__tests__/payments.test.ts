@@ -0,0 +1,410 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from '../../index';
+import { db } from '../../db/index';
+import { parties, bets, settlements, payments, guests } from '../../db/schema';
+import { eq } from 'drizzle-orm';
+import { initTestDb } from '../../__tests__/test-utils';
+import { hashPin } from '../../utils/pin';
+
+// Set test environment variables
+process.env.HOST_PIN = '1234';
+process.env.NODE_ENV = 'test';
+
+describe('Payments API', () => {
+  // Initialize test database tables
+  initTestDb();
+
+  let party: any;
+
+  beforeEach(async () => {
+    // Clean up tables in correct order (child tables first due to foreign keys)
+    await db.delete(payments);
+    await db.delete(settlements);
+    await db.delete(bets);
+    await db.delete(guests);
+    await db.delete(parties);
+
+    [party] = await db.insert(parties).values({
+      name: 'Test Party',
+      date: '2026-01-01T00:00:00Z',
+      status: 'active',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }).returning();
+
+    await db.insert(guests).values([
+      { partyId: party.id, name: 'Alice', normalizedName: 'alice', createdAt: new Date().toISOString() },
+      { partyId: party.id, name: 'Bob', normalizedName: 'bob', createdAt: new Date().toISOString() }
+    ]);
+
+    // Alice won $20 from Bob
+    const [bet] = await db.insert(bets).values({
+      partyId: party.id,
+      type: 'yes_no',
+      question: 'Overtime?',
+      createdBy: 'Alice',
+      status: 'settled',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }).returning();
+
+    await db.insert(settlements).values([
+      { betId: bet.id, userName: 'Alice', totalWagered: 2000, payout: 4000, netWinLoss: 2000, createdAt: new Date().toISOString() },
+      { betId: bet.id, userName: 'Bob', totalWagered: 2000, payout: 0, netWinLoss: -2000, createdAt: new Date().toISOString() }
+    ]);
+  });
+
+  describe('POST /api/parties/:id/payments', () => {
+    it('should record a pending payment confirmed by the payer', async () => {
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' })
+        .expect(201);
+
+      expect(response.body.status).toBe('pending');
+      expect(response.body.payerConfirmed).toBe(true);
+      expect(response.body.payeeConfirmed).toBe(false);
+      expect(response.body.recordedBy).toBe('Bob');
+    });
+
+    it('should record a pending payment confirmed by the payee', async () => {
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Alice' })
+        .expect(201);
+
+      expect(response.body.payerConfirmed).toBe(false);
+      expect(response.body.payeeConfirmed).toBe(true);
+    });
+
+    it('should confirm immediately when recorded by the host', async () => {
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: null, amount: 20, hostPin: '1234' })
+        .expect(201);
+
+      expect(response.body.status).toBe('confirmed');
+      expect(response.body.toUser).toBeNull();
+      expect(response.body.recordedBy).toBe('host');
+    });
+
+    it('should reject payment recorded by someone else', async () => {
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Carol' })
+        .expect(403);
+
+      expect(response.body.error).toContain('Unauthorized');
+    });
+
+    it('should store the names as they are on the roster', async () => {
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: ' bob', toUser: 'ALICE', amount: 20, recordedBy: 'BOB' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ fromUser: 'Bob', toUser: 'Alice', recordedBy: 'Bob', payerConfirmed: true });
+    });
+
+    it('should reject a payment with someone who is not on the roster', async () => {
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Zed', toUser: 'Alice', amount: 20, recordedBy: 'Alice' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Zed is not a guest at this party');
+    });
+
+    it('should need the recorder\'s PIN if they claimed their name', async () => {
+      await db.update(guests).set({ pinHash: hashPin('4321') }).where(eq(guests.name, 'Bob'));
+
+      await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' })
+        .expect(401);
+
+      await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob', guestPin: '4321' })
+        .expect(201);
+    });
+
+    it('should reject payments at a play-money party', async () => {
+      await db.update(parties).set({ currency: 'chips', bankroll: 10000 }).where(eq(parties.id, party.id));
+
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Play-money');
+    });
+
+    it('should reject payment to self', async () => {
+      await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Bob', amount: 20, recordedBy: 'Bob' })
+        .expect(400);
+    });
+
+    it('should return 404 for non-existent party', async () => {
+      await request(app)
+        .post('/api/parties/9999/payments')
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' })
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/parties/:id/payments', () => {
+    it('should list payments for the party', async () => {
+      await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' });
+
+      const response = await request(app)
+        .get(`/api/parties/${party.id}/payments`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].fromUser).toBe('Bob');
+    });
+
+    it('should return 400 for invalid party ID', async () => {
+      await request(app)
+        .get('/api/parties/invalid/payments')
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/parties/:id/payments/:paymentId/confirm', () => {
+    it('should confirm the payment once both sides agree', async () => {
+      const created = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' });
+
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/confirm`)
+        .send({ userName: 'Alice' })
+        .expect(200);
+
+      expect(response.body.status).toBe('confirmed');
+      expect(response.body.payeeConfirmed).toBe(true);
+    });
+
+    it('should allow the host to override confirmation', async () => {
+      const created = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' });
+
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/confirm`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      expect(response.body.status).toBe('confirmed');
+    });
+
+    it('should reject confirmation from a third party', async () => {
+      const created = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' });
+
+      await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/confirm`)
+        .send({ userName: 'Carol' })
+        .expect(403);
+    });
+
+    it('should not let the payer confirm the payee\'s side', async () => {
+      const created = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' });
+
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/confirm`)
+        .send({ userName: 'Bob' })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ status: 'pending', payeeConfirmed: false });
+    });
+
+    it('should match the confirming guest however their name was typed', async () => {
+      const created = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Alice', toUser: 'Bob', amount: 20, recordedBy: 'Alice' });
+
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/confirm`)
+        .send({ userName: 'bob' })
+        .expect(200);
+
+      expect(response.body.status).toBe('confirmed');
+    });
+
+    it('should need the PIN of a payee who claimed their name', async () => {
+      await db.update(guests).set({ pinHash: hashPin('4321') }).where(eq(guests.name, 'Bob'));
+      const created = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Alice', toUser: 'Bob', amount: 20, recordedBy: 'Alice' });
+
+      const noPin = await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/confirm`)
+        .send({ userName: 'Bob' })
+        .expect(401);
+      expect(noPin.body.error).toContain('PIN-protected');
+
+      const wrongPin = await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/confirm`)
+        .send({ userName: 'Bob', guestPin: '0000' })
+        .expect(401);
+      expect(wrongPin.body.error).toContain('Incorrect PIN');
+
+      await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/reverse`)
+        .send({ userName: 'Bob' })
+        .expect(401);
+
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/confirm`)
+        .send({ userName: 'Bob', guestPin: '4321' })
+        .expect(200);
+      expect(response.body.status).toBe('confirmed');
+    });
+
+    it('should reject confirmation with incorrect host PIN', async () => {
+      const created = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' });
+
+      await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/confirm`)
+        .send({ hostPin: '9999' })
+        .expect(403);
+    });
+
+    it('should return 404 for non-existent payment', async () => {
+      await request(app)
+        .post(`/api/parties/${party.id}/payments/9999/confirm`)
+        .send({ userName: 'Alice' })
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/parties/:id/payments/:paymentId/reverse', () => {
+    it('should let either side reverse a pending payment', async () => {
+      const created = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' });
+
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/reverse`)
+        .send({ userName: 'Alice' })
+        .expect(200);
+
+      expect(response.body.status).toBe('reversed');
+    });
+
+    it('should only let the host reverse a confirmed payment', async () => {
+      const created = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, hostPin: '1234' });
+
+      const rejected = await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/reverse`)
+        .send({ userName: 'Bob' })
+        .expect(403);
+
+      expect(rejected.body.error).toContain('Only the host');
+
+      const response = await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/reverse`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      expect(response.body.status).toBe('reversed');
+    });
+
+    it('should reject reversing an already reversed payment', async () => {
+      const created = await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' });
+
+      await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/reverse`)
+        .send({ userName: 'Bob' });
+
+      await request(app)
+        .post(`/api/parties/${party.id}/payments/${created.body.id}/reverse`)
+        .send({ userName: 'Bob' })
+        .expect(400);
+    });
+  });
+
+  describe('Settlement balances', () => {
+    it('should show outstanding balances before any payment', async () => {
+      const response = await request(app)
+        .get(`/api/parties/${party.id}/settlement-summary`)
+        .expect(200);
+
+      const alice = response.body.users.find((u: any) => u.userName === 'Alice');
+      expect(alice).toEqual({ userName: 'Alice', netAmount: 20, settledAmount: 0, outstandingAmount: 20 });
+    });
+
+    it('should move confirmed payments from outstanding to settled', async () => {
+      await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 15, hostPin: '1234' });
+
+      const response = await request(app)
+        .get(`/api/parties/${party.id}/settlement-summary`)
+        .expect(200);
+
+      const alice = response.body.users.find((u: any) => u.userName === 'Alice');
+      const bob = response.body.users.find((u: any) => u.userName === 'Bob');
+      expect(alice).toMatchObject({ settledAmount: 15, outstandingAmount: 5 });
+      expect(bob).toMatchObject({ settledAmount: -15, outstandingAmount: -5 });
+
+      const transfers = await request(app)
+        .get(`/api/parties/${party.id}/transfers`)
+        .expect(200);
+
+      expect(transfers.body.transfers).toEqual([{ from: 'Bob', to: 'Alice', amount: 5 }]);
+    });
+
+    it('should match payments to guests however their names were typed', async () => {
+      await db.insert(payments).values({
+        partyId: party.id,
+        fromUser: ' bob',
+        toUser: 'ALICE',
+        amount: 2000,
+        status: 'confirmed',
+        recordedBy: 'host',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      });
+
+      const response = await request(app)
+        .get(`/api/parties/${party.id}/settlement-summary`)
+        .expect(200);
+
+      const alice = response.body.users.find((u: { userName: string }) => u.userName === 'Alice');
+      const bob = response.body.users.find((u: { userName: string }) => u.userName === 'Bob');
+      expect(alice).toMatchObject({ settledAmount: 20, outstandingAmount: 0 });
+      expect(bob).toMatchObject({ settledAmount: -20, outstandingAmount: 0 });
+    });
+
+    it('should ignore pending and reversed payments', async () => {
+      await request(app)
+        .post(`/api/parties/${party.id}/payments`)
+        .send({ fromUser: 'Bob', toUser: 'Alice', amount: 20, recordedBy: 'Bob' });
+
+      const response = await request(app)
+        .get(`/api/parties/${party.id}/settlement-summary`)
+        .expect(200);
+
+      const bob = response.body.users.find((u: any) => u.userName === 'Bob');
+      expect(bob).toMatchObject({ settledAmount: 0, outstandingAmount: -20 });
+    });
+  });
+});
@@ -2,9 +2,10 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import request from 'supertest';
 import { app } from '../../index';
 import { db } from '../../db/index';
-import { parties, bets, betOptions, wagers, settlements } from '../../db/schema';
+import { parties, bets, betOptions, wagers, settlements, auditLog, archivedSettlements, rebuys, guests } from '../../db/schema';
 import { eq } from 'drizzle-orm';
 import { initTestDb } from '../../__tests__/test-utils';
+import { hashPin } from '../../utils/pin';
 
 // Set test environment variables
 process.env.HOST_PIN = '1234';
@@ -21,10 +22,14 @@ describe('Wagers API', () => {
 
   beforeEach(async () => {
     // Clean up tables in correct order (child tables first)
+    await db.delete(archivedSettlements);
+    await db.delete(auditLog);
     await db.delete(settlements);
     await db.delete(wagers);
     await db.delete(betOptions);
     await db.delete(bets);
+    await db.delete(rebuys);
+    await db.delete(guests);
     await db.delete(parties);
 
     // Create active party
@@ -83,6 +88,51 @@ describe('Wagers API', () => {
       expect(response.body.userName).toBe('Bob');
       expect(response.body.amount).toBe(50);
       expect(response.body).toHaveProperty('createdAt');
+
+      // The party's default grace window is 60 seconds
+      const window = new Date(response.body.cancelableUntil).getTime() - new Date(response.body.createdAt).getTime();
+      expect(window).toBe(60000);
+    });
+
+    it('should put wagers under one guest however the name is typed', async () => {
+      await request(app)
+        .post(`/api/bets/${testBet.id}/wagers`)
+        .send({ userName: 'Bob', optionId: option1.id, amount: 10 })
+        .expect(201);
+
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/wagers`)
+        .send({ userName: '  bob ', optionId: option2.id, amount: 20 })
+        .expect(201);
+
+      expect(response.body.userName).toBe('Bob');
+
+      const betWagers = await db.select().from(wagers).where(eq(wagers.betId, testBet.id));
+      expect(betWagers).toHaveLength(2);
+      expect(betWagers[0].guestId).not.toBeNull();
+      expect(betWagers[1].guestId).toBe(betWagers[0].guestId);
+    });
+
+    it('should need the PIN to wager under a claimed name', async () => {
+      await db.insert(guests).values({
+        partyId: activeParty.id,
+        name: 'Bob',
+        normalizedName: 'bob',
+        pinHash: hashPin('1111'),
+        createdAt: new Date().toISOString()
+      });
+
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/wagers`)
+        .send({ userName: 'Bob', optionId: option1.id, amount: 10 })
+        .expect(401);
+
+      expect(response.body.error).toContain('PIN-protected');
+
+      await request(app)
+        .post(`/api/bets/${testBet.id}/wagers`)
+        .send({ userName: 'Bob', guestPin: '1111', optionId: option1.id, amount: 10 })
+        .expect(201);
     });
 
     it('should reject wager on closed bet', async () => {
@@ -105,6 +155,19 @@ describe('Wagers API', () => {
       expect(response.body.error).toContain('Bet is closed');
     });
 
+    it('should reject wager after the lock time even if the bet is still open', async () => {
+      await db.update(bets)
+        .set({ closesAt: new Date(Date.now() - 1000).toISOString() })
+        .where(eq(bets.id, testBet.id));
+
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/wagers`)
+        .send({ userName: 'Bob', optionId: option1.id, amount: 50 })
+        .expect(400);
+
+      expect(response.body.error).toContain('lock time');
+    });
+
     it('should reject wager on settled bet', async () => {
       // Settle the bet
       await db.update(bets)
@@ -342,6 +405,281 @@ describe('Wagers API', () => {
 
       expect(response.body.error).toBe('Validation failed');
     });
+
+    describe('over/under bets', () => {
+      beforeEach(async () => {
+        await db.update(bets).set({ type: 'over_under', line: 47.5 }).where(eq(bets.id, testBet.id));
+        await db.update(betOptions).set({ label: 'Over' }).where(eq(betOptions.id, option1.id));
+        await db.update(betOptions).set({ label: 'Under' }).where(eq(betOptions.id, option2.id));
+      });
+
+      it('should store an exact guess that agrees with the side picked', async () => {
+        const response = await request(app)
+          .post(`/api/bets/${testBet.id}/wagers`)
+          .send({ userName: 'Bob', optionId: option1.id, amount: 10, guess: 52 })
+          .expect(201);
+
+        expect(response.body.guess).toBe(52);
+      });
+
+      it('should reject a guess on the wrong side of the line', async () => {
+        const response = await request(app)
+          .post(`/api/bets/${testBet.id}/wagers`)
+          .send({ userName: 'Bob', optionId: option2.id, amount: 10, guess: 52 })
+          .expect(400);
+
+        expect(response.body.error).toContain('under the line');
+      });
+    });
+
+    describe('closest-guess bets', () => {
+      beforeEach(async () => {
+        await db.update(bets).set({ type: 'closest_guess', guessRule: 'closest' }).where(eq(bets.id, testBet.id));
+      });
+
+      it('should accept a wager carrying a guess instead of an option', async () => {
+        const response = await request(app)
+          .post(`/api/bets/${testBet.id}/wagers`)
+          .send({ userName: 'Bob', amount: 10, guess: 118.5 })
+          .expect(201);
+
+        expect(response.body.optionId).toBeNull();
+        expect(response.body.guess).toBe(118.5);
+      });
+
+      it('should reject a wager with an option ID', async () => {
+        await request(app)
+          .post(`/api/bets/${testBet.id}/wagers`)
+          .send({ userName: 'Bob', optionId: option1.id, amount: 10, guess: 118.5 })
+          .expect(400);
+      });
+    });
+
+    it('should reject an exact guess on other bet types', async () => {
+      await request(app)
+        .post(`/api/bets/${testBet.id}/wagers`)
+        .send({ userName: 'Bob', optionId: option1.id, amount: 10, guess: 52 })
+        .expect(400);
+    });
+
+    describe('fixed-odds bets', () => {
+      beforeEach(async () => {
+        // Alice offers 3-to-1 on Yes and 1-to-2 on No, risking at most $30
+        await db.update(bets)
+          .set({ type: 'fixed_odds', maxExposure: 3000 })
+          .where(eq(bets.id, testBet.id));
+        await db.update(betOptions)
+          .set({ oddsNumerator: 3, oddsDenominator: 1 })
+          .where(eq(betOptions.id, option1.id));
+        await db.update(betOptions)
+          .set({ oddsNumerator: 1, oddsDenominator: 2 })
+          .where(eq(betOptions.id, option2.id));
+      });
+
+      it('should accept wagers within the maximum exposure', async () => {
+        await request(app)
+          .post(`/api/bets/${testBet.id}/wagers`)
+          .send({ userName: 'Bob', optionId: option1.id, amount: 10 })
+          .expect(201);
+      });
+
+      it('should reject wagers that would exceed the maximum exposure', async () => {
+        await db.insert(wagers).values({
+          betId: testBet.id,
+          optionId: option1.id,
+          userName: 'Bob',
+          amount: 500,
+          createdAt: new Date().toISOString()
+        });
+
+        const response = await request(app)
+          .post(`/api/bets/${testBet.id}/wagers`)
+          .send({ userName: 'Carol', optionId: option1.id, amount: 10 })
+          .expect(400);
+
+        expect(response.body.error).toContain('$5.00');
+        expect(response.body.maxWager).toBe(5);
+
+        const stored = await db.select().from(wagers).where(eq(wagers.betId, testBet.id));
+        expect(stored).toHaveLength(1);
+      });
+
+      it('should give the most that can still be wagered in chips at a chips party', async () => {
+        await db.update(parties)
+          .set({ currency: 'chips', bankroll: 10000 })
+          .where(eq(parties.id, activeParty.id));
+        await db.insert(wagers).values({
+          betId: testBet.id,
+          optionId: option1.id,
+          userName: 'Bob',
+          amount: 500,
+          createdAt: new Date().toISOString()
+        });
+
+        const response = await request(app)
+          .post(`/api/bets/${testBet.id}/wagers`)
+          .send({ userName: 'Carol', optionId: option1.id, amount: 10 })
+          .expect(400);
+
+        expect(response.body.error).toContain('5 chips');
+        expect(response.body.error).not.toContain('$');
+      });
+
+      it('should reject wagers from the bet creator', async () => {
+        const response = await request(app)
+          .post(`/api/bets/${testBet.id}/wagers`)
+          .send({ userName: 'Alice', optionId: option1.id, amount: 5 })
+          .expect(400);
+
+        expect(response.body.error).toContain('bank');
+      });
+    });
+  });
+
+  describe('DELETE /api/bets/:id/wagers/:wagerId', () => {
+    // Insert a wager placed the given number of seconds ago
+    async function placeWager(userName: string, secondsAgo: number, guestId: number | null = null) {
+      const [wager] = await db.insert(wagers).values({
+        betId: testBet.id,
+        optionId: option1.id,
+        userName,
+        guestId,
+        amount: 2500,
+        createdAt: new Date(Date.now() - secondsAgo * 1000).toISOString()
+      }).returning();
+      return wager;
+    }
+
+    it('should let the owner cancel within the grace window', async () => {
+      const wager = await placeWager('Bob', 10);
+
+      const response = await request(app)
+        .delete(`/api/bets/${testBet.id}/wagers/${wager.id}`)
+        .send({ userName: '  bob ' })
+        .expect(200);
+
+      expect(response.body.id).toBe(wager.id);
+      expect(response.body.amount).toBe(25);
+
+      const remaining = await db.select().from(wagers).where(eq(wagers.betId, testBet.id));
+      expect(remaining).toHaveLength(0);
+
+      const [entry] = await db.select().from(auditLog).where(eq(auditLog.action, 'cancel_wager'));
+      expect(entry.actor).toBe('Bob');
+      expect(JSON.parse(entry.details!)).toMatchObject({ wagerId: wager.id, userName: 'Bob', amount: 25 });
+    });
+
+    it('should not let the owner cancel once the grace window has passed', async () => {
+      const wager = await placeWager('Bob', 120);
+
+      const response = await request(app)
+        .delete(`/api/bets/${testBet.id}/wagers/${wager.id}`)
+        .send({ userName: 'Bob' })
+        .expect(403);
+
+      expect(response.body.error).toContain('Ask the host');
+    });
+
+    it('should use the party\'s grace window, and none at all when it is 0', async () => {
+      await db.update(parties).set({ cancelGraceSeconds: 0 }).where(eq(parties.id, activeParty.id));
+      const wager = await placeWager('Bob', 0);
+
+      await request(app)
+        .delete(`/api/bets/${testBet.id}/wagers/${wager.id}`)
+        .send({ userName: 'Bob' })
+        .expect(403);
+    });
+
+    it('should not let another guest cancel the wager', async () => {
+      const wager = await placeWager('Bob', 10);
+
+      const response = await request(app)
+        .delete(`/api/bets/${testBet.id}/wagers/${wager.id}`)
+        .send({ userName: 'Carol' })
+        .expect(403);
+
+      expect(response.body.error).toContain('Only the guest who placed this wager');
+    });
+
+    it('should need the PIN to cancel a wager under a claimed name', async () => {
+      const [guest] = await db.insert(guests).values({
+        partyId: activeParty.id,
+        name: 'Bob',
+        normalizedName: 'bob',
+        pinHash: hashPin('1111'),
+        createdAt: new Date().toISOString()
+      }).returning();
+      const wager = await placeWager('Bob', 10, guest.id);
+
+      await request(app)
+        .delete(`/api/bets/${testBet.id}/wagers/${wager.id}`)
+        .send({ userName: 'Bob', guestPin: '2222' })
+        .expect(403);
+
+      await request(app)
+        .delete(`/api/bets/${testBet.id}/wagers/${wager.id}`)
+        .send({ userName: 'Bob', guestPin: '1111' })
+        .expect(200);
+    });
+
+    it('should let the host cancel after the grace window and once betting has closed', async () => {
+      await db.update(bets).set({ status: 'closed' }).where(eq(bets.id, testBet.id));
+      const wager = await placeWager('Bob', 3600);
+
+      await request(app)
+        .delete(`/api/bets/${testBet.id}/wagers/${wager.id}`)
+        .send({ hostPin: '1234' })
+        .expect(200);
+
+      const [entry] = await db.select().from(auditLog).where(eq(auditLog.action, 'cancel_wager'));
+      expect(entry.actor).toBe('host');
+    });
+
+    it('should not cancel wagers on a settled bet', async () => {
+      await db.update(bets).set({ status: 'settled' }).where(eq(bets.id, testBet.id));
+      const wager = await placeWager('Bob', 10);
+
+      const response = await request(app)
+        .delete(`/api/bets/${testBet.id}/wagers/${wager.id}`)
+        .send({ hostPin: '1234' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Cannot cancel wager. Bet is settled.');
+    });
+
+    it('should keep cancellations out of a blind bet\'s history until betting closes', async () => {
+      await db.update(bets).set({ blind: true }).where(eq(bets.id, testBet.id));
+      const wager = await placeWager('Bob', 10);
+
+      await request(app)
+        .delete(`/api/bets/${testBet.id}/wagers/${wager.id}`)
+        .send({ userName: 'Bob' })
+        .expect(200);
+
+      const hidden = await request(app)
+        .get(`/api/bets/${testBet.id}/history`)
+        .expect(200);
+
+      expect(hidden.body.entries).toEqual([]);
+
+      await db.update(bets).set({ status: 'closed' }).where(eq(bets.id, testBet.id));
+
+      const revealed = await request(app)
+        .get(`/api/bets/${testBet.id}/history`)
+        .expect(200);
+
+      expect(revealed.body.entries).toHaveLength(1);
+      expect(revealed.body.entries[0].details).toMatchObject({ userName: 'Bob', optionId: option1.id, amount: 25 });
+    });
+
+    it('should return 404 for a wager on another bet', async () => {
+      const response = await request(app)
+        .delete(`/api/bets/${testBet.id}/wagers/99999`)
+        .send({ hostPin: '1234' })
+        .expect(404);
+
+      expect(response.body.error).toBe('Wager not found');
+    });
   });
 
   describe('GET /api/bets/:id/wagers', () => {
@@ -352,21 +690,21 @@ describe('Wagers API', () => {
           betId: testBet.id,
           optionId: option1.id,
           userName: 'Alice',
-          amount: 50,
+          amount: 5000,
           createdAt: new Date().toISOString()
         },
         {
           betId: testBet.id,
           optionId: option1.id,
           userName: 'Bob',
-          amount: 30,
+          amount: 3000,
           createdAt: new Date().toISOString()
         },
         {
           betId: testBet.id,
           optionId: option2.id,
           userName: 'Carol',
-          amount: 40,
+          amount: 4000,
           createdAt: new Date().toISOString()
         }
       ]);
@@ -394,6 +732,41 @@ describe('Wagers API', () => {
       expect(option2Group.wagers).toHaveLength(1);
     });
 
+    it('should only show the totals of an open blind bet', async () => {
+      await db.update(bets).set({ blind: true }).where(eq(bets.id, testBet.id));
+      await db.insert(wagers).values([
+        { betId: testBet.id, optionId: option1.id, userName: 'Alice', amount: 5000, createdAt: new Date().toISOString() },
+        { betId: testBet.id, optionId: option2.id, userName: 'Bob', amount: 3000, createdAt: new Date().toISOString() },
+        { betId: testBet.id, optionId: option2.id, userName: 'Bob', amount: 1000, createdAt: new Date().toISOString() }
+      ]);
+
+      const response = await request(app)
+        .get(`/api/bets/${testBet.id}/wagers`)
+        .expect(200);
+
+      expect(response.body).toEqual({
+        betId: testBet.id,
+        options: [],
+        guesses: [],
+        totalPool: 90,
+        participantCount: 2
+      });
+    });
+
+    it('should reveal a blind bet once betting closes', async () => {
+      await db.update(bets).set({ blind: true, status: 'closed' }).where(eq(bets.id, testBet.id));
+      await db.insert(wagers).values({
+        betId: testBet.id, optionId: option1.id, userName: 'Alice', amount: 5000, createdAt: new Date().toISOString()
+      });
+
+      const response = await request(app)
+        .get(`/api/bets/${testBet.id}/wagers`)
+        .expect(200);
+
+      expect(response.body.options).toHaveLength(1);
+      expect(response.body.options[0].wagers[0].userName).toBe('Alice');
+    });
+
     it('should return empty array when bet has no wagers', async () => {
       const response = await request(app)
         .get(`/api/bets/${testBet.id}/wagers`)
@@ -421,35 +794,253 @@ describe('Wagers API', () => {
     });
   });
 
+  describe('party betting limits', () => {
+    beforeEach(async () => {
+      // $25 per wager, $40 per bet, $60 bankroll
+      await db.update(parties)
+        .set({ maxWager: 2500, maxPerBet: 4000, bankroll: 6000 })
+        .where(eq(parties.id, activeParty.id));
+    });
+
+    it('should reject a wager over the max per wager', async () => {
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/wagers`)
+        .send({ userName: 'Bob', optionId: option1.id, amount: 30 })
+        .expect(400);
+
+      expect(response.body.limit).toBe('maxWager');
+      expect(response.body.maxWager).toBe(25);
+    });
+
+    it('should count earlier wagers on the bet towards the max per bet', async () => {
+      await db.insert(wagers).values({
+        betId: testBet.id,
+        optionId: option1.id,
+        userName: 'Bob',
+        amount: 2500,
+        createdAt: new Date().toISOString()
+      });
+
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/wagers`)
+        .send({ userName: 'Bob', optionId: option2.id, amount: 20 })
+        .expect(400);
+
+      expect(response.body.limit).toBe('maxPerBet');
+      expect(response.body.error).toContain('$15.00 more');
+    });
+
+    it('should reject a wager over the remaining bankroll, counting settled losses', async () => {
+      const [settledBet] = await db.insert(bets).values({
+        partyId: activeParty.id,
+        type: 'yes_no',
+        question: 'Coin toss heads?',
+        createdBy: 'Alice',
+        status: 'settled',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+      await db.insert(settlements).values({
+        betId: settledBet.id,
+        userName: 'Bob',
+        totalWagered: 4000,
+        payout: 0,
+        netWinLoss: -4000,
+        createdAt: new Date().toISOString()
+      });
+
+      // $60 bankroll less the $40 lost leaves $20
+      const response = await request(app)
+        .post(`/api/bets/${testBet.id}/wagers`)
+        .send({ userName: 'Bob', optionId: option1.id, amount: 25 })
+        .expect(400);
+
+      expect(response.body.limit).toBe('bankroll');
+      expect(response.body.maxWager).toBe(20);
+    });
+
+    it('should accept a wager within every limit', async () => {
+      await request(app)
+        .post(`/api/bets/${testBet.id}/wagers`)
+        .send({ userName: 'Bob', optionId: option1.id, amount: 25 })
+        .expect(201);
+    });
+  });
+
+  describe('GET /api/users/:userName/bankroll', () => {
+    it('should return the remaining bankroll at the party', async () => {
+      await db.update(parties)
+        .set({ bankroll: 10000 })
+        .where(eq(parties.id, activeParty.id));
+      await db.insert(wagers).values({
+        betId: testBet.id,
+        optionId: option1.id,
+        userName: 'Bob',
+        amount: 3000,
+        createdAt: new Date().toISOString()
+      });
+
+      const response = await request(app)
+        .get(`/api/users/Bob/bankroll?partyId=${activeParty.id}`)
+        .expect(200);
+
+      expect(response.body.bankroll).toBe(100);
+      expect(response.body.inPlay).toBe(30);
+      expect(response.body.remaining).toBe(70);
+    });
+
+    it('should find the party by its join code', async () => {
+      await db.update(parties)
+        .set({ bankroll: 10000, joinCode: 'K7P2QX' })
+        .where(eq(parties.id, activeParty.id));
+
+      const response = await request(app)
+        .get('/api/users/Bob/bankroll?joinCode=k7p-2qx')
+        .expect(200);
+
+      expect(response.body.partyId).toBe(activeParty.id);
+      expect(response.body.remaining).toBe(100);
+    });
+
+    it('should return a null remaining bankroll when the party has none', async () => {
+      const response = await request(app)
+        .get(`/api/users/Bob/bankroll?partyId=${activeParty.id}`)
+        .expect(200);
+
+      expect(response.body.remaining).toBeNull();
+    });
+  });
+
+  describe('POST /api/users/:userName/rebuy', () => {
+    // Settle a bet where Bob lost his whole 100-chip stack
+    const bustBob = async () => {
+      const [lostBet] = await db.insert(bets).values({
+        partyId: activeParty.id,
+        type: 'yes_no',
+        question: 'Coin toss heads?',
+        createdBy: 'Alice',
+        status: 'settled',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }).returning();
+      await db.insert(settlements).values({
+        betId: lostBet.id,
+        userName: 'Bob',
+        totalWagered: 10000,
+        payout: 0,
+        netWinLoss: -10000,
+        createdAt: new Date().toISOString()
+      });
+    };
+
+    beforeEach(async () => {
+      await db.update(parties)
+        .set({ currency: 'chips', bankroll: 10000, allowRebuys: true })
+        .where(eq(parties.id, activeParty.id));
+    });
+
+    it('should give a busted guest a fresh stack', async () => {
+      await bustBob();
+
+      const response = await request(app)
+        .post('/api/users/Bob/rebuy')
+        .send({ partyId: activeParty.id })
+        .expect(201);
+
+      expect(response.body.rebuys).toBe(100);
+      expect(response.body.remaining).toBe(100);
+      expect(response.body.canRebuy).toBe(false);
+    });
+
+    it('should need the PIN to rebuy under a claimed name', async () => {
+      await db.insert(guests).values({
+        partyId: activeParty.id,
+        name: 'Bob',
+        normalizedName: 'bob',
+        pinHash: hashPin('1111'),
+        createdAt: new Date().toISOString()
+      });
+      await bustBob();
+
+      const noPin = await request(app)
+        .post('/api/users/Bob/rebuy')
+        .send({ partyId: activeParty.id })
+        .expect(401);
+      expect(noPin.body.error).toContain('PIN-protected');
+
+      const wrongPin = await request(app)
+        .post('/api/users/Bob/rebuy')
+        .send({ partyId: activeParty.id, guestPin: '2222' })
+        .expect(401);
+      expect(wrongPin.body.error).toContain('Incorrect PIN');
+
+      await request(app)
+        .post('/api/users/Bob/rebuy')
+        .send({ partyId: activeParty.id, guestPin: '1111' })
+        .expect(201);
+    });
+
+    it('should reject a rebuy while the guest still has chips', async () => {
+      const response = await request(app)
+        .post('/api/users/Bob/rebuy')
+        .send({ partyId: activeParty.id })
+        .expect(400);
+
+      expect(response.body.error).toContain('out of chips');
+    });
+
+    it('should reject a rebuy at an archived party', async () => {
+      await db.update(parties).set({ status: 'archived' }).where(eq(parties.id, activeParty.id));
+      await bustBob();
+
+      const response = await request(app)
+        .post('/api/users/Bob/rebuy')
+        .send({ partyId: activeParty.id })
+        .expect(400);
+
+      expect(response.body.error).toBe('Rebuys are only available at an active party');
+    });
+
+    it('should reject a rebuy when the host does not allow them', async () => {
+      await db.update(parties).set({ allowRebuys: false }).where(eq(parties.id, activeParty.id));
+      await bustBob();
+
+      await request(app)
+        .post('/api/users/Bob/rebuy')
+        .send({ partyId: activeParty.id })
+        .expect(400);
+    });
+  });
+
   describe('GET /api/users/:userName/wagers', () => {
-    it('should get all wagers for a user in the active party', async () => {
+    it('should get all wagers for a user at the party', async () => {
       // Create wagers for different users
       await db.insert(wagers).values([
         {
           betId: testBet.id,
           optionId: option1.id,
           userName: 'Alice',
-          amount: 50,
+          amount: 5000,
           createdAt: new Date().toISOString()
         },
         {
           betId: testBet.id,
           optionId: option2.id,
           userName: 'Alice',
-          amount: 30,
+          amount: 3000,
           createdAt: new Date().toISOString()
         },
         {
           betId: testBet.id,
           optionId: option1.id,
           userName: 'Bob',
-          amount: 40,
+          amount: 4000,
           createdAt: new Date().toISOString()
         }
       ]);
 
       const response = await request(app)
-        .get('/api/users/Alice/wagers')
+        .get(`/api/users/Alice/wagers?partyId=${activeParty.id}`)
         .expect(200);
 
       expect(response.body.userName).toBe('Alice');
@@ -467,7 +1058,7 @@ describe('Wagers API', () => {
 
     it('should return empty wagers when user has no wagers', async () => {
       const response = await request(app)
-        .get('/api/users/NewUser/wagers')
+        .get(`/api/users/NewUser/wagers?partyId=${activeParty.id}`)
         .expect(200);
 
       expect(response.body.userName).toBe('NewUser');
@@ -476,23 +1067,19 @@ describe('Wagers API', () => {
       expect(response.body.wagers).toHaveLength(0);
     });
 
-    it('should return empty when no active party exists', async () => {
-      // Archive the active party
-      await db.update(parties)
-        .set({ status: 'archived', updatedAt: new Date().toISOString() })
-        .where(eq(parties.id, activeParty.id));
-
-      const response = await request(app)
+    it('should require a party ID', async () => {
+      await request(app)
         .get('/api/users/Alice/wagers')
-        .expect(200);
+        .expect(400);
+    });
 
-      expect(response.body.userName).toBe('Alice');
-      expect(response.body.partyId).toBeNull();
-      expect(response.body.partyName).toBeNull();
-      expect(response.body.wagers).toHaveLength(0);
+    it('should return 404 for an unknown party', async () => {
+      await request(app)
+        .get(`/api/users/Alice/wagers?partyId=${activeParty.id + 1}`)
+        .expect(404);
     });
 
-    it('should only return wagers from active party, not archived parties', async () => {
+    it('should only return wagers from the requested party', async () => {
       // Create an archived party with bets and wagers
       const [archivedParty] = await db.insert(parties).values({
         name: 'Old Party',
@@ -523,7 +1110,7 @@ describe('Wagers API', () => {
         betId: archivedBet.id,
         optionId: archivedOption.id,
         userName: 'Alice',
-        amount: 100,
+        amount: 10000,
         createdAt: new Date().toISOString()
       });
 
@@ -532,12 +1119,12 @@ describe('Wagers API', () => {
         betId: testBet.id,
         optionId: option1.id,
         userName: 'Alice',
-        amount: 50,
+        amount: 5000,
         createdAt: new Date().toISOString()
       });
 
       const response = await request(app)
-        .get('/api/users/Alice/wagers')
+        .get(`/api/users/Alice/wagers?partyId=${activeParty.id}`)
         .expect(200);
 
       expect(response.body.userName).toBe('Alice');
@@ -546,7 +1133,7 @@ describe('Wagers API', () => {
       expect(response.body.wagers[0].amount).toBe(50);
     });
 
-    it('should handle multiple bets in active party', async () => {
+    it('should handle multiple bets at the party', async () => {
       // Create second bet
       const [bet2] = await db.insert(bets).values({
         partyId: activeParty.id,
@@ -570,20 +1157,20 @@ describe('Wagers API', () => {
           betId: testBet.id,
           optionId: option1.id,
           userName: 'Alice',
-          amount: 50,
+          amount: 5000,
           createdAt: new Date().toISOString()
         },
         {
           betId: bet2.id,
           optionId: bet2Option.id,
           userName: 'Alice',
-          amount: 75,
+          amount: 7500,
           createdAt: new Date().toISOString()
         }
       ]);
 
       const response = await request(app)
-        .get('/api/users/Alice/wagers')
+        .get(`/api/users/Alice/wagers?partyId=${activeParty.id}`)
         .expect(200);
 
       expect(response.body.wagers).toHaveLength(2);
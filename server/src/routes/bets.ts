@@ -1,94 +1,153 @@
 import { Router, Request, Response } from 'express';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, inArray } from 'drizzle-orm';
 import { db } from '../db/index.js';
-import { parties, bets, betOptions, wagers, settlements } from '../db/schema.js';
-import { createBetSchema, settleBetSchema, closeBetSchema, formatZodError } from '../validation/schemas.js';
-import { calculatePayouts } from '../utils/payout-calculator.js';
+import { bets, betOptions, wagers, settlements, auditLog, archivedSettlements, guests, type Bet, type BetOption, type Wager } from '../db/schema.js';
+import {
+  createBetSchema,
+  settleBetSchema,
+  closeBetSchema,
+  unsettleBetSchema,
+  voidBetSchema,
+  partyQuerySchema,
+  betStatusFilterSchema,
+  formatZodError
+} from '../validation/schemas.js';
+import {
+  calculatePayouts,
+  calculateRefunds,
+  calculateClosestGuessPayouts,
+  resolveOverUnder
+} from '../utils/payout-calculator.js';
+import { calculateFixedOddsPayouts } from '../utils/fixed-odds-calculator.js';
+import { toCents, toDollars, amountToDollars, settlementToDollars, betToDollars, betStatsToDollars, poolHistoryPointToDollars } from '../utils/money.js';
+import { calculateBetStats, calculatePoolHistory, isBreakdownHidden } from '../utils/option-stats.js';
 import { io } from '../index.js';
 import { emitBetCreated, emitBetUpdated, emitSettlementComplete } from '../websocket/events.js';
+import { isSameGuestName } from '../utils/guest-names.js';
+import { resolveGuest, resolveWagerGuests, checkGuestPin } from '../guests/registry.js';
+import { findParty } from '../parties/lookup.js';
+import { identifyHost, requireHost, canModerate, moderatorActor } from '../auth/middleware.js';
 
 const router = Router();
 
 /**
- * GET /api/bets
- * List bets for active party (filterable by status)
+ * Check whether a request comes from the bet's creator: the name has to match,
+ * and so does the creator's PIN if they claimed their name
  */
-router.get('/', async (req: Request, res: Response) => {
-  try {
-    const status = req.query.status as string | undefined;
+function isBetCreator(bet: Bet, body: { createdBy?: unknown; guestPin?: unknown }): boolean {
+  if (typeof body.createdBy !== 'string' || !isSameGuestName(body.createdBy, bet.createdBy)) {
+    return false;
+  }
 
-    // Get active party
-    const [activeParty] = await db
-      .select()
-      .from(parties)
-      .where(eq(parties.status, 'active'));
+  if (bet.creatorGuestId === null) {
+    return true;
+  }
 
-    if (!activeParty) {
-      return res.json([]);
-    }
+  const creator = db.select().from(guests).where(eq(guests.id, bet.creatorGuestId)).get();
+  if (!creator?.pinHash) {
+    return true;
+  }
 
-    // Build query
-    let query = db
-      .select()
-      .from(bets)
-      .where(eq(bets.partyId, activeParty.id));
-
-    // Apply status filter if provided
-    if (status && ['open', 'closed', 'settled'].includes(status)) {
-      const existingBets = await query;
-      const filteredBets = existingBets.filter(bet => bet.status === status);
-
-      // Get options and wagers for each bet
-      const betsWithDetails = await Promise.all(
-        filteredBets.map(async (bet) => {
-          const options = await db
-            .select()
-            .from(betOptions)
-            .where(eq(betOptions.betId, bet.id));
-
-          const betWagers = await db
-            .select()
-            .from(wagers)
-            .where(eq(wagers.betId, bet.id));
-
-          const totalPool = betWagers.reduce((sum, w) => sum + w.amount, 0);
-
-          return {
-            ...bet,
-            options,
-            wagers: betWagers,
-            totalPool
-          };
-        })
-      );
+  return typeof body.guestPin === 'string' && checkGuestPin(creator, body.guestPin).ok;
+}
 
-      return res.json(betsWithDetails);
+/**
+ * The wagers and pool breakdown a bet shows - just the totals while a blind bet is open
+ */
+function visibleWagersAndStats(bet: Bet, options: BetOption[], betWagers: Wager[]) {
+  const stats = calculateBetStats(bet.type, options, betWagers);
+
+  if (isBreakdownHidden(bet)) {
+    return { wagers: [], ...betStatsToDollars({ ...stats, optionStats: [] }) };
+  }
+
+  return { wagers: betWagers.map(amountToDollars), ...betStatsToDollars(stats) };
+}
+
+/**
+ * Attach options, wagers and the pool breakdown to each bet
+ * Loads the options and wagers for all the bets in one query each, rather than two per bet
+ */
+async function withOptionsAndWagers(betList: Bet[]) {
+  if (betList.length === 0) {
+    return [];
+  }
+
+  const betIds = betList.map(bet => bet.id);
+
+  const allOptions = await db
+    .select()
+    .from(betOptions)
+    .where(inArray(betOptions.betId, betIds))
+    .orderBy(betOptions.id);
+
+  const allWagers = await db
+    .select()
+    .from(wagers)
+    .where(inArray(wagers.betId, betIds))
+    .orderBy(wagers.id);
+
+  const optionsByBet = groupByBetId(allOptions);
+  const wagersByBet = groupByBetId(allWagers);
+
+  return betList.map(bet => {
+    const options = optionsByBet.get(bet.id) ?? [];
+
+    return {
+      ...betToDollars(bet),
+      options,
+      ...visibleWagersAndStats(bet, options, wagersByBet.get(bet.id) ?? [])
+    };
+  });
+}
+
+/**
+ * Group rows by the bet they belong to, keeping their order within each bet
+ */
+function groupByBetId<T extends { betId: number }>(rows: T[]): Map<number, T[]> {
+  const grouped = new Map<number, T[]>();
+  for (const row of rows) {
+    const group = grouped.get(row.betId);
+    if (group) {
+      group.push(row);
+    } else {
+      grouped.set(row.betId, [row]);
     }
+  }
+  return grouped;
+}
 
-    // Return all bets for active party
-    const allBets = await query;
-    const betsWithDetails = await Promise.all(
-      allBets.map(async (bet) => {
-        const options = await db
-          .select()
-          .from(betOptions)
-          .where(eq(betOptions.betId, bet.id));
+/**
+ * GET /api/bets?partyId= (or ?joinCode=)
+ * List a party's bets (filterable by status)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    // Validate input
+    const validation = partyQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
 
-        const betWagers = await db
-          .select()
-          .from(wagers)
-          .where(eq(wagers.betId, bet.id));
+    const party = findParty(db, validation.data);
+
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found' });
+    }
 
-        const totalPool = betWagers.reduce((sum, w) => sum + w.amount, 0);
+    // Apply status filter if provided - an unknown status lists every bet
+    const status = betStatusFilterSchema.safeParse(req.query.status);
+    const statusFilter = status.success && status.data ? eq(bets.status, status.data) : undefined;
 
-        return {
-          ...bet,
-          options,
-          wagers: betWagers,
-          totalPool
-        };
-      })
-    );
+    const partyBets = await db
+      .select()
+      .from(bets)
+      .where(and(eq(bets.partyId, party.id), statusFilter));
+
+    const betsWithDetails = await withOptionsAndWagers(partyBets);
 
     res.json(betsWithDetails);
   } catch (error) {
@@ -130,8 +189,6 @@ router.get('/:id', async (req: Request, res: Response) => {
       .from(wagers)
       .where(eq(wagers.betId, betId));
 
-    const totalPool = betWagers.reduce((sum, w) => sum + w.amount, 0);
-
     // If settled, get settlements
     let betSettlements: typeof settlements.$inferSelect[] = [];
     if (bet.status === 'settled') {
@@ -142,11 +199,10 @@ router.get('/:id', async (req: Request, res: Response) => {
     }
 
     res.json({
-      ...bet,
+      ...betToDollars(bet),
       options,
-      wagers: betWagers,
-      totalPool,
-      settlements: betSettlements
+      ...visibleWagersAndStats(bet, options, betWagers),
+      settlements: betSettlements.map(settlementToDollars)
     });
   } catch (error) {
     console.error('Error fetching bet:', error);
@@ -156,7 +212,7 @@ router.get('/:id', async (req: Request, res: Response) => {
 
 /**
  * POST /api/bets
- * Create bet with options
+ * Create bet with options at an active party
  */
 router.post('/', async (req: Request, res: Response) => {
   try {
@@ -169,41 +225,57 @@ router.post('/', async (req: Request, res: Response) => {
       });
     }
 
-    const { type, question, createdBy, options: optionLabels } = validation.data;
+    const { type, question, createdBy, guestPin, odds, maxExposure, line, guessRule, closesAt, blind } = validation.data;
 
-    // Get active party
-    const [activeParty] = await db
-      .select()
-      .from(parties)
-      .where(eq(parties.status, 'active'));
+    // Over/under sides are always labelled the same way so settlement can find them
+    const optionLabels = type === 'over_under' ? ['Over', 'Under'] : validation.data.options;
 
-    if (!activeParty) {
-      return res.status(400).json({
-        error: 'No active party. Please create a party first.'
-      });
+    const party = findParty(db, validation.data);
+
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found' });
+    }
+
+    if (party.status !== 'active') {
+      return res.status(400).json({ error: 'Bets can only be created at an active party' });
+    }
+
+    // Put the bet under the creator on the party's roster (checking their PIN if they claimed the name)
+    const resolved = db.transaction((tx) => resolveGuest(tx, party.id, createdBy, guestPin));
+    if ('error' in resolved) {
+      return res.status(401).json({ error: resolved.error });
     }
+    const { guest: creator } = resolved;
 
     // Create bet and options in a transaction
     const [newBet] = await db
       .insert(bets)
       .values({
-        partyId: activeParty.id,
+        partyId: party.id,
         type,
         question,
-        createdBy,
+        createdBy: creator.name,
+        creatorGuestId: creator.id,
         status: 'open',
+        maxExposure: maxExposure !== undefined ? toCents(maxExposure) : null,
+        line: line ?? null,
+        guessRule: type === 'closest_guess' ? guessRule ?? 'closest' : null,
+        closesAt: closesAt ? new Date(closesAt).toISOString() : null, // Normalised so the scheduler can compare strings
+        blind: blind ?? false,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       })
       .returning();
 
-    // Create bet options
-    const newOptions = await db
+    // Create bet options (closest-guess bets have none)
+    const newOptions = optionLabels.length === 0 ? [] : await db
       .insert(betOptions)
       .values(
-        optionLabels.map(label => ({
+        optionLabels.map((label, index) => ({
           betId: newBet.id,
           label,
+          oddsNumerator: odds?.[index].numerator ?? null,
+          oddsDenominator: odds?.[index].denominator ?? null,
           createdAt: new Date().toISOString()
         }))
       )
@@ -211,7 +283,7 @@ router.post('/', async (req: Request, res: Response) => {
 
     // Emit WebSocket event
     if (process.env.NODE_ENV !== 'test') {
-      emitBetCreated(io, activeParty.id, {
+      emitBetCreated(io, party.id, {
         id: newBet.id,
         partyId: newBet.partyId,
         title: newBet.question,
@@ -221,10 +293,9 @@ router.post('/', async (req: Request, res: Response) => {
     }
 
     res.status(201).json({
-      ...newBet,
+      ...betToDollars(newBet),
       options: newOptions,
-      wagers: [],
-      totalPool: 0
+      ...visibleWagersAndStats(newBet, newOptions, [])
     });
   } catch (error) {
     console.error('Error creating bet:', error);
@@ -234,9 +305,9 @@ router.post('/', async (req: Request, res: Response) => {
 
 /**
  * POST /api/bets/:id/close
- * Close betting (requires PIN or creator match)
+ * Close betting (host, a co-host of the party, or creator match)
  */
-router.post('/:id/close', async (req: Request, res: Response) => {
+router.post('/:id/close', identifyHost, async (req: Request, res: Response) => {
   try {
     const betId = parseInt(req.params.id);
 
@@ -268,28 +339,49 @@ router.post('/:id/close', async (req: Request, res: Response) => {
       });
     }
 
-    // Verify authorization
-    const hostPin = req.body.hostPin;
-    const expectedPin = process.env.HOST_PIN;
-
-    const isHost = hostPin && hostPin === expectedPin;
-    const isCreator = req.body.createdBy === bet.createdBy;
+    // Verify authorization - the host, a co-host of this party or the bet's creator
+    const isModerator = canModerate(res, bet.partyId);
+    const isCreator = isBetCreator(bet, req.body);
 
-    if (!isHost && !isCreator) {
+    if (!isModerator && !isCreator) {
       return res.status(403).json({
-        error: 'Unauthorized. Only the host or bet creator can close this bet.'
+        error: 'Unauthorized. Only the host, a co-host or the bet creator can close this bet.'
       });
     }
 
-    // Close the bet
-    const [closedBet] = await db
-      .update(bets)
-      .set({
-        status: 'closed',
-        updatedAt: new Date().toISOString()
-      })
-      .where(eq(bets.id, betId))
-      .returning();
+    // Close the bet - only transitions from 'open', so a concurrent close is a no-op
+    const closedBet = db.transaction((tx) => {
+      const updatedBet = tx
+        .update(bets)
+        .set({
+          status: 'closed',
+          updatedAt: new Date().toISOString()
+        })
+        .where(and(
+          eq(bets.id, betId),
+          eq(bets.status, 'open')
+        ))
+        .returning()
+        .get();
+
+      if (updatedBet) {
+        tx.insert(auditLog).values({
+          partyId: updatedBet.partyId,
+          betId,
+          action: 'close',
+          actor: isModerator ? moderatorActor(res) : bet.createdBy,
+          createdAt: new Date().toISOString()
+        }).run();
+      }
+
+      return updatedBet;
+    });
+
+    if (!closedBet) {
+      return res.status(409).json({
+        error: 'Bet was already closed by another request'
+      });
+    }
 
     // Emit WebSocket event
     if (process.env.NODE_ENV !== 'test') {
@@ -307,7 +399,7 @@ router.post('/:id/close', async (req: Request, res: Response) => {
       .where(eq(betOptions.betId, betId));
 
     res.json({
-      ...closedBet,
+      ...betToDollars(closedBet),
       options
     });
   } catch (error) {
@@ -318,9 +410,9 @@ router.post('/:id/close', async (req: Request, res: Response) => {
 
 /**
  * POST /api/bets/:id/settle
- * Settle bet and calculate payouts (requires PIN or creator match)
+ * Settle bet and calculate payouts (host, a co-host of the party, or creator match)
  */
-router.post('/:id/settle', async (req: Request, res: Response) => {
+router.post('/:id/settle', identifyHost, async (req: Request, res: Response) => {
   try {
     const betId = parseInt(req.params.id);
 
@@ -337,7 +429,7 @@ router.post('/:id/settle', async (req: Request, res: Response) => {
       });
     }
 
-    const { winningOptionId, hostPin } = validation.data;
+    const { result: finalResult } = validation.data;
 
     const [bet] = await db
       .select()
@@ -358,72 +450,186 @@ router.post('/:id/settle', async (req: Request, res: Response) => {
       });
     }
 
-    // Verify winning option exists
-    const [winningOption] = await db
-      .select()
-      .from(betOptions)
-      .where(and(
-        eq(betOptions.id, winningOptionId),
-        eq(betOptions.betId, betId)
-      ));
-
-    if (!winningOption) {
+    if (bet.status !== 'closed') {
       return res.status(400).json({
-        error: 'Invalid winning option ID for this bet'
+        error: `Cannot settle bet. Current status: ${bet.status}`
       });
     }
 
-    // Verify authorization
-    const expectedPin = process.env.HOST_PIN;
-    const isHost = hostPin && hostPin === expectedPin;
-    const isCreator = req.body.createdBy === bet.createdBy;
+    // Over/under and closest-guess bets are settled from the final numeric result
+    // (an over/under push has no winning option; closest-guess bets have no options at all);
+    // every other type names its winning options
+    const isResultBet = bet.type === 'over_under' || bet.type === 'closest_guess';
+    let winningOptionIds: number[] = [];
+
+    if (isResultBet) {
+      if (finalResult === undefined) {
+        return res.status(400).json({
+          error: `${bet.type === 'over_under' ? 'Over/under' : 'Closest-guess'} bets are settled with the final result`
+        });
+      }
+    }
 
-    if (!isHost && !isCreator) {
+    if (bet.type === 'over_under') {
+      const outcome = resolveOverUnder(bet.line!, finalResult!);
+      const sideOptions = await db
+        .select()
+        .from(betOptions)
+        .where(eq(betOptions.betId, betId));
+
+      winningOptionIds = sideOptions
+        .filter(option => option.label.toLowerCase() === outcome)
+        .map(option => option.id);
+    } else if (!isResultBet) {
+      if (validation.data.winningOptionId === undefined && validation.data.winningOptionIds === undefined) {
+        return res.status(400).json({
+          error: 'Either winningOptionId or winningOptionIds is required'
+        });
+      }
+
+      winningOptionIds = Array.from(
+        new Set(validation.data.winningOptionIds ?? [validation.data.winningOptionId!])
+      );
+
+      // Verify winning options exist
+      const winningOptions = await db
+        .select()
+        .from(betOptions)
+        .where(and(
+          inArray(betOptions.id, winningOptionIds),
+          eq(betOptions.betId, betId)
+        ));
+
+      if (winningOptions.length !== winningOptionIds.length) {
+        return res.status(400).json({
+          error: 'Invalid winning option ID for this bet'
+        });
+      }
+    }
+
+    const winningOptionId = winningOptionIds[0] ?? null;
+
+    // Verify authorization - the host, a co-host of this party or the bet's creator
+    const isModerator = canModerate(res, bet.partyId);
+    const isCreator = isBetCreator(bet, req.body);
+
+    if (!isModerator && !isCreator) {
       return res.status(403).json({
-        error: 'Unauthorized. Only the host or bet creator can settle this bet.'
+        error: 'Unauthorized. Only the host, a co-host or the bet creator can settle this bet.'
       });
     }
 
-    // Get all wagers for this bet
-    const betWagers = await db
-      .select()
-      .from(wagers)
-      .where(eq(wagers.betId, betId));
+    // Fixed-odds bets always split several winners as a dead heat, so the bank's
+    // loss stays within the single-winner exposure it agreed to
+    const splitMode = bet.type === 'fixed_odds' && winningOptionIds.length > 1
+      ? 'dead_heat'
+      : validation.data.splitMode;
+
+    // Settle in a single transaction: the conditional status update claims the bet,
+    // so a concurrent settle finds nothing to update and no settlements are written twice
+    const result = db.transaction((tx) => {
+      const settledBet = tx
+        .update(bets)
+        .set({
+          status: 'settled',
+          winningOptionId,
+          winningOptionIds,
+          splitMode,
+          result: isResultBet ? finalResult : null,
+          updatedAt: new Date().toISOString()
+        })
+        .where(and(
+          eq(bets.id, betId),
+          eq(bets.status, 'closed')
+        ))
+        .returning()
+        .get();
+
+      if (!settledBet) {
+        return null;
+      }
+
+      // Get all wagers for this bet, each under the guest who placed it
+      const betWagers = resolveWagerGuests(tx, bet.partyId, tx
+        .select()
+        .from(wagers)
+        .where(eq(wagers.betId, betId))
+        .all());
 
-    // Calculate payouts
-    const payoutResults = calculatePayouts(
-      betWagers.map(w => ({
+      const userWagers = betWagers.map(w => ({
         userName: w.userName,
-        optionId: w.optionId,
+        optionId: w.optionId!,
         amount: w.amount
-      })),
-      winningOptionId
-    );
-
-    // Insert settlements
-    if (payoutResults.length > 0) {
-      await db.insert(settlements).values(
-        payoutResults.map(result => ({
-          betId,
-          userName: result.userName,
-          totalWagered: result.totalWagered,
-          payout: result.payout,
-          netWinLoss: result.netWinLoss,
-          createdAt: new Date().toISOString()
-        }))
-      );
+      }));
+
+      // Calculate payouts - on fixed-odds bets the creator is the bank
+      let payoutResults;
+      if (bet.type === 'closest_guess') {
+        payoutResults = calculateClosestGuessPayouts(
+          betWagers.map(w => ({ userName: w.userName, guess: w.guess!, amount: w.amount })),
+          finalResult!,
+          bet.guessRule ?? 'closest'
+        );
+      } else if (bet.type === 'fixed_odds') {
+        const odds = tx
+          .select()
+          .from(betOptions)
+          .where(eq(betOptions.betId, betId))
+          .all()
+          .map(option => ({
+            optionId: option.id,
+            numerator: option.oddsNumerator!,
+            denominator: option.oddsDenominator!
+          }));
+
+        payoutResults = calculateFixedOddsPayouts(userWagers, winningOptionIds, odds, bet.createdBy);
+      } else {
+        payoutResults = calculatePayouts(userWagers, winningOptionIds, splitMode);
+      }
+
+      // Insert settlements (the bank on a fixed-odds bet may not have wagered at all)
+      const guestIds = new Map(betWagers.map(w => [w.userName, w.guestId]));
+      if (bet.creatorGuestId !== null && !guestIds.has(bet.createdBy)) {
+        guestIds.set(bet.createdBy, bet.creatorGuestId);
+      }
+      if (payoutResults.length > 0) {
+        tx.insert(settlements).values(
+          payoutResults.map(result => ({
+            betId,
+            userName: result.userName,
+            guestId: guestIds.get(result.userName) ?? null,
+            totalWagered: result.totalWagered,
+            payout: result.payout,
+            netWinLoss: result.netWinLoss,
+            createdAt: new Date().toISOString()
+          }))
+        ).run();
+      }
+
+      tx.insert(auditLog).values({
+        partyId: settledBet.partyId,
+        betId,
+        action: 'settle',
+        actor: isModerator ? moderatorActor(res) : bet.createdBy,
+        details: JSON.stringify({
+          winningOptionIds,
+          splitMode,
+          ...(bet.type === 'over_under' && { line: bet.line, result: finalResult }),
+          ...(bet.type === 'closest_guess' && { result: finalResult, guessRule: bet.guessRule })
+        }),
+        createdAt: new Date().toISOString()
+      }).run();
+
+      return { settledBet, payoutResults };
+    });
+
+    if (!result) {
+      return res.status(409).json({
+        error: 'Bet was settled or voided by another request'
+      });
     }
 
-    // Update bet status to settled
-    const [settledBet] = await db
-      .update(bets)
-      .set({
-        status: 'settled',
-        winningOptionId,
-        updatedAt: new Date().toISOString()
-      })
-      .where(eq(bets.id, betId))
-      .returning();
+    const { settledBet, payoutResults } = result;
 
     // Emit WebSocket events
     if (process.env.NODE_ENV !== 'test') {
@@ -438,9 +644,10 @@ router.post('/:id/settle', async (req: Request, res: Response) => {
         betId: settledBet.id,
         partyId: settledBet.partyId,
         winningOptionId,
+        winningOptionIds,
         settlements: payoutResults.map(r => ({
           userName: r.userName,
-          amount: r.netWinLoss
+          amount: toDollars(r.netWinLoss)
         }))
       });
     }
@@ -452,9 +659,9 @@ router.post('/:id/settle', async (req: Request, res: Response) => {
       .where(eq(betOptions.betId, betId));
 
     res.json({
-      ...settledBet,
+      ...betToDollars(settledBet),
       options,
-      settlements: payoutResults
+      settlements: payoutResults.map(settlementToDollars)
     });
   } catch (error) {
     console.error('Error settling bet:', error);
@@ -462,4 +669,376 @@ router.post('/:id/settle', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/bets/:id/unsettle
+ * Revert a settled bet to closed so it can be settled again (requires host PIN)
+ * Existing settlements are moved to archived_settlements, never deleted outright
+ */
+router.post('/:id/unsettle', requireHost, async (req: Request, res: Response) => {
+  try {
+    const betId = parseInt(req.params.id);
+
+    if (isNaN(betId)) {
+      return res.status(400).json({ error: 'Invalid bet ID' });
+    }
+
+    // Validate input
+    const validation = unsettleBetSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const { reason } = validation.data;
+
+    const [bet] = await db
+      .select()
+      .from(bets)
+      .where(eq(bets.id, betId));
+
+    if (!bet) {
+      return res.status(404).json({ error: 'Bet not found' });
+    }
+
+    if (bet.status !== 'settled') {
+      return res.status(400).json({
+        error: `Cannot unsettle bet. Current status: ${bet.status}`
+      });
+    }
+
+    const unsettledBet = db.transaction((tx) => {
+      const updatedBet = tx
+        .update(bets)
+        .set({
+          status: 'closed',
+          winningOptionId: null,
+          winningOptionIds: null,
+          splitMode: null,
+          result: null,
+          updatedAt: new Date().toISOString()
+        })
+        .where(and(
+          eq(bets.id, betId),
+          eq(bets.status, 'settled')
+        ))
+        .returning()
+        .get();
+
+      if (!updatedBet) {
+        return null;
+      }
+
+      const oldSettlements = tx
+        .select()
+        .from(settlements)
+        .where(eq(settlements.betId, betId))
+        .all();
+
+      const entry = tx.insert(auditLog).values({
+        partyId: updatedBet.partyId,
+        betId,
+        action: 'unsettle',
+        actor: 'host',
+        details: JSON.stringify({
+          previousWinningOptionIds: bet.winningOptionIds,
+          ...(bet.result !== null && { previousResult: bet.result }),
+          archivedSettlements: oldSettlements.length,
+          reason: reason ?? null
+        }),
+        createdAt: new Date().toISOString()
+      }).returning().get();
+
+      // Move settlements aside so the bet can be settled again
+      if (oldSettlements.length > 0) {
+        tx.insert(archivedSettlements).values(
+          oldSettlements.map(settlement => ({
+            settlementId: settlement.id,
+            betId,
+            auditLogId: entry.id,
+            userName: settlement.userName,
+            guestId: settlement.guestId,
+            totalWagered: settlement.totalWagered,
+            payout: settlement.payout,
+            netWinLoss: settlement.netWinLoss,
+            createdAt: settlement.createdAt,
+            archivedAt: new Date().toISOString()
+          }))
+        ).run();
+
+        tx.delete(settlements).where(eq(settlements.betId, betId)).run();
+      }
+
+      return updatedBet;
+    });
+
+    if (!unsettledBet) {
+      return res.status(409).json({
+        error: 'Bet was already unsettled by another request'
+      });
+    }
+
+    // Emit WebSocket event so clients roll back the settled view
+    if (process.env.NODE_ENV !== 'test') {
+      emitBetUpdated(io, bet.partyId, {
+        id: unsettledBet.id,
+        partyId: unsettledBet.partyId,
+        status: unsettledBet.status
+      });
+    }
+
+    // Get options for response
+    const options = await db
+      .select()
+      .from(betOptions)
+      .where(eq(betOptions.betId, betId));
+
+    res.json({
+      ...betToDollars(unsettledBet),
+      options
+    });
+  } catch (error) {
+    console.error('Error unsettling bet:', error);
+    res.status(500).json({ error: 'Failed to unsettle bet' });
+  }
+});
+
+/**
+ * POST /api/bets/:id/void
+ * Cancel a bet and refund every wager (requires PIN or creator match)
+ * Writes zero-net settlements so refunds show up alongside regular payouts
+ */
+router.post('/:id/void', identifyHost, async (req: Request, res: Response) => {
+  try {
+    const betId = parseInt(req.params.id);
+
+    if (isNaN(betId)) {
+      return res.status(400).json({ error: 'Invalid bet ID' });
+    }
+
+    // Validate input
+    const validation = voidBetSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const { reason } = validation.data;
+
+    const [bet] = await db
+      .select()
+      .from(bets)
+      .where(eq(bets.id, betId));
+
+    if (!bet) {
+      return res.status(404).json({ error: 'Bet not found' });
+    }
+
+    if (bet.status !== 'open' && bet.status !== 'closed') {
+      return res.status(400).json({
+        error: `Cannot void bet. Current status: ${bet.status}`
+      });
+    }
+
+    // Verify authorization
+    const isHost = res.locals.isHost;
+    const isCreator = isBetCreator(bet, validation.data);
+
+    if (!isHost && !isCreator) {
+      return res.status(403).json({
+        error: 'Unauthorized. Only the host or bet creator can void this bet.'
+      });
+    }
+
+    // Void the bet and write refunds atomically - only transitions from the status we just read
+    const result = db.transaction((tx) => {
+      const updatedBet = tx
+        .update(bets)
+        .set({
+          status: 'void',
+          updatedAt: new Date().toISOString()
+        })
+        .where(and(
+          eq(bets.id, betId),
+          eq(bets.status, bet.status)
+        ))
+        .returning()
+        .get();
+
+      if (!updatedBet) {
+        return null;
+      }
+
+      // Read wagers inside the transaction so a late wager is refunded too
+      const betWagers = resolveWagerGuests(tx, bet.partyId, tx
+        .select()
+        .from(wagers)
+        .where(eq(wagers.betId, betId))
+        .all());
+
+      const refunds = calculateRefunds(betWagers);
+      const guestIds = new Map(betWagers.map(w => [w.userName, w.guestId]));
+
+      if (refunds.length > 0) {
+        tx.insert(settlements).values(
+          refunds.map(refund => ({
+            betId,
+            userName: refund.userName,
+            guestId: guestIds.get(refund.userName) ?? null,
+            totalWagered: refund.totalWagered,
+            payout: refund.payout,
+            netWinLoss: refund.netWinLoss,
+            createdAt: new Date().toISOString()
+          }))
+        ).run();
+      }
+
+      tx.insert(auditLog).values({
+        partyId: updatedBet.partyId,
+        betId,
+        action: 'void',
+        actor: isHost ? 'host' : bet.createdBy,
+        details: JSON.stringify({
+          previousStatus: bet.status,
+          refunds: refunds.length,
+          reason: reason ?? null
+        }),
+        createdAt: new Date().toISOString()
+      }).run();
+
+      return { voidedBet: updatedBet, refunds };
+    });
+
+    if (!result) {
+      return res.status(409).json({
+        error: 'Bet was already changed by another request'
+      });
+    }
+
+    const { voidedBet, refunds } = result;
+
+    // Emit WebSocket event
+    if (process.env.NODE_ENV !== 'test') {
+      emitBetUpdated(io, bet.partyId, {
+        id: voidedBet.id,
+        partyId: voidedBet.partyId,
+        status: voidedBet.status
+      });
+    }
+
+    // Get options for response
+    const options = await db
+      .select()
+      .from(betOptions)
+      .where(eq(betOptions.betId, betId));
+
+    res.json({
+      ...betToDollars(voidedBet),
+      options,
+      refunds: refunds.map(settlementToDollars)
+    });
+  } catch (error) {
+    console.error('Error voiding bet:', error);
+    res.status(500).json({ error: 'Failed to void bet' });
+  }
+});
+
+/**
+ * GET /api/bets/:id/pool-history
+ * Get the cumulative pool and implied payout multiplier per option after each wager, oldest first
+ */
+router.get('/:id/pool-history', async (req: Request, res: Response) => {
+  try {
+    const betId = parseInt(req.params.id);
+
+    if (isNaN(betId)) {
+      return res.status(400).json({ error: 'Invalid bet ID' });
+    }
+
+    const [bet] = await db
+      .select()
+      .from(bets)
+      .where(eq(bets.id, betId));
+
+    if (!bet) {
+      return res.status(404).json({ error: 'Bet not found' });
+    }
+
+    const options = await db
+      .select()
+      .from(betOptions)
+      .where(eq(betOptions.betId, betId))
+      .orderBy(betOptions.id);
+
+    const betWagers = await db
+      .select()
+      .from(wagers)
+      .where(eq(wagers.betId, betId));
+
+    // A blind bet's history would give away the breakdown, so it stays empty until the bet closes
+    res.json({
+      betId,
+      points: isBreakdownHidden(bet)
+        ? []
+        : calculatePoolHistory(bet.type, options, betWagers).map(poolHistoryPointToDollars)
+    });
+  } catch (error) {
+    console.error('Error fetching pool history:', error);
+    res.status(500).json({ error: 'Failed to fetch pool history' });
+  }
+});
+
+/**
+ * GET /api/bets/:id/history
+ * Get the audit trail for a bet, including settlements archived by un-settling
+ */
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const betId = parseInt(req.params.id);
+
+    if (isNaN(betId)) {
+      return res.status(400).json({ error: 'Invalid bet ID' });
+    }
+
+    const [bet] = await db
+      .select()
+      .from(bets)
+      .where(eq(bets.id, betId));
+
+    if (!bet) {
+      return res.status(404).json({ error: 'Bet not found' });
+    }
+
+    // Cancelled wagers name the guest, option and amount, so a blind bet keeps them back until it closes
+    const entries = (await db
+      .select()
+      .from(auditLog)
+      .where(eq(auditLog.betId, betId))
+      .orderBy(auditLog.id))
+      .filter(entry => !(isBreakdownHidden(bet) && entry.action === 'cancel_wager'));
+
+    const archived = await db
+      .select()
+      .from(archivedSettlements)
+      .where(eq(archivedSettlements.betId, betId));
+
+    res.json({
+      betId,
+      entries: entries.map(entry => ({
+        ...entry,
+        details: entry.details ? JSON.parse(entry.details) : null,
+        archivedSettlements: archived
+          .filter(a => a.auditLogId === entry.id)
+          .map(settlementToDollars)
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching bet history:', error);
+    res.status(500).json({ error: 'Failed to fetch bet history' });
+  }
+});
+
 export default router;
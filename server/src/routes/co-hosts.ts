@@ -0,0 +1,116 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, asc } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { parties, coHosts } from '../db/schema.js';
+import { createCoHostSchema, formatZodError } from '../validation/schemas.js';
+import { requireHost } from '../auth/middleware.js';
+import { mintCoHost, revokeCoHost, toPublicCoHost } from '../auth/co-hosts.js';
+
+const router = Router();
+
+/**
+ * GET /api/parties/:id/co-hosts
+ * List a party's co-host codes, revoked ones included (host only)
+ */
+router.get('/:id/co-hosts', requireHost, async (req: Request, res: Response) => {
+  try {
+    const partyId = parseInt(req.params.id);
+
+    if (isNaN(partyId)) {
+      return res.status(400).json({ error: 'Invalid party ID' });
+    }
+
+    const partyCoHosts = await db
+      .select()
+      .from(coHosts)
+      .where(eq(coHosts.partyId, partyId))
+      .orderBy(asc(coHosts.id));
+
+    res.json(partyCoHosts.map(toPublicCoHost));
+  } catch (error) {
+    console.error('Error fetching co-hosts:', error);
+    res.status(500).json({ error: 'Failed to fetch co-hosts' });
+  }
+});
+
+/**
+ * POST /api/parties/:id/co-hosts
+ * Mint a co-host code for a party (host only)
+ * The response is the only time the code is shown
+ */
+router.post('/:id/co-hosts', requireHost, async (req: Request, res: Response) => {
+  try {
+    const partyId = parseInt(req.params.id);
+
+    if (isNaN(partyId)) {
+      return res.status(400).json({ error: 'Invalid party ID' });
+    }
+
+    // Validate input
+    const validation = createCoHostSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const [party] = await db
+      .select()
+      .from(parties)
+      .where(eq(parties.id, partyId));
+
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found' });
+    }
+
+    if (party.status !== 'active') {
+      return res.status(400).json({ error: 'Co-hosts can only be added to an active party' });
+    }
+
+    const { coHost, code } = mintCoHost(partyId, validation.data.label);
+
+    res.status(201).json({ ...toPublicCoHost(coHost), code });
+  } catch (error) {
+    console.error('Error creating co-host:', error);
+    res.status(500).json({ error: 'Failed to create co-host' });
+  }
+});
+
+/**
+ * DELETE /api/parties/:id/co-hosts/:coHostId
+ * Revoke a co-host code, signing out anyone using it (host only)
+ */
+router.delete('/:id/co-hosts/:coHostId', requireHost, async (req: Request, res: Response) => {
+  try {
+    const partyId = parseInt(req.params.id);
+    const coHostId = parseInt(req.params.coHostId);
+
+    if (isNaN(partyId) || isNaN(coHostId)) {
+      return res.status(400).json({ error: 'Invalid party or co-host ID' });
+    }
+
+    const [coHost] = await db
+      .select()
+      .from(coHosts)
+      .where(and(
+        eq(coHosts.id, coHostId),
+        eq(coHosts.partyId, partyId)
+      ));
+
+    if (!coHost) {
+      return res.status(404).json({ error: 'Co-host not found' });
+    }
+
+    if (coHost.revokedAt) {
+      return res.status(400).json({ error: 'Co-host code is already revoked' });
+    }
+
+    res.json(toPublicCoHost(revokeCoHost(coHostId)));
+  } catch (error) {
+    console.error('Error revoking co-host:', error);
+    res.status(500).json({ error: 'Failed to revoke co-host' });
+  }
+});
+
+export default router;
@@ -0,0 +1,258 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, isNull, asc } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { parties, guests, type Guest } from '../db/schema.js';
+import { joinPartySchema, guestPinInputSchema, formatZodError } from '../validation/schemas.js';
+import { io } from '../index.js';
+import { emitGuestUpdated } from '../websocket/events.js';
+import { hashPin } from '../utils/pin.js';
+import { findGuest, resolveGuest, toPublicGuest, checkGuestPin } from '../guests/registry.js';
+
+const router = Router();
+
+/**
+ * Let everyone at the party know the roster changed
+ */
+function announceGuest(guest: Guest) {
+  if (process.env.NODE_ENV !== 'test') {
+    emitGuestUpdated(io, guest.partyId, {
+      id: guest.id,
+      partyId: guest.partyId,
+      name: guest.name,
+      hasPin: guest.pinHash !== null
+    });
+  }
+}
+
+/**
+ * Parse party and guest IDs from the route, returning null if either is invalid
+ */
+function parseIds(req: Request): { partyId: number; guestId: number } | null {
+  const partyId = parseInt(req.params.id);
+  const guestId = parseInt(req.params.guestId);
+
+  if (isNaN(partyId) || isNaN(guestId)) {
+    return null;
+  }
+
+  return { partyId, guestId };
+}
+
+/**
+ * GET /api/parties/:id/guests
+ * List a party's roster (oldest first, leaving out guests merged into someone else)
+ */
+router.get('/:id/guests', async (req: Request, res: Response) => {
+  try {
+    const partyId = parseInt(req.params.id);
+
+    if (isNaN(partyId)) {
+      return res.status(400).json({ error: 'Invalid party ID' });
+    }
+
+    const [party] = await db
+      .select()
+      .from(parties)
+      .where(eq(parties.id, partyId));
+
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found' });
+    }
+
+    const roster = await db
+      .select()
+      .from(guests)
+      .where(and(
+        eq(guests.partyId, partyId),
+        isNull(guests.mergedIntoGuestId)
+      ))
+      .orderBy(asc(guests.createdAt), asc(guests.id));
+
+    res.json(roster.map(toPublicGuest));
+  } catch (error) {
+    console.error('Error fetching guests:', error);
+    res.status(500).json({ error: 'Failed to fetch guests' });
+  }
+});
+
+/**
+ * POST /api/parties/:id/guests
+ * Join a party under a name. Names are matched ignoring case and spacing, so joining again
+ * (or as "alice" when "Alice" is on the roster) returns the existing guest. A PIN claims the
+ * name; a name that is already claimed needs its PIN.
+ */
+router.post('/:id/guests', async (req: Request, res: Response) => {
+  try {
+    const partyId = parseInt(req.params.id);
+
+    if (isNaN(partyId)) {
+      return res.status(400).json({ error: 'Invalid party ID' });
+    }
+
+    // Validate input
+    const validation = joinPartySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const { name, pin } = validation.data;
+
+    const [party] = await db
+      .select()
+      .from(parties)
+      .where(eq(parties.id, partyId));
+
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found' });
+    }
+
+    if (party.status !== 'active') {
+      return res.status(400).json({ error: 'Cannot join an archived party' });
+    }
+
+    const result = db.transaction((tx) => {
+      const existing = findGuest(tx, partyId, name);
+      const resolved = resolveGuest(tx, partyId, name, pin);
+      if ('error' in resolved) {
+        return resolved;
+      }
+
+      const created = !existing;
+      const { guest } = resolved;
+
+      // Claim the name while joining
+      if (pin && !guest.pinHash) {
+        const claimed = tx
+          .update(guests)
+          .set({ pinHash: hashPin(pin) })
+          .where(eq(guests.id, guest.id))
+          .returning()
+          .get();
+        return { guest: claimed, created, changed: true };
+      }
+
+      return { guest, created, changed: created };
+    });
+
+    if ('error' in result) {
+      return res.status(401).json({ error: result.error });
+    }
+
+    if (result.changed) {
+      announceGuest(result.guest);
+    }
+
+    res.status(result.created ? 201 : 200).json(toPublicGuest(result.guest));
+  } catch (error) {
+    console.error('Error joining party:', error);
+    res.status(500).json({ error: 'Failed to join party' });
+  }
+});
+
+/**
+ * POST /api/parties/:id/guests/:guestId/claim
+ * Protect a guest's name with a PIN (only while the name is unclaimed)
+ */
+router.post('/:id/guests/:guestId/claim', async (req: Request, res: Response) => {
+  try {
+    const ids = parseIds(req);
+
+    if (!ids) {
+      return res.status(400).json({ error: 'Invalid party or guest ID' });
+    }
+
+    // Validate input
+    const validation = guestPinInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const [guest] = await db
+      .select()
+      .from(guests)
+      .where(and(
+        eq(guests.id, ids.guestId),
+        eq(guests.partyId, ids.partyId)
+      ));
+
+    if (!guest) {
+      return res.status(404).json({ error: 'Guest not found' });
+    }
+
+    // Only claim an unclaimed name, so two people can't race for it
+    const [claimed] = await db
+      .update(guests)
+      .set({ pinHash: hashPin(validation.data.pin) })
+      .where(and(
+        eq(guests.id, guest.id),
+        isNull(guests.pinHash)
+      ))
+      .returning();
+
+    if (!claimed) {
+      return res.status(409).json({ error: `${guest.name} is already PIN-protected` });
+    }
+
+    announceGuest(claimed);
+
+    res.json(toPublicGuest(claimed));
+  } catch (error) {
+    console.error('Error claiming guest name:', error);
+    res.status(500).json({ error: 'Failed to claim name' });
+  }
+});
+
+/**
+ * POST /api/parties/:id/guests/:guestId/verify
+ * Check a guest's PIN (e.g. before the client remembers who is playing)
+ * Wrong PINs count toward the guest's lockout, the same as everywhere else the PIN is asked for
+ */
+router.post('/:id/guests/:guestId/verify', async (req: Request, res: Response) => {
+  try {
+    const ids = parseIds(req);
+
+    if (!ids) {
+      return res.status(400).json({ error: 'Invalid party or guest ID' });
+    }
+
+    // Validate input
+    const validation = guestPinInputSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const [guest] = await db
+      .select()
+      .from(guests)
+      .where(and(
+        eq(guests.id, ids.guestId),
+        eq(guests.partyId, ids.partyId)
+      ));
+
+    if (!guest) {
+      return res.status(404).json({ error: 'Guest not found' });
+    }
+
+    // An unclaimed name has no PIN to check
+    const check = checkGuestPin(guest, validation.data.pin);
+    if (!check.ok && check.locked) {
+      return res.status(429).json({ error: check.error });
+    }
+
+    res.json({ valid: check.ok });
+  } catch (error) {
+    console.error('Error verifying guest PIN:', error);
+    res.status(500).json({ error: 'Failed to verify PIN' });
+  }
+});
+
+export default router;
@@ -0,0 +1,158 @@
+import { Router, Request, Response } from 'express';
+import { db } from '../db/index.js';
+import { parties } from '../db/schema.js';
+import { verifyPinSchema, coHostSessionSchema, formatZodError } from '../validation/schemas.js';
+import { isHostConfigured, setupHostPin, checkHostPin, createHostSession, endHostSession } from '../auth/host.js';
+import { getSessionToken } from '../auth/middleware.js';
+import { findCoHostByCode, toPublicCoHost } from '../auth/co-hosts.js';
+
+const router = Router();
+
+/**
+ * GET /api/host/setup
+ * How far first-run setup has got - whether a host PIN is set and any party exists
+ */
+router.get('/setup', async (_req: Request, res: Response) => {
+  try {
+    const [party] = await db
+      .select({ id: parties.id })
+      .from(parties)
+      .limit(1);
+
+    res.json({
+      pinConfigured: isHostConfigured(),
+      hasParties: party !== undefined
+    });
+  } catch (error) {
+    console.error('Error fetching setup state:', error);
+    res.status(500).json({ error: 'Failed to fetch setup state' });
+  }
+});
+
+/**
+ * POST /api/host/setup
+ * Set the host PIN on first run and start a host session
+ * Only works while no PIN is set
+ */
+router.post('/setup', async (req: Request, res: Response) => {
+  try {
+    // Validate input
+    const validation = verifyPinSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    if (!setupHostPin(validation.data.pin)) {
+      return res.status(409).json({ error: 'Host PIN is already set up' });
+    }
+
+    res.status(201).json(createHostSession());
+  } catch (error) {
+    console.error('Error setting up host PIN:', error);
+    res.status(500).json({ error: 'Failed to set up host PIN' });
+  }
+});
+
+/**
+ * POST /api/host/sessions
+ * Trade the host PIN for a short-lived host session token
+ */
+router.post('/sessions', async (req: Request, res: Response) => {
+  try {
+    // Validate input
+    const validation = verifyPinSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const check = checkHostPin(validation.data.pin);
+    if (!check.ok) {
+      return res.status(check.status).json({ error: check.error });
+    }
+
+    res.status(201).json(createHostSession());
+  } catch (error) {
+    console.error('Error starting host session:', error);
+    res.status(500).json({ error: 'Failed to start host session' });
+  }
+});
+
+/**
+ * POST /api/host/co-host-sessions
+ * Trade a co-host code for a co-host session at the party it was minted for
+ */
+router.post('/co-host-sessions', async (req: Request, res: Response) => {
+  try {
+    // Validate input
+    const validation = coHostSessionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const coHost = findCoHostByCode(validation.data.code);
+    if (!coHost) {
+      return res.status(401).json({ error: 'Invalid or revoked co-host code' });
+    }
+
+    res.status(201).json({ ...createHostSession(coHost), coHost: toPublicCoHost(coHost) });
+  } catch (error) {
+    console.error('Error starting co-host session:', error);
+    res.status(500).json({ error: 'Failed to start co-host session' });
+  }
+});
+
+/**
+ * DELETE /api/host/sessions/current
+ * End the host or co-host session the request was made with
+ */
+router.delete('/sessions/current', async (req: Request, res: Response) => {
+  try {
+    const token = getSessionToken(req);
+    if (token) {
+      endHostSession(token);
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error ending host session:', error);
+    res.status(500).json({ error: 'Failed to end host session' });
+  }
+});
+
+/**
+ * POST /api/host/verify-pin
+ * Check a PIN without starting a session (wrong PINs still count toward the lockout)
+ */
+router.post('/verify-pin', async (req: Request, res: Response) => {
+  try {
+    // Validate input
+    const validation = verifyPinSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const check = checkHostPin(validation.data.pin);
+    if (!check.ok && check.status !== 401) {
+      return res.status(check.status).json({ error: check.error });
+    }
+
+    res.json({ valid: check.ok });
+  } catch (error) {
+    console.error('Error verifying host PIN:', error);
+    res.status(500).json({ error: 'Failed to verify host PIN' });
+  }
+});
+
+export default router;
@@ -0,0 +1,197 @@
+import { Router, Request, Response } from 'express';
+import { eq, desc, inArray } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { parties, guests, guestMerges, type GuestMerge } from '../db/schema.js';
+import { mergeGuestsSchema, undoGuestMergeSchema, formatZodError } from '../validation/schemas.js';
+import { io } from '../index.js';
+import { emitGuestUpdated } from '../websocket/events.js';
+import { cleanGuestName } from '../utils/guest-names.js';
+import { planGuestMerge, mergeGuests, undoGuestMerge } from '../guests/merge.js';
+import { requireHost } from '../auth/middleware.js';
+
+const router = Router();
+
+/**
+ * A merge as sent to clients - which parties it touched instead of every re-attributed row
+ */
+function toPublicMerge(merge: GuestMerge) {
+  return {
+    id: merge.id,
+    partyId: merge.partyId,
+    fromName: merge.fromName,
+    intoName: merge.intoName,
+    partyIds: merge.changes.map(c => c.partyId),
+    createdAt: merge.createdAt,
+    undoneAt: merge.undoneAt
+  };
+}
+
+/**
+ * Let each party the merge touched refresh the guests involved
+ */
+function announceMerge(merge: GuestMerge) {
+  if (process.env.NODE_ENV === 'test') {
+    return;
+  }
+
+  const guestIds = merge.changes.flatMap(c => [c.intoGuestId, ...(c.fromGuestId !== null ? [c.fromGuestId] : [])]);
+  if (guestIds.length === 0) {
+    return;
+  }
+
+  for (const guest of db.select().from(guests).where(inArray(guests.id, guestIds)).all()) {
+    emitGuestUpdated(io, guest.partyId, {
+      id: guest.id,
+      partyId: guest.partyId,
+      name: guest.name,
+      hasPin: guest.pinHash !== null
+    });
+  }
+}
+
+/**
+ * GET /api/guest-merges
+ * List guest merges, newest first
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const merges = await db
+      .select()
+      .from(guestMerges)
+      .orderBy(desc(guestMerges.id));
+
+    res.json(merges.map(toPublicMerge));
+  } catch (error) {
+    console.error('Error fetching guest merges:', error);
+    res.status(500).json({ error: 'Failed to fetch guest merges' });
+  }
+});
+
+/**
+ * POST /api/guest-merges
+ * Merge one guest name into another at a party, or at every party when no partyId is given
+ * (requires host PIN). With dryRun, returns how each party's balances would change and
+ * merges nothing.
+ */
+router.post('/', requireHost, async (req: Request, res: Response) => {
+  try {
+    // Validate input
+    const validation = mergeGuestsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const { from, into, partyId, dryRun } = validation.data;
+
+    if (partyId !== undefined) {
+      const [party] = await db
+        .select()
+        .from(parties)
+        .where(eq(parties.id, partyId));
+
+      if (!party) {
+        return res.status(404).json({ error: 'Party not found' });
+      }
+    }
+
+    // Plan and merge in one transaction, so the preview matches what gets merged
+    const result = db.transaction((tx) => {
+      const scopeParties = partyId !== undefined
+        ? tx.select().from(parties).where(eq(parties.id, partyId)).all()
+        : tx.select().from(parties).all();
+
+      const plans = scopeParties
+        .map(party => planGuestMerge(tx, party, from, into))
+        .filter(plan => plan !== null);
+
+      if (plans.length === 0) {
+        return null;
+      }
+
+      const previews = plans.map(plan => plan.preview);
+
+      if (dryRun) {
+        return { merge: null, previews };
+      }
+
+      const merge = mergeGuests(tx, plans, {
+        partyId: partyId ?? null,
+        fromName: cleanGuestName(from),
+        intoName: cleanGuestName(into)
+      });
+
+      return { merge, previews };
+    });
+
+    if (!result) {
+      return res.status(404).json({
+        error: `Nothing to merge - no guest, wagers or payments found for ${from}${partyId !== undefined ? ' at this party' : ''}`
+      });
+    }
+
+    if (!result.merge) {
+      return res.json({ dryRun: true, from, into, partyId: partyId ?? null, parties: result.previews });
+    }
+
+    announceMerge(result.merge);
+
+    res.status(201).json({ ...toPublicMerge(result.merge), parties: result.previews });
+  } catch (error) {
+    console.error('Error merging guests:', error);
+    res.status(500).json({ error: 'Failed to merge guests' });
+  }
+});
+
+/**
+ * POST /api/guest-merges/:id/undo
+ * Reverse a guest merge, putting every re-attributed row back (requires host PIN)
+ */
+router.post('/:id/undo', requireHost, async (req: Request, res: Response) => {
+  try {
+    const mergeId = parseInt(req.params.id);
+
+    if (isNaN(mergeId)) {
+      return res.status(400).json({ error: 'Invalid merge ID' });
+    }
+
+    // Validate input
+    const validation = undoGuestMergeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const [merge] = await db
+      .select()
+      .from(guestMerges)
+      .where(eq(guestMerges.id, mergeId));
+
+    if (!merge) {
+      return res.status(404).json({ error: 'Merge not found' });
+    }
+
+    const result = db.transaction((tx) => {
+      // Re-read inside the transaction so two undos can't both go through
+      const current = tx.select().from(guestMerges).where(eq(guestMerges.id, mergeId)).get()!;
+      return undoGuestMerge(tx, current);
+    });
+
+    if ('error' in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    announceMerge(result.merge);
+
+    res.json(toPublicMerge(result.merge));
+  } catch (error) {
+    console.error('Error undoing guest merge:', error);
+    res.status(500).json({ error: 'Failed to undo guest merge' });
+  }
+});
+
+export default router;
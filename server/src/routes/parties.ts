@@ -1,31 +1,152 @@
 import { Router, Request, Response } from 'express';
-import { eq, sql, inArray } from 'drizzle-orm';
+import { eq, and, sql, inArray, isNull } from 'drizzle-orm';
 import { db } from '../db/index.js';
-import { parties, bets, wagers, settlements } from '../db/schema.js';
-import { createPartySchema, formatZodError } from '../validation/schemas.js';
+import QRCode from 'qrcode';
+import { parties, bets, wagers, settlements, payments, rebuys, guests } from '../db/schema.js';
+import { createPartySchema, inviteQuerySchema, formatZodError } from '../validation/schemas.js';
 import { io } from '../index.js';
 import { emitPartyCreated } from '../websocket/events.js';
+import { simplifyDebts, type UserBalance } from '../utils/debt-simplifier.js';
+import { toCents, toDollars, partyToDollars } from '../utils/money.js';
+import { randomCode, normalizeCode } from '../utils/codes.js';
+import { getLanAddresses } from '../utils/network.js';
+import { normalizeGuestName, isSameGuestName } from '../utils/guest-names.js';
+import { requireHost, identifyHost, canModerate } from '../auth/middleware.js';
+import { findGuest } from '../guests/registry.js';
 
 const router = Router();
 
+const JOIN_CODE_LENGTH = 6;
+
 /**
- * Middleware to verify host PIN
+ * Pick a join code no other party has
  */
-function verifyHostPin(req: Request, res: Response, next: Function) {
-  const hostPin = req.body.hostPin || req.query.hostPin;
-  const expectedPin = process.env.HOST_PIN;
+function createJoinCode(): string {
+  for (;;) {
+    const code = randomCode(JOIN_CODE_LENGTH);
+    if (!db.select().from(parties).where(eq(parties.joinCode, code)).get()) {
+      return code;
+    }
+  }
+}
 
-  if (!expectedPin) {
-    return res.status(500).json({
-      error: 'Host PIN not configured. Please set HOST_PIN in environment variables.'
-    });
+interface UserSettlementBalance extends UserBalance {
+  settledAmount: number; // Portion of netAmount already covered by confirmed payments
+  outstandingAmount: number; // Portion of netAmount still to be paid or collected
+}
+
+/**
+ * Sum settlement net win/loss per user across the given bets, then split each
+ * total into what has been settled by confirmed payments and what is still outstanding
+ * Sums are done in cents and converted to dollars at the end
+ * Returns winners first, then losers
+ */
+async function getUserBalances(partyId: number, betIds: number[]): Promise<UserSettlementBalance[]> {
+  if (betIds.length === 0) {
+    return [];
   }
 
-  if (hostPin !== expectedPin) {
-    return res.status(401).json({ error: 'Invalid host PIN' });
+  const partySettlements = await db
+    .select({
+      userName: settlements.userName,
+      netWinLoss: settlements.netWinLoss,
+      guestName: guests.name
+    })
+    .from(settlements)
+    .leftJoin(guests, eq(settlements.guestId, guests.id))
+    .where(inArray(settlements.betId, betIds));
+
+  // Group settlements by guest (falling back to the name for settlements from before the roster)
+  // and sum net win/loss
+  const userTotals = partySettlements.reduce((acc, settlement) => {
+    const userName = settlement.guestName ?? settlement.userName;
+    if (!acc[userName]) {
+      acc[userName] = 0;
+    }
+    acc[userName] += settlement.netWinLoss;
+    return acc;
+  }, {} as Record<string, number>);
+
+  const confirmedPayments = await db
+    .select()
+    .from(payments)
+    .where(and(
+      eq(payments.partyId, partyId),
+      eq(payments.status, 'confirmed')
+    ));
+
+  // Payments name guests as typed, so match them through the roster ("bob" pays for "Bob")
+  const paymentKey = (name: string) => normalizeGuestName(findGuest(db, partyId, name)?.name ?? name);
+
+  // Paying reduces what a user owes; receiving reduces what they are owed
+  const paidTotals = confirmedPayments.reduce((acc, payment) => {
+    if (payment.fromUser !== null) {
+      const key = paymentKey(payment.fromUser);
+      acc[key] = (acc[key] || 0) + payment.amount;
+    }
+    if (payment.toUser !== null) {
+      const key = paymentKey(payment.toUser);
+      acc[key] = (acc[key] || 0) - payment.amount;
+    }
+    return acc;
+  }, {} as Record<string, number>);
+
+  // Convert to array and sort (winners first, then losers)
+  return Object.entries(userTotals)
+    .map(([userName, netCents]) => {
+      const outstandingCents = netCents + (paidTotals[normalizeGuestName(userName)] || 0);
+      return {
+        userName,
+        netAmount: toDollars(netCents),
+        settledAmount: toDollars(netCents - outstandingCents),
+        outstandingAmount: toDollars(outstandingCents)
+      };
+    })
+    .sort((a, b) => b.netAmount - a.netAmount);
+}
+
+/**
+ * Rank guests of a chips party by chip count: the starting stack plus any rebuys plus their
+ * settled net win/loss. Stakes still in play are counted as the guest's until their bet settles.
+ * Everyone on the roster (or who rebought) is ranked, settled bets or not.
+ * Amounts are returned in chips, largest stack first
+ */
+async function getChipLeaderboard(partyId: number, stack: number, users: UserSettlementBalance[]) {
+  const roster = await db
+    .select()
+    .from(guests)
+    .where(and(eq(guests.partyId, partyId), isNull(guests.mergedIntoGuestId)));
+
+  const partyRebuys = await db
+    .select({
+      userName: rebuys.userName,
+      amount: rebuys.amount,
+      guestName: guests.name
+    })
+    .from(rebuys)
+    .leftJoin(guests, eq(rebuys.guestId, guests.id))
+    .where(eq(rebuys.partyId, partyId));
+
+  // Guests with nothing settled yet still hold their stack (and any rebuys)
+  const rows = new Map(users.map(user => [normalizeGuestName(user.userName), user]));
+  const everyone = [...roster.map(g => g.name), ...partyRebuys.map(r => r.guestName ?? r.userName)];
+  for (const userName of everyone) {
+    if (!rows.has(normalizeGuestName(userName))) {
+      rows.set(normalizeGuestName(userName), { userName, netAmount: 0, settledAmount: 0, outstandingAmount: 0 });
+    }
   }
 
-  next();
+  return [...rows.values()]
+    .map(user => {
+      const userRebuys = partyRebuys.filter(r => isSameGuestName(r.guestName ?? r.userName, user.userName));
+      const rebuyCents = userRebuys.reduce((sum, r) => sum + r.amount, 0);
+      return {
+        ...user,
+        chips: toDollars(stack + rebuyCents + toCents(user.netAmount)),
+        rebuys: userRebuys.length
+      };
+    })
+    .sort((a, b) => b.chips - a.chips || a.userName.localeCompare(b.userName));
 }
 
 /**
@@ -36,33 +157,28 @@ router.get('/', async (_req: Request, res: Response) => {
   try {
     const allParties = await db.select().from(parties).orderBy(sql`${parties.createdAt} DESC`);
 
-    // Get bet counts and total wagered for each party
-    const partiesWithStats = await Promise.all(
-      allParties.map(async (party) => {
-        const partyBets = await db
-          .select()
-          .from(bets)
-          .where(eq(bets.partyId, party.id));
-
-        const betIds = partyBets.map(b => b.id);
+    // Get bet counts and total wagered for every party in one grouped query
+    const stats = await db
+      .select({
+        partyId: bets.partyId,
+        betCount: sql<number>`COUNT(DISTINCT ${bets.id})`,
+        totalWagered: sql<number>`COALESCE(SUM(${wagers.amount}), 0)`
+      })
+      .from(bets)
+      .leftJoin(wagers, eq(wagers.betId, bets.id))
+      .groupBy(bets.partyId);
 
-        let totalWagered = 0;
-        if (betIds.length > 0) {
-          const wagerResults = await db
-            .select({ total: sql<number>`COALESCE(SUM(${wagers.amount}), 0)` })
-            .from(wagers)
-            .where(sql`${wagers.betId} IN (${sql.join(betIds.map(id => sql`${id}`), sql`, `)})`);
+    const statsByParty = new Map(stats.map(row => [row.partyId, row]));
 
-          totalWagered = wagerResults[0]?.total || 0;
-        }
+    const partiesWithStats = allParties.map(party => {
+      const partyStats = statsByParty.get(party.id);
 
-        return {
-          ...party,
-          betCount: partyBets.length,
-          totalWagered
-        };
-      })
-    );
+      return {
+        ...partyToDollars(party),
+        betCount: partyStats?.betCount ?? 0,
+        totalWagered: toDollars(partyStats?.totalWagered ?? 0)
+      };
+    });
 
     res.json(partiesWithStats);
   } catch (error) {
@@ -74,9 +190,9 @@ router.get('/', async (_req: Request, res: Response) => {
 /**
  * POST /api/parties
  * Create a new party (requires host PIN)
- * Automatically archives the current active party
+ * Other active parties stay active - the host archives each one when it's over
  */
-router.post('/', verifyHostPin, async (req: Request, res: Response) => {
+router.post('/', requireHost, async (req: Request, res: Response) => {
   try {
     // Validate input
     const validation = createPartySchema.safeParse(req.body);
@@ -87,13 +203,7 @@ router.post('/', verifyHostPin, async (req: Request, res: Response) => {
       });
     }
 
-    const { name, date, description } = validation.data;
-
-    // Archive any existing active party
-    await db
-      .update(parties)
-      .set({ status: 'archived', updatedAt: new Date().toISOString() })
-      .where(eq(parties.status, 'active'));
+    const { name, date, description, maxWager, maxPerBet, bankroll, currency, allowRebuys, cancelGraceSeconds } = validation.data;
 
     // Create new party
     const [newParty] = await db
@@ -103,6 +213,13 @@ router.post('/', verifyHostPin, async (req: Request, res: Response) => {
         date,
         description: description || null,
         status: 'active',
+        maxWager: maxWager !== undefined ? toCents(maxWager) : null,
+        maxPerBet: maxPerBet !== undefined ? toCents(maxPerBet) : null,
+        bankroll: bankroll !== undefined ? toCents(bankroll) : null,
+        currency,
+        allowRebuys: allowRebuys ?? false,
+        cancelGraceSeconds: cancelGraceSeconds ?? 60,
+        joinCode: createJoinCode(),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       })
@@ -117,13 +234,100 @@ router.post('/', verifyHostPin, async (req: Request, res: Response) => {
       });
     }
 
-    res.status(201).json(newParty);
+    res.status(201).json(partyToDollars(newParty));
   } catch (error) {
     console.error('Error creating party:', error);
     res.status(500).json({ error: 'Failed to create party' });
   }
 });
 
+/**
+ * GET /api/parties/join/:code
+ * Find an active party by its join code (any case, dashes and spaces ignored)
+ */
+router.get('/join/:code', async (req: Request, res: Response) => {
+  try {
+    const [party] = await db
+      .select()
+      .from(parties)
+      .where(and(
+        eq(parties.joinCode, normalizeCode(req.params.code)),
+        eq(parties.status, 'active')
+      ));
+
+    if (!party) {
+      return res.status(404).json({ error: 'No active party has that join code' });
+    }
+
+    res.json(partyToDollars(party));
+  } catch (error) {
+    console.error('Error finding party by join code:', error);
+    res.status(500).json({ error: 'Failed to find party' });
+  }
+});
+
+/**
+ * GET /api/parties/:id/invite?port=
+ * Join code plus a link and QR code for each of the server's LAN addresses, best guess first
+ * (host or co-host). `port` is the one the app is open on - it defaults to the server's.
+ * QR codes are SVG, generated here so the invite screen works without internet access.
+ */
+router.get('/:id/invite', identifyHost, async (req: Request, res: Response) => {
+  try {
+    const partyId = parseInt(req.params.id);
+
+    if (isNaN(partyId)) {
+      return res.status(400).json({ error: 'Invalid party ID' });
+    }
+
+    if (!canModerate(res, partyId)) {
+      return res.status(403).json({ error: 'Only the host or a co-host can invite guests' });
+    }
+
+    // Validate input
+    const validation = inviteQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const [party] = await db
+      .select()
+      .from(parties)
+      .where(eq(parties.id, partyId));
+
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found' });
+    }
+
+    if (party.status !== 'active' || !party.joinCode) {
+      return res.status(400).json({ error: 'Only active parties can take new guests' });
+    }
+
+    const port = validation.data.port ?? Number(process.env.PORT || 3001);
+    const host = (address: string) => port === 80 ? address : `${address}:${port}`;
+
+    const links = await Promise.all(
+      getLanAddresses().map(async ({ interface: name, address }) => {
+        const url = `http://${host(address)}/join/${party.joinCode}`;
+        return {
+          interface: name,
+          address,
+          url,
+          qrSvg: await QRCode.toString(url, { type: 'svg', margin: 1 })
+        };
+      })
+    );
+
+    res.json({ partyId, joinCode: party.joinCode, links });
+  } catch (error) {
+    console.error('Error building invite:', error);
+    res.status(500).json({ error: 'Failed to build invite' });
+  }
+});
+
 /**
  * GET /api/parties/:id
  * Get party details by ID
@@ -160,11 +364,11 @@ router.get('/:id', async (req: Request, res: Response) => {
         .from(wagers)
         .where(sql`${wagers.betId} IN (${sql.join(betIds.map(id => sql`${id}`), sql`, `)})`);
 
-      totalWagered = wagerResults[0]?.total || 0;
+      totalWagered = toDollars(wagerResults[0]?.total || 0);
     }
 
     res.json({
-      ...party,
+      ...partyToDollars(party),
       betCount: partyBets.length,
       totalWagered
     });
@@ -178,7 +382,7 @@ router.get('/:id', async (req: Request, res: Response) => {
  * PATCH /api/parties/:id/archive
  * Archive a party (requires host PIN)
  */
-router.patch('/:id/archive', verifyHostPin, async (req: Request, res: Response) => {
+router.patch('/:id/archive', requireHost, async (req: Request, res: Response) => {
   try {
     const partyId = parseInt(req.params.id);
 
@@ -208,7 +412,7 @@ router.patch('/:id/archive', verifyHostPin, async (req: Request, res: Response)
       .where(eq(parties.id, partyId))
       .returning();
 
-    res.json(updatedParty);
+    res.json(partyToDollars(updatedParty));
   } catch (error) {
     console.error('Error archiving party:', error);
     res.status(500).json({ error: 'Failed to archive party' });
@@ -217,7 +421,7 @@ router.patch('/:id/archive', verifyHostPin, async (req: Request, res: Response)
 
 /**
  * GET /api/parties/:id/settlement-summary
- * Get net winnings per user for a party
+ * Get net winnings per user for a party, with settled and outstanding balances
  */
 router.get('/:id/settlement-summary', async (req: Request, res: Response) => {
   try {
@@ -246,48 +450,33 @@ router.get('/:id/settlement-summary', async (req: Request, res: Response) => {
       return res.json({
         partyId,
         partyName: party.name,
-        users: [],
+        currency: party.currency,
+        // Nothing has been bet yet, but a chips party's guests all hold their starting stack
+        users: party.currency === 'chips' ? await getChipLeaderboard(partyId, party.bankroll ?? 0, []) : [],
         totalPot: 0
       });
     }
 
     const betIds = partyBets.map(b => b.id);
 
-    // Get all settlements for bets in this party
-    const partySettlements = await db
-      .select()
-      .from(settlements)
-      .where(inArray(settlements.betId, betIds));
-
     // Get total pot from wagers
     const wagerResults = await db
       .select({ total: sql<number>`COALESCE(SUM(${wagers.amount}), 0)` })
       .from(wagers)
       .where(inArray(wagers.betId, betIds));
 
-    const totalPot = wagerResults[0]?.total || 0;
+    const totalPot = toDollars(wagerResults[0]?.total || 0);
 
-    // Group settlements by user and sum net win/loss
-    const userTotals = partySettlements.reduce((acc, settlement) => {
-      if (!acc[settlement.userName]) {
-        acc[settlement.userName] = 0;
-      }
-      acc[settlement.userName] += settlement.netWinLoss;
-      return acc;
-    }, {} as Record<string, number>);
-
-    // Convert to array and sort (winners first, then losers)
-    const users = Object.entries(userTotals)
-      .map(([userName, netAmount]) => ({
-        userName,
-        netAmount
-      }))
-      .sort((a, b) => b.netAmount - a.netAmount);
+    const users = await getUserBalances(partyId, betIds);
 
     res.json({
       partyId,
       partyName: party.name,
-      users,
+      currency: party.currency,
+      // Chips parties are a leaderboard ranked by chip count rather than a ledger of debts
+      users: party.currency === 'chips'
+        ? await getChipLeaderboard(partyId, party.bankroll ?? 0, users)
+        : users,
       totalPot
     });
   } catch (error) {
@@ -296,4 +485,55 @@ router.get('/:id/settlement-summary', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/parties/:id/transfers
+ * Get the minimized list of "who owes whom" transfers still outstanding for a party
+ */
+router.get('/:id/transfers', async (req: Request, res: Response) => {
+  try {
+    const partyId = parseInt(req.params.id);
+
+    if (isNaN(partyId)) {
+      return res.status(400).json({ error: 'Invalid party ID' });
+    }
+
+    const [party] = await db
+      .select()
+      .from(parties)
+      .where(eq(parties.id, partyId));
+
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found' });
+    }
+
+    // Play chips never change hands for real
+    if (party.currency === 'chips') {
+      return res.json({
+        partyId,
+        partyName: party.name,
+        transfers: []
+      });
+    }
+
+    const partyBets = await db
+      .select({ id: bets.id })
+      .from(bets)
+      .where(eq(bets.partyId, partyId));
+
+    const users = await getUserBalances(partyId, partyBets.map(b => b.id));
+
+    // Only what is still outstanding needs to change hands
+    res.json({
+      partyId,
+      partyName: party.name,
+      transfers: simplifyDebts(
+        users.map(u => ({ userName: u.userName, netAmount: u.outstandingAmount }))
+      )
+    });
+  } catch (error) {
+    console.error('Error fetching transfers:', error);
+    res.status(500).json({ error: 'Failed to fetch transfers' });
+  }
+});
+
 export default router;
@@ -0,0 +1,372 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, sql } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { parties, payments, type Guest } from '../db/schema.js';
+import { recordPaymentSchema, updatePaymentSchema, formatZodError } from '../validation/schemas.js';
+import { io } from '../index.js';
+import { emitPaymentRecorded, emitPaymentUpdated } from '../websocket/events.js';
+import { toCents, toDollars, amountToDollars } from '../utils/money.js';
+import { identifyHost } from '../auth/middleware.js';
+import { findGuest, resolveGuest } from '../guests/registry.js';
+import { isSameGuestName } from '../utils/guest-names.js';
+
+const router = Router();
+
+/**
+ * Parse party and payment IDs from the route, returning null if either is invalid
+ */
+function parseIds(req: Request): { partyId: number; paymentId: number } | null {
+  const partyId = parseInt(req.params.id);
+  const paymentId = parseInt(req.params.paymentId);
+
+  if (isNaN(partyId) || isNaN(paymentId)) {
+    return null;
+  }
+
+  return { partyId, paymentId };
+}
+
+/**
+ * Whether a payment side (null for the house) names a guest - matched through the roster, so
+ * merged and differently typed names still count
+ */
+function isPaymentSide(partyId: number, side: string | null, guest: Guest): boolean {
+  if (side === null) {
+    return false;
+  }
+
+  const sideGuest = findGuest(db, partyId, side);
+  return sideGuest ? sideGuest.id === guest.id : isSameGuestName(side, guest.name);
+}
+
+/**
+ * Work out which sides of a payment a guest acts for
+ * Acting for either side needs the guest's PIN if they claimed their name
+ */
+function paymentSides(
+  partyId: number,
+  payment: { fromUser: string | null; toUser: string | null },
+  body: { userName?: string; guestPin?: string }
+): { guest: Guest | undefined; isPayer: boolean; isPayee: boolean } | { error: string } {
+  const guest = body.userName === undefined ? undefined : findGuest(db, partyId, body.userName);
+  const isPayer = guest !== undefined && isPaymentSide(partyId, payment.fromUser, guest);
+  const isPayee = guest !== undefined && isPaymentSide(partyId, payment.toUser, guest);
+
+  if ((isPayer || isPayee) && guest?.pinHash) {
+    const resolved = resolveGuest(db, partyId, guest.name, body.guestPin);
+    if ('error' in resolved) {
+      return resolved;
+    }
+  }
+
+  return { guest, isPayer, isPayee };
+}
+
+/**
+ * GET /api/parties/:id/payments
+ * List all payments recorded for a party
+ */
+router.get('/:id/payments', async (req: Request, res: Response) => {
+  try {
+    const partyId = parseInt(req.params.id);
+
+    if (isNaN(partyId)) {
+      return res.status(400).json({ error: 'Invalid party ID' });
+    }
+
+    const [party] = await db
+      .select()
+      .from(parties)
+      .where(eq(parties.id, partyId));
+
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found' });
+    }
+
+    const partyPayments = await db
+      .select()
+      .from(payments)
+      .where(eq(payments.partyId, partyId))
+      .orderBy(sql`${payments.createdAt} DESC`);
+
+    res.json(partyPayments.map(amountToDollars));
+  } catch (error) {
+    console.error('Error fetching payments:', error);
+    res.status(500).json({ error: 'Failed to fetch payments' });
+  }
+});
+
+/**
+ * POST /api/parties/:id/payments
+ * Record a payment between two guests (or a guest and the house)
+ * The recorder's side is confirmed automatically; the host confirms both sides
+ */
+router.post('/:id/payments', identifyHost, async (req: Request, res: Response) => {
+  try {
+    const partyId = parseInt(req.params.id);
+
+    if (isNaN(partyId)) {
+      return res.status(400).json({ error: 'Invalid party ID' });
+    }
+
+    // Validate input
+    const validation = recordPaymentSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const { fromUser, toUser, amount, recordedBy, guestPin } = validation.data;
+
+    const [party] = await db
+      .select()
+      .from(parties)
+      .where(eq(parties.id, partyId));
+
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found' });
+    }
+
+    if (party.currency === 'chips') {
+      return res.status(400).json({ error: 'Play-money parties have no payments to record' });
+    }
+
+    // Both sides have to be on the roster - only the house (null) needs no guest
+    const payer = fromUser === null ? null : findGuest(db, partyId, fromUser);
+    const payee = toUser === null ? null : findGuest(db, partyId, toUser);
+
+    if (payer === undefined || payee === undefined) {
+      return res.status(400).json({
+        error: `${payer === undefined ? fromUser : toUser} is not a guest at this party`
+      });
+    }
+
+    if (payer && payee && payer.id === payee.id) {
+      return res.status(400).json({ error: 'Payer and payee must be different' });
+    }
+
+    // Verify authorization (the host needs no guest name or PIN)
+    const isHost = res.locals.isHost;
+    const sides = paymentSides(
+      partyId,
+      { fromUser: payer?.name ?? null, toUser: payee?.name ?? null },
+      isHost ? {} : { userName: recordedBy, guestPin }
+    );
+
+    if ('error' in sides) {
+      return res.status(401).json({ error: sides.error });
+    }
+
+    const { isPayer, isPayee } = sides;
+
+    if (!isHost && !isPayer && !isPayee) {
+      return res.status(403).json({
+        error: 'Unauthorized. Only the payer, the payee or the host can record this payment.'
+      });
+    }
+
+    const [newPayment] = await db
+      .insert(payments)
+      .values({
+        partyId,
+        fromUser: payer?.name ?? null,
+        toUser: payee?.name ?? null,
+        amount: toCents(amount),
+        status: isHost ? 'confirmed' : 'pending',
+        payerConfirmed: isHost || isPayer,
+        payeeConfirmed: isHost || isPayee,
+        recordedBy: isHost ? 'host' : sides.guest!.name,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      })
+      .returning();
+
+    // Emit WebSocket event
+    if (process.env.NODE_ENV !== 'test') {
+      emitPaymentRecorded(io, partyId, {
+        id: newPayment.id,
+        partyId,
+        fromUser: newPayment.fromUser,
+        toUser: newPayment.toUser,
+        amount: toDollars(newPayment.amount),
+        status: newPayment.status
+      });
+    }
+
+    res.status(201).json(amountToDollars(newPayment));
+  } catch (error) {
+    console.error('Error recording payment:', error);
+    res.status(500).json({ error: 'Failed to record payment' });
+  }
+});
+
+/**
+ * POST /api/parties/:id/payments/:paymentId/confirm
+ * Confirm a payment (payer, payee or host override)
+ * Once both sides have confirmed, the payment counts towards settled balances
+ */
+router.post('/:id/payments/:paymentId/confirm', identifyHost, async (req: Request, res: Response) => {
+  try {
+    const ids = parseIds(req);
+
+    if (!ids) {
+      return res.status(400).json({ error: 'Invalid party or payment ID' });
+    }
+
+    // Validate input
+    const validation = updatePaymentSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(
+        eq(payments.id, ids.paymentId),
+        eq(payments.partyId, ids.partyId)
+      ));
+
+    if (!payment) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    if (payment.status !== 'pending') {
+      return res.status(400).json({
+        error: `Cannot confirm payment. Current status: ${payment.status}`
+      });
+    }
+
+    // Verify authorization (the host needs no guest name or PIN)
+    const isHost = res.locals.isHost;
+    const sides = paymentSides(ids.partyId, payment, isHost ? {} : validation.data);
+
+    if ('error' in sides) {
+      return res.status(401).json({ error: sides.error });
+    }
+
+    const { isPayer, isPayee } = sides;
+
+    if (!isHost && !isPayer && !isPayee) {
+      return res.status(403).json({
+        error: 'Unauthorized. Only the payer, the payee or the host can confirm this payment.'
+      });
+    }
+
+    const payerConfirmed = payment.payerConfirmed || isHost || isPayer;
+    const payeeConfirmed = payment.payeeConfirmed || isHost || isPayee;
+
+    const [updatedPayment] = await db
+      .update(payments)
+      .set({
+        payerConfirmed,
+        payeeConfirmed,
+        status: payerConfirmed && payeeConfirmed ? 'confirmed' : 'pending',
+        updatedAt: new Date().toISOString()
+      })
+      .where(eq(payments.id, payment.id))
+      .returning();
+
+    // Emit WebSocket event
+    if (process.env.NODE_ENV !== 'test') {
+      emitPaymentUpdated(io, payment.partyId, {
+        id: updatedPayment.id,
+        partyId: updatedPayment.partyId,
+        status: updatedPayment.status
+      });
+    }
+
+    res.json(amountToDollars(updatedPayment));
+  } catch (error) {
+    console.error('Error confirming payment:', error);
+    res.status(500).json({ error: 'Failed to confirm payment' });
+  }
+});
+
+/**
+ * POST /api/parties/:id/payments/:paymentId/reverse
+ * Reverse a payment that was recorded by mistake
+ * Either side can reverse a pending payment; only the host can reverse a confirmed one
+ */
+router.post('/:id/payments/:paymentId/reverse', identifyHost, async (req: Request, res: Response) => {
+  try {
+    const ids = parseIds(req);
+
+    if (!ids) {
+      return res.status(400).json({ error: 'Invalid party or payment ID' });
+    }
+
+    // Validate input
+    const validation = updatePaymentSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(
+        eq(payments.id, ids.paymentId),
+        eq(payments.partyId, ids.partyId)
+      ));
+
+    if (!payment) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    if (payment.status === 'reversed') {
+      return res.status(400).json({ error: 'Payment is already reversed' });
+    }
+
+    // Verify authorization (the host needs no guest name or PIN)
+    const isHost = res.locals.isHost;
+    const sides = paymentSides(ids.partyId, payment, isHost ? {} : validation.data);
+
+    if ('error' in sides) {
+      return res.status(401).json({ error: sides.error });
+    }
+
+    const isParticipant = sides.isPayer || sides.isPayee;
+
+    if (!isHost && !(isParticipant && payment.status === 'pending')) {
+      return res.status(403).json({
+        error: payment.status === 'confirmed'
+          ? 'Unauthorized. Only the host can reverse a confirmed payment.'
+          : 'Unauthorized. Only the payer, the payee or the host can reverse this payment.'
+      });
+    }
+
+    const [updatedPayment] = await db
+      .update(payments)
+      .set({
+        status: 'reversed',
+        updatedAt: new Date().toISOString()
+      })
+      .where(eq(payments.id, payment.id))
+      .returning();
+
+    // Emit WebSocket event
+    if (process.env.NODE_ENV !== 'test') {
+      emitPaymentUpdated(io, payment.partyId, {
+        id: updatedPayment.id,
+        partyId: updatedPayment.partyId,
+        status: updatedPayment.status
+      });
+    }
+
+    res.json(amountToDollars(updatedPayment));
+  } catch (error) {
+    console.error('Error reversing payment:', error);
+    res.status(500).json({ error: 'Failed to reverse payment' });
+  }
+});
+
+export default router;
@@ -1,13 +1,167 @@
 import { Router, Request, Response } from 'express';
 import { eq, and, inArray } from 'drizzle-orm';
 import { db } from '../db/index.js';
-import { parties, bets, betOptions, wagers } from '../db/schema.js';
-import { createWagerSchema, formatZodError } from '../validation/schemas.js';
+import { parties, bets, betOptions, wagers, settlements, rebuys, auditLog, type Party, type Guest, type Wager } from '../db/schema.js';
+import { createWagerSchema, cancelWagerSchema, rebuySchema, partyQuerySchema, formatZodError } from '../validation/schemas.js';
 import { io } from '../index.js';
-import { emitWagerPlaced } from '../websocket/events.js';
+import { emitWagerPlaced, emitWagerCancelled, emitRebuy } from '../websocket/events.js';
+import { calculateMaxFixedOddsStake } from '../utils/fixed-odds-calculator.js';
+import { resolveOverUnder } from '../utils/payout-calculator.js';
+import {
+  checkWagerLimits,
+  calculateRemainingBankroll,
+  isBusted,
+  type GuestBetting,
+  type WagerLimitViolation
+} from '../utils/wager-limits.js';
+import { toCents, toDollars, amountToDollars, partyToDollars, betStatsToDollars } from '../utils/money.js';
+import { calculateBetStats, isBreakdownHidden } from '../utils/option-stats.js';
+import { isSameGuestName } from '../utils/guest-names.js';
+import { findGuest, resolveGuest, belongsToGuest, checkGuestPin } from '../guests/registry.js';
+import { identifyHost } from '../auth/middleware.js';
+import { findParty } from '../parties/lookup.js';
 
 const router = Router();
 
+/**
+ * Sum up a guest's betting in a party (in cents) for the wager limit checks
+ * Takes the database or a transaction, so the wager route can check inside its transaction
+ * Pass a plain name for someone who isn't on the roster yet
+ */
+function getGuestBetting(conn: Pick<typeof db, 'select'>, partyId: number, guest: Guest | string, betId?: number): GuestBetting {
+  const guestWagers = conn
+    .select({ betId: wagers.betId, amount: wagers.amount, status: bets.status })
+    .from(wagers)
+    .innerJoin(bets, eq(wagers.betId, bets.id))
+    .where(and(
+      eq(bets.partyId, partyId),
+      belongsToGuest(wagers.guestId, wagers.userName, guest)
+    ))
+    .all();
+
+  const guestSettlements = conn
+    .select({ netWinLoss: settlements.netWinLoss })
+    .from(settlements)
+    .innerJoin(bets, eq(settlements.betId, bets.id))
+    .where(and(
+      eq(bets.partyId, partyId),
+      belongsToGuest(settlements.guestId, settlements.userName, guest)
+    ))
+    .all();
+
+  const guestRebuys = conn
+    .select({ amount: rebuys.amount })
+    .from(rebuys)
+    .where(and(
+      eq(rebuys.partyId, partyId),
+      belongsToGuest(rebuys.guestId, rebuys.userName, guest)
+    ))
+    .all();
+
+  return {
+    onBet: guestWagers
+      .filter(w => w.betId === betId)
+      .reduce((sum, w) => sum + w.amount, 0),
+    // Settled bets are counted through their settlements, voided bets were refunded
+    inPlay: guestWagers
+      .filter(w => w.status === 'open' || w.status === 'closed')
+      .reduce((sum, w) => sum + w.amount, 0),
+    settledNet: guestSettlements.reduce((sum, s) => sum + s.netWinLoss, 0),
+    rebuys: guestRebuys.reduce((sum, r) => sum + r.amount, 0)
+  };
+}
+
+/**
+ * Build the bankroll response for a guest (amounts in dollars, or chips in chips mode)
+ */
+function bankrollResponse(party: Party, userName: string, betting: GuestBetting) {
+  const { maxWager, maxPerBet, bankroll } = partyToDollars(party);
+
+  return {
+    userName,
+    partyId: party.id,
+    currency: party.currency,
+    maxWager,
+    maxPerBet,
+    bankroll,
+    inPlay: toDollars(betting.inPlay),
+    settledNet: toDollars(betting.settledNet),
+    rebuys: toDollars(betting.rebuys),
+    remaining: party.bankroll === null
+      ? null
+      : toDollars(calculateRemainingBankroll(party.bankroll, betting)),
+    canRebuy: party.currency === 'chips' && party.allowRebuys && party.bankroll !== null &&
+      isBusted(party.bankroll, betting)
+  };
+}
+
+/**
+ * Format an amount (in cents) for a message to the guest
+ * Chips parties talk in whole chips rather than dollars
+ */
+function formatAmount(cents: number, currency: Party['currency']): string {
+  return currency === 'chips'
+    ? `${toDollars(cents)} chips`
+    : `$${toDollars(cents).toFixed(2)}`;
+}
+
+/**
+ * Explain a broken party limit to the guest
+ */
+function describeLimitViolation(violation: WagerLimitViolation, limits: Pick<Party, 'maxWager' | 'maxPerBet' | 'currency'>): string {
+  const format = (cents: number) => formatAmount(cents, limits.currency);
+  const maxAmount = format(violation.maxAmount);
+
+  switch (violation.limit) {
+    case 'maxWager':
+      return `Wager exceeds the party's max per wager of ${maxAmount}.`;
+    case 'maxPerBet':
+      return violation.maxAmount > 0
+        ? `Wager exceeds the party's max per bet of ${format(limits.maxPerBet ?? 0)}. You can wager up to ${maxAmount} more on this bet.`
+        : `You have reached the party's max per bet of ${format(limits.maxPerBet ?? 0)} on this bet.`;
+    case 'bankroll':
+      if (violation.maxAmount > 0) {
+        return `Wager exceeds your remaining bankroll of ${maxAmount}.`;
+      }
+      return limits.currency === 'chips'
+        ? 'You are out of chips. Wait for bets to settle, or rebuy if the host allows it.'
+        : 'Your bankroll is used up. Wait for bets to settle before wagering again.';
+  }
+}
+
+/**
+ * When a wager's owner loses the chance to cancel it, or null if the party doesn't let guests cancel
+ */
+function getCancelDeadline(wager: Wager, party: Pick<Party, 'cancelGraceSeconds'>): Date | null {
+  if (party.cancelGraceSeconds <= 0) {
+    return null;
+  }
+  return new Date(new Date(wager.createdAt).getTime() + party.cancelGraceSeconds * 1000);
+}
+
+/**
+ * Check whether a request comes from the guest who placed a wager: the name has to match,
+ * and so does the guest's PIN if they claimed their name
+ */
+function isWagerOwner(wager: Wager, partyId: number, body: { userName?: string; guestPin?: string }): boolean {
+  if (!body.userName) {
+    return false;
+  }
+
+  const guest = findGuest(db, partyId, body.userName);
+  if (!guest) {
+    return wager.guestId === null && isSameGuestName(wager.userName, body.userName);
+  }
+
+  const ownsWager = wager.guestId === guest.id ||
+    (wager.guestId === null && isSameGuestName(wager.userName, guest.name));
+  if (!ownsWager) {
+    return false;
+  }
+
+  return !guest.pinHash || (body.guestPin !== undefined && checkGuestPin(guest, body.guestPin).ok);
+}
+
 /**
  * POST /api/bets/:id/wagers
  * Place a wager on a bet
@@ -29,7 +183,7 @@ router.post('/:id/wagers', async (req: Request, res: Response) => {
       });
     }
 
-    const { userName, optionId, amount } = validation.data;
+    const { userName, guestPin, optionId, amount, guess } = validation.data;
 
     // Get the bet
     const [bet] = await db
@@ -48,55 +202,389 @@ router.post('/:id/wagers', async (req: Request, res: Response) => {
       });
     }
 
-    // Verify option belongs to this bet
-    const [option] = await db
-      .select()
-      .from(betOptions)
-      .where(and(
-        eq(betOptions.id, optionId),
-        eq(betOptions.betId, betId)
-      ));
+    // The lock time may have passed before the scheduler got round to closing the bet
+    if (bet.closesAt && new Date(bet.closesAt).getTime() <= Date.now()) {
+      return res.status(400).json({
+        error: 'Cannot place wager. Betting closed at the lock time.'
+      });
+    }
 
-    if (!option) {
+    // The creator of a fixed-odds bet is the bank and can't bet against themselves
+    if (bet.type === 'fixed_odds' && isSameGuestName(userName, bet.createdBy)) {
       return res.status(400).json({
-        error: 'Invalid option ID for this bet'
+        error: 'The bet creator is the bank on a fixed-odds bet and cannot place wagers on it'
       });
     }
 
-    // Create the wager
-    const [newWager] = await db
-      .insert(wagers)
-      .values({
-        betId,
-        optionId,
-        userName,
-        amount,
-        createdAt: new Date().toISOString()
-      })
-      .returning();
+    if (bet.type === 'closest_guess') {
+      // Closest-guess wagers carry a numeric guess instead of an option
+      if (guess === undefined || optionId !== undefined) {
+        return res.status(400).json({
+          error: 'Closest-guess wagers need a guess and no option ID'
+        });
+      }
+    } else {
+      if (optionId === undefined) {
+        return res.status(400).json({
+          error: 'Option ID is required for this bet'
+        });
+      }
+
+      // Verify option belongs to this bet
+      const [option] = await db
+        .select()
+        .from(betOptions)
+        .where(and(
+          eq(betOptions.id, optionId),
+          eq(betOptions.betId, betId)
+        ));
+
+      if (!option) {
+        return res.status(400).json({
+          error: 'Invalid option ID for this bet'
+        });
+      }
+
+      // An exact guess is only meaningful on an over/under bet, and must agree with the side picked
+      if (guess !== undefined) {
+        if (bet.type !== 'over_under') {
+          return res.status(400).json({
+            error: 'Exact guesses can only be made on over/under and closest-guess bets'
+          });
+        }
+
+        if (resolveOverUnder(bet.line!, guess) !== option.label.toLowerCase()) {
+          return res.status(400).json({
+            error: `Your guess must be ${option.label.toLowerCase()} the line of ${bet.line} to back ${option.label}`
+          });
+        }
+      }
+    }
+
+    // Create the wager - re-check the status inside the transaction so a wager
+    // can't slip in after a concurrent close, and check the party's limits and the
+    // bank's exposure against the wagers as they stand at insert time
+    const result = db.transaction((tx) => {
+      const current = tx
+        .select({ status: bets.status })
+        .from(bets)
+        .where(eq(bets.id, betId))
+        .get();
+
+      if (current?.status !== 'open') {
+        return { error: 'closed' as const };
+      }
+
+      // Put the wager under the guest on the party's roster (checking their PIN if they claimed the name)
+      const resolved = resolveGuest(tx, bet.partyId, userName, guestPin);
+      if ('error' in resolved) {
+        return { error: 'pin' as const, message: resolved.error };
+      }
+      const { guest } = resolved;
+
+      const party = tx
+        .select()
+        .from(parties)
+        .where(eq(parties.id, bet.partyId))
+        .get();
+
+      if (party && (party.maxWager !== null || party.maxPerBet !== null || party.bankroll !== null)) {
+        const violation = checkWagerLimits(toCents(amount), party, getGuestBetting(tx, bet.partyId, guest, betId));
+        if (violation) {
+          return { error: 'limit' as const, violation, party };
+        }
+      }
+
+      if (bet.type === 'fixed_odds') {
+        const options = tx
+          .select()
+          .from(betOptions)
+          .where(eq(betOptions.betId, betId))
+          .all();
+
+        const existingWagers = tx
+          .select()
+          .from(wagers)
+          .where(eq(wagers.betId, betId))
+          .all();
+
+        const maxStake = calculateMaxFixedOddsStake(
+          existingWagers.map(w => ({ userName: w.userName, optionId: w.optionId!, amount: w.amount })),
+          options.map(o => ({ optionId: o.id, numerator: o.oddsNumerator!, denominator: o.oddsDenominator! })),
+          optionId!,
+          bet.maxExposure ?? 0
+        );
+
+        if (toCents(amount) > maxStake) {
+          return { error: 'exposure' as const, maxStake, party };
+        }
+      }
+
+      const wager = tx
+        .insert(wagers)
+        .values({
+          betId,
+          optionId: optionId ?? null,
+          userName: guest.name,
+          guestId: guest.id,
+          amount: toCents(amount),
+          guess: guess ?? null,
+          createdAt: new Date().toISOString()
+        })
+        .returning()
+        .get();
+
+      return { wager, party };
+    });
+
+    if ('error' in result) {
+      if (result.error === 'pin') {
+        return res.status(401).json({ error: result.message });
+      }
+
+      if (result.error === 'limit') {
+        return res.status(400).json({
+          error: describeLimitViolation(result.violation, result.party),
+          limit: result.violation.limit,
+          maxWager: toDollars(result.violation.maxAmount)
+        });
+      }
+
+      if (result.error === 'exposure') {
+        return res.status(400).json({
+          error: result.maxStake > 0
+            ? `Wager exceeds the bank's maximum exposure. The most you can wager on this option is ${formatAmount(result.maxStake, result.party?.currency ?? 'usd')}.`
+            : 'Wager exceeds the bank\'s maximum exposure. This option is not taking any more wagers.',
+          maxWager: toDollars(result.maxStake)
+        });
+      }
+
+      return res.status(409).json({
+        error: 'Cannot place wager. Bet was closed by another request.'
+      });
+    }
+
+    const newWager = result.wager;
 
     // Emit WebSocket event
     if (process.env.NODE_ENV !== 'test') {
-      emitWagerPlaced(io, bet.partyId, {
+      const options = await db
+        .select()
+        .from(betOptions)
+        .where(eq(betOptions.betId, betId));
+
+      const betWagers = await db
+        .select()
+        .from(wagers)
+        .where(eq(wagers.betId, betId));
+
+      const stats = betStatsToDollars(calculateBetStats(bet.type, options, betWagers));
+
+      // The bet was open a moment ago, so a blind bet only gives away its totals
+      emitWagerPlaced(io, bet.partyId, bet.blind ? {
         id: newWager.id,
         betId: newWager.betId,
         partyId: bet.partyId,
+        blind: true,
+        totalPool: stats.totalPool,
+        participantCount: stats.participantCount
+      } : {
+        id: newWager.id,
+        betId: newWager.betId,
+        partyId: bet.partyId,
+        blind: false,
         userName: newWager.userName,
-        amount: newWager.amount,
-        betOptionId: newWager.optionId
+        guestId: newWager.guestId,
+        amount: toDollars(newWager.amount),
+        betOptionId: newWager.optionId,
+        guess: newWager.guess,
+        createdAt: newWager.createdAt,
+        ...stats
       });
     }
 
-    res.status(201).json(newWager);
+    // Tell the guest how long they have to change their mind
+    const cancelDeadline = result.party ? getCancelDeadline(newWager, result.party) : null;
+
+    res.status(201).json({
+      ...amountToDollars(newWager),
+      cancelableUntil: cancelDeadline?.toISOString() ?? null
+    });
   } catch (error) {
     console.error('Error placing wager:', error);
     res.status(500).json({ error: 'Failed to place wager' });
   }
 });
 
+/**
+ * DELETE /api/bets/:id/wagers/:wagerId
+ * Cancel a wager - its owner can while betting is open and the party's cancel window lasts,
+ * after that only the host (until the bet is settled)
+ */
+router.delete('/:id/wagers/:wagerId', identifyHost, async (req: Request, res: Response) => {
+  try {
+    const betId = parseInt(req.params.id);
+    const wagerId = parseInt(req.params.wagerId);
+
+    if (isNaN(betId) || isNaN(wagerId)) {
+      return res.status(400).json({ error: 'Invalid bet or wager ID' });
+    }
+
+    // Validate input
+    const validation = cancelWagerSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const [bet] = await db
+      .select()
+      .from(bets)
+      .where(eq(bets.id, betId));
+
+    if (!bet) {
+      return res.status(404).json({ error: 'Bet not found' });
+    }
+
+    const [wager] = await db
+      .select()
+      .from(wagers)
+      .where(and(
+        eq(wagers.id, wagerId),
+        eq(wagers.betId, betId)
+      ));
+
+    if (!wager) {
+      return res.status(404).json({ error: 'Wager not found' });
+    }
+
+    if (bet.status !== 'open' && bet.status !== 'closed') {
+      return res.status(400).json({
+        error: `Cannot cancel wager. Bet is ${bet.status}.`
+      });
+    }
+
+    // Verify authorization
+    const isHost = res.locals.isHost === true;
+
+    if (!isHost) {
+      if (!isWagerOwner(wager, bet.partyId, validation.data)) {
+        return res.status(403).json({
+          error: 'Only the guest who placed this wager or the host can cancel it'
+        });
+      }
+
+      const [party] = await db
+        .select()
+        .from(parties)
+        .where(eq(parties.id, bet.partyId));
+
+      const deadline = party ? getCancelDeadline(wager, party) : null;
+      if (bet.status !== 'open' || !deadline || Date.now() > deadline.getTime()) {
+        return res.status(403).json({
+          error: 'The time to cancel this wager has passed. Ask the host to cancel it.'
+        });
+      }
+    }
+
+    const cancelled = db.transaction((tx) => {
+      // Only touch the bet if it still takes cancellations - it may have been closed, settled or
+      // voided since it was read above, and a settled pool must keep every wager it paid out on
+      const stillOpen = tx
+        .update(bets)
+        .set({ updatedAt: new Date().toISOString() })
+        .where(and(
+          eq(bets.id, betId),
+          inArray(bets.status, isHost ? ['open', 'closed'] : ['open'])
+        ))
+        .returning()
+        .get();
+
+      if (!stillOpen) {
+        return { error: 'status' as const };
+      }
+
+      const deleted = tx
+        .delete(wagers)
+        .where(eq(wagers.id, wagerId))
+        .returning()
+        .get();
+
+      if (!deleted) {
+        return { error: 'cancelled' as const };
+      }
+
+      // The wager row is gone, so the audit trail keeps what it was
+      tx.insert(auditLog).values({
+        partyId: bet.partyId,
+        betId,
+        action: 'cancel_wager',
+        actor: isHost ? 'host' : deleted.userName,
+        details: JSON.stringify({
+          wagerId: deleted.id,
+          userName: deleted.userName,
+          optionId: deleted.optionId,
+          amount: toDollars(deleted.amount),
+          guess: deleted.guess,
+          placedAt: deleted.createdAt
+        }),
+        createdAt: new Date().toISOString()
+      }).run();
+
+      return deleted;
+    });
+
+    if ('error' in cancelled) {
+      return res.status(409).json({
+        error: cancelled.error === 'status'
+          ? 'Bet was closed, settled or voided by another request'
+          : 'Wager was already cancelled by another request'
+      });
+    }
+
+    // Emit WebSocket event
+    if (process.env.NODE_ENV !== 'test') {
+      const options = await db
+        .select()
+        .from(betOptions)
+        .where(eq(betOptions.betId, betId));
+
+      const betWagers = await db
+        .select()
+        .from(wagers)
+        .where(eq(wagers.betId, betId));
+
+      const stats = betStatsToDollars(calculateBetStats(bet.type, options, betWagers));
+
+      emitWagerCancelled(io, bet.partyId, isBreakdownHidden(bet) ? {
+        id: cancelled.id,
+        betId,
+        partyId: bet.partyId,
+        blind: true,
+        totalPool: stats.totalPool,
+        participantCount: stats.participantCount
+      } : {
+        id: cancelled.id,
+        betId,
+        partyId: bet.partyId,
+        blind: false,
+        ...stats
+      });
+    }
+
+    res.json(amountToDollars(cancelled));
+  } catch (error) {
+    console.error('Error cancelling wager:', error);
+    res.status(500).json({ error: 'Failed to cancel wager' });
+  }
+});
+
 /**
  * GET /api/bets/:id/wagers
- * Get all wagers for a bet, grouped by option
+ * Get all wagers for a bet, grouped by option (closest-guess wagers are listed by guess instead)
+ * While a blind bet is open, only the total pool and participant count are returned
  */
 router.get('/:id/wagers', async (req: Request, res: Response) => {
   try {
@@ -123,16 +611,34 @@ router.get('/:id/wagers', async (req: Request, res: Response) => {
         betId: wagers.betId,
         optionId: wagers.optionId,
         userName: wagers.userName,
+        guestId: wagers.guestId,
         amount: wagers.amount,
+        guess: wagers.guess,
         createdAt: wagers.createdAt,
         optionLabel: betOptions.label
       })
       .from(wagers)
-      .innerJoin(betOptions, eq(wagers.optionId, betOptions.id))
+      .leftJoin(betOptions, eq(wagers.optionId, betOptions.id))
       .where(eq(wagers.betId, betId));
 
+    const { totalPool, participantCount } = calculateBetStats(bet.type, [], betWagers);
+
+    // A blind bet only shows its totals until betting closes
+    if (isBreakdownHidden(bet)) {
+      return res.json({
+        betId,
+        options: [],
+        guesses: [],
+        totalPool: toDollars(totalPool),
+        participantCount
+      });
+    }
+
     // Group by option
     const groupedByOption = betWagers.reduce((acc, wager) => {
+      if (wager.optionId === null) {
+        return acc;
+      }
       if (!acc[wager.optionId]) {
         acc[wager.optionId] = {
           optionId: wager.optionId,
@@ -144,17 +650,32 @@ router.get('/:id/wagers', async (req: Request, res: Response) => {
       acc[wager.optionId].wagers.push({
         id: wager.id,
         userName: wager.userName,
-        amount: wager.amount,
+        amount: toDollars(wager.amount),
+        guess: wager.guess,
         createdAt: wager.createdAt
       });
-      acc[wager.optionId].totalAmount += wager.amount;
+      acc[wager.optionId].totalAmount += toDollars(wager.amount);
       return acc;
     }, {} as Record<number, any>);
 
+    // Closest-guess wagers have no option, so list them by guess
+    const guesses = betWagers
+      .filter(wager => wager.optionId === null)
+      .sort((a, b) => a.guess! - b.guess!)
+      .map(wager => ({
+        id: wager.id,
+        userName: wager.userName,
+        amount: toDollars(wager.amount),
+        guess: wager.guess,
+        createdAt: wager.createdAt
+      }));
+
     res.json({
       betId,
       options: Object.values(groupedByOption),
-      totalPool: betWagers.reduce((sum, w) => sum + w.amount, 0)
+      guesses,
+      totalPool: toDollars(totalPool),
+      participantCount
     });
   } catch (error) {
     console.error('Error fetching wagers:', error);
@@ -163,8 +684,8 @@ router.get('/:id/wagers', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/users/:userName/wagers
- * Get all wagers for a user in the active party
+ * GET /api/users/:userName/wagers?partyId= (or ?joinCode=)
+ * Get all wagers for a user at a party
  */
 router.get('/users/:userName/wagers', async (req: Request, res: Response) => {
   try {
@@ -174,37 +695,38 @@ router.get('/users/:userName/wagers', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'User name is required' });
     }
 
-    // Get active party
-    const [activeParty] = await db
-      .select()
-      .from(parties)
-      .where(eq(parties.status, 'active'));
-
-    if (!activeParty) {
-      return res.json({
-        userName,
-        partyId: null,
-        partyName: null,
-        wagers: []
+    // Validate input
+    const validation = partyQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
       });
     }
 
-    // Get all bets for active party
+    const party = findParty(db, validation.data);
+
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found' });
+    }
+
+    // Get all of the party's bets
     const partyBets = await db
       .select()
       .from(bets)
-      .where(eq(bets.partyId, activeParty.id));
+      .where(eq(bets.partyId, party.id));
 
     if (partyBets.length === 0) {
       return res.json({
         userName,
-        partyId: activeParty.id,
-        partyName: activeParty.name,
+        partyId: party.id,
+        partyName: party.name,
         wagers: []
       });
     }
 
     const betIds = partyBets.map(b => b.id);
+    const guest = findGuest(db, party.id, userName);
 
     // Get user's wagers for those bets
     const userWagers = await db
@@ -213,6 +735,7 @@ router.get('/users/:userName/wagers', async (req: Request, res: Response) => {
         betId: wagers.betId,
         optionId: wagers.optionId,
         amount: wagers.amount,
+        guess: wagers.guess,
         createdAt: wagers.createdAt,
         betQuestion: bets.question,
         betStatus: bets.status,
@@ -220,17 +743,17 @@ router.get('/users/:userName/wagers', async (req: Request, res: Response) => {
       })
       .from(wagers)
       .innerJoin(bets, eq(wagers.betId, bets.id))
-      .innerJoin(betOptions, eq(wagers.optionId, betOptions.id))
+      .leftJoin(betOptions, eq(wagers.optionId, betOptions.id)) // No option on closest-guess wagers
       .where(and(
-        eq(wagers.userName, userName),
+        belongsToGuest(wagers.guestId, wagers.userName, guest ?? userName),
         inArray(wagers.betId, betIds)
       ));
 
     res.json({
-      userName,
-      partyId: activeParty.id,
-      partyName: activeParty.name,
-      wagers: userWagers
+      userName: guest?.name ?? userName,
+      partyId: party.id,
+      partyName: party.name,
+      wagers: userWagers.map(amountToDollars)
     });
   } catch (error) {
     console.error('Error fetching user wagers:', error);
@@ -238,4 +761,128 @@ router.get('/users/:userName/wagers', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/users/:userName/bankroll?partyId= (or ?joinCode=)
+ * Get a user's remaining bankroll and the party's betting limits
+ */
+router.get('/users/:userName/bankroll', async (req: Request, res: Response) => {
+  try {
+    const { userName } = req.params;
+
+    if (!userName || userName.trim() === '') {
+      return res.status(400).json({ error: 'User name is required' });
+    }
+
+    // Validate input
+    const validation = partyQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const party = findParty(db, validation.data);
+
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found' });
+    }
+
+    const guest = findGuest(db, party.id, userName);
+
+    res.json(bankrollResponse(party, guest?.name ?? userName, getGuestBetting(db, party.id, guest ?? userName)));
+  } catch (error) {
+    console.error('Error fetching bankroll:', error);
+    res.status(500).json({ error: 'Failed to fetch bankroll' });
+  }
+});
+
+/**
+ * POST /api/users/:userName/rebuy
+ * Give a busted guest a fresh chip stack (chips parties that allow rebuys only)
+ */
+router.post('/users/:userName/rebuy', async (req: Request, res: Response) => {
+  try {
+    const { userName } = req.params;
+
+    if (!userName || userName.trim() === '') {
+      return res.status(400).json({ error: 'User name is required' });
+    }
+
+    // Validate input
+    const validation = rebuySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: formatZodError(validation.error)
+      });
+    }
+
+    const party = findParty(db, validation.data);
+
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found' });
+    }
+
+    if (party.status !== 'active') {
+      return res.status(400).json({ error: 'Rebuys are only available at an active party' });
+    }
+
+    if (party.currency !== 'chips' || !party.allowRebuys || party.bankroll === null) {
+      return res.status(400).json({ error: 'Rebuys are not allowed at this party' });
+    }
+
+    const stack = party.bankroll;
+
+    // Check and record the rebuy together, so a double click can't buy two stacks
+    const result = db.transaction((tx) => {
+      // Put the rebuy under the guest on the party's roster (checking their PIN if they claimed the name)
+      const resolved = resolveGuest(tx, party.id, userName, validation.data.guestPin);
+      if ('error' in resolved) {
+        return { error: 'pin' as const, message: resolved.error };
+      }
+      const { guest } = resolved;
+
+      const current = getGuestBetting(tx, party.id, guest);
+      if (!isBusted(stack, current)) {
+        return { error: 'not_busted' as const };
+      }
+
+      tx.insert(rebuys).values({
+        partyId: party.id,
+        userName: guest.name,
+        guestId: guest.id,
+        amount: stack,
+        createdAt: new Date().toISOString()
+      }).run();
+
+      return { guest, betting: { ...current, rebuys: current.rebuys + stack } };
+    });
+
+    if ('error' in result) {
+      if (result.error === 'pin') {
+        return res.status(401).json({ error: result.message });
+      }
+
+      return res.status(400).json({
+        error: 'You can only rebuy once you are out of chips, with nothing left in play'
+      });
+    }
+
+    // Emit WebSocket event
+    if (process.env.NODE_ENV !== 'test') {
+      emitRebuy(io, party.id, {
+        partyId: party.id,
+        userName: result.guest.name,
+        amount: toDollars(stack)
+      });
+    }
+
+    res.status(201).json(bankrollResponse(party, result.guest.name, result.betting));
+  } catch (error) {
+    console.error('Error processing rebuy:', error);
+    res.status(500).json({ error: 'Failed to process rebuy' });
+  }
+});
+
 export default router;
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../../db/index';
+import { parties, bets, betOptions, wagers, settlements, auditLog, archivedSettlements, guests } from '../../db/schema';
+import { eq } from 'drizzle-orm';
+import { initTestDb } from '../../__tests__/test-utils';
+import { closeDueBets } from '../auto-close';
+
+process.env.NODE_ENV = 'test';
+
+describe('closeDueBets', () => {
+  // Initialize test database tables
+  initTestDb();
+
+  const now = new Date('2026-02-08T23:30:00.000Z');
+  let partyId: number;
+
+  const createBet = async (status: 'open' | 'closed' | 'void', closesAt: string | null) => {
+    const [bet] = await db.insert(bets).values({
+      partyId,
+      type: 'yes_no',
+      question: 'Will there be overtime?',
+      createdBy: 'Alice',
+      status,
+      closesAt,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }).returning();
+    return bet;
+  };
+
+  beforeEach(async () => {
+    // Clean up tables in correct order (child tables first)
+    await db.delete(archivedSettlements);
+    await db.delete(auditLog);
+    await db.delete(settlements);
+    await db.delete(wagers);
+    await db.delete(betOptions);
+    await db.delete(bets);
+    await db.delete(guests);
+    await db.delete(parties);
+
+    const [party] = await db.insert(parties).values({
+      name: 'Super Bowl Party',
+      date: '2026-02-08T00:00:00Z',
+      status: 'active',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }).returning();
+    partyId = party.id;
+  });
+
+  it('should close open bets whose lock time has passed', async () => {
+    const due = await createBet('open', '2026-02-08T23:29:59.000Z');
+    const exactlyDue = await createBet('open', now.toISOString());
+
+    const closed = closeDueBets(now);
+
+    expect(closed.map(b => b.id).sort()).toEqual([due.id, exactlyDue.id].sort());
+
+    const [updated] = await db.select().from(bets).where(eq(bets.id, due.id));
+    expect(updated.status).toBe('closed');
+  });
+
+  it('should leave bets without a due lock time alone', async () => {
+    const future = await createBet('open', '2026-02-08T23:31:00.000Z');
+    const noLock = await createBet('open', null);
+    const voided = await createBet('void', '2026-02-08T23:00:00.000Z');
+
+    expect(closeDueBets(now)).toEqual([]);
+
+    const rows = await db.select().from(bets);
+    expect(rows.find(b => b.id === future.id)!.status).toBe('open');
+    expect(rows.find(b => b.id === noLock.id)!.status).toBe('open');
+    expect(rows.find(b => b.id === voided.id)!.status).toBe('void');
+  });
+
+  it('should record the close in the audit log', async () => {
+    const due = await createBet('open', '2026-02-08T23:00:00.000Z');
+
+    closeDueBets(now);
+
+    const entries = await db.select().from(auditLog).where(eq(auditLog.betId, due.id));
+    expect(entries).toHaveLength(1);
+    expect(entries[0].action).toBe('close');
+    expect(entries[0].actor).toBe('scheduler');
+  });
+
+  it('should only close a bet once', async () => {
+    await createBet('open', '2026-02-08T23:00:00.000Z');
+
+    expect(closeDueBets(now)).toHaveLength(1);
+    expect(closeDueBets(now)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Auto-close scheduler for Place-A-Bet
+ *
+ * Bets can carry an optional lock time (closesAt). The scheduler polls for open bets whose
+ * lock time has passed and closes them, writing the same audit entry and bet:updated event
+ * as a manual close. Lock times live in the database, so bets that came due while the
+ * server was down are closed on the first run after a restart.
+ *
+ * Polling leaves a short window after the lock time where a bet still reads as open;
+ * the wagers route checks closesAt itself, so no wager gets in during that window.
+ */
+
+import { and, eq, lte } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { bets, auditLog, type Bet } from '../db/schema.js';
+import { emitBetUpdated, type SocketIOServer } from '../websocket/events.js';
+
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Close every open bet whose lock time has passed
+ *
+ * @param now - Current time (injectable for tests)
+ * @returns The bets that were closed
+ */
+export function closeDueBets(now: Date = new Date()): Bet[] {
+  const timestamp = now.toISOString();
+
+  return db.transaction((tx) => {
+    // Only transitions from 'open', so a bet closed by hand in the meantime is left alone
+    const closedBets = tx
+      .update(bets)
+      .set({
+        status: 'closed',
+        updatedAt: timestamp
+      })
+      .where(and(
+        eq(bets.status, 'open'),
+        lte(bets.closesAt, timestamp)
+      ))
+      .returning()
+      .all();
+
+    closedBets.forEach(bet => {
+      tx.insert(auditLog).values({
+        partyId: bet.partyId,
+        betId: bet.id,
+        action: 'close',
+        actor: 'scheduler',
+        details: JSON.stringify({ closesAt: bet.closesAt }),
+        createdAt: timestamp
+      }).run();
+    });
+
+    return closedBets;
+  });
+}
+
+/**
+ * Start closing bets at their lock time
+ * Runs once immediately (to catch bets that came due during a restart), then on an interval
+ *
+ * @returns The interval timer, so callers can stop the scheduler
+ */
+export function startAutoCloseScheduler(io: SocketIOServer): NodeJS.Timeout {
+  const run = () => {
+    try {
+      closeDueBets().forEach(bet => {
+        emitBetUpdated(io, bet.partyId, {
+          id: bet.id,
+          partyId: bet.partyId,
+          status: bet.status
+        });
+      });
+    } catch (error) {
+      console.error('Error auto-closing bets:', error);
+    }
+  };
+
+  run();
+
+  const timer = setInterval(run, POLL_INTERVAL_MS);
+  timer.unref(); // Don't keep the process alive just for the scheduler
+  return timer;
+}
@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { randomCode, normalizeCode } from '../codes';
+
+describe('randomCode', () => {
+  it('should only use characters that are hard to mix up', () => {
+    expect(randomCode(200)).toMatch(/^[A-HJ-NP-Z2-9]{200}$/);
+  });
+});
+
+describe('normalizeCode', () => {
+  it('should ignore case, dashes and spaces', () => {
+    expect(normalizeCode(' k7p-2qx ')).toBe('K7P2QX');
+  });
+});
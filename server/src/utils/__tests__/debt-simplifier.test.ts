@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { simplifyDebts, type UserBalance, type Transfer } from '../debt-simplifier';
+
+/**
+ * Apply transfers to balances and return what is left per user (should be all zero)
+ */
+function applyTransfers(balances: UserBalance[], transfers: Transfer[]): Map<string, number> {
+  const remaining = new Map<string, number>();
+  balances.forEach(b => remaining.set(b.userName, Math.round(b.netAmount * 100)));
+
+  transfers.forEach(t => {
+    const cents = Math.round(t.amount * 100);
+    if (t.from !== null) {
+      remaining.set(t.from, (remaining.get(t.from) || 0) + cents);
+    }
+    if (t.to !== null) {
+      remaining.set(t.to, (remaining.get(t.to) || 0) - cents);
+    }
+  });
+
+  return remaining;
+}
+
+describe('simplifyDebts', () => {
+  describe('Basic functionality', () => {
+    it('should return empty array when no balances', () => {
+      expect(simplifyDebts([])).toEqual([]);
+    });
+
+    it('should return empty array when everyone broke even', () => {
+      const balances: UserBalance[] = [
+        { userName: 'Alice', netAmount: 0 },
+        { userName: 'Bob', netAmount: 0 }
+      ];
+
+      expect(simplifyDebts(balances)).toEqual([]);
+    });
+
+    it('should create a single transfer between one loser and one winner', () => {
+      const balances: UserBalance[] = [
+        { userName: 'Alice', netAmount: 20 },
+        { userName: 'Bob', netAmount: -20 }
+      ];
+
+      expect(simplifyDebts(balances)).toEqual([
+        { from: 'Bob', to: 'Alice', amount: 20 }
+      ]);
+    });
+  });
+
+  describe('Minimizing transfers', () => {
+    it('should split one loser across multiple winners', () => {
+      const balances: UserBalance[] = [
+        { userName: 'Alice', netAmount: 30 },
+        { userName: 'Bob', netAmount: 20 },
+        { userName: 'Carol', netAmount: -50 }
+      ];
+
+      expect(simplifyDebts(balances)).toEqual([
+        { from: 'Carol', to: 'Alice', amount: 30 },
+        { from: 'Carol', to: 'Bob', amount: 20 }
+      ]);
+    });
+
+    it('should prefer exact matches so each pair settles with one transfer', () => {
+      const balances: UserBalance[] = [
+        { userName: 'Alice', netAmount: 50 },
+        { userName: 'Bob', netAmount: 10 },
+        { userName: 'Carol', netAmount: -10 },
+        { userName: 'Dave', netAmount: -50 }
+      ];
+
+      const transfers = simplifyDebts(balances);
+
+      expect(transfers).toEqual([
+        { from: 'Dave', to: 'Alice', amount: 50 },
+        { from: 'Carol', to: 'Bob', amount: 10 }
+      ]);
+    });
+
+    it('should never need more than (users - 1) transfers', () => {
+      const balances: UserBalance[] = [
+        { userName: 'A', netAmount: 37 },
+        { userName: 'B', netAmount: 12 },
+        { userName: 'C', netAmount: 4 },
+        { userName: 'D', netAmount: -19 },
+        { userName: 'E', netAmount: -21 },
+        { userName: 'F', netAmount: -13 }
+      ];
+
+      const transfers = simplifyDebts(balances);
+
+      expect(transfers.length).toBeLessThanOrEqual(balances.length - 1);
+      applyTransfers(balances, transfers).forEach(cents => expect(cents).toBe(0));
+    });
+
+    it('should merge duplicate user entries before matching', () => {
+      const balances: UserBalance[] = [
+        { userName: 'Alice', netAmount: 20 },
+        { userName: 'Alice', netAmount: -5 },
+        { userName: 'Bob', netAmount: -15 }
+      ];
+
+      expect(simplifyDebts(balances)).toEqual([
+        { from: 'Bob', to: 'Alice', amount: 15 }
+      ]);
+    });
+  });
+
+  describe('Fractional amounts', () => {
+    it('should settle cent amounts exactly', () => {
+      const balances: UserBalance[] = [
+        { userName: 'Alice', netAmount: 1.67 },
+        { userName: 'Bob', netAmount: 13.33 },
+        { userName: 'Carol', netAmount: -15 }
+      ];
+
+      const transfers = simplifyDebts(balances);
+
+      expect(transfers).toEqual([
+        { from: 'Carol', to: 'Bob', amount: 13.33 },
+        { from: 'Carol', to: 'Alice', amount: 1.67 }
+      ]);
+    });
+  });
+
+  describe('House imbalance', () => {
+    it('should send unmatched losses to the house', () => {
+      // Nobody picked the winning option - everyone loses
+      const balances: UserBalance[] = [
+        { userName: 'Alice', netAmount: -10 },
+        { userName: 'Bob', netAmount: -20 }
+      ];
+
+      expect(simplifyDebts(balances)).toEqual([
+        { from: 'Bob', to: null, amount: 20 },
+        { from: 'Alice', to: null, amount: 10 }
+      ]);
+    });
+
+    it('should have the house cover unmatched winnings', () => {
+      const balances: UserBalance[] = [
+        { userName: 'Alice', netAmount: 25 },
+        { userName: 'Bob', netAmount: -20 }
+      ];
+
+      expect(simplifyDebts(balances)).toEqual([
+        { from: 'Bob', to: 'Alice', amount: 20 },
+        { from: null, to: 'Alice', amount: 5 }
+      ]);
+    });
+  });
+});
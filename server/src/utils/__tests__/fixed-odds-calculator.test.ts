@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  calculateFixedOddsWinnings,
+  calculateFixedOddsExposure,
+  calculateMaxFixedOddsStake,
+  calculateFixedOddsPayouts,
+  type OptionOdds
+} from '../fixed-odds-calculator';
+import type { UserWager } from '../payout-calculator';
+
+// All amounts are integer cents; comments describe the same scenarios in dollars
+// Option 1 is offered at 3-to-1, option 2 at 1-to-2 (odds-on)
+const odds: OptionOdds[] = [
+  { optionId: 1, numerator: 3, denominator: 1 },
+  { optionId: 2, numerator: 1, denominator: 2 }
+];
+
+describe('calculateFixedOddsWinnings', () => {
+  it('should multiply the stake by the odds', () => {
+    // $10 at 3-to-1 wins $30
+    expect(calculateFixedOddsWinnings(1000, odds[0])).toBe(3000);
+  });
+
+  it('should round fractions of a cent down', () => {
+    // 1 cent at 1-to-2 wins half a cent
+    expect(calculateFixedOddsWinnings(1, odds[1])).toBe(0);
+    expect(calculateFixedOddsWinnings(3, odds[1])).toBe(1);
+  });
+});
+
+describe('calculateFixedOddsExposure', () => {
+  it('should be zero with no wagers', () => {
+    expect(calculateFixedOddsExposure([], odds)).toBe(0);
+  });
+
+  it('should be the worst single-winner loss for the bank', () => {
+    const wagers: UserWager[] = [
+      { userName: 'Bob', optionId: 1, amount: 1000 }, // $10 at 3-to-1
+      { userName: 'Carol', optionId: 2, amount: 2000 } // $20 at 1-to-2
+    ];
+
+    // Option 1 wins: bank pays $40, collected $30 -> loses $10
+    // Option 2 wins: bank pays $30, collected $30 -> breaks even
+    expect(calculateFixedOddsExposure(wagers, odds)).toBe(1000);
+  });
+
+  it('should be zero when the bank wins on every outcome', () => {
+    const shortOdds: OptionOdds[] = [
+      { optionId: 1, numerator: 1, denominator: 2 },
+      { optionId: 2, numerator: 1, denominator: 2 }
+    ];
+    const wagers: UserWager[] = [
+      { userName: 'Bob', optionId: 1, amount: 1000 },
+      { userName: 'Carol', optionId: 2, amount: 1000 }
+    ];
+
+    // Either way the bank pays $15 out of the $20 it collected
+    expect(calculateFixedOddsExposure(wagers, shortOdds)).toBe(0);
+  });
+});
+
+describe('calculateMaxFixedOddsStake', () => {
+  it('should allow stakes up to the exposure limit', () => {
+    // $30 limit at 3-to-1 allows a $10 stake
+    expect(calculateMaxFixedOddsStake([], odds, 1, 3000)).toBe(1000);
+  });
+
+  it('should count stakes on other options towards the headroom', () => {
+    // $20 on option 2 is collected if option 1 wins, so $30 + $20 of losses can be covered
+    const wagers: UserWager[] = [{ userName: 'Carol', optionId: 2, amount: 2000 }];
+    expect(calculateMaxFixedOddsStake(wagers, odds, 1, 3000)).toBe(1666);
+  });
+
+  it('should return zero when the option is full', () => {
+    const wagers: UserWager[] = [{ userName: 'Bob', optionId: 1, amount: 1000 }];
+    expect(calculateMaxFixedOddsStake(wagers, odds, 1, 3000)).toBe(0);
+  });
+
+  it('should return zero for an unknown option', () => {
+    expect(calculateMaxFixedOddsStake([], odds, 99, 3000)).toBe(0);
+  });
+
+  it('should never let exposure go over the limit (property)', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            userName: fc.constantFrom('Bob', 'Carol', 'Dave'),
+            optionId: fc.constantFrom(1, 2),
+            amount: fc.integer({ min: 1, max: 100000 })
+          }),
+          { maxLength: 10 }
+        ),
+        fc.constantFrom(1, 2),
+        fc.integer({ min: 1, max: 1000000 }),
+        (wagers, optionId, maxExposure) => {
+          const maxStake = calculateMaxFixedOddsStake(wagers, odds, optionId, maxExposure);
+          if (maxStake === 0) {
+            return;
+          }
+
+          const withStake = [...wagers, { userName: 'Erin', optionId, amount: maxStake }];
+          const exposure = calculateFixedOddsExposure(withStake, odds);
+
+          // Either within the limit, or no worse than before (the limit was already blown elsewhere)
+          expect(exposure <= Math.max(maxExposure, calculateFixedOddsExposure(wagers, odds))).toBe(true);
+        }
+      )
+    );
+  });
+});
+
+describe('calculateFixedOddsPayouts', () => {
+  it('should return empty array when no wagers', () => {
+    expect(calculateFixedOddsPayouts([], 1, odds, 'Alice')).toEqual([]);
+  });
+
+  it('should pay winners at the quoted odds with the creator as the bank', () => {
+    const wagers: UserWager[] = [
+      { userName: 'Bob', optionId: 1, amount: 1000 },
+      { userName: 'Carol', optionId: 2, amount: 2000 }
+    ];
+
+    const result = calculateFixedOddsPayouts(wagers, 1, odds, 'Alice');
+
+    expect(result).toEqual([
+      { userName: 'Bob', totalWagered: 1000, payout: 4000, netWinLoss: 3000 },
+      { userName: 'Alice', totalWagered: 4000, payout: 3000, netWinLoss: -1000 },
+      { userName: 'Carol', totalWagered: 2000, payout: 0, netWinLoss: -2000 }
+    ]);
+  });
+
+  it('should let the bank keep every stake when nobody backed the winner', () => {
+    const wagers: UserWager[] = [{ userName: 'Bob', optionId: 1, amount: 1000 }];
+
+    const result = calculateFixedOddsPayouts(wagers, 2, odds, 'Alice');
+
+    expect(result).toEqual([
+      { userName: 'Alice', totalWagered: 0, payout: 1000, netWinLoss: 1000 },
+      { userName: 'Bob', totalWagered: 1000, payout: 0, netWinLoss: -1000 }
+    ]);
+  });
+
+  it('should pay dead heats on the stake divided by the number of winners', () => {
+    const wagers: UserWager[] = [
+      { userName: 'Bob', optionId: 1, amount: 1000 },
+      { userName: 'Carol', optionId: 2, amount: 2000 }
+    ];
+
+    const result = calculateFixedOddsPayouts(wagers, [1, 2], odds, 'Alice');
+
+    // Bob: $5 at 3-to-1 returns $20; Carol: $10 at 1-to-2 returns $15
+    expect(result.find(r => r.userName === 'Bob')!.payout).toBe(2000);
+    expect(result.find(r => r.userName === 'Carol')!.payout).toBe(1500);
+    expect(result.find(r => r.userName === 'Alice')!.netWinLoss).toBe(-500);
+  });
+
+  it('should keep the books balanced (property)', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            userName: fc.constantFrom('Bob', 'Carol', 'Dave'),
+            optionId: fc.constantFrom(1, 2),
+            amount: fc.integer({ min: 1, max: 100000 })
+          }),
+          { minLength: 1, maxLength: 10 }
+        ),
+        fc.subarray([1, 2], { minLength: 1 }),
+        (wagers, winners) => {
+          const result = calculateFixedOddsPayouts(wagers, winners, odds, 'Alice');
+          const totalNet = result.reduce((sum, r) => sum + r.netWinLoss, 0);
+
+          // Every cent a bettor wins is a cent the bank loses
+          expect(totalNet).toBe(0);
+
+          // A dead heat never costs the bank more than its worst single-winner outcome
+          const bank = result.find(r => r.userName === 'Alice')!;
+          expect(-bank.netWinLoss).toBeLessThanOrEqual(calculateFixedOddsExposure(wagers, odds));
+        }
+      )
+    );
+  });
+});
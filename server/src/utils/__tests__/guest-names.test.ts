@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { cleanGuestName, normalizeGuestName, isSameGuestName } from '../guest-names';
+
+describe('cleanGuestName', () => {
+  it('should trim and collapse whitespace but keep capitalisation', () => {
+    expect(cleanGuestName('  Mary   Jane ')).toBe('Mary Jane');
+    expect(cleanGuestName('Bob')).toBe('Bob');
+  });
+
+  it('should collapse tabs and newlines too', () => {
+    expect(cleanGuestName('Mary\t\nJane')).toBe('Mary Jane');
+  });
+});
+
+describe('normalizeGuestName', () => {
+  it('should ignore case and spacing', () => {
+    expect(normalizeGuestName('Alice ')).toBe('alice');
+    expect(normalizeGuestName(' ALICE')).toBe('alice');
+    expect(normalizeGuestName('mary  JANE')).toBe('mary jane');
+  });
+});
+
+describe('isSameGuestName', () => {
+  it('should match names that differ only by case or spacing', () => {
+    expect(isSameGuestName('alice', 'Alice ')).toBe(true);
+    expect(isSameGuestName('Mary Jane', 'mary   jane')).toBe(true);
+  });
+
+  it('should not match different names', () => {
+    expect(isSameGuestName('Alice', 'Alicia')).toBe(false);
+    expect(isSameGuestName('MaryJane', 'Mary Jane')).toBe(false);
+  });
+});
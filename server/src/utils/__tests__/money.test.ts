@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { toCents, toDollars, allocateByLargestRemainder } from '../money';
+
+describe('toCents / toDollars', () => {
+  it('should convert dollars to integer cents', () => {
+    expect(toCents(10)).toBe(1000);
+    expect(toCents(13.33)).toBe(1333);
+    expect(toCents(0.1 + 0.2)).toBe(30);
+  });
+
+  it('should convert cents back to dollars', () => {
+    expect(toDollars(1667)).toBe(16.67);
+    expect(toDollars(-1500)).toBe(-15);
+  });
+});
+
+describe('allocateByLargestRemainder', () => {
+  it('should split evenly when the total divides exactly', () => {
+    const result = allocateByLargestRemainder(3000, new Map([['a', 1], ['b', 2]]));
+
+    expect(Object.fromEntries(result)).toEqual({ a: 1000, b: 2000 });
+  });
+
+  it('should give leftover units to the largest remainders', () => {
+    // Exact shares: 33.33, 33.33, 33.33 -> one leftover cent, lowest key wins the tie
+    const even = allocateByLargestRemainder(100, new Map([['c', 1], ['a', 1], ['b', 1]]));
+    expect(Object.fromEntries(even)).toEqual({ a: 34, b: 33, c: 33 });
+
+    // Exact shares: 14.29, 28.57, 57.14 -> b has the largest remainder
+    const weighted = allocateByLargestRemainder(100, new Map([['a', 1], ['b', 2], ['c', 4]]));
+    expect(Object.fromEntries(weighted)).toEqual({ a: 14, b: 29, c: 57 });
+  });
+
+  it('should give nothing to zero weights', () => {
+    const result = allocateByLargestRemainder(100, new Map([['a', 0], ['b', 3]]));
+
+    expect(Object.fromEntries(result)).toEqual({ a: 0, b: 100 });
+  });
+
+  it('should allocate nothing when every weight is zero', () => {
+    const result = allocateByLargestRemainder(100, new Map([['a', 0]]));
+
+    expect(Object.fromEntries(result)).toEqual({ a: 0 });
+  });
+
+  it('should always allocate exactly the total', () => {
+    for (let total = 0; total < 200; total += 7) {
+      const result = allocateByLargestRemainder(total, new Map([[1, 3], [2, 5], [3, 11]]));
+      const sum = Array.from(result.values()).reduce((a, b) => a + b, 0);
+      expect(sum).toBe(total);
+    }
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import type { NetworkInterfaceInfo } from 'os';
+import { getLanAddresses } from '../network';
+
+const ipv4 = (address: string, internal = false): NetworkInterfaceInfo => ({
+  address,
+  netmask: '255.255.255.0',
+  family: 'IPv4',
+  mac: '00:00:00:00:00:00',
+  internal,
+  cidr: `${address}/24`
+});
+
+describe('getLanAddresses', () => {
+  it('should put 192.168.x.x addresses first', () => {
+    const addresses = getLanAddresses({
+      docker0: [ipv4('172.17.0.1')],
+      eth0: [ipv4('10.0.0.5')],
+      wlan0: [ipv4('192.168.1.20')]
+    });
+
+    expect(addresses.map(a => a.address)).toEqual(['192.168.1.20', '10.0.0.5', '172.17.0.1']);
+    expect(addresses[0].interface).toBe('wlan0');
+  });
+
+  it('should leave out loopback, link-local and IPv6 addresses', () => {
+    const addresses = getLanAddresses({
+      lo: [ipv4('127.0.0.1', true)],
+      eth0: [
+        ipv4('169.254.10.10'),
+        { ...ipv4('fe80::1'), family: 'IPv6', scopeid: 2 }
+      ]
+    });
+
+    expect(addresses).toEqual([]);
+  });
+});
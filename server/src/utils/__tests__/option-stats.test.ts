@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { calculateBetStats, calculatePoolHistory, isBreakdownHidden, type StatsOption, type StatsWager } from '../option-stats';
+
+// All amounts are integer cents; comments describe the same scenarios in dollars
+const options: StatsOption[] = [
+  { id: 1, oddsNumerator: null, oddsDenominator: null },
+  { id: 2, oddsNumerator: null, oddsDenominator: null },
+  { id: 3, oddsNumerator: null, oddsDenominator: null }
+];
+
+function wager(optionId: number | null, userName: string, amount: number, guestId: number | null = null): StatsWager {
+  return { optionId, userName, guestId, amount };
+}
+
+describe('calculateBetStats', () => {
+  it('should break the pool down by option', () => {
+    // $30 on option 1 from Alice and Bob, $10 on option 2 from Carol
+    const stats = calculateBetStats('multi_option', options, [
+      wager(1, 'Alice', 2000),
+      wager(1, 'Bob', 1000),
+      wager(2, 'Carol', 1000)
+    ]);
+
+    expect(stats.totalPool).toBe(4000);
+    expect(stats.participantCount).toBe(3);
+    expect(stats.optionStats).toEqual([
+      { optionId: 1, pool: 3000, wagerCount: 2, bettorCount: 2, payoutMultiplier: 1.33, poolShare: 75 },
+      { optionId: 2, pool: 1000, wagerCount: 1, bettorCount: 1, payoutMultiplier: 4, poolShare: 25 },
+      { optionId: 3, pool: 0, wagerCount: 0, bettorCount: 0, payoutMultiplier: null, poolShare: 0 }
+    ]);
+  });
+
+  it('should count a guest once however many wagers they place', () => {
+    const stats = calculateBetStats('yes_no', options.slice(0, 2), [
+      wager(1, 'Alice', 1000, 7),
+      wager(1, 'Alice', 500, 7),
+      wager(2, 'Alice', 500, 7)
+    ]);
+
+    expect(stats.participantCount).toBe(1);
+    expect(stats.optionStats[0]).toMatchObject({ wagerCount: 2, bettorCount: 1 });
+    expect(stats.optionStats[1]).toMatchObject({ wagerCount: 1, bettorCount: 1 });
+  });
+
+  it('should match names without a guest ID the way the roster does', () => {
+    const stats = calculateBetStats('yes_no', options.slice(0, 2), [
+      wager(1, 'Alice', 1000),
+      wager(2, '  alice ', 1000)
+    ]);
+
+    expect(stats.participantCount).toBe(1);
+  });
+
+  it('should use the quoted odds on fixed-odds bets', () => {
+    const fixedOptions: StatsOption[] = [
+      { id: 1, oddsNumerator: 3, oddsDenominator: 1 },
+      { id: 2, oddsNumerator: 1, oddsDenominator: 2 }
+    ];
+
+    // 3-to-1 returns $4 per $1, 1-to-2 returns $1.50 - with or without wagers
+    const stats = calculateBetStats('fixed_odds', fixedOptions, [wager(1, 'Bob', 1000)]);
+
+    expect(stats.optionStats.map(o => o.payoutMultiplier)).toEqual([4, 1.5]);
+    expect(stats.optionStats.map(o => o.poolShare)).toEqual([100, 0]);
+  });
+
+  it('should have no option stats on closest-guess bets', () => {
+    const stats = calculateBetStats('closest_guess', [], [
+      wager(null, 'Alice', 1000),
+      wager(null, 'Bob', 500)
+    ]);
+
+    expect(stats).toEqual({ totalPool: 1500, participantCount: 2, optionStats: [] });
+  });
+
+  it('should report an empty bet', () => {
+    const stats = calculateBetStats('yes_no', options.slice(0, 2), []);
+
+    expect(stats.totalPool).toBe(0);
+    expect(stats.participantCount).toBe(0);
+    expect(stats.optionStats.every(o => o.payoutMultiplier === null && o.poolShare === 0)).toBe(true);
+  });
+});
+
+describe('calculatePoolHistory', () => {
+  const yesNo = options.slice(0, 2);
+
+  it('should give the cumulative pool per option after each wager', () => {
+    // $10 on option 1, then $30 on option 2
+    const points = calculatePoolHistory('yes_no', yesNo, [
+      { id: 1, optionId: 1, amount: 1000, createdAt: '2026-01-01T20:00:00.000Z' },
+      { id: 2, optionId: 2, amount: 3000, createdAt: '2026-01-01T20:05:00.000Z' }
+    ]);
+
+    expect(points).toEqual([
+      {
+        wagerId: 1,
+        at: '2026-01-01T20:00:00.000Z',
+        totalPool: 1000,
+        options: [
+          { optionId: 1, pool: 1000, payoutMultiplier: 1 },
+          { optionId: 2, pool: 0, payoutMultiplier: null }
+        ]
+      },
+      {
+        wagerId: 2,
+        at: '2026-01-01T20:05:00.000Z',
+        totalPool: 4000,
+        options: [
+          { optionId: 1, pool: 1000, payoutMultiplier: 4 },
+          { optionId: 2, pool: 3000, payoutMultiplier: 1.33 }
+        ]
+      }
+    ]);
+  });
+
+  it('should replay wagers in placement order, then by ID', () => {
+    const points = calculatePoolHistory('yes_no', yesNo, [
+      { id: 3, optionId: 1, amount: 500, createdAt: '2026-01-01T20:10:00.000Z' },
+      { id: 2, optionId: 2, amount: 500, createdAt: '2026-01-01T20:00:00.000Z' },
+      { id: 1, optionId: 1, amount: 500, createdAt: '2026-01-01T20:00:00.000Z' }
+    ]);
+
+    expect(points.map(p => p.wagerId)).toEqual([1, 2, 3]);
+    expect(points.map(p => p.totalPool)).toEqual([500, 1000, 1500]);
+  });
+
+  it('should end on the same totals as the bet stats', () => {
+    const wagers = [
+      { id: 1, optionId: 1, userName: 'Alice', guestId: null, amount: 2000, createdAt: '2026-01-01T20:00:00.000Z' },
+      { id: 2, optionId: 2, userName: 'Bob', guestId: null, amount: 700, createdAt: '2026-01-01T20:01:00.000Z' },
+      { id: 3, optionId: 3, userName: 'Carol', guestId: null, amount: 300, createdAt: '2026-01-01T20:02:00.000Z' }
+    ];
+
+    const history = calculatePoolHistory('multi_option', options, wagers);
+    const last = history[history.length - 1];
+    const stats = calculateBetStats('multi_option', options, wagers);
+
+    expect(last.totalPool).toBe(stats.totalPool);
+    expect(last.options).toEqual(stats.optionStats.map(({ optionId, pool, payoutMultiplier }) => ({ optionId, pool, payoutMultiplier })));
+  });
+
+  it('should have no points before the first wager', () => {
+    expect(calculatePoolHistory('yes_no', yesNo, [])).toEqual([]);
+  });
+});
+
+describe('isBreakdownHidden', () => {
+  it('should hide the breakdown of a blind bet while it is open', () => {
+    expect(isBreakdownHidden({ blind: true, status: 'open' })).toBe(true);
+  });
+
+  it('should reveal a blind bet once betting closes', () => {
+    expect(isBreakdownHidden({ blind: true, status: 'closed' })).toBe(false);
+    expect(isBreakdownHidden({ blind: true, status: 'settled' })).toBe(false);
+    expect(isBreakdownHidden({ blind: true, status: 'void' })).toBe(false);
+  });
+
+  it('should never hide an ordinary bet', () => {
+    expect(isBreakdownHidden({ blind: false, status: 'open' })).toBe(false);
+  });
+});
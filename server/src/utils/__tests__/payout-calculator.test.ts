@@ -1,6 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import { calculatePayouts, type UserWager } from '../payout-calculator';
-
+import fc from 'fast-check';
+import {
+  calculatePayouts,
+  calculateRefunds,
+  calculateClosestGuessPayouts,
+  findClosestGuesses,
+  resolveOverUnder,
+  type UserWager,
+  type GuessWager
+} from '../payout-calculator';
+
+// All amounts are integer cents; comments describe the same scenarios in dollars
 describe('calculatePayouts', () => {
   describe('Basic functionality', () => {
     it('should return empty array when no wagers', () => {
@@ -10,7 +20,7 @@ describe('calculatePayouts', () => {
 
     it('should handle single wager - winner takes all', () => {
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 10 }
+        { userName: 'Alice', optionId: 1, amount: 1000 }
       ];
 
       const result = calculatePayouts(wagers, 1);
@@ -18,8 +28,8 @@ describe('calculatePayouts', () => {
       expect(result).toEqual([
         {
           userName: 'Alice',
-          totalWagered: 10,
-          payout: 10,
+          totalWagered: 1000,
+          payout: 1000,
           netWinLoss: 0
         }
       ]);
@@ -27,7 +37,7 @@ describe('calculatePayouts', () => {
 
     it('should handle single wager - loser', () => {
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 10 }
+        { userName: 'Alice', optionId: 1, amount: 1000 }
       ];
 
       const result = calculatePayouts(wagers, 2);
@@ -35,9 +45,9 @@ describe('calculatePayouts', () => {
       expect(result).toEqual([
         {
           userName: 'Alice',
-          totalWagered: 10,
+          totalWagered: 1000,
           payout: 0,
-          netWinLoss: -10
+          netWinLoss: -1000
         }
       ]);
     });
@@ -46,8 +56,8 @@ describe('calculatePayouts', () => {
   describe('Simple winner/loser scenarios', () => {
     it('should calculate payouts for simple 2-option bet with clear winner and loser', () => {
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 10 },
-        { userName: 'Bob', optionId: 2, amount: 20 }
+        { userName: 'Alice', optionId: 1, amount: 1000 },
+        { userName: 'Bob', optionId: 2, amount: 2000 }
       ];
 
       const result = calculatePayouts(wagers, 1);
@@ -55,22 +65,22 @@ describe('calculatePayouts', () => {
       expect(result).toHaveLength(2);
       expect(result[0]).toEqual({
         userName: 'Alice',
-        totalWagered: 10,
-        payout: 30,
-        netWinLoss: 20
+        totalWagered: 1000,
+        payout: 3000,
+        netWinLoss: 2000
       });
       expect(result[1]).toEqual({
         userName: 'Bob',
-        totalWagered: 20,
+        totalWagered: 2000,
         payout: 0,
-        netWinLoss: -20
+        netWinLoss: -2000
       });
     });
 
     it('should calculate payouts when option 2 wins', () => {
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 10 },
-        { userName: 'Bob', optionId: 2, amount: 20 }
+        { userName: 'Alice', optionId: 1, amount: 1000 },
+        { userName: 'Bob', optionId: 2, amount: 2000 }
       ];
 
       const result = calculatePayouts(wagers, 2);
@@ -78,15 +88,15 @@ describe('calculatePayouts', () => {
       expect(result).toHaveLength(2);
       expect(result[0]).toEqual({
         userName: 'Bob',
-        totalWagered: 20,
-        payout: 30,
-        netWinLoss: 10
+        totalWagered: 2000,
+        payout: 3000,
+        netWinLoss: 1000
       });
       expect(result[1]).toEqual({
         userName: 'Alice',
-        totalWagered: 10,
+        totalWagered: 1000,
         payout: 0,
-        netWinLoss: -10
+        netWinLoss: -1000
       });
     });
   });
@@ -94,9 +104,9 @@ describe('calculatePayouts', () => {
   describe('Multiple winners', () => {
     it('should split pot proportionally among multiple winners', () => {
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 10 },
-        { userName: 'Bob', optionId: 1, amount: 20 },
-        { userName: 'Carol', optionId: 2, amount: 30 }
+        { userName: 'Alice', optionId: 1, amount: 1000 },
+        { userName: 'Bob', optionId: 1, amount: 2000 },
+        { userName: 'Carol', optionId: 2, amount: 3000 }
       ];
 
       const result = calculatePayouts(wagers, 1);
@@ -106,34 +116,34 @@ describe('calculatePayouts', () => {
       // Alice: (10/30) × 60 = 20, net = 20 - 10 = 10
       expect(result[0]).toEqual({
         userName: 'Bob',
-        totalWagered: 20,
-        payout: 40,
-        netWinLoss: 20
+        totalWagered: 2000,
+        payout: 4000,
+        netWinLoss: 2000
       });
 
       // Bob: (20/30) × 60 = 40, net = 40 - 20 = 20
       expect(result[1]).toEqual({
         userName: 'Alice',
-        totalWagered: 10,
-        payout: 20,
-        netWinLoss: 10
+        totalWagered: 1000,
+        payout: 2000,
+        netWinLoss: 1000
       });
 
       // Carol: 0 payout, net = -30
       expect(result[2]).toEqual({
         userName: 'Carol',
-        totalWagered: 30,
+        totalWagered: 3000,
         payout: 0,
-        netWinLoss: -30
+        netWinLoss: -3000
       });
     });
 
     it('should handle 3-option bet with 2 winners', () => {
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 25 },
-        { userName: 'Bob', optionId: 1, amount: 25 },
-        { userName: 'Carol', optionId: 2, amount: 25 },
-        { userName: 'Dave', optionId: 3, amount: 25 }
+        { userName: 'Alice', optionId: 1, amount: 2500 },
+        { userName: 'Bob', optionId: 1, amount: 2500 },
+        { userName: 'Carol', optionId: 2, amount: 2500 },
+        { userName: 'Dave', optionId: 3, amount: 2500 }
       ];
 
       const result = calculatePayouts(wagers, 1);
@@ -143,24 +153,24 @@ describe('calculatePayouts', () => {
       // Alice & Bob each get (25/50) × 100 = 50
       expect(result[0]).toMatchObject({
         userName: expect.stringMatching(/Alice|Bob/),
-        totalWagered: 25,
-        payout: 50,
-        netWinLoss: 25
+        totalWagered: 2500,
+        payout: 5000,
+        netWinLoss: 2500
       });
 
       expect(result[1]).toMatchObject({
         userName: expect.stringMatching(/Alice|Bob/),
-        totalWagered: 25,
-        payout: 50,
-        netWinLoss: 25
+        totalWagered: 2500,
+        payout: 5000,
+        netWinLoss: 2500
       });
 
       // Carol & Dave each lose 25
       expect(result[2]).toMatchObject({
         userName: expect.stringMatching(/Carol|Dave/),
-        totalWagered: 25,
+        totalWagered: 2500,
         payout: 0,
-        netWinLoss: -25
+        netWinLoss: -2500
       });
     });
   });
@@ -168,9 +178,9 @@ describe('calculatePayouts', () => {
   describe('Hedging - same user bets on multiple options', () => {
     it('should calculate correctly when user hedges and wins', () => {
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 10 },
-        { userName: 'Alice', optionId: 2, amount: 5 },
-        { userName: 'Bob', optionId: 2, amount: 15 }
+        { userName: 'Alice', optionId: 1, amount: 1000 },
+        { userName: 'Alice', optionId: 2, amount: 500 },
+        { userName: 'Bob', optionId: 2, amount: 1500 }
       ];
 
       const result = calculatePayouts(wagers, 2);
@@ -184,24 +194,24 @@ describe('calculatePayouts', () => {
       // Alice net: 7.5 - 15 = -7.5
       expect(result[0]).toEqual({
         userName: 'Bob',
-        totalWagered: 15,
-        payout: 22.5,
-        netWinLoss: 7.5
+        totalWagered: 1500,
+        payout: 2250,
+        netWinLoss: 750
       });
 
       expect(result[1]).toEqual({
         userName: 'Alice',
-        totalWagered: 15,
-        payout: 7.5,
-        netWinLoss: -7.5
+        totalWagered: 1500,
+        payout: 750,
+        netWinLoss: -750
       });
     });
 
     it('should calculate correctly when user hedges heavily and wins', () => {
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 30 },
-        { userName: 'Alice', optionId: 2, amount: 10 },
-        { userName: 'Bob', optionId: 2, amount: 10 }
+        { userName: 'Alice', optionId: 1, amount: 3000 },
+        { userName: 'Alice', optionId: 2, amount: 1000 },
+        { userName: 'Bob', optionId: 2, amount: 1000 }
       ];
 
       const result = calculatePayouts(wagers, 2);
@@ -217,25 +227,25 @@ describe('calculatePayouts', () => {
       // Alice net: 25 - 40 = -15
       expect(result[0]).toEqual({
         userName: 'Bob',
-        totalWagered: 10,
-        payout: 25,
-        netWinLoss: 15
+        totalWagered: 1000,
+        payout: 2500,
+        netWinLoss: 1500
       });
 
       expect(result[1]).toEqual({
         userName: 'Alice',
-        totalWagered: 40,
-        payout: 25,
-        netWinLoss: -15
+        totalWagered: 4000,
+        payout: 2500,
+        netWinLoss: -1500
       });
     });
 
     it('should handle user betting on all options', () => {
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 10 },
-        { userName: 'Alice', optionId: 2, amount: 10 },
-        { userName: 'Alice', optionId: 3, amount: 10 },
-        { userName: 'Bob', optionId: 1, amount: 30 }
+        { userName: 'Alice', optionId: 1, amount: 1000 },
+        { userName: 'Alice', optionId: 2, amount: 1000 },
+        { userName: 'Alice', optionId: 3, amount: 1000 },
+        { userName: 'Bob', optionId: 1, amount: 3000 }
       ];
 
       const result = calculatePayouts(wagers, 1);
@@ -249,16 +259,16 @@ describe('calculatePayouts', () => {
       // Alice net: 15 - 30 = -15
       expect(result[0]).toEqual({
         userName: 'Bob',
-        totalWagered: 30,
-        payout: 45,
-        netWinLoss: 15
+        totalWagered: 3000,
+        payout: 4500,
+        netWinLoss: 1500
       });
 
       expect(result[1]).toEqual({
         userName: 'Alice',
-        totalWagered: 30,
-        payout: 15,
-        netWinLoss: -15
+        totalWagered: 3000,
+        payout: 1500,
+        netWinLoss: -1500
       });
     });
   });
@@ -266,9 +276,9 @@ describe('calculatePayouts', () => {
   describe('Edge cases', () => {
     it('should handle all users betting on same winning option - everyone gets money back', () => {
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 10 },
-        { userName: 'Bob', optionId: 1, amount: 20 },
-        { userName: 'Carol', optionId: 1, amount: 30 }
+        { userName: 'Alice', optionId: 1, amount: 1000 },
+        { userName: 'Bob', optionId: 1, amount: 2000 },
+        { userName: 'Carol', optionId: 1, amount: 3000 }
       ];
 
       const result = calculatePayouts(wagers, 1);
@@ -281,30 +291,30 @@ describe('calculatePayouts', () => {
       // Carol: (30/60) × 60 = 30, net = 0
       expect(result[0]).toEqual({
         userName: 'Alice',
-        totalWagered: 10,
-        payout: 10,
+        totalWagered: 1000,
+        payout: 1000,
         netWinLoss: 0
       });
 
       expect(result[1]).toEqual({
         userName: 'Bob',
-        totalWagered: 20,
-        payout: 20,
+        totalWagered: 2000,
+        payout: 2000,
         netWinLoss: 0
       });
 
       expect(result[2]).toEqual({
         userName: 'Carol',
-        totalWagered: 30,
-        payout: 30,
+        totalWagered: 3000,
+        payout: 3000,
         netWinLoss: 0
       });
     });
 
     it('should handle no one betting on winning option - everyone loses', () => {
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 10 },
-        { userName: 'Bob', optionId: 2, amount: 20 }
+        { userName: 'Alice', optionId: 1, amount: 1000 },
+        { userName: 'Bob', optionId: 2, amount: 2000 }
       ];
 
       const result = calculatePayouts(wagers, 3);
@@ -312,24 +322,24 @@ describe('calculatePayouts', () => {
       expect(result).toHaveLength(2);
       expect(result[0]).toEqual({
         userName: 'Alice',
-        totalWagered: 10,
+        totalWagered: 1000,
         payout: 0,
-        netWinLoss: -10
+        netWinLoss: -1000
       });
 
       expect(result[1]).toEqual({
         userName: 'Bob',
-        totalWagered: 20,
+        totalWagered: 2000,
         payout: 0,
-        netWinLoss: -20
+        netWinLoss: -2000
       });
     });
 
     it('should handle decimal amounts correctly', () => {
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 33.33 },
-        { userName: 'Bob', optionId: 1, amount: 33.33 },
-        { userName: 'Carol', optionId: 2, amount: 33.34 }
+        { userName: 'Alice', optionId: 1, amount: 3333 },
+        { userName: 'Bob', optionId: 1, amount: 3333 },
+        { userName: 'Carol', optionId: 2, amount: 3334 }
       ];
 
       const result = calculatePayouts(wagers, 1);
@@ -339,34 +349,48 @@ describe('calculatePayouts', () => {
       // Bob: (33.33/66.66) × 100 = 50
       expect(result[0]).toMatchObject({
         userName: expect.stringMatching(/Alice|Bob/),
-        totalWagered: 33.33,
-        payout: 50,
-        netWinLoss: 16.67
+        totalWagered: 3333,
+        payout: 5000,
+        netWinLoss: 1667
       });
 
       expect(result[1]).toMatchObject({
         userName: expect.stringMatching(/Alice|Bob/),
-        totalWagered: 33.33,
-        payout: 50,
-        netWinLoss: 16.67
+        totalWagered: 3333,
+        payout: 5000,
+        netWinLoss: 1667
       });
 
       expect(result[2]).toEqual({
         userName: 'Carol',
-        totalWagered: 33.34,
+        totalWagered: 3334,
         payout: 0,
-        netWinLoss: -33.34
+        netWinLoss: -3334
       });
     });
   });
 
+  describe('Push (no winning options)', () => {
+    it('should refund every wager when nobody wins', () => {
+      const wagers: UserWager[] = [
+        { userName: 'Alice', optionId: 1, amount: 1000 },
+        { userName: 'Bob', optionId: 2, amount: 2000 }
+      ];
+
+      expect(calculatePayouts(wagers, [])).toEqual([
+        { userName: 'Bob', totalWagered: 2000, payout: 2000, netWinLoss: 0 },
+        { userName: 'Alice', totalWagered: 1000, payout: 1000, netWinLoss: 0 }
+      ]);
+    });
+  });
+
   describe('Sorting', () => {
     it('should sort results with winners first, losers last', () => {
       const wagers: UserWager[] = [
-        { userName: 'Winner1', optionId: 1, amount: 10 },
-        { userName: 'Winner2', optionId: 1, amount: 20 },
-        { userName: 'Loser1', optionId: 2, amount: 30 },
-        { userName: 'Loser2', optionId: 2, amount: 40 }
+        { userName: 'Winner1', optionId: 1, amount: 1000 },
+        { userName: 'Winner2', optionId: 1, amount: 2000 },
+        { userName: 'Loser1', optionId: 2, amount: 3000 },
+        { userName: 'Loser2', optionId: 2, amount: 4000 }
       ];
 
       const result = calculatePayouts(wagers, 1);
@@ -404,10 +428,10 @@ describe('calculatePayouts', () => {
       // - Carol: payout = $0, net = $0 - $15 = -$15.00
 
       const wagers: UserWager[] = [
-        { userName: 'Alice', optionId: 1, amount: 10 }, // Chiefs
-        { userName: 'Alice', optionId: 2, amount: 5 },  // Eagles
-        { userName: 'Bob', optionId: 1, amount: 20 },   // Chiefs
-        { userName: 'Carol', optionId: 2, amount: 15 }  // Eagles
+        { userName: 'Alice', optionId: 1, amount: 1000 }, // Chiefs
+        { userName: 'Alice', optionId: 2, amount: 500 },  // Eagles
+        { userName: 'Bob', optionId: 1, amount: 2000 },   // Chiefs
+        { userName: 'Carol', optionId: 2, amount: 1500 }  // Eagles
       ];
 
       const result = calculatePayouts(wagers, 1); // Chiefs win
@@ -417,26 +441,270 @@ describe('calculatePayouts', () => {
       // Bob has highest net win
       expect(result[0]).toEqual({
         userName: 'Bob',
-        totalWagered: 20,
-        payout: 33.33,
-        netWinLoss: 13.33
+        totalWagered: 2000,
+        payout: 3333,
+        netWinLoss: 1333
       });
 
       // Alice has small net win
       expect(result[1]).toEqual({
         userName: 'Alice',
-        totalWagered: 15,
-        payout: 16.67,
-        netWinLoss: 1.67
+        totalWagered: 1500,
+        payout: 1667,
+        netWinLoss: 167
       });
 
       // Carol loses
       expect(result[2]).toEqual({
         userName: 'Carol',
-        totalWagered: 15,
+        totalWagered: 1500,
         payout: 0,
-        netWinLoss: -15
+        netWinLoss: -1500
       });
     });
   });
+
+  describe('Cent allocation', () => {
+    it('should hand leftover cents of a three-way split to the largest remainders', () => {
+      const wagers: UserWager[] = [
+        { userName: 'Alice', optionId: 1, amount: 1000 },
+        { userName: 'Bob', optionId: 1, amount: 1000 },
+        { userName: 'Carol', optionId: 1, amount: 1000 },
+        { userName: 'Dave', optionId: 2, amount: 1000 }
+      ];
+
+      const result = calculatePayouts(wagers, 1);
+
+      // $40 / 3 = 1333.33 cents each; the one leftover cent goes to the first name on a tie
+      expect(result.map(r => r.payout)).toEqual([1334, 1333, 1333, 0]);
+      expect(result[0].userName).toBe('Alice');
+      expect(result.reduce((sum, r) => sum + r.payout, 0)).toBe(4000);
+    });
+
+    it('should favour the larger fractional share over name order', () => {
+      const wagers: UserWager[] = [
+        { userName: 'Alice', optionId: 1, amount: 100 },
+        { userName: 'Bob', optionId: 1, amount: 200 },
+        { userName: 'Carol', optionId: 2, amount: 701 }
+      ];
+
+      const result = calculatePayouts(wagers, 1);
+
+      // Exact shares: Alice 333.67, Bob 667.33 - Alice has the larger remainder
+      expect(result.find(r => r.userName === 'Alice')?.payout).toBe(334);
+      expect(result.find(r => r.userName === 'Bob')?.payout).toBe(667);
+    });
+  });
+
+  describe('Multiple winning options', () => {
+    const wagers: UserWager[] = [
+      { userName: 'Alice', optionId: 1, amount: 1000 },
+      { userName: 'Bob', optionId: 2, amount: 3000 },
+      { userName: 'Carol', optionId: 3, amount: 2000 }
+    ];
+
+    it('should pool winning options in proportion to their wagers by default', () => {
+      const result = calculatePayouts(wagers, [1, 2]);
+
+      // Winning pool = 40, total pool = 60
+      // Alice: (10/40) × 60 = 15, Bob: (30/40) × 60 = 45
+      expect(result).toEqual([
+        { userName: 'Bob', totalWagered: 3000, payout: 4500, netWinLoss: 1500 },
+        { userName: 'Alice', totalWagered: 1000, payout: 1500, netWinLoss: 500 },
+        { userName: 'Carol', totalWagered: 2000, payout: 0, netWinLoss: -2000 }
+      ]);
+    });
+
+    it('should split the pool equally between options in a dead heat', () => {
+      const result = calculatePayouts(wagers, [1, 2], 'dead_heat');
+
+      // Each winning option gets 60 / 2 = 30, shared by its backers
+      expect(result).toEqual([
+        { userName: 'Alice', totalWagered: 1000, payout: 3000, netWinLoss: 2000 },
+        { userName: 'Bob', totalWagered: 3000, payout: 3000, netWinLoss: 0 },
+        { userName: 'Carol', totalWagered: 2000, payout: 0, netWinLoss: -2000 }
+      ]);
+    });
+
+    it('should give no dead-heat share to a winning option nobody backed', () => {
+      const result = calculatePayouts(wagers, [1, 4], 'dead_heat');
+
+      // Option 4 has no wagers, so Alice's option takes the whole pool
+      expect(result[0]).toEqual({ userName: 'Alice', totalWagered: 1000, payout: 6000, netWinLoss: 5000 });
+    });
+
+    it('should pay a hedged user on every winning option they backed', () => {
+      const hedged: UserWager[] = [
+        { userName: 'Alice', optionId: 1, amount: 1000 },
+        { userName: 'Alice', optionId: 2, amount: 1000 },
+        { userName: 'Bob', optionId: 2, amount: 1000 },
+        { userName: 'Carol', optionId: 3, amount: 2000 }
+      ];
+
+      const result = calculatePayouts(hedged, [1, 2], 'dead_heat');
+
+      // Option 1 share = 25 (all Alice), option 2 share = 25 (half Alice)
+      expect(result).toEqual([
+        { userName: 'Alice', totalWagered: 2000, payout: 3750, netWinLoss: 1750 },
+        { userName: 'Bob', totalWagered: 1000, payout: 1250, netWinLoss: 250 },
+        { userName: 'Carol', totalWagered: 2000, payout: 0, netWinLoss: -2000 }
+      ]);
+    });
+
+    it('should match the single-winner result when given one winning option', () => {
+      expect(calculatePayouts(wagers, [2], 'dead_heat')).toEqual(calculatePayouts(wagers, 2));
+    });
+
+    it('should treat every user as a loser when no winning option was backed', () => {
+      const result = calculatePayouts(wagers, [4, 5]);
+
+      expect(result.every(r => r.payout === 0)).toBe(true);
+    });
+  });
+
+  describe('Properties', () => {
+    const wagerArb = fc.record({
+      userName: fc.constantFrom('Alice', 'Bob', 'Carol', 'Dave', 'Eve'),
+      optionId: fc.integer({ min: 1, max: 5 }),
+      amount: fc.integer({ min: 1, max: 1000000 }) // Cents
+    });
+
+    const scenarioArb = fc.record({
+      wagers: fc.array(wagerArb, { minLength: 1, maxLength: 30 }),
+      winningOptionIds: fc.uniqueArray(fc.integer({ min: 1, max: 5 }), { minLength: 1, maxLength: 5 }),
+      splitMode: fc.constantFrom('pooled' as const, 'dead_heat' as const)
+    });
+
+    it('should pay out the total pool whenever a winning option was backed', () => {
+      fc.assert(
+        fc.property(scenarioArb, ({ wagers, winningOptionIds, splitMode }) => {
+          fc.pre(wagers.some(w => winningOptionIds.includes(w.optionId)));
+
+          const result = calculatePayouts(wagers, winningOptionIds, splitMode);
+          const totalPool = wagers.reduce((sum, w) => sum + w.amount, 0);
+          const totalPayout = result.reduce((sum, r) => sum + r.payout, 0);
+
+          expect(totalPayout).toBe(totalPool);
+        })
+      );
+    });
+
+    it('should keep net win/loss consistent with payout and amount wagered', () => {
+      fc.assert(
+        fc.property(scenarioArb, ({ wagers, winningOptionIds, splitMode }) => {
+          const result = calculatePayouts(wagers, winningOptionIds, splitMode);
+
+          result.forEach(r => {
+            expect(Number.isInteger(r.payout)).toBe(true);
+            expect(r.payout).toBeGreaterThanOrEqual(0);
+            expect(r.netWinLoss).toBe(r.payout - r.totalWagered);
+          });
+        })
+      );
+    });
+
+    it('should never pay users who only backed losing options', () => {
+      fc.assert(
+        fc.property(scenarioArb, ({ wagers, winningOptionIds, splitMode }) => {
+          const result = calculatePayouts(wagers, winningOptionIds, splitMode);
+
+          result.forEach(r => {
+            const backedWinner = wagers.some(
+              w => w.userName === r.userName && winningOptionIds.includes(w.optionId)
+            );
+            if (!backedWinner) {
+              expect(r.payout).toBe(0);
+            }
+          });
+        })
+      );
+    });
+  });
+});
+
+describe('calculateRefunds', () => {
+  it('should return empty array when no wagers', () => {
+    expect(calculateRefunds([])).toEqual([]);
+  });
+
+  it('should refund exactly what each user wagered', () => {
+    const wagers: UserWager[] = [
+      { userName: 'Alice', optionId: 1, amount: 1000 },
+      { userName: 'Bob', optionId: 2, amount: 2500 },
+      { userName: 'Alice', optionId: 2, amount: 750 }
+    ];
+
+    expect(calculateRefunds(wagers)).toEqual([
+      { userName: 'Bob', totalWagered: 2500, payout: 2500, netWinLoss: 0 },
+      { userName: 'Alice', totalWagered: 1750, payout: 1750, netWinLoss: 0 }
+    ]);
+  });
+});
+
+describe('resolveOverUnder', () => {
+  it('should pick over when the result is above the line', () => {
+    expect(resolveOverUnder(47.5, 48)).toBe('over');
+  });
+
+  it('should pick under when the result is below the line', () => {
+    expect(resolveOverUnder(47.5, 47)).toBe('under');
+  });
+
+  it('should push when the result lands exactly on the line', () => {
+    expect(resolveOverUnder(47, 47)).toBe('push');
+  });
+});
+
+describe('calculateClosestGuessPayouts', () => {
+  // How long will the anthem be? Actual: 120 seconds
+  const wagers: GuessWager[] = [
+    { userName: 'Alice', guess: 115, amount: 1000 },
+    { userName: 'Bob', guess: 122, amount: 1000 },
+    { userName: 'Carol', guess: 140, amount: 2000 }
+  ];
+
+  it('should return empty array when no wagers', () => {
+    expect(calculateClosestGuessPayouts([], 120)).toEqual([]);
+  });
+
+  it('should give the whole pool to the closest guess overall', () => {
+    expect(calculateClosestGuessPayouts(wagers, 120, 'closest')).toEqual([
+      { userName: 'Bob', totalWagered: 1000, payout: 4000, netWinLoss: 3000 },
+      { userName: 'Alice', totalWagered: 1000, payout: 0, netWinLoss: -1000 },
+      { userName: 'Carol', totalWagered: 2000, payout: 0, netWinLoss: -2000 }
+    ]);
+  });
+
+  it('should ignore guesses that went over with the not_over rule', () => {
+    const result = calculateClosestGuessPayouts(wagers, 120, 'not_over');
+
+    expect(result[0]).toEqual({ userName: 'Alice', totalWagered: 1000, payout: 4000, netWinLoss: 3000 });
+  });
+
+  it('should split the pool between tied guesses in proportion to their wagers', () => {
+    const tied: GuessWager[] = [
+      { userName: 'Alice', guess: 118, amount: 1000 },
+      { userName: 'Bob', guess: 122, amount: 3000 },
+      { userName: 'Carol', guess: 140, amount: 4000 }
+    ];
+
+    const result = calculateClosestGuessPayouts(tied, 120, 'closest');
+
+    expect(result.find(r => r.userName === 'Alice')!.payout).toBe(2000);
+    expect(result.find(r => r.userName === 'Bob')!.payout).toBe(6000);
+  });
+
+  it('should refund everyone when every guess went over', () => {
+    const result = calculateClosestGuessPayouts(wagers, 100, 'not_over');
+
+    expect(result.every(r => r.netWinLoss === 0)).toBe(true);
+  });
+});
+
+describe('findClosestGuesses', () => {
+  it('should treat decimal guesses the same distance away as a tie', () => {
+    const winners = findClosestGuesses([{ guess: 2.9 }, { guess: 3.1 }, { guess: 3.5 }], 3, 'closest');
+
+    expect(winners).toEqual([{ guess: 2.9 }, { guess: 3.1 }]);
+  });
 });
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { hashPin, verifyPin } from '../pin';
+
+describe('hashPin', () => {
+  it('should not store the PIN in plain text', () => {
+    expect(hashPin('1234')).not.toContain('1234');
+  });
+
+  it('should salt every hash', () => {
+    expect(hashPin('1234')).not.toBe(hashPin('1234'));
+  });
+});
+
+describe('verifyPin', () => {
+  it('should accept the right PIN', () => {
+    expect(verifyPin('1234', hashPin('1234'))).toBe(true);
+  });
+
+  it('should reject a wrong PIN', () => {
+    expect(verifyPin('4321', hashPin('1234'))).toBe(false);
+  });
+
+  it('should reject a malformed hash', () => {
+    expect(verifyPin('1234', 'not-a-hash')).toBe(false);
+    expect(verifyPin('1234', '')).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { checkWagerLimits, calculateRemainingBankroll, isBusted, type PartyLimits, type GuestBetting } from '../wager-limits';
+
+// All amounts are integer cents; comments describe the same scenarios in dollars
+const noLimits: PartyLimits = { maxWager: null, maxPerBet: null, bankroll: null };
+const fresh: GuestBetting = { onBet: 0, inPlay: 0, settledNet: 0, rebuys: 0 };
+
+describe('calculateRemainingBankroll', () => {
+  it('should subtract stakes in play from the bankroll', () => {
+    // $100 bankroll, $30 in play
+    expect(calculateRemainingBankroll(10000, { inPlay: 3000, settledNet: 0, rebuys: 0 })).toBe(7000);
+  });
+
+  it('should add settled winnings and subtract settled losses', () => {
+    expect(calculateRemainingBankroll(10000, { inPlay: 0, settledNet: 2550, rebuys: 0 })).toBe(12550);
+    expect(calculateRemainingBankroll(10000, { inPlay: 0, settledNet: -4000, rebuys: 0 })).toBe(6000);
+  });
+
+  it('should add chips from rebuys', () => {
+    // 100-chip stack, lost it all, rebought once
+    expect(calculateRemainingBankroll(10000, { inPlay: 0, settledNet: -10000, rebuys: 10000 })).toBe(10000);
+  });
+
+  it('should never go below zero', () => {
+    expect(calculateRemainingBankroll(10000, { inPlay: 5000, settledNet: -8000, rebuys: 0 })).toBe(0);
+  });
+});
+
+describe('checkWagerLimits', () => {
+  it('should allow any wager when the party has no limits', () => {
+    expect(checkWagerLimits(1000000, noLimits, fresh)).toBeNull();
+  });
+
+  it('should reject a wager over the max per wager', () => {
+    const limits = { ...noLimits, maxWager: 2500 };
+
+    expect(checkWagerLimits(2500, limits, fresh)).toBeNull();
+    expect(checkWagerLimits(2600, limits, fresh)).toEqual({ limit: 'maxWager', maxAmount: 2500 });
+  });
+
+  it('should count earlier wagers on the same bet towards the max per bet', () => {
+    // $50 per bet, $40 already on it
+    const limits = { ...noLimits, maxPerBet: 5000 };
+    const betting = { ...fresh, onBet: 4000, inPlay: 4000 };
+
+    expect(checkWagerLimits(1000, limits, betting)).toBeNull();
+    expect(checkWagerLimits(2000, limits, betting)).toEqual({ limit: 'maxPerBet', maxAmount: 1000 });
+  });
+
+  it('should reject a wager over the remaining bankroll', () => {
+    // $100 bankroll, $80 in play, lost $10 on a settled bet
+    const limits = { ...noLimits, bankroll: 10000 };
+    const betting = { onBet: 0, inPlay: 8000, settledNet: -1000, rebuys: 0 };
+
+    expect(checkWagerLimits(1500, limits, betting)).toEqual({ limit: 'bankroll', maxAmount: 1000 });
+  });
+
+  it('should report the tightest limit when several are broken', () => {
+    const limits: PartyLimits = { maxWager: 5000, maxPerBet: 6000, bankroll: 10000 };
+    const betting = { onBet: 3000, inPlay: 9000, settledNet: 0, rebuys: 0 };
+
+    // Max per wager allows $50, max per bet $30 more, bankroll $10 more
+    expect(checkWagerLimits(6000, limits, betting)).toEqual({ limit: 'bankroll', maxAmount: 1000 });
+  });
+});
+
+describe('isBusted', () => {
+  it('should be true once the whole bankroll is lost', () => {
+    expect(isBusted(10000, { inPlay: 0, settledNet: -10000, rebuys: 0 })).toBe(true);
+  });
+
+  it('should be false while chips are still in play', () => {
+    expect(isBusted(10000, { inPlay: 10000, settledNet: 0, rebuys: 0 })).toBe(false);
+  });
+
+  it('should be false after a rebuy', () => {
+    expect(isBusted(10000, { inPlay: 0, settledNet: -10000, rebuys: 10000 })).toBe(false);
+  });
+});
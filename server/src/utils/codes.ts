@@ -0,0 +1,24 @@
+/**
+ * Short codes for Place-A-Bet - party join codes and co-host codes
+ *
+ * People read these aloud and type them on phones, so they use an alphabet without
+ * look-alikes (no 0/O or 1/I).
+ */
+
+import { randomInt } from 'crypto';
+
+export const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * A random code of the given length
+ */
+export function randomCode(length: number): string {
+  return Array.from({ length }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+}
+
+/**
+ * Put a typed code in its stored form - upper case, without dashes or spaces
+ */
+export function normalizeCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
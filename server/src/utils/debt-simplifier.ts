@@ -0,0 +1,117 @@
+/**
+ * Debt Simplifier for Place-A-Bet
+ *
+ * Turns per-user net balances for a party into a short list of "who owes whom" transfers.
+ *
+ * Approach:
+ * - Work in integer cents so rounding never leaves a stray fraction behind
+ * - First pair up debtors and creditors whose balances cancel exactly (one transfer settles both)
+ * - Then repeatedly match the largest remaining debtor with the largest remaining creditor
+ * - Any imbalance left over (e.g. nobody picked the winning option) is settled with the house
+ *
+ * The greedy pass never needs more than (number of users - 1) transfers.
+ */
+
+export interface UserBalance {
+  userName: string;
+  netAmount: number; // Positive = owed money, negative = owes money
+}
+
+export interface Transfer {
+  from: string | null; // Payer (null = the house)
+  to: string | null; // Payee (null = the house)
+  amount: number;
+}
+
+interface CentBalance {
+  userName: string | null;
+  cents: number;
+}
+
+/**
+ * Sort balances by size (largest first), breaking ties by name so results are deterministic
+ */
+function byLargestThenName(a: CentBalance, b: CentBalance): number {
+  if (b.cents !== a.cents) {
+    return b.cents - a.cents;
+  }
+  return (a.userName ?? '').localeCompare(b.userName ?? '');
+}
+
+/**
+ * Calculate the minimized list of transfers that settles all balances
+ *
+ * @param balances - Net amount per user (summed from settlements.netWinLoss)
+ * @returns Array of transfers, largest first
+ */
+export function simplifyDebts(balances: UserBalance[]): Transfer[] {
+  // Merge duplicate entries and convert to cents
+  const centsByUser = new Map<string, number>();
+  balances.forEach(({ userName, netAmount }) => {
+    const current = centsByUser.get(userName) || 0;
+    centsByUser.set(userName, current + Math.round(netAmount * 100));
+  });
+
+  const creditors: CentBalance[] = [];
+  const debtors: CentBalance[] = [];
+
+  centsByUser.forEach((cents, userName) => {
+    if (cents > 0) {
+      creditors.push({ userName, cents });
+    } else if (cents < 0) {
+      debtors.push({ userName, cents: -cents });
+    }
+  });
+
+  // Whatever the guests don't cover between themselves is settled with the house
+  const imbalance =
+    creditors.reduce((sum, c) => sum + c.cents, 0) - debtors.reduce((sum, d) => sum + d.cents, 0);
+
+  if (imbalance > 0) {
+    debtors.push({ userName: null, cents: imbalance });
+  } else if (imbalance < 0) {
+    creditors.push({ userName: null, cents: -imbalance });
+  }
+
+  const transfers: Transfer[] = [];
+
+  const addTransfer = (debtor: CentBalance, creditor: CentBalance, cents: number) => {
+    transfers.push({
+      from: debtor.userName,
+      to: creditor.userName,
+      amount: cents / 100
+    });
+    debtor.cents -= cents;
+    creditor.cents -= cents;
+  };
+
+  // Pass 1: exact matches settle two people with a single transfer
+  debtors.sort(byLargestThenName);
+  creditors.sort(byLargestThenName);
+
+  debtors.forEach(debtor => {
+    const match = creditors.find(c => c.cents > 0 && c.cents === debtor.cents);
+    if (match) {
+      addTransfer(debtor, match, debtor.cents);
+    }
+  });
+
+  // Pass 2: greedily match largest debtor with largest creditor
+  let remainingDebtors = debtors.filter(d => d.cents > 0);
+  let remainingCreditors = creditors.filter(c => c.cents > 0);
+
+  while (remainingDebtors.length > 0 && remainingCreditors.length > 0) {
+    remainingDebtors.sort(byLargestThenName);
+    remainingCreditors.sort(byLargestThenName);
+
+    const debtor = remainingDebtors[0];
+    const creditor = remainingCreditors[0];
+
+    addTransfer(debtor, creditor, Math.min(debtor.cents, creditor.cents));
+
+    remainingDebtors = remainingDebtors.filter(d => d.cents > 0);
+    remainingCreditors = remainingCreditors.filter(c => c.cents > 0);
+  }
+
+  return transfers.sort((a, b) => b.amount - a.amount);
+}
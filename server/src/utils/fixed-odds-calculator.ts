@@ -0,0 +1,189 @@
+/**
+ * Fixed-Odds Calculator for Place-A-Bet
+ *
+ * Calculates payouts and exposure for fixed-odds bets, where the bet creator acts as the bank
+ * and offers fractional odds on each option (e.g. "3-to-1 on the Eagles").
+ *
+ * Formula:
+ * - Winnings = Stake × Numerator / Denominator (3-to-1 on $10 wins $30)
+ * - A winning wager pays back Stake + Winnings; a losing wager pays nothing
+ * - The bank collects every stake and pays every winning wager, so its net is the mirror
+ *   image of the bettors' combined net
+ *
+ * Dead heats: when several options win, each winning wager is paid as if only
+ * Stake / (number of winners) had been placed at the quoted odds (the standard bookmaker rule).
+ * This keeps the bank's loss within the single-winner exposure it agreed to.
+ *
+ * All amounts are integer cents. Fractions of a cent are always rounded down.
+ */
+
+import type { UserWager, PayoutResult } from './payout-calculator.js';
+
+export interface OptionOdds {
+  optionId: number;
+  numerator: number;
+  denominator: number;
+}
+
+/**
+ * Calculate how much a stake wins at the given odds (excluding the returned stake)
+ *
+ * @param stake - Amount wagered in cents
+ * @param odds - Fractional odds for the option
+ * @returns Winnings in cents
+ */
+export function calculateFixedOddsWinnings(stake: number, odds: OptionOdds): number {
+  return Math.floor((stake * odds.numerator) / odds.denominator);
+}
+
+/**
+ * Calculate how much the bank loses if each option wins on its own
+ *
+ * @param wagers - Array of all wagers placed on the bet (amounts in cents)
+ * @param odds - Odds for every option on the bet
+ * @returns Map of option ID to the bank's loss in cents (negative = the bank comes out ahead)
+ */
+function calculateLossByOption(wagers: UserWager[], odds: OptionOdds[]): Map<number, number> {
+  const totalStakes = wagers.reduce((sum, wager) => sum + wager.amount, 0);
+  const losses = new Map<number, number>();
+
+  odds.forEach(optionOdds => {
+    const returned = wagers
+      .filter(wager => wager.optionId === optionOdds.optionId)
+      .reduce((sum, wager) => sum + wager.amount + calculateFixedOddsWinnings(wager.amount, optionOdds), 0);
+
+    losses.set(optionOdds.optionId, returned - totalStakes);
+  });
+
+  return losses;
+}
+
+/**
+ * Calculate the bank's exposure - the most it can lose on any single outcome
+ *
+ * @param wagers - Array of all wagers placed on the bet (amounts in cents)
+ * @param odds - Odds for every option on the bet
+ * @returns Exposure in cents (0 if the bank cannot lose)
+ */
+export function calculateFixedOddsExposure(wagers: UserWager[], odds: OptionOdds[]): number {
+  const losses = Array.from(calculateLossByOption(wagers, odds).values());
+  return Math.max(0, ...losses);
+}
+
+/**
+ * Calculate the largest additional stake the bank can accept on an option
+ * without its exposure going over the limit
+ *
+ * A new stake only raises the bank's loss on the option it backs (it lowers the loss on
+ * every other option), so only that option's loss needs checking.
+ *
+ * @param wagers - Array of wagers already placed on the bet (amounts in cents)
+ * @param odds - Odds for every option on the bet
+ * @param optionId - Option the new stake would back
+ * @param maxExposure - The bank's exposure limit in cents
+ * @returns Largest acceptable stake in cents (0 if the option is full)
+ */
+export function calculateMaxFixedOddsStake(
+  wagers: UserWager[],
+  odds: OptionOdds[],
+  optionId: number,
+  maxExposure: number
+): number {
+  const optionOdds = odds.find(o => o.optionId === optionId);
+  if (!optionOdds) {
+    return 0;
+  }
+
+  const headroom = maxExposure - (calculateLossByOption(wagers, odds).get(optionId) || 0);
+  if (headroom <= 0) {
+    return 0;
+  }
+
+  // Each cent staked adds Numerator / Denominator to the loss (winnings round down,
+  // so the exact bound is safe); step down in case rounding leaves us one cent over
+  let stake = Math.floor((headroom * optionOdds.denominator) / optionOdds.numerator);
+  while (stake > 0 && calculateFixedOddsWinnings(stake, optionOdds) > headroom) {
+    stake--;
+  }
+
+  return stake;
+}
+
+/**
+ * Calculate payouts for a settled fixed-odds bet
+ *
+ * The bank gets its own result row: totalWagered is what it paid out to winners and
+ * payout is the stakes it collected, so netWinLoss is its profit (or loss) on the bet.
+ *
+ * @param wagers - Array of all wagers placed on the bet (amounts in cents)
+ * @param winningOptionIds - The ID (or IDs) of the options that won
+ * @param odds - Odds for every option on the bet
+ * @param bankUserName - The bet creator, who acts as the bank
+ * @returns Array of payout results for each bettor plus the bank, sorted by net win/loss (winners first)
+ */
+export function calculateFixedOddsPayouts(
+  wagers: UserWager[],
+  winningOptionIds: number | number[],
+  odds: OptionOdds[],
+  bankUserName: string
+): PayoutResult[] {
+  // Edge case: No wagers
+  if (wagers.length === 0) {
+    return [];
+  }
+
+  const winners = new Set(Array.isArray(winningOptionIds) ? winningOptionIds : [winningOptionIds]);
+  const oddsByOption = new Map(odds.map(o => [o.optionId, o]));
+
+  // Group wagers by user
+  const userMap = new Map<string, { totalWagered: number; payout: number }>();
+
+  wagers.forEach(wager => {
+    if (!userMap.has(wager.userName)) {
+      userMap.set(wager.userName, { totalWagered: 0, payout: 0 });
+    }
+
+    const user = userMap.get(wager.userName)!;
+    user.totalWagered += wager.amount;
+
+    const optionOdds = oddsByOption.get(wager.optionId);
+    if (winners.has(wager.optionId) && optionOdds) {
+      // Dead heat: pay (Stake / winners) at the quoted odds
+      user.payout += Math.floor(
+        (wager.amount * (optionOdds.numerator + optionOdds.denominator)) /
+        (optionOdds.denominator * winners.size)
+      );
+    }
+  });
+
+  const results: PayoutResult[] = [];
+  let totalStakes = 0;
+  let totalPaidOut = 0;
+
+  userMap.forEach(({ totalWagered, payout }, userName) => {
+    totalStakes += totalWagered;
+    totalPaidOut += payout;
+
+    results.push({
+      userName,
+      totalWagered,
+      payout,
+      netWinLoss: payout - totalWagered
+    });
+  });
+
+  // The bank collects every stake and covers every winning payout
+  // (added to its own row if it somehow also wagered, so settlements stay one row per user)
+  let bankResult = results.find(r => r.userName === bankUserName);
+  if (!bankResult) {
+    bankResult = { userName: bankUserName, totalWagered: 0, payout: 0, netWinLoss: 0 };
+    results.push(bankResult);
+  }
+
+  bankResult.totalWagered += totalPaidOut;
+  bankResult.payout += totalStakes;
+  bankResult.netWinLoss = bankResult.payout - bankResult.totalWagered;
+
+  // Sort by net win/loss (winners first, then losers)
+  return results.sort((a, b) => b.netWinLoss - a.netWinLoss);
+}
@@ -0,0 +1,31 @@
+/**
+ * Guest Names for Place-A-Bet
+ *
+ * Guests identify themselves by typing their name, so the same person can easily show up as
+ * "alice", "Alice " and "ALICE". Names are matched on a normalized form instead:
+ * - Leading and trailing whitespace is dropped, and runs of whitespace inside become one space
+ * - Case is ignored
+ *
+ * The display name keeps the guest's own capitalisation, with only the whitespace tidied up.
+ */
+
+/**
+ * Tidy a name for display: trim it and collapse runs of whitespace to a single space
+ */
+export function cleanGuestName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Normalize a name for matching, so names that differ only by case or spacing are the same guest
+ */
+export function normalizeGuestName(name: string): string {
+  return cleanGuestName(name).toLowerCase();
+}
+
+/**
+ * Check whether two names belong to the same guest
+ */
+export function isSameGuestName(a: string, b: string): boolean {
+  return normalizeGuestName(a) === normalizeGuestName(b);
+}
@@ -0,0 +1,132 @@
+/**
+ * Money helpers for Place-A-Bet
+ *
+ * Amounts are stored and calculated as integer cents. The API keeps speaking dollars,
+ * so routes convert at the boundary with these helpers.
+ */
+
+import type { BetStats, PoolHistoryPoint } from './option-stats.js';
+
+/**
+ * Convert a dollar amount (possibly fractional) to integer cents
+ */
+export function toCents(dollars: number): number {
+  return Math.round(dollars * 100);
+}
+
+/**
+ * Convert integer cents to a dollar amount
+ */
+export function toDollars(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Convert the amount of a wager or payment row to dollars for an API response
+ */
+export function amountToDollars<T extends { amount: number }>(row: T): T {
+  return { ...row, amount: toDollars(row.amount) };
+}
+
+/**
+ * Convert the money fields of a bet row to dollars for an API response
+ */
+export function betToDollars<T extends { maxExposure: number | null }>(bet: T): T {
+  return { ...bet, maxExposure: bet.maxExposure === null ? null : toDollars(bet.maxExposure) };
+}
+
+/**
+ * Convert the betting limits of a party row to dollars for an API response
+ */
+export function partyToDollars<T extends { maxWager: number | null; maxPerBet: number | null; bankroll: number | null }>(party: T): T {
+  return {
+    ...party,
+    maxWager: party.maxWager === null ? null : toDollars(party.maxWager),
+    maxPerBet: party.maxPerBet === null ? null : toDollars(party.maxPerBet),
+    bankroll: party.bankroll === null ? null : toDollars(party.bankroll)
+  };
+}
+
+/**
+ * Convert the amounts of a settlement (or payout result) to dollars for an API response
+ */
+export function settlementToDollars<T extends { totalWagered: number; payout: number; netWinLoss: number }>(row: T): T {
+  return {
+    ...row,
+    totalWagered: toDollars(row.totalWagered),
+    payout: toDollars(row.payout),
+    netWinLoss: toDollars(row.netWinLoss)
+  };
+}
+
+/**
+ * Convert the pool amounts of a bet's option statistics to dollars for an API response
+ */
+export function betStatsToDollars(stats: BetStats): BetStats {
+  return {
+    ...stats,
+    totalPool: toDollars(stats.totalPool),
+    optionStats: stats.optionStats.map(option => ({ ...option, pool: toDollars(option.pool) }))
+  };
+}
+
+/**
+ * Convert the pool amounts of a pool history point to dollars for an API response
+ */
+export function poolHistoryPointToDollars(point: PoolHistoryPoint): PoolHistoryPoint {
+  return {
+    ...point,
+    totalPool: toDollars(point.totalPool),
+    options: point.options.map(option => ({ ...option, pool: toDollars(option.pool) }))
+  };
+}
+
+/**
+ * Split an integer total between recipients in proportion to their integer weights
+ *
+ * Every recipient first gets the floor of their exact share. The cents left over are then
+ * handed out one at a time, largest fractional remainder first, with ties going to the
+ * lowest key so the result is deterministic. The allocations always sum to exactly `total`.
+ *
+ * @param total - Integer amount to split (e.g. cents)
+ * @param weights - Integer weight per recipient key; recipients with zero weight get nothing
+ * @returns Map of key to allocated amount
+ */
+export function allocateByLargestRemainder<K extends string | number>(
+  total: number,
+  weights: Map<K, number>
+): Map<K, number> {
+  const allocations = new Map<K, number>();
+  const totalWeight = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+
+  if (totalWeight === 0) {
+    weights.forEach((_, key) => allocations.set(key, 0));
+    return allocations;
+  }
+
+  const remainders: Array<{ key: K; remainder: number }> = [];
+  let allocated = 0;
+
+  weights.forEach((weight, key) => {
+    // Integer arithmetic: share = floor(total * weight / totalWeight), remainder kept exact
+    const scaled = total * weight;
+    const share = Math.floor(scaled / totalWeight);
+    allocations.set(key, share);
+    remainders.push({ key, remainder: scaled - share * totalWeight });
+    allocated += share;
+  });
+
+  remainders.sort((a, b) => {
+    if (b.remainder !== a.remainder) {
+      return b.remainder - a.remainder;
+    }
+    return a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+  });
+
+  for (let i = 0; i < total - allocated; i++) {
+    const { key } = remainders[i];
+    allocations.set(key, allocations.get(key)! + 1);
+  }
+
+  return allocations;
+}
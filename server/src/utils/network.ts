@@ -0,0 +1,48 @@
+/**
+ * LAN address detection for Place-A-Bet invites
+ *
+ * Guests reach the server by the Pi's address on the party's Wi-Fi, so the invite QR code has
+ * to point there rather than at localhost. A Pi can have several interfaces (Wi-Fi, Ethernet,
+ * Docker bridges), so addresses are ranked by how likely guests can reach them.
+ */
+
+import { networkInterfaces, type NetworkInterfaceInfo } from 'os';
+
+export interface LanAddress {
+  interface: string; // e.g. "wlan0"
+  address: string; // e.g. "192.168.1.20"
+}
+
+/**
+ * Lower is more likely to be the party's network - home routers hand out 192.168.x.x,
+ * then 10.x.x.x; 172.16-31.x.x is often a container bridge
+ */
+function rank(address: string): number {
+  const [a, b] = address.split('.').map(Number);
+
+  if (a === 192 && b === 168) return 0;
+  if (a === 10) return 1;
+  if (a === 172 && b >= 16 && b <= 31) return 2;
+  return 3;
+}
+
+/**
+ * The server's external IPv4 addresses, best guess first
+ * Loopback and link-local (169.254.x.x) addresses are left out.
+ */
+export function getLanAddresses(
+  interfaces: NodeJS.Dict<NetworkInterfaceInfo[]> = networkInterfaces()
+): LanAddress[] {
+  const found: LanAddress[] = [];
+
+  for (const [name, infos] of Object.entries(interfaces)) {
+    for (const info of infos ?? []) {
+      if (info.family === 'IPv4' && !info.internal && !info.address.startsWith('169.254.')) {
+        found.push({ interface: name, address: info.address });
+      }
+    }
+  }
+
+  // Array sort is stable, so interfaces keep the OS's order within a rank
+  return found.sort((a, b) => rank(a.address) - rank(b.address));
+}
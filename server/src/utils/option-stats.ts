@@ -0,0 +1,163 @@
+/**
+ * Option Statistics for Place-A-Bet
+ *
+ * Summarises how the money on a bet is spread across its options, so clients can show
+ * the pool breakdown and participant counts without recomputing them from the raw wagers.
+ *
+ * Implied payout multiplier (what each $1 staked on the option returns if it wins, stake included):
+ * - Pari-mutuel bets (yes/no, multi-option, over/under): Total Pool / Option Pool. It moves as wagers
+ *   come in, and is null while nobody has backed the option. It assumes a single winner.
+ * - Fixed-odds bets: (Numerator + Denominator) / Denominator - the quoted odds, whatever the pool.
+ *
+ * Closest-guess bets have no options, so they only get the bet-level totals.
+ *
+ * Pool history replays the wagers in the order they were placed, giving the cumulative pool and
+ * multiplier per option after each one - how the odds moved as the money came in.
+ *
+ * Blind bets keep the breakdown secret while betting is open, so late bettors can't pile onto
+ * the side with the best value. Only the total pool and participant count show until the bet closes.
+ *
+ * Amounts are integer cents. Multipliers and percentage shares are rounded to 2 decimal places.
+ */
+
+import { normalizeGuestName } from './guest-names.js';
+
+export interface StatsOption {
+  id: number;
+  oddsNumerator: number | null;
+  oddsDenominator: number | null;
+}
+
+export interface StatsWager {
+  optionId: number | null;
+  userName: string;
+  guestId: number | null;
+  amount: number;
+}
+
+export interface HistoryWager {
+  id: number;
+  optionId: number | null;
+  amount: number;
+  createdAt: string;
+}
+
+export interface OptionStats {
+  optionId: number;
+  pool: number; // Sum of the wagers on the option
+  wagerCount: number;
+  bettorCount: number; // Distinct guests with a wager on the option
+  payoutMultiplier: number | null; // Null on a pari-mutuel option nobody has backed
+  poolShare: number; // Percentage of the total pool on the option, 0 while the pool is empty
+}
+
+export interface BetStats {
+  totalPool: number;
+  participantCount: number; // Distinct guests with a wager anywhere on the bet
+  optionStats: OptionStats[];
+}
+
+export interface PoolHistoryPoint {
+  wagerId: number;
+  at: string; // When the wager was placed
+  totalPool: number;
+  options: Array<{
+    optionId: number;
+    pool: number;
+    payoutMultiplier: number | null;
+  }>;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Implied payout multiplier of an option, given how much is on it and on the whole bet
+ */
+function impliedMultiplier(type: string, option: StatsOption, pool: number, totalPool: number): number | null {
+  if (type === 'fixed_odds' && option.oddsNumerator !== null && option.oddsDenominator !== null) {
+    return round2((option.oddsNumerator + option.oddsDenominator) / option.oddsDenominator);
+  }
+  return pool > 0 ? round2(totalPool / pool) : null;
+}
+
+/**
+ * Count distinct guests, falling back to the name for wagers placed before the guest roster
+ */
+function countBettors(wagers: StatsWager[]): number {
+  return new Set(wagers.map(wager => wager.guestId ?? normalizeGuestName(wager.userName))).size;
+}
+
+/**
+ * Check whether a bet's per-option amounts and bettor names are hidden
+ */
+export function isBreakdownHidden(bet: { blind: boolean; status: string }): boolean {
+  return bet.blind && bet.status === 'open';
+}
+
+/**
+ * Calculate the pool breakdown of a bet
+ *
+ * @param type - Bet type; fixed-odds options use their quoted odds for the multiplier
+ * @param options - The bet's options, in the order to report them
+ * @param wagers - Every wager on the bet (amounts in cents)
+ */
+export function calculateBetStats(type: string, options: StatsOption[], wagers: StatsWager[]): BetStats {
+  const totalPool = wagers.reduce((sum, wager) => sum + wager.amount, 0);
+
+  const optionStats = options.map(option => {
+    const optionWagers = wagers.filter(wager => wager.optionId === option.id);
+    const pool = optionWagers.reduce((sum, wager) => sum + wager.amount, 0);
+
+    return {
+      optionId: option.id,
+      pool,
+      wagerCount: optionWagers.length,
+      bettorCount: countBettors(optionWagers),
+      payoutMultiplier: impliedMultiplier(type, option, pool, totalPool),
+      poolShare: totalPool > 0 ? round2((pool / totalPool) * 100) : 0
+    };
+  });
+
+  return {
+    totalPool,
+    participantCount: countBettors(wagers),
+    optionStats
+  };
+}
+
+/**
+ * Replay a bet's wagers to get the pool and multiplier per option after each one
+ *
+ * @param type - Bet type; fixed-odds options use their quoted odds for the multiplier
+ * @param options - The bet's options, in the order to report them
+ * @param wagers - Every wager on the bet (amounts in cents), in any order
+ * @returns One point per wager, oldest first
+ */
+export function calculatePoolHistory(type: string, options: StatsOption[], wagers: HistoryWager[]): PoolHistoryPoint[] {
+  const ordered = [...wagers].sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id - b.id);
+  const pools = new Map(options.map(option => [option.id, 0]));
+  let totalPool = 0;
+
+  return ordered.map(wager => {
+    totalPool += wager.amount;
+    if (wager.optionId !== null && pools.has(wager.optionId)) {
+      pools.set(wager.optionId, (pools.get(wager.optionId) ?? 0) + wager.amount);
+    }
+
+    return {
+      wagerId: wager.id,
+      at: wager.createdAt,
+      totalPool,
+      options: options.map(option => {
+        const pool = pools.get(option.id) ?? 0;
+        return {
+          optionId: option.id,
+          pool,
+          payoutMultiplier: impliedMultiplier(type, option, pool, totalPool)
+        };
+      })
+    };
+  });
+}
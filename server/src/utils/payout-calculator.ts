@@ -2,111 +2,248 @@
  * Payout Calculator for Place-A-Bet
  *
  * Calculates payouts for a settled bet using the house bank model with proportional distribution.
+ * All amounts are integer cents, so payouts always add up to the pool exactly.
  *
  * Formula:
  * - Total Pool = Sum of all wagers across all options
- * - Winning Pool = Sum of wagers on winning option
+ * - Option Pool = Sum of wagers on a single winning option
+ * - Each winning option is given a share of the Total Pool (see split modes below)
  * - For each user:
  *   - Total Wagered = Sum of their wagers across all options
- *   - Wager on Winning = Sum of their wagers on winning option only
- *   - Payout = (Wager on Winning / Winning Pool) × Total Pool
+ *   - Payout = Sum over winning options of (Wager on Option / Option Pool) × Option Share
  *   - Net Win/Loss = Payout - Total Wagered
+ *
+ * Split modes (only matter when more than one option wins):
+ * - pooled: winning options share the pool in proportion to how much was bet on them,
+ *   i.e. Option Share = (Option Pool / Winning Pool) × Total Pool. With a single winner this is
+ *   the classic formula.
+ * - dead_heat: the pool is split equally between the winning options that have wagers,
+ *   regardless of how much was bet on each. A winning option nobody backed gets no share.
+ *
+ * Closest-guess bets have no options: each wager carries a numeric guess, and the wagers closest
+ * to the actual value form the winning pool (see calculateClosestGuessPayouts).
+ *
+ * Push: settling with no winning options (an over/under result exactly on the line) refunds
+ * every wager, exactly like voiding the bet.
+ *
+ * Exact shares are rarely whole cents. Each split is floored, and the leftover cents go to the
+ * recipients with the largest remainders (ties broken by option ID / user name).
  */
 
+import { allocateByLargestRemainder } from './money.js';
+
+export type SplitMode = 'pooled' | 'dead_heat';
+
+export type OverUnderOutcome = 'over' | 'under' | 'push';
+
+export type GuessRule = 'closest' | 'not_over';
+
 export interface UserWager {
   userName: string;
   optionId: number;
-  amount: number;
+  amount: number; // Cents
+}
+
+export interface GuessWager {
+  userName: string;
+  guess: number;
+  amount: number; // Cents
 }
 
 export interface PayoutResult {
   userName: string;
-  totalWagered: number;
-  payout: number;
-  netWinLoss: number;
+  totalWagered: number; // Cents
+  payout: number; // Cents
+  netWinLoss: number; // Cents
 }
 
 /**
  * Calculate payouts for a settled bet
  *
- * @param wagers - Array of all wagers placed on the bet
- * @param winningOptionId - The ID of the option that won
+ * @param wagers - Array of all wagers placed on the bet (amounts in cents)
+ * @param winningOptionIds - The ID (or IDs) of the options that won (none = push, refund everyone)
+ * @param splitMode - How the pool is divided between multiple winning options
  * @returns Array of payout results for each unique user, sorted by net win/loss (winners first)
  */
 export function calculatePayouts(
   wagers: UserWager[],
-  winningOptionId: number
+  winningOptionIds: number | number[],
+  splitMode: SplitMode = 'pooled'
 ): PayoutResult[] {
   // Edge case: No wagers
   if (wagers.length === 0) {
     return [];
   }
 
+  const winners = new Set(Array.isArray(winningOptionIds) ? winningOptionIds : [winningOptionIds]);
+
+  // Push: nobody wins or loses
+  if (winners.size === 0) {
+    return calculateRefunds(wagers);
+  }
+
   // Calculate total pool size
   const totalPool = wagers.reduce((sum, wager) => sum + wager.amount, 0);
 
-  // Calculate winning pool size
-  const winningPool = wagers
-    .filter(wager => wager.optionId === winningOptionId)
-    .reduce((sum, wager) => sum + wager.amount, 0);
-
-  // Edge case: No one bet on the winning option (everyone loses)
-  if (winningPool === 0) {
-    // Group users and calculate their total losses
-    const userMap = new Map<string, number>();
-    wagers.forEach(wager => {
-      const current = userMap.get(wager.userName) || 0;
-      userMap.set(wager.userName, current + wager.amount);
-    });
+  // Group wagers by user, and by user within each winning option
+  const userTotals = new Map<string, number>();
+  const optionBackers = new Map<number, Map<string, number>>();
 
-    const results: PayoutResult[] = [];
-    userMap.forEach((totalWagered, userName) => {
-      results.push({
-        userName,
-        totalWagered,
-        payout: 0,
-        netWinLoss: -totalWagered
+  wagers.forEach(wager => {
+    userTotals.set(wager.userName, (userTotals.get(wager.userName) || 0) + wager.amount);
+
+    if (winners.has(wager.optionId)) {
+      if (!optionBackers.has(wager.optionId)) {
+        optionBackers.set(wager.optionId, new Map());
+      }
+      const backers = optionBackers.get(wager.optionId)!;
+      backers.set(wager.userName, (backers.get(wager.userName) || 0) + wager.amount);
+    }
+  });
+
+  // Payout per user (users who backed no winner stay at zero - everyone loses if nobody did)
+  const userPayouts = new Map<string, number>();
+
+  if (splitMode === 'dead_heat' && optionBackers.size > 1) {
+    // Split the pool equally between backed winning options, then within each option by wager
+    const optionShares = allocateByLargestRemainder(
+      totalPool,
+      new Map(Array.from(optionBackers.keys()).map(optionId => [optionId, 1]))
+    );
+
+    optionBackers.forEach((backers, optionId) => {
+      allocateByLargestRemainder(optionShares.get(optionId)!, backers).forEach((payout, userName) => {
+        userPayouts.set(userName, (userPayouts.get(userName) || 0) + payout);
+      });
+    });
+  } else if (optionBackers.size > 0) {
+    // Winning options form a single pool shared in proportion to wagers on any winner
+    const onWinning = new Map<string, number>();
+    optionBackers.forEach(backers => {
+      backers.forEach((amount, userName) => {
+        onWinning.set(userName, (onWinning.get(userName) || 0) + amount);
       });
     });
 
-    return results.sort((a, b) => b.netWinLoss - a.netWinLoss);
+    allocateByLargestRemainder(totalPool, onWinning).forEach((payout, userName) => {
+      userPayouts.set(userName, payout);
+    });
   }
 
-  // Group wagers by user
-  const userWagersMap = new Map<string, {
-    total: number;
-    onWinning: number;
-  }>();
-
-  wagers.forEach(wager => {
-    if (!userWagersMap.has(wager.userName)) {
-      userWagersMap.set(wager.userName, { total: 0, onWinning: 0 });
-    }
+  // Calculate results for each user
+  const results: PayoutResult[] = [];
 
-    const userWagers = userWagersMap.get(wager.userName)!;
-    userWagers.total += wager.amount;
+  userTotals.forEach((totalWagered, userName) => {
+    const payout = userPayouts.get(userName) || 0;
 
-    if (wager.optionId === winningOptionId) {
-      userWagers.onWinning += wager.amount;
-    }
+    results.push({
+      userName,
+      totalWagered,
+      payout,
+      netWinLoss: payout - totalWagered
+    });
   });
 
-  // Calculate payouts for each user
-  const results: PayoutResult[] = [];
+  // Sort by net win/loss (winners first, then losers)
+  return results.sort((a, b) => b.netWinLoss - a.netWinLoss);
+}
 
-  userWagersMap.forEach(({ total, onWinning }, userName) => {
-    // Calculate proportional payout
-    const payout = (onWinning / winningPool) * totalPool;
-    const netWinLoss = payout - total;
+/**
+ * Resolve an over/under bet from its final numeric result
+ *
+ * @param line - The line set when the bet was created (e.g. 47.5)
+ * @param result - The final numeric result
+ * @returns Which side won, or 'push' if the result landed exactly on the line
+ */
+export function resolveOverUnder(line: number, result: number): OverUnderOutcome {
+  if (result > line) {
+    return 'over';
+  }
+  if (result < line) {
+    return 'under';
+  }
+  return 'push';
+}
 
+/**
+ * Find the winning wagers of a closest-guess bet
+ *
+ * @param wagers - Array of all wagers placed on the bet
+ * @param actual - The actual value entered at settlement
+ * @param rule - "closest" overall, or closest "not_over" the actual value
+ * @returns The wagers with the closest eligible guess (several on a tie, none if every guess went over)
+ */
+export function findClosestGuesses<T extends { guess: number }>(wagers: T[], actual: number, rule: GuessRule): T[] {
+  const eligible = rule === 'not_over' ? wagers.filter(wager => wager.guess <= actual) : wagers;
+  if (eligible.length === 0) {
+    return [];
+  }
+
+  const distance = (wager: T) => Math.abs(wager.guess - actual);
+  const best = Math.min(...eligible.map(distance));
+
+  // Guesses are decimals, so allow for floating-point noise when spotting ties
+  return eligible.filter(wager => distance(wager) - best < 1e-9);
+}
+
+/**
+ * Calculate payouts for a settled closest-guess bet
+ *
+ * The closest guess (or guesses) takes the whole pool. Tied guesses split it in proportion to
+ * their wagers, exactly like backers of a single winning option. If no guess is eligible (every
+ * guess went over under the "not_over" rule), nobody wins and every wager is refunded.
+ *
+ * @param wagers - Array of all wagers placed on the bet (amounts in cents)
+ * @param actual - The actual value entered at settlement
+ * @param rule - How the winning guess is picked
+ * @returns Array of payout results for each unique user, sorted by net win/loss (winners first)
+ */
+export function calculateClosestGuessPayouts(
+  wagers: GuessWager[],
+  actual: number,
+  rule: GuessRule = 'closest'
+): PayoutResult[] {
+  const winners = new Set(findClosestGuesses(wagers, actual, rule));
+
+  if (winners.size === 0) {
+    return calculateRefunds(wagers);
+  }
+
+  // Treat the winning guesses as one winning option and everything else as losing
+  return calculatePayouts(
+    wagers.map(wager => ({
+      userName: wager.userName,
+      optionId: winners.has(wager) ? 1 : 0,
+      amount: wager.amount
+    })),
+    1
+  );
+}
+
+/**
+ * Calculate refunds for a voided (or pushed) bet
+ *
+ * Every user gets back exactly what they wagered, so net win/loss is always zero.
+ *
+ * @param wagers - Array of all wagers placed on the bet (amounts in cents)
+ * @returns Array of refund results for each unique user, sorted by amount wagered (largest first)
+ */
+export function calculateRefunds(wagers: Array<Pick<UserWager, 'userName' | 'amount'>>): PayoutResult[] {
+  const userMap = new Map<string, number>();
+  wagers.forEach(wager => {
+    const current = userMap.get(wager.userName) || 0;
+    userMap.set(wager.userName, current + wager.amount);
+  });
+
+  const results: PayoutResult[] = [];
+  userMap.forEach((totalWagered, userName) => {
     results.push({
       userName,
-      totalWagered: total,
-      payout: Math.round(payout * 100) / 100, // Round to 2 decimal places
-      netWinLoss: Math.round(netWinLoss * 100) / 100 // Round to 2 decimal places
+      totalWagered,
+      payout: totalWagered,
+      netWinLoss: 0
     });
   });
 
-  // Sort by net win/loss (winners first, then losers)
-  return results.sort((a, b) => b.netWinLoss - a.netWinLoss);
+  return results.sort((a, b) => b.totalWagered - a.totalWagered);
 }
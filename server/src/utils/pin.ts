@@ -0,0 +1,34 @@
+/**
+ * PIN hashing for Place-A-Bet
+ *
+ * PINs are only 4 digits, so a hash can't make them hard to guess - it just keeps them out of
+ * the database in plain text. Each PIN is hashed with scrypt and its own random salt, stored
+ * as "salt:hash" (both hex).
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 32;
+
+/**
+ * Hash a PIN for storage
+ */
+export function hashPin(pin: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(pin, salt, KEY_LENGTH).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+/**
+ * Check a PIN against a stored hash (constant time)
+ */
+export function verifyPin(pin: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(pin, salt, KEY_LENGTH);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
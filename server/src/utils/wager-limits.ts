@@ -0,0 +1,88 @@
+/**
+ * Wager Limits for Place-A-Bet
+ *
+ * Checks a new wager against the betting rules the host set for the party:
+ * - Max per wager: the most a guest can stake on a single wager
+ * - Max per bet: the most a guest can stake on one bet across all their wagers on it
+ * - Bankroll: every guest starts the party with the same bankroll (the chip stack in chips
+ *   mode, topped up by any rebuys). Stakes on bets that are still open or closed are "in play",
+ *   and settled bets add their net win/loss, so a guest can never have more in play than their
+ *   bankroll plus what they have won (less what they have lost). Voided bets were refunded and
+ *   don't count.
+ *
+ * All amounts are integer cents. A null limit means no limit.
+ */
+
+export interface PartyLimits {
+  maxWager: number | null;
+  maxPerBet: number | null;
+  bankroll: number | null;
+}
+
+export interface GuestBetting {
+  onBet: number; // Already staked on the bet being wagered on
+  inPlay: number; // Staked on every open or closed bet in the party
+  settledNet: number; // Net win/loss across the party's settled bets
+  rebuys: number; // Chips received from rebuys (chips mode only)
+}
+
+export type WagerLimit = 'maxWager' | 'maxPerBet' | 'bankroll';
+
+export interface WagerLimitViolation {
+  limit: WagerLimit;
+  maxAmount: number; // Largest wager that limit would still accept
+}
+
+/**
+ * Calculate how much of a guest's bankroll is left to wager
+ *
+ * @param bankroll - Starting bankroll in cents
+ * @param betting - The guest's stakes in play and settled results
+ * @returns Remaining bankroll in cents (never negative)
+ */
+export function calculateRemainingBankroll(
+  bankroll: number,
+  betting: Pick<GuestBetting, 'inPlay' | 'settledNet' | 'rebuys'>
+): number {
+  return Math.max(0, bankroll + betting.rebuys + betting.settledNet - betting.inPlay);
+}
+
+/**
+ * Whether a guest has lost their whole bankroll, with nothing left in play to win it back
+ * Only busted guests may rebuy
+ */
+export function isBusted(bankroll: number, betting: Pick<GuestBetting, 'inPlay' | 'settledNet' | 'rebuys'>): boolean {
+  return betting.inPlay === 0 && calculateRemainingBankroll(bankroll, betting) === 0;
+}
+
+/**
+ * Check a new wager against the party's limits
+ *
+ * @param amount - Amount of the new wager in cents
+ * @param limits - The party's limits in cents
+ * @param betting - The guest's betting so far in the party
+ * @returns The tightest limit the wager breaks, or null if it is allowed
+ */
+export function checkWagerLimits(amount: number, limits: PartyLimits, betting: GuestBetting): WagerLimitViolation | null {
+  const candidates: WagerLimitViolation[] = [];
+
+  if (limits.maxWager !== null) {
+    candidates.push({ limit: 'maxWager', maxAmount: limits.maxWager });
+  }
+
+  if (limits.maxPerBet !== null) {
+    candidates.push({ limit: 'maxPerBet', maxAmount: Math.max(0, limits.maxPerBet - betting.onBet) });
+  }
+
+  if (limits.bankroll !== null) {
+    candidates.push({ limit: 'bankroll', maxAmount: calculateRemainingBankroll(limits.bankroll, betting) });
+  }
+
+  // Report the tightest broken limit, so the error names the largest wager that would be accepted
+  const broken = candidates.filter(candidate => amount > candidate.maxAmount);
+  if (broken.length === 0) {
+    return null;
+  }
+
+  return broken.reduce((tightest, candidate) => candidate.maxAmount < tightest.maxAmount ? candidate : tightest);
+}
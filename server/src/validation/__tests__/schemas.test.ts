@@ -6,6 +6,8 @@ import {
   settleBetSchema,
   verifyPinSchema,
   closeBetSchema,
+  mergeGuestsSchema,
+  partyQuerySchema,
   formatZodError
 } from '../schemas';
 
@@ -45,6 +47,51 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(false);
     });
 
+    it('should accept betting limits in whole dollars', () => {
+      const result = createPartySchema.safeParse({
+        name: 'Super Bowl Party',
+        date: '2026-02-01T18:00:00Z',
+        hostPin: '1234',
+        maxWager: 25,
+        maxPerBet: 50,
+        bankroll: 200
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a max per bet above the bankroll', () => {
+      const result = createPartySchema.safeParse({
+        name: 'Super Bowl Party',
+        date: '2026-02-01T18:00:00Z',
+        hostPin: '1234',
+        maxPerBet: 500,
+        bankroll: 200
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should require a starting stack for a chips party', () => {
+      const result = createPartySchema.safeParse({
+        name: 'Family Game Night',
+        date: '2026-02-01T18:00:00Z',
+        hostPin: '1234',
+        currency: 'chips',
+        allowRebuys: true
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject rebuys at a real-money party', () => {
+      const result = createPartySchema.safeParse({
+        name: 'Super Bowl Party',
+        date: '2026-02-01T18:00:00Z',
+        hostPin: '1234',
+        bankroll: 200,
+        allowRebuys: true
+      });
+      expect(result.success).toBe(false);
+    });
+
     it('should reject name over 100 characters', () => {
       const invalidData = {
         name: 'a'.repeat(101),
@@ -105,6 +152,7 @@ describe('Validation Schemas', () => {
   describe('createBetSchema', () => {
     it('should accept valid yes/no bet', () => {
       const validData = {
+        partyId: 1,
         type: 'yes_no' as const,
         question: 'Will there be overtime?',
         createdBy: 'Alice',
@@ -117,6 +165,7 @@ describe('Validation Schemas', () => {
 
     it('should accept valid multi-option bet', () => {
       const validData = {
+        partyId: 1,
         type: 'multi_option' as const,
         question: 'Which team wins?',
         createdBy: 'Bob',
@@ -127,8 +176,185 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(true);
     });
 
+    it('should accept valid fixed-odds bet', () => {
+      const validData = {
+        partyId: 1,
+        type: 'fixed_odds' as const,
+        question: 'Which team wins?',
+        createdBy: 'Bob',
+        options: ['Chiefs', 'Eagles'],
+        odds: [{ numerator: 3, denominator: 1 }, { numerator: 1, denominator: 2 }],
+        maxExposure: 100
+      };
+
+      const result = createBetSchema.safeParse(validData);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject fixed-odds bet without odds for every option', () => {
+      const invalidData = {
+        partyId: 1,
+        type: 'fixed_odds' as const,
+        question: 'Which team wins?',
+        createdBy: 'Bob',
+        options: ['Chiefs', 'Eagles'],
+        odds: [{ numerator: 3, denominator: 1 }],
+        maxExposure: 100
+      };
+
+      const result = createBetSchema.safeParse(invalidData);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject fixed-odds bet without maximum exposure', () => {
+      const invalidData = {
+        partyId: 1,
+        type: 'fixed_odds' as const,
+        question: 'Which team wins?',
+        createdBy: 'Bob',
+        options: ['Chiefs', 'Eagles'],
+        odds: [{ numerator: 3, denominator: 1 }, { numerator: 1, denominator: 2 }]
+      };
+
+      const result = createBetSchema.safeParse(invalidData);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject odds on a pooled bet', () => {
+      const invalidData = {
+        partyId: 1,
+        type: 'yes_no' as const,
+        question: 'Overtime?',
+        createdBy: 'Bob',
+        options: ['Yes', 'No'],
+        odds: [{ numerator: 1, denominator: 1 }, { numerator: 1, denominator: 1 }]
+      };
+
+      const result = createBetSchema.safeParse(invalidData);
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept valid over/under bet', () => {
+      const validData = {
+        partyId: 1,
+        type: 'over_under' as const,
+        question: 'Total points?',
+        createdBy: 'Bob',
+        options: ['Over', 'Under'],
+        line: 47.5
+      };
+
+      const result = createBetSchema.safeParse(validData);
+      expect(result.success).toBe(true);
+    });
+
+    it('should accept over/under bet without options', () => {
+      const validData = {
+        partyId: 1,
+        type: 'over_under' as const,
+        question: 'Total points?',
+        createdBy: 'Bob',
+        line: 47.5
+      };
+
+      const result = createBetSchema.safeParse(validData);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject over/under bet with options other than the two sides', () => {
+      const invalidData = {
+        partyId: 1,
+        type: 'over_under' as const,
+        question: 'Total points?',
+        createdBy: 'Bob',
+        options: ['Over', 'Under', 'Push'],
+        line: 47.5
+      };
+
+      const result = createBetSchema.safeParse(invalidData);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject over/under bet without a line', () => {
+      const invalidData = {
+        partyId: 1,
+        type: 'over_under' as const,
+        question: 'Total points?',
+        createdBy: 'Bob',
+        options: ['Over', 'Under']
+      };
+
+      const result = createBetSchema.safeParse(invalidData);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject a line on other bet types', () => {
+      const invalidData = {
+        partyId: 1,
+        type: 'yes_no' as const,
+        question: 'Overtime?',
+        createdBy: 'Bob',
+        options: ['Yes', 'No'],
+        line: 47.5
+      };
+
+      const result = createBetSchema.safeParse(invalidData);
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept valid closest-guess bet without options', () => {
+      const validData = {
+        partyId: 1,
+        type: 'closest_guess' as const,
+        question: 'How long will the anthem be (seconds)?',
+        createdBy: 'Bob',
+        guessRule: 'not_over' as const
+      };
+
+      const result = createBetSchema.safeParse(validData);
+      expect(result.success).toBe(true);
+    });
+
+    it('should accept a lock time in the future', () => {
+      const result = createBetSchema.safeParse({
+        partyId: 1,
+        type: 'yes_no' as const,
+        question: 'Will the coin toss be heads?',
+        createdBy: 'Alice',
+        options: ['Yes', 'No'],
+        closesAt: new Date(Date.now() + 60000).toISOString()
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a lock time in the past', () => {
+      const result = createBetSchema.safeParse({
+        partyId: 1,
+        type: 'yes_no' as const,
+        question: 'Will the coin toss be heads?',
+        createdBy: 'Alice',
+        options: ['Yes', 'No'],
+        closesAt: '2020-01-01T00:00:00Z'
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject closest-guess bet with options', () => {
+      const invalidData = {
+        partyId: 1,
+        type: 'closest_guess' as const,
+        question: 'How long will the anthem be (seconds)?',
+        createdBy: 'Bob',
+        options: ['Short', 'Long']
+      };
+
+      const result = createBetSchema.safeParse(invalidData);
+      expect(result.success).toBe(false);
+    });
+
     it('should reject invalid bet type', () => {
       const invalidData = {
+        partyId: 1,
         type: 'invalid',
         question: 'Question?',
         createdBy: 'Alice',
@@ -141,6 +367,7 @@ describe('Validation Schemas', () => {
 
     it('should reject empty question', () => {
       const invalidData = {
+        partyId: 1,
         type: 'yes_no' as const,
         question: '',
         createdBy: 'Alice',
@@ -153,6 +380,7 @@ describe('Validation Schemas', () => {
 
     it('should reject question over 500 characters', () => {
       const invalidData = {
+        partyId: 1,
         type: 'yes_no' as const,
         question: 'a'.repeat(501),
         createdBy: 'Alice',
@@ -165,6 +393,7 @@ describe('Validation Schemas', () => {
 
     it('should reject empty creator name', () => {
       const invalidData = {
+        partyId: 1,
         type: 'yes_no' as const,
         question: 'Question?',
         createdBy: '',
@@ -177,6 +406,7 @@ describe('Validation Schemas', () => {
 
     it('should reject creator name over 50 characters', () => {
       const invalidData = {
+        partyId: 1,
         type: 'yes_no' as const,
         question: 'Question?',
         createdBy: 'a'.repeat(51),
@@ -189,6 +419,7 @@ describe('Validation Schemas', () => {
 
     it('should reject less than 2 options', () => {
       const invalidData = {
+        partyId: 1,
         type: 'yes_no' as const,
         question: 'Question?',
         createdBy: 'Alice',
@@ -201,6 +432,7 @@ describe('Validation Schemas', () => {
 
     it('should reject more than 10 options', () => {
       const invalidData = {
+        partyId: 1,
         type: 'multi_option' as const,
         question: 'Question?',
         createdBy: 'Alice',
@@ -213,6 +445,7 @@ describe('Validation Schemas', () => {
 
     it('should reject empty option labels', () => {
       const invalidData = {
+        partyId: 1,
         type: 'yes_no' as const,
         question: 'Question?',
         createdBy: 'Alice',
@@ -225,6 +458,7 @@ describe('Validation Schemas', () => {
 
     it('should reject option labels over 100 characters', () => {
       const invalidData = {
+        partyId: 1,
         type: 'yes_no' as const,
         question: 'Question?',
         createdBy: 'Alice',
@@ -259,6 +493,24 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(false);
     });
 
+    it('should tidy up spacing in the user name', () => {
+      const result = createWagerSchema.safeParse({ userName: '  Mary   Jane ', optionId: 1, amount: 25 });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.userName).toBe('Mary Jane');
+      }
+    });
+
+    it('should reject a user name that is only spaces', () => {
+      const result = createWagerSchema.safeParse({ userName: '   ', optionId: 1, amount: 25 });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject a guest PIN that is not 4 digits', () => {
+      const result = createWagerSchema.safeParse({ userName: 'Alice', guestPin: '12', optionId: 1, amount: 25 });
+      expect(result.success).toBe(false);
+    });
+
     it('should reject user name over 50 characters', () => {
       const invalidData = {
         userName: 'a'.repeat(51),
@@ -270,6 +522,16 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(false);
     });
 
+    it('should accept a guess instead of an option ID', () => {
+      const result = createWagerSchema.safeParse({ userName: 'Alice', guess: 118.5, amount: 10 });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject wager with neither option ID nor guess', () => {
+      const result = createWagerSchema.safeParse({ userName: 'Alice', amount: 10 });
+      expect(result.success).toBe(false);
+    });
+
     it('should reject non-integer option ID', () => {
       const invalidData = {
         userName: 'Alice',
@@ -379,6 +641,11 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(true);
     });
 
+    it('should accept a final result instead of winning options (over/under)', () => {
+      const result = settleBetSchema.safeParse({ result: 48 });
+      expect(result.success).toBe(true);
+    });
+
     it('should reject non-integer winning option ID', () => {
       const invalidData = {
         winningOptionId: 1.5,
@@ -418,6 +685,36 @@ describe('Validation Schemas', () => {
       const result = settleBetSchema.safeParse(invalidData);
       expect(result.success).toBe(false);
     });
+
+    it('should accept several winning options with a split mode', () => {
+      const result = settleBetSchema.safeParse({
+        winningOptionIds: [1, 2],
+        splitMode: 'dead_heat',
+        hostPin: '1234'
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should default split mode to pooled', () => {
+      const result = settleBetSchema.safeParse({ winningOptionId: 1 });
+
+      expect(result.success && result.data.splitMode).toBe('pooled');
+    });
+
+    it('should reject settlement without any winning option', () => {
+      expect(settleBetSchema.safeParse({ hostPin: '1234' }).success).toBe(false);
+      expect(settleBetSchema.safeParse({ winningOptionIds: [], hostPin: '1234' }).success).toBe(false);
+    });
+
+    it('should reject unknown split mode', () => {
+      const result = settleBetSchema.safeParse({
+        winningOptionIds: [1, 2],
+        splitMode: 'winner_takes_all'
+      });
+
+      expect(result.success).toBe(false);
+    });
   });
 
   describe('closeBetSchema', () => {
@@ -447,6 +744,46 @@ describe('Validation Schemas', () => {
     });
   });
 
+  describe('partyQuerySchema', () => {
+    it('should accept a party ID', () => {
+      const result = partyQuerySchema.safeParse({ partyId: '3' });
+      expect(result.success && result.data).toEqual({ partyId: 3 });
+    });
+
+    it('should accept a join code as typed and normalize it', () => {
+      const result = partyQuerySchema.safeParse({ joinCode: ' k7p-2qx ' });
+      expect(result.success && result.data).toEqual({ joinCode: 'K7P2QX' });
+    });
+
+    it('should need exactly one of the two', () => {
+      expect(partyQuerySchema.safeParse({}).success).toBe(false);
+      expect(partyQuerySchema.safeParse({ partyId: '3', joinCode: 'K7P2QX' }).success).toBe(false);
+      expect(partyQuerySchema.safeParse({ joinCode: '--' }).success).toBe(false);
+    });
+  });
+
+  describe('mergeGuestsSchema', () => {
+    it('should accept a merge and default to running it', () => {
+      const result = mergeGuestsSchema.safeParse({ from: ' Jon ', into: 'Jonathan', hostPin: '1234' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.from).toBe('Jon');
+        expect(result.data.dryRun).toBe(false);
+        expect(result.data.partyId).toBeUndefined();
+      }
+    });
+
+    it('should reject merging a name into a different spelling of itself', () => {
+      const result = mergeGuestsSchema.safeParse({ from: 'jon', into: 'JON ', hostPin: '1234' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject a malformed host PIN', () => {
+      const result = mergeGuestsSchema.safeParse({ from: 'Jon', into: 'Jonathan', hostPin: '12' });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('verifyPinSchema', () => {
     it('should accept valid 4-digit PIN', () => {
       const validData = { pin: '1234' };
@@ -503,6 +840,7 @@ describe('Validation Schemas', () => {
 
     it('should format nested path errors', () => {
       const result = createBetSchema.safeParse({
+        partyId: 1,
         type: 'yes_no',
         question: 'Q?',
         createdBy: 'Alice',
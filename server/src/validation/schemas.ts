@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { cleanGuestName, normalizeGuestName } from '../utils/guest-names.js';
+import { normalizeCode } from '../utils/codes.js';
 
 /**
  * Input validation schemas for Place-A-Bet API
@@ -6,16 +8,124 @@ import { z } from 'zod';
  * All schemas export type inference for TypeScript type safety.
  */
 
+// ============================================================================
+// Guest Schemas
+// ============================================================================
+
+// A guest's name as typed - tidied up (trimmed, whitespace collapsed) before it is matched to the roster
+const guestNameSchema = (label: string) => z.string()
+  .transform(cleanGuestName)
+  .pipe(z.string().min(1, `${label} is required`).max(50, `${label} must be 50 characters or less`));
+
+// A guest's personal 4-digit PIN
+const guestPinSchema = z.string().length(4, 'PIN must be exactly 4 digits').regex(/^\d{4}$/, 'PIN must contain only digits');
+
+export const joinPartySchema = z.object({
+  name: guestNameSchema('Name'),
+  pin: guestPinSchema.optional() // Claims the name straight away
+});
+
+export type JoinPartyInput = z.infer<typeof joinPartySchema>;
+
+export const guestPinInputSchema = z.object({
+  pin: guestPinSchema
+});
+
+export type GuestPinInput = z.infer<typeof guestPinInputSchema>;
+
+export const mergeGuestsSchema = z.object({
+  from: guestNameSchema('From name'),
+  into: guestNameSchema('Into name'),
+  partyId: z.number().int('Party ID must be an integer').positive('Party ID must be positive').optional(), // Omitted = every party
+  dryRun: z.boolean().default(false), // Preview the balance changes without merging
+  hostPin: z.string().length(4, 'PIN must be exactly 4 digits').regex(/^\d{4}$/, 'PIN must contain only digits').optional()
+})
+  .refine(data => normalizeGuestName(data.from) !== normalizeGuestName(data.into), {
+    message: 'Cannot merge a guest into themselves',
+    path: ['into']
+  });
+
+export type MergeGuestsInput = z.infer<typeof mergeGuestsSchema>;
+
+export const undoGuestMergeSchema = z.object({
+  hostPin: z.string().length(4, 'PIN must be exactly 4 digits').regex(/^\d{4}$/, 'PIN must contain only digits').optional()
+});
+
+export type UndoGuestMergeInput = z.infer<typeof undoGuestMergeSchema>;
+
 // ============================================================================
 // Party Schemas
 // ============================================================================
 
+// Several parties can be active at once, so bets and rebuys always name theirs - by ID or join code
+const partyIdSchema = z.number()
+  .int('Party ID must be an integer')
+  .positive('Party ID must be positive');
+
+// A join code as typed (any case, dashes and spaces ignored), e.g. "k7p-2qx"
+const joinCodeSchema = z.string()
+  .max(20, 'Join code must be 20 characters or less')
+  .transform(normalizeCode)
+  .pipe(z.string().min(1, 'Join code is required'));
+
+// Requests name their party by exactly one of partyId and joinCode
+type PartyRefInput = { partyId?: number; joinCode?: string };
+
+const namesAParty = (data: PartyRefInput) => data.partyId !== undefined || data.joinCode !== undefined;
+
+const namesOnlyOneParty = (data: PartyRefInput) => data.partyId === undefined || data.joinCode === undefined;
+
+const missingPartyMessage = {
+  message: 'Party ID is required (or a join code instead)',
+  path: ['partyId']
+};
+
+const twoPartiesMessage = {
+  message: 'Give a party ID or a join code, not both',
+  path: ['joinCode']
+};
+
+// Party-level betting limit in whole dollars (omitted = no limit)
+const partyLimitSchema = (label: string) => z.number()
+  .int(`${label} must be whole dollars (no cents)`)
+  .positive(`${label} must be greater than 0`)
+  .max(100000, `${label} cannot exceed $100,000`)
+  .optional();
+
 export const createPartySchema = z.object({
   name: z.string().min(1, 'Party name is required').max(100, 'Party name must be 100 characters or less'),
   date: z.string().datetime('Invalid date format'),
   description: z.string().max(500, 'Description must be 500 characters or less').optional(),
-  hostPin: z.string().length(4, 'PIN must be exactly 4 digits').regex(/^\d{4}$/, 'PIN must contain only digits')
-});
+  hostPin: z.string().length(4, 'PIN must be exactly 4 digits').regex(/^\d{4}$/, 'PIN must contain only digits').optional(),
+  maxWager: partyLimitSchema('Max per wager'),
+  maxPerBet: partyLimitSchema('Max per bet'),
+  bankroll: partyLimitSchema('Bankroll'), // The chip stack in chips mode
+  currency: z.enum(['usd', 'chips'], {
+    errorMap: () => ({ message: 'Currency must be "usd" or "chips"' })
+  }).default('usd'),
+  allowRebuys: z.boolean().optional(), // Chips only
+  cancelGraceSeconds: z.number()
+    .int('Cancel window must be whole seconds')
+    .min(0, 'Cancel window cannot be negative')
+    .max(600, 'Cancel window cannot exceed 10 minutes')
+    .optional() // Defaults to 60 seconds; 0 means only the host can cancel wagers
+})
+  .refine(data => data.maxWager === undefined || data.maxPerBet === undefined || data.maxWager <= data.maxPerBet, {
+    message: 'Max per wager cannot be more than max per bet',
+    path: ['maxWager']
+  })
+  .refine(data => data.maxPerBet === undefined || data.bankroll === undefined || data.maxPerBet <= data.bankroll, {
+    message: 'Max per bet cannot be more than the bankroll',
+    path: ['maxPerBet']
+  })
+  .refine(data => data.currency !== 'chips' || data.bankroll !== undefined, {
+    message: 'Chips parties need a starting chip stack (bankroll)',
+    path: ['bankroll']
+  })
+  .refine(data => data.currency === 'chips' || !data.allowRebuys, {
+    message: 'Rebuys are only available in chips parties',
+    path: ['allowRebuys']
+  });
 
 export type CreatePartyInput = z.infer<typeof createPartySchema>;
 
@@ -23,18 +133,78 @@ export type CreatePartyInput = z.infer<typeof createPartySchema>;
 // Bet Schemas
 // ============================================================================
 
+// Fractional odds, e.g. { numerator: 3, denominator: 1 } for "3-to-1"
+const oddsSchema = z.object({
+  numerator: z.number().int('Odds must be whole numbers').positive('Odds must be greater than 0').max(1000, 'Odds cannot exceed 1000'),
+  denominator: z.number().int('Odds must be whole numbers').positive('Odds must be greater than 0').max(1000, 'Odds cannot exceed 1000')
+});
+
 export const createBetSchema = z.object({
-  type: z.enum(['yes_no', 'multi_option'], {
-    errorMap: () => ({ message: 'Bet type must be "yes_no" or "multi_option"' })
+  partyId: partyIdSchema.optional(),
+  joinCode: joinCodeSchema.optional(), // Instead of partyId
+  type: z.enum(['yes_no', 'multi_option', 'fixed_odds', 'over_under', 'closest_guess'], {
+    errorMap: () => ({ message: 'Bet type must be "yes_no", "multi_option", "fixed_odds", "over_under" or "closest_guess"' })
   }),
   question: z.string().min(1, 'Question is required').max(500, 'Question must be 500 characters or less'),
-  createdBy: z.string().min(1, 'Creator name is required').max(50, 'Creator name must be 50 characters or less'),
+  createdBy: guestNameSchema('Creator name'),
+  guestPin: guestPinSchema.optional(), // Needed when the creator's name is PIN-protected
   options: z.array(
     z.string().min(1, 'Option label cannot be empty').max(100, 'Option label must be 100 characters or less')
   )
-    .min(2, 'At least 2 options are required')
     .max(10, 'Maximum 10 options allowed')
-});
+    .default([]), // Left out for closest-guess (each wager carries its own guess) and over/under (always Over and Under)
+  odds: z.array(oddsSchema).optional(), // Fixed-odds only, one per option in the same order
+  maxExposure: z.number()
+    .int('Maximum exposure must be whole dollars (no cents)')
+    .positive('Maximum exposure must be greater than 0')
+    .max(100000, 'Maximum exposure cannot exceed $100,000')
+    .optional(), // Fixed-odds only
+  line: z.number().finite('Line must be a number').optional(), // Over/under only, e.g. 47.5
+  guessRule: z.enum(['closest', 'not_over'], {
+    errorMap: () => ({ message: 'Guess rule must be "closest" or "not_over"' })
+  }).optional(), // Closest-guess only, defaults to "closest"
+  closesAt: z.string().datetime('Invalid closing time').optional(), // Lock time - the bet closes automatically
+  blind: z.boolean().optional() // Hide the pool breakdown until betting closes
+})
+  .refine(namesAParty, missingPartyMessage)
+  .refine(namesOnlyOneParty, twoPartiesMessage)
+  .refine(data => data.type === 'closest_guess' || data.type === 'over_under' || data.options.length >= 2, {
+    message: 'At least 2 options are required',
+    path: ['options']
+  })
+  .refine(data => data.type !== 'closest_guess' || data.options.length === 0, {
+    message: 'Closest-guess bets have no options - guests submit a number instead',
+    path: ['options']
+  })
+  .refine(data => data.type === 'closest_guess' || data.guessRule === undefined, {
+    message: 'Guess rule only applies to closest-guess bets',
+    path: ['guessRule']
+  })
+  .refine(data => data.type !== 'fixed_odds' || data.odds?.length === data.options.length, {
+    message: 'Fixed-odds bets need odds for every option',
+    path: ['odds']
+  })
+  .refine(data => data.type !== 'fixed_odds' || data.maxExposure !== undefined, {
+    message: 'Fixed-odds bets need a maximum exposure',
+    path: ['maxExposure']
+  })
+  .refine(data => data.type === 'fixed_odds' || (data.odds === undefined && data.maxExposure === undefined), {
+    message: 'Odds and maximum exposure only apply to fixed-odds bets',
+    path: ['odds']
+  })
+  .refine(data => (data.type === 'over_under') === (data.line !== undefined), {
+    message: 'Over/under bets need a line, and only over/under bets can have one',
+    path: ['line']
+  })
+  // Older clients still send the two sides - they're relabelled Over and Under either way
+  .refine(data => data.type !== 'over_under' || data.options.length === 0 || data.options.length === 2, {
+    message: 'Over/under bets need no options - the sides are always Over and Under',
+    path: ['options']
+  })
+  .refine(data => data.closesAt === undefined || new Date(data.closesAt).getTime() > Date.now(), {
+    message: 'Closing time must be in the future',
+    path: ['closesAt']
+  });
 
 export type CreateBetInput = z.infer<typeof createBetSchema>;
 
@@ -44,28 +214,114 @@ export const closeBetSchema = z.object({
 
 export type CloseBetInput = z.infer<typeof closeBetSchema>;
 
+const winningOptionIdSchema = z.number().int('Winning option ID must be an integer').positive('Winning option ID must be positive');
+
 export const settleBetSchema = z.object({
-  winningOptionId: z.number().int('Winning option ID must be an integer').positive('Winning option ID must be positive'),
+  winningOptionId: winningOptionIdSchema.optional(),
+  winningOptionIds: z.array(winningOptionIdSchema).min(1, 'At least one winning option is required').optional(),
+  result: z.number().finite('Result must be a number').optional(), // Over/under and closest-guess only - winners are resolved from it
+  splitMode: z.enum(['pooled', 'dead_heat']).default('pooled'),
   hostPin: z.string().length(4, 'PIN must be exactly 4 digits').regex(/^\d{4}$/, 'PIN must contain only digits').optional()
-});
+})
+  .refine(data => data.winningOptionId !== undefined || data.winningOptionIds !== undefined || data.result !== undefined, {
+    message: 'Either winningOptionId, winningOptionIds or result is required',
+    path: ['winningOptionIds']
+  });
 
 export type SettleBetInput = z.infer<typeof settleBetSchema>;
 
+export const unsettleBetSchema = z.object({
+  hostPin: z.string().length(4, 'PIN must be exactly 4 digits').regex(/^\d{4}$/, 'PIN must contain only digits').optional(),
+  reason: z.string().max(500, 'Reason must be 500 characters or less').optional()
+});
+
+export type UnsettleBetInput = z.infer<typeof unsettleBetSchema>;
+
+export const voidBetSchema = z.object({
+  hostPin: z.string().length(4, 'PIN must be exactly 4 digits').regex(/^\d{4}$/, 'PIN must contain only digits').optional(),
+  createdBy: guestNameSchema('Creator name').optional(), // The bet's creator - not needed when the host voids
+  guestPin: guestPinSchema.optional(), // The creator's PIN, when their name is PIN-protected
+  reason: z.string().max(500, 'Reason must be 500 characters or less').optional()
+});
+
+export type VoidBetInput = z.infer<typeof voidBetSchema>;
+
 // ============================================================================
 // Wager Schemas
 // ============================================================================
 
 export const createWagerSchema = z.object({
-  userName: z.string().min(1, 'User name is required').max(50, 'User name must be 50 characters or less'),
-  optionId: z.number().int('Option ID must be an integer').positive('Option ID must be positive'),
+  userName: guestNameSchema('User name'),
+  guestPin: guestPinSchema.optional(), // Needed when the name is PIN-protected
+  optionId: z.number().int('Option ID must be an integer').positive('Option ID must be positive').optional(),
   amount: z.number()
     .int('Amount must be whole dollars (no cents)')
     .positive('Amount must be greater than 0')
-    .max(10000, 'Amount cannot exceed $10,000')
-});
+    .max(10000, 'Amount cannot exceed $10,000'),
+  guess: z.number().finite('Guess must be a number').optional() // Exact guess - optional on over/under, required on closest-guess
+})
+  .refine(data => data.optionId !== undefined || data.guess !== undefined, {
+    message: 'Either optionId or guess is required',
+    path: ['optionId']
+  });
 
 export type CreateWagerInput = z.infer<typeof createWagerSchema>;
 
+export const rebuySchema = z.object({
+  partyId: partyIdSchema.optional(),
+  joinCode: joinCodeSchema.optional(), // Instead of partyId
+  guestPin: guestPinSchema.optional() // Needed when the name is PIN-protected
+})
+  .refine(namesAParty, missingPartyMessage)
+  .refine(namesOnlyOneParty, twoPartiesMessage);
+
+export type RebuyInput = z.infer<typeof rebuySchema>;
+
+export const cancelWagerSchema = z.object({
+  userName: guestNameSchema('User name').optional(), // The wager's owner - not needed when the host cancels
+  guestPin: guestPinSchema.optional() // Needed when the owner's name is PIN-protected
+});
+
+export type CancelWagerInput = z.infer<typeof cancelWagerSchema>;
+
+// ============================================================================
+// Payment Schemas
+// ============================================================================
+
+const paymentPartySchema = z.string()
+  .min(1, 'User name is required')
+  .max(50, 'User name must be 50 characters or less')
+  .nullable(); // null = the house
+
+export const recordPaymentSchema = z.object({
+  fromUser: paymentPartySchema,
+  toUser: paymentPartySchema,
+  amount: z.number()
+    .positive('Amount must be greater than 0')
+    .max(100000, 'Amount cannot exceed $100,000'),
+  recordedBy: z.string().min(1, 'Recorder name is required').max(50, 'Recorder name must be 50 characters or less').optional(),
+  guestPin: guestPinSchema.optional(), // Needed when the recorder's name is PIN-protected
+  hostPin: z.string().length(4, 'PIN must be exactly 4 digits').regex(/^\d{4}$/, 'PIN must contain only digits').optional()
+})
+  .refine(data => data.fromUser !== null || data.toUser !== null, {
+    message: 'A payment needs at least one guest',
+    path: ['fromUser']
+  })
+  .refine(data => data.fromUser !== data.toUser, {
+    message: 'Payer and payee must be different',
+    path: ['toUser']
+  });
+
+export type RecordPaymentInput = z.infer<typeof recordPaymentSchema>;
+
+export const updatePaymentSchema = z.object({
+  userName: z.string().min(1, 'User name is required').max(50, 'User name must be 50 characters or less').optional(),
+  guestPin: guestPinSchema.optional(), // Needed when the name is PIN-protected
+  hostPin: z.string().length(4, 'PIN must be exactly 4 digits').regex(/^\d{4}$/, 'PIN must contain only digits').optional()
+});
+
+export type UpdatePaymentInput = z.infer<typeof updatePaymentSchema>;
+
 // ============================================================================
 // Host PIN Verification Schema
 // ============================================================================
@@ -76,14 +332,55 @@ export const verifyPinSchema = z.object({
 
 export type VerifyPinInput = z.infer<typeof verifyPinSchema>;
 
+// ============================================================================
+// Co-host Schemas
+// ============================================================================
+
+export const createCoHostSchema = z.object({
+  label: z.string().trim().min(1, 'Label is required').max(50, 'Label must be 50 characters or less'), // Who the code is for
+  hostPin: z.string().length(4, 'PIN must be exactly 4 digits').regex(/^\d{4}$/, 'PIN must contain only digits').optional()
+});
+
+export type CreateCoHostInput = z.infer<typeof createCoHostSchema>;
+
+export const coHostSessionSchema = z.object({
+  code: z.string().min(1, 'Co-host code is required').max(20, 'Co-host code must be 20 characters or less')
+});
+
+export type CoHostSessionInput = z.infer<typeof coHostSessionSchema>;
+
 // ============================================================================
 // Query Parameter Schemas
 // ============================================================================
 
-export const betStatusFilterSchema = z.enum(['open', 'closed', 'settled']).optional();
+export const betStatusFilterSchema = z.enum(['open', 'closed', 'settled', 'void']).optional();
 
 export type BetStatusFilter = z.infer<typeof betStatusFilterSchema>;
 
+// Which party a bet list or a guest's wagers/bankroll is for, e.g. ?partyId=3 or ?joinCode=K7P2QX
+export const partyQuerySchema = z.object({
+  partyId: z.string()
+    .regex(/^[1-9]\d*$/, 'Party ID must be a positive integer')
+    .transform(Number)
+    .optional(),
+  joinCode: joinCodeSchema.optional()
+})
+  .refine(namesAParty, missingPartyMessage)
+  .refine(namesOnlyOneParty, twoPartiesMessage);
+
+export type PartyQuery = z.infer<typeof partyQuerySchema>;
+
+// The port the app is open on, so invite links point at the same server, e.g. ?port=5173
+export const inviteQuerySchema = z.object({
+  port: z.string()
+    .regex(/^\d{1,5}$/, 'Port must be a number')
+    .transform(Number)
+    .refine(port => port >= 1 && port <= 65535, 'Port must be between 1 and 65535')
+    .optional()
+});
+
+export type InviteQuery = z.infer<typeof inviteQuerySchema>;
+
 // ============================================================================
 // Helper function to format Zod validation errors
 // ============================================================================
@@ -1,5 +1,6 @@
 import { Server } from 'socket.io';
 import type { Server as HttpServer } from 'http';
+import type { OptionStats } from '../utils/option-stats.js';
 
 export interface SocketIOServer extends Server {
   // Type-safe event emissions
@@ -31,21 +32,89 @@ export type WagerPlacedEvent = {
   id: number;
   betId: number;
   partyId: number;
+  blind: false;
   userName: string;
+  guestId: number | null;
   amount: number;
-  betOptionId: number;
+  betOptionId: number | null; // null on closest-guess bets
+  guess: number | null;
+  createdAt: string;
+  // The bet's pool breakdown after this wager, so clients can update without refetching
+  totalPool: number;
+  participantCount: number;
+  optionStats: OptionStats[];
+};
+
+// Sent instead of WagerPlacedEvent while a blind bet is open - no amounts, options or names
+export type BlindWagerPlacedEvent = {
+  id: number;
+  betId: number;
+  partyId: number;
+  blind: true;
+  totalPool: number;
+  participantCount: number;
+};
+
+export type WagerCancelledEvent = {
+  id: number;
+  betId: number;
+  partyId: number;
+  blind: false;
+  // The bet's pool breakdown without the cancelled wager
+  totalPool: number;
+  participantCount: number;
+  optionStats: OptionStats[];
+};
+
+// Sent instead of WagerCancelledEvent while a blind bet is open - only the totals
+export type BlindWagerCancelledEvent = {
+  id: number;
+  betId: number;
+  partyId: number;
+  blind: true;
+  totalPool: number;
+  participantCount: number;
 };
 
 export type SettlementCompleteEvent = {
   betId: number;
   partyId: number;
-  winningOptionId: number;
+  winningOptionId: number | null; // null when an over/under bet pushes
+  winningOptionIds: number[];
   settlements: Array<{
     userName: string;
     amount: number;
   }>;
 };
 
+export type PaymentRecordedEvent = {
+  id: number;
+  partyId: number;
+  fromUser: string | null;
+  toUser: string | null;
+  amount: number;
+  status: string;
+};
+
+export type PaymentUpdatedEvent = {
+  id: number;
+  partyId: number;
+  status: string;
+};
+
+export type GuestUpdatedEvent = {
+  id: number;
+  partyId: number;
+  name: string;
+  hasPin: boolean;
+};
+
+export type RebuyEvent = {
+  partyId: number;
+  userName: string;
+  amount: number;
+};
+
 /**
  * Initialize Socket.IO server with proper configuration
  */
@@ -105,12 +174,37 @@ export function emitBetUpdated(io: SocketIOServer, partyId: number, event: BetUp
   io.to(room).emit('bet:updated', event);
 }
 
-export function emitWagerPlaced(io: SocketIOServer, partyId: number, event: WagerPlacedEvent) {
+export function emitWagerPlaced(io: SocketIOServer, partyId: number, event: WagerPlacedEvent | BlindWagerPlacedEvent) {
   const room = `party:${partyId}`;
   io.to(room).emit('wager:placed', event);
 }
 
+export function emitWagerCancelled(io: SocketIOServer, partyId: number, event: WagerCancelledEvent | BlindWagerCancelledEvent) {
+  const room = `party:${partyId}`;
+  io.to(room).emit('wager:cancelled', event);
+}
+
 export function emitSettlementComplete(io: SocketIOServer, partyId: number, event: SettlementCompleteEvent) {
   const room = `party:${partyId}`;
   io.to(room).emit('settlement:complete', event);
 }
+
+export function emitPaymentRecorded(io: SocketIOServer, partyId: number, event: PaymentRecordedEvent) {
+  const room = `party:${partyId}`;
+  io.to(room).emit('payment:recorded', event);
+}
+
+export function emitPaymentUpdated(io: SocketIOServer, partyId: number, event: PaymentUpdatedEvent) {
+  const room = `party:${partyId}`;
+  io.to(room).emit('payment:updated', event);
+}
+
+export function emitRebuy(io: SocketIOServer, partyId: number, event: RebuyEvent) {
+  const room = `party:${partyId}`;
+  io.to(room).emit('party:rebuy', event);
+}
+
+export function emitGuestUpdated(io: SocketIOServer, partyId: number, event: GuestUpdatedEvent) {
+  const room = `party:${partyId}`;
+  io.to(room).emit('guest:updated', event);
+}